@@ -0,0 +1,9 @@
+import { AlertsManager } from '@/components/alerts/alerts-manager'
+
+export default function AlertsPage() {
+  return (
+    <div className="container mx-auto p-6">
+      <AlertsManager />
+    </div>
+  )
+}
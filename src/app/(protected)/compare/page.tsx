@@ -0,0 +1,22 @@
+import { StockComparisonWorkspace } from '@/components/stocks/stock-comparison-workspace'
+
+interface ComparePageProps {
+  searchParams: Promise<{ symbols?: string, period?: string }>
+}
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { symbols, period } = await searchParams
+
+  const initialSymbols = Array.from(new Set(
+    (symbols || '')
+      .split(',')
+      .map(symbol => symbol.trim().toUpperCase())
+      .filter(Boolean)
+  )).slice(0, 6)
+
+  return (
+    <div className="container mx-auto p-6">
+      <StockComparisonWorkspace initialSymbols={initialSymbols} initialPeriod={period || '1y'} />
+    </div>
+  )
+}
@@ -28,6 +28,7 @@ import {
   Calendar,
   FileText,
   Download,
+  Upload,
   Eye,
   EyeOff
 } from 'lucide-react'
@@ -45,6 +46,12 @@ import {
 import { Label } from '@/components/ui/label'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import Link from 'next/link'
+import { SellPositionDialog } from '@/components/portfolio/sell-position-dialog'
+import { TaxLotsPanel } from '@/components/portfolio/tax-lots-panel'
+import { PerformanceHistoryPanel } from '@/components/portfolio/performance-history-panel'
+import { BenchmarkComparisonPanel } from '@/components/portfolio/benchmark-comparison-panel'
+import { ImportTransactionsDialog } from '@/components/portfolio/import-transactions-dialog'
+import { ExportMenu } from '@/components/ui/export-menu'
 import {
   LineChart,
   Line,
@@ -94,6 +101,24 @@ interface PortfolioStats {
   bestPerformer: string
   worstPerformer: string
   riskScore: number // 0-100
+  realizedGain: number
+  realizedShortTerm: number
+  realizedLongTerm: number
+  dividendIncome: number
+  totalFees: number
+}
+
+interface Transaction {
+  id: string
+  symbol: string
+  transaction_type: 'buy' | 'sell' | 'dividend' | 'split' | 'fee'
+  quantity: number
+  price: number
+  amount: number
+  fees: number
+  split_ratio: number | null
+  notes: string | null
+  executed_at: string
 }
 
 interface MonthlyReport {
@@ -114,10 +139,13 @@ export default function PortfolioPage() {
   const [positions, setPositions] = useState<Position[]>([])
   const [portfolioStats, setPortfolioStats] = useState<PortfolioStats | null>(null)
   const [monthlyReport, setMonthlyReport] = useState<MonthlyReport | null>(null)
+  const [transactions, setTransactions] = useState<Transaction[]>([])
   const [loading, setLoading] = useState(false)
   const [showValues, setShowValues] = useState(true)
   const [selectedPosition, setSelectedPosition] = useState<Position | null>(null)
+  const [sellingPosition, setSellingPosition] = useState<Position | null>(null)
   const [isAddingPosition, setIsAddingPosition] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
   const [addPositionData, setAddPositionData] = useState({
     symbol: '',
     quantity: '',
@@ -157,21 +185,11 @@ export default function PortfolioPage() {
           const totalValue = result.data.stats?.totalValue || 1
           const allocation = (pos.totalValue / totalValue) * 100
           
-          // Determine exit signal based on score change
-          let exitSignal: 'none' | 'warning' | 'consider' | 'urgent' = 'none'
-          let exitReason = undefined
-          
-          const scoreDecline = pos.purchase_score - pos.currentScore
-          if (scoreDecline > 30) {
-            exitSignal = 'urgent'
-            exitReason = 'Score declined significantly - consider selling'
-          } else if (scoreDecline > 20) {
-            exitSignal = 'consider'
-            exitReason = 'Score showing weakness'
-          } else if (scoreDecline > 10) {
-            exitSignal = 'warning'
-            exitReason = 'Monitor closely - score declining'
-          }
+          // Exit signal comes from the nightly score drift check
+          const exitSignal: Position['exitSignal'] = pos.exit_signal || 'none'
+          const exitReason: string | undefined = exitSignal !== 'none'
+            ? pos.exit_signal_reasons?.[0]
+            : undefined
           
           return {
             id: pos.id,
@@ -186,7 +204,7 @@ export default function PortfolioPage() {
             dayGain: pos.dayChange * pos.quantity,
             dayGainPercent: pos.dayChangePercent,
             purchaseDate: new Date(pos.purchased_at),
-            purchaseScore: 0, // TODO: Use pos.purchase_score after migration
+            purchaseScore: pos.purchase_score || 0,
             currentScore: pos.currentScore || 0,
             exitSignal,
             exitReason,
@@ -229,6 +247,8 @@ export default function PortfolioPage() {
         // Generate monthly report (for now, use calculated data)
         generateMonthlyReport(transformedPositions, result.data.stats)
       }
+
+      await loadTransactions()
     } catch (error) {
       console.error('Error loading portfolio:', error)
       // Don't show error for initial load as it might just be an empty portfolio
@@ -240,6 +260,31 @@ export default function PortfolioPage() {
     }
   }
   
+  const loadTransactions = async () => {
+    try {
+      const response = await fetch('/api/portfolio/transactions')
+
+      if (!response.ok) {
+        console.error('Transactions API error:', response.status)
+        return
+      }
+
+      const result = await response.json()
+      if (result.success && result.data) {
+        setTransactions(result.data.transactions || [])
+      }
+    } catch (error) {
+      console.error('Error loading transactions:', error)
+    }
+  }
+
+  const formatTransactionType = (transaction: Transaction) => {
+    if (transaction.transaction_type === 'split') {
+      return `Split ${transaction.split_ratio}:1`
+    }
+    return transaction.transaction_type.charAt(0).toUpperCase() + transaction.transaction_type.slice(1)
+  }
+
   const calculateRiskScore = (positions: Position[]): number => {
     if (positions.length === 0) return 0
     
@@ -630,8 +675,13 @@ export default function PortfolioPage() {
         if (result.success) {
           await loadPortfolio()
         }
+      } else if (action === 'remove') {
+        const position = positions.find(p => p.id === positionId)
+        if (position) {
+          setSellingPosition(position)
+        }
       } else {
-        // For add/remove shares, we'd need to show a dialog to get quantity
+        // For add shares, we'd need to show a dialog to get quantity
         // For now, just reload
         console.log('Action not implemented yet:', action)
       }
@@ -699,6 +749,11 @@ export default function PortfolioPage() {
               {showValues ? <EyeOff className="h-4 w-4 mr-1" /> : <Eye className="h-4 w-4 mr-1" />}
               {showValues ? 'Hide' : 'Show'} Values
             </Button>
+            <Button variant="outline" onClick={() => setIsImporting(true)}>
+              <Upload className="h-4 w-4 mr-1" />
+              Import CSV
+            </Button>
+            <ExportMenu endpoint="/api/portfolio/export" disabled={positions.length === 0} />
             <Button onClick={() => setIsAddingPosition(true)}>
               <Plus className="h-4 w-4 mr-1" />
               Add Position
@@ -921,7 +976,7 @@ export default function PortfolioPage() {
                 )}
               </div>
             
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-6">
               <div>
                 <p className="text-sm text-muted-foreground">Best Performer</p>
                 <p className="text-lg font-semibold text-green-600">
@@ -936,11 +991,34 @@ export default function PortfolioPage() {
               </div>
               <div>
                 <p className="text-sm text-muted-foreground">All Time P&L</p>
-                <p className={`text-lg font-semibold ${portfolioStats.totalGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {(() => {
+                  const allTimeGain = portfolioStats.totalGain + portfolioStats.realizedGain + portfolioStats.dividendIncome
+                  return (
+                    <p className={`text-lg font-semibold ${allTimeGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {showValues 
+                        ? `${allTimeGain >= 0 ? '+' : ''}${formatCurrency(allTimeGain)}`
+                        : '••••'}
+                    </p>
+                  )
+                })()}
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Realized P&L</p>
+                <p className={`text-lg font-semibold ${portfolioStats.realizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                   {showValues 
-                    ? `${portfolioStats.totalGain >= 0 ? '+' : ''}${formatCurrency(portfolioStats.totalGain)}`
+                    ? `${portfolioStats.realizedGain >= 0 ? '+' : ''}${formatCurrency(portfolioStats.realizedGain)}`
                     : '••••'}
                 </p>
+                {showValues && (portfolioStats.realizedShortTerm !== 0 || portfolioStats.realizedLongTerm !== 0) && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(portfolioStats.realizedShortTerm)} short · {formatCurrency(portfolioStats.realizedLongTerm)} long
+                  </p>
+                )}
+                {portfolioStats.dividendIncome > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    + {showValues ? formatCurrency(portfolioStats.dividendIncome) : '••••'} dividends
+                  </p>
+                )}
               </div>
               <div>
                 <p className="text-sm text-muted-foreground">Unrealized P&L</p>
@@ -960,6 +1038,9 @@ export default function PortfolioPage() {
         <TabsList>
           <TabsTrigger value="positions">Positions</TabsTrigger>
           <TabsTrigger value="allocation">Allocation</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+          <TabsTrigger value="transactions">Transactions</TabsTrigger>
+          <TabsTrigger value="tax-lots">Tax Lots</TabsTrigger>
           <TabsTrigger value="report">Monthly Report</TabsTrigger>
         </TabsList>
 
@@ -1041,9 +1122,11 @@ export default function PortfolioPage() {
                               <Badge className={`${getScoreBgColor(position.currentScore)} text-gray-900 font-bold`}>
                                 {position.currentScore}
                               </Badge>
-                              <span className="text-xs text-muted-foreground">
-                                was {position.purchaseScore}
-                              </span>
+                              {position.purchaseScore > 0 && (
+                                <span className="text-xs text-muted-foreground">
+                                  was {position.purchaseScore}
+                                </span>
+                              )}
                             </div>
                           </td>
                           <td className="text-center p-2">
@@ -1145,7 +1228,85 @@ export default function PortfolioPage() {
           </Card>
         </TabsContent>
 
+        {/* Transactions Tab */}
+        <TabsContent value="history" className="space-y-4">
+          <PerformanceHistoryPanel showValues={showValues} />
+          <BenchmarkComparisonPanel />
+        </TabsContent>
+
+        <TabsContent value="transactions" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Transaction History</CardTitle>
+              <CardDescription>
+                Every buy, sell, dividend, split and fee your positions are built from
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {transactions.length === 0 ? (
+                <div className="text-center py-8">
+                  <Calendar className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No transactions recorded yet</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left p-2">Date</th>
+                        <th className="text-left p-2">Type</th>
+                        <th className="text-left p-2">Symbol</th>
+                        <th className="text-right p-2">Shares</th>
+                        <th className="text-right p-2">Price</th>
+                        <th className="text-right p-2">Amount</th>
+                        <th className="text-right p-2">Fees</th>
+                        <th className="text-left p-2">Notes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {transactions.map((transaction) => (
+                        <tr key={transaction.id} className="border-b hover:bg-muted/50">
+                          <td className="p-2 text-sm">
+                            {new Date(transaction.executed_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                          </td>
+                          <td className="p-2">
+                            <Badge variant="outline">{formatTransactionType(transaction)}</Badge>
+                          </td>
+                          <td className="p-2 font-semibold">{transaction.symbol}</td>
+                          <td className="text-right p-2">
+                            {transaction.transaction_type === 'buy' || transaction.transaction_type === 'sell'
+                              ? transaction.quantity
+                              : '—'}
+                          </td>
+                          <td className="text-right p-2">
+                            {transaction.transaction_type === 'buy' || transaction.transaction_type === 'sell'
+                              ? (showValues ? formatCurrency(transaction.price) : '•••')
+                              : '—'}
+                          </td>
+                          <td className="text-right p-2">
+                            {transaction.transaction_type === 'split'
+                              ? '—'
+                              : (showValues ? formatCurrency(transaction.amount) : '••••')}
+                          </td>
+                          <td className="text-right p-2">
+                            {transaction.fees > 0 ? formatCurrency(transaction.fees) : '—'}
+                          </td>
+                          <td className="p-2 text-sm text-muted-foreground">{transaction.notes}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* Monthly Report Tab */}
+        <TabsContent value="tax-lots" className="space-y-4">
+          <TaxLotsPanel showValues={showValues} />
+        </TabsContent>
+
         <TabsContent value="report" className="space-y-4">
           {monthlyReport && (
             <Card>
@@ -1365,6 +1526,20 @@ export default function PortfolioPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Sell Position Dialog */}
+      <SellPositionDialog
+        position={sellingPosition}
+        onOpenChange={(open) => !open && setSellingPosition(null)}
+        onSold={loadPortfolio}
+      />
+
+      {/* Import Transactions Dialog */}
+      <ImportTransactionsDialog
+        open={isImporting}
+        onOpenChange={setIsImporting}
+        onImported={loadPortfolio}
+      />
     </div>
   )
 }
@@ -0,0 +1,18 @@
+import { StockScreener } from '@/components/stocks/stock-screener'
+
+interface ScreenerPageProps {
+  searchParams: Promise<{ q?: string, sort?: string, order?: string }>
+}
+
+export default async function ScreenerPage({ searchParams }: ScreenerPageProps) {
+  const { q, sort, order } = await searchParams
+
+  return (
+    <div className="container mx-auto p-6">
+      <StockScreener
+        initialQuery={q || ''}
+        initialSort={{ field: sort || 'score', direction: order === 'asc' ? 'asc' : 'desc' }}
+      />
+    </div>
+  )
+}
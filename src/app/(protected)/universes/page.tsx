@@ -0,0 +1,9 @@
+import { UniverseQualityDashboard } from '@/components/dashboard/universe-quality-dashboard'
+
+export default function UniversesPage() {
+  return (
+    <div className="container mx-auto p-6">
+      <UniverseQualityDashboard />
+    </div>
+  )
+}
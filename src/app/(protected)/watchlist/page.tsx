@@ -30,9 +30,13 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog'
-import { Label } from '@/components/ui/label'
 import { InlineLoadingSpinner } from '@/components/ui/loading-spinner'
 import { WatchlistItemShimmer } from '@/components/ui/shimmer'
+import { ExportMenu } from '@/components/ui/export-menu'
+import { ScoringProfileSelector } from '@/components/dashboard/scoring-profile-selector'
+import { AlertRuleBuilder } from '@/components/watchlist/alert-rule-builder'
+import { AlertRuleEngine, describeCondition } from '@/lib/services/alert-rules'
+import type { AlertConditionResult, AlertEvaluation, AlertRule, AlertRuleGroup, AlertRuleState } from '@/lib/services/alert-rules'
 import Link from 'next/link'
 
 interface WatchlistItem {
@@ -47,21 +51,32 @@ interface WatchlistItem {
   targetPrice?: number
   alertPrice?: number
   reason: string
-  waitingFor: {
-    priceTarget: boolean
-    betterScore: boolean
-  }
   progress: number // 0-100 how close to trigger
   recommendation: string
   addedDate: Date
-  triggerConditions: {
-    minScore?: number
-    maxPrice?: number
-    minPullback?: number
-    minTimingScore?: number
+  alertRules: AlertRuleGroup
+  lastCheck: AlertEvaluation | null // Result of the last alert check, if made since the rules changed
+}
+
+/**
+ * Alert rules from the stored buy triggers, and the last check's result if it is newer than the item
+ */
+const readAlertRules = (item: any): Pick<WatchlistItem, 'alertRules' | 'lastCheck'> => {
+  const state = item.trigger_state as AlertRuleState | null
+  return {
+    alertRules: AlertRuleEngine.fromBuyTriggers(item.buy_triggers, item.target_price).rules,
+    lastCheck: state?.lastResult && item.updated_at && new Date(state.evaluatedAt) >= new Date(item.updated_at) ? state.lastResult : null,
   }
 }
 
+/**
+ * Rule descriptions without results, for items that haven't been checked yet
+ */
+const listConditions = (group: AlertRuleGroup, depth = 0): Array<Omit<AlertConditionResult, 'met'> & { met: boolean | null }> =>
+  group.conditions.flatMap((rule: AlertRule) => rule.kind === 'group'
+    ? [{ description: rule.operator === 'AND' ? 'All of' : 'Any of', depth, met: null, current: null }, ...listConditions(rule, depth + 1)]
+    : [{ description: describeCondition(rule), depth, met: null, current: null }])
+
 interface StockSuggestion {
   symbol: string
   name: string
@@ -82,11 +97,8 @@ export default function WatchlistPage() {
   const [addingSymbol, setAddingSymbol] = useState<string | null>(null)
   const [newlyAddedItems, setNewlyAddedItems] = useState<Set<string>>(new Set())
   const [successMessage, setSuccessMessage] = useState<string | null>(null)
-  const [alertSettings, setAlertSettings] = useState<Record<string, {
-    targetPrice: string
-    minScore: string
-    minTimingScore: string
-  }>>({})
+  const [alertSettings, setAlertSettings] = useState<Record<string, AlertRuleGroup>>({})
+  const [alertErrors, setAlertErrors] = useState<Record<string, string | null>>({})
   const [savingAlerts, setSavingAlerts] = useState<Set<string>>(new Set())
 
   useEffect(() => {
@@ -225,34 +237,22 @@ export default function WatchlistPage() {
           targetPrice: item.target_price,
           alertPrice: item.target_price,
           reason: item.notes || '',
-          waitingFor: {
-            priceTarget: item.target_price ? item.currentPrice > item.target_price : false,
-            betterScore: item.buy_triggers?.minScore ? item.score < item.buy_triggers.minScore : false
-          },
           progress: item.target_price 
             ? Math.max(0, Math.min(100, ((item.target_price - item.currentPrice) / (item.target_price - item.currentPrice * 1.2)) * 100))
             : 0,
-          recommendation: item.score >= 70 ? 'buy' : item.score >= 50 ? 'hold' : 'sell',
+          recommendation: item.recommendation || (item.score >= 70 ? 'buy' : item.score >= 50 ? 'hold' : 'sell'),
           addedDate: new Date(item.created_at),
-          triggerConditions: item.buy_triggers || {}
+          ...readAlertRules(item)
         }))
         
         setWatchlist(transformedWatchlist)
         
         // Initialize alert settings for each item
-        const initialAlertSettings: Record<string, {
-          targetPrice: string
-          minScore: string
-          minTimingScore: string
-        }> = {}
+        const initialAlertSettings: Record<string, AlertRuleGroup> = {}
         
         transformedWatchlist.forEach(item => {
           if (item.id) {
-            initialAlertSettings[item.id] = {
-              targetPrice: item.targetPrice?.toString() || '',
-              minScore: item.triggerConditions.minScore?.toString() || '70',
-              minTimingScore: item.triggerConditions.minTimingScore?.toString() || '50'
-            }
+            initialAlertSettings[item.id] = item.alertRules
           }
         })
         
@@ -308,16 +308,12 @@ export default function WatchlistPage() {
           targetPrice: data.data.target_price,
           alertPrice: data.data.target_price,
           reason: data.data.notes || '',
-          waitingFor: {
-            priceTarget: data.data.target_price ? (data.data.currentPrice || 0) > data.data.target_price : false,
-            betterScore: data.data.buy_triggers?.minScore ? (data.data.score || 0) < data.data.buy_triggers.minScore : false
-          },
           progress: data.data.target_price 
             ? Math.max(0, Math.min(100, ((data.data.target_price - (data.data.currentPrice || 0)) / (data.data.target_price - (data.data.currentPrice || 0) * 1.2)) * 100))
             : 0,
-          recommendation: (data.data.score || 0) >= 70 ? 'buy' : (data.data.score || 0) >= 50 ? 'hold' : 'sell',
+          recommendation: data.data.recommendation || ((data.data.score || 0) >= 70 ? 'buy' : (data.data.score || 0) >= 50 ? 'hold' : 'sell'),
           addedDate: new Date(data.data.created_at || new Date()),
-          triggerConditions: data.data.buy_triggers || {}
+          ...readAlertRules(data.data)
         }
         
         // Add to watchlist immediately (optimistic update) - add to top
@@ -400,30 +396,25 @@ export default function WatchlistPage() {
   }
 
 
-  const getWaitingReasons = (item: WatchlistItem) => {
-    const reasons = []
-    if (item.waitingFor.priceTarget) reasons.push('Price Target')
-    if (item.waitingFor.betterScore) reasons.push('Better Score')
-    if (item.triggerConditions.minTimingScore && item.timingScore !== undefined && 
-        Math.round((item.timingScore/40)*100) < item.triggerConditions.minTimingScore) {
-      reasons.push('Better Timing')
-    }
-    return reasons
-  }
-
   const handleSaveAlerts = async (itemId: string, symbol: string) => {
-    if (!itemId || !alertSettings[itemId]) return
+    const item = watchlist.find(i => i.id === itemId)
+    const rules = alertSettings[itemId] || item?.alertRules
+    if (!itemId || !rules) return
     
     setSavingAlerts(prev => new Set([...prev, itemId]))
+    setAlertErrors(prev => ({ ...prev, [itemId]: null }))
     
     try {
-      const settings = alertSettings[itemId]
+      // Keep the target price in step with a top-level "price is below" condition
+      const priceTarget = rules.operator === 'AND'
+        ? rules.conditions.find(rule => rule.kind === 'condition' && rule.type === 'price_below')
+        : undefined
       const payload = {
-        target_price: settings.targetPrice ? parseFloat(settings.targetPrice) : null,
+        target_price: priceTarget?.kind === 'condition' ? priceTarget.value ?? null : null,
         buy_triggers: {
-          minScore: settings.minScore ? parseInt(settings.minScore) : null,
-          minTimingScore: settings.minTimingScore ? parseInt(settings.minTimingScore) : null,
-          enabled: true
+          version: 2,
+          enabled: true,
+          rules
         }
       }
       
@@ -442,17 +433,14 @@ export default function WatchlistPage() {
       const data = await response.json()
       
       if (data.success) {
-        // Update local watchlist with new trigger conditions
+        // Update local watchlist with the saved rules; the next alert check fills in their status
         setWatchlist(prev => prev.map(item => {
           if (item.id === itemId) {
             return {
               ...item,
               targetPrice: payload.target_price || undefined,
-              triggerConditions: {
-                ...item.triggerConditions,
-                minScore: payload.buy_triggers.minScore || undefined,
-                minTimingScore: payload.buy_triggers.minTimingScore || undefined
-              }
+              alertRules: data.data.buy_triggers?.rules || rules,
+              lastCheck: null
             }
           }
           return item
@@ -463,7 +451,7 @@ export default function WatchlistPage() {
         setTimeout(() => setSuccessMessage(null), 3000)
       } else {
         console.error('Failed to save alert settings:', data.error)
-        // You could show an error toast here
+        setAlertErrors(prev => ({ ...prev, [itemId]: data.error || 'Failed to save alert settings' }))
       }
     } catch (error) {
       console.error('Error saving alert settings:', error)
@@ -499,11 +487,18 @@ export default function WatchlistPage() {
       )}
       
       {/* Header */}
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2">Smart Watchlist</h1>
-        <p className="text-muted-foreground">
-          Track stocks and get notified when the perfect buying opportunity arrives
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Smart Watchlist</h1>
+          <p className="text-muted-foreground">
+            Track stocks and get notified when the perfect buying opportunity arrives
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {/* Scores and ordering follow the selected profile */}
+          <ScoringProfileSelector onProfileChange={() => loadWatchlist()} />
+          <ExportMenu endpoint="/api/watchlist/export" disabled={watchlist.length === 0} />
+        </div>
       </div>
 
       {/* Perfect Storm Alert */}
@@ -768,56 +763,37 @@ export default function WatchlistPage() {
                 <div className="bg-blue-50 dark:bg-blue-950/20 rounded-lg p-4 mb-4">
                   <h4 className="text-sm font-semibold mb-3 flex items-center gap-2">
                     <AlertCircle className="h-4 w-4 text-blue-600" />
-                    Alert When ALL Conditions Met:
+                    Alert When {item.alertRules.operator === 'AND' ? 'ALL' : 'ANY'} Conditions Met:
                   </h4>
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between text-sm">
-                      <div className="flex items-center gap-2">
-                        {item.waitingFor.priceTarget ? (
-                          <Clock className="h-4 w-4 text-yellow-500" />
-                        ) : (
-                          <CheckCircle className="h-4 w-4 text-green-500" />
-                        )}
-                        <span className="text-muted-foreground">Price drops below</span>
-                      </div>
-                      <span className="font-medium">
-                        {item.targetPrice ? formatCurrency(item.targetPrice) : 'Any price ✓'}
-                      </span>
-                    </div>
-
-                    <div className="flex items-center justify-between text-sm">
-                      <div className="flex items-center gap-2">
-                        {item.waitingFor.betterScore ? (
-                          <Clock className="h-4 w-4 text-yellow-500" />
-                        ) : (
-                          <CheckCircle className="h-4 w-4 text-green-500" />
-                        )}
-                        <span className="text-muted-foreground">Business Quality reaches</span>
-                      </div>
-                      <span className="font-medium">
-                        {item.triggerConditions.minScore ? `${item.triggerConditions.minScore}+ (now: ${item.score})` : 'Any score ✓'}
-                      </span>
-                    </div>
-
-                    <div className="flex items-center justify-between text-sm">
-                      <div className="flex items-center gap-2">
-                        {item.triggerConditions.minTimingScore && item.timingScore !== undefined && 
-                         Math.round((item.timingScore/40)*100) < item.triggerConditions.minTimingScore ? (
-                          <Clock className="h-4 w-4 text-yellow-500" />
-                        ) : (
-                          <CheckCircle className="h-4 w-4 text-green-500" />
-                        )}
-                        <span className="text-muted-foreground">Time to Buy reaches</span>
-                      </div>
-                      <span className="font-medium">
-                        {item.triggerConditions.minTimingScore 
-                          ? `${item.triggerConditions.minTimingScore}+ (now: ${item.timingScore !== undefined ? Math.round((item.timingScore/40)*100) : 'N/A'})`
-                          : 'Any timing ✓'}
-                      </span>
+                  {item.alertRules.conditions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No alert rules set</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {(item.lastCheck?.conditions || listConditions(item.alertRules)).map((condition, index) => (
+                        <div
+                          key={index}
+                          className="flex items-center justify-between text-sm"
+                          style={{ paddingLeft: `${condition.depth * 1.25}rem` }}
+                        >
+                          <div className="flex items-center gap-2">
+                            {condition.met === null ? (
+                              <Clock className="h-4 w-4 text-muted-foreground" />
+                            ) : condition.met ? (
+                              <CheckCircle className="h-4 w-4 text-green-500" />
+                            ) : (
+                              <Clock className="h-4 w-4 text-yellow-500" />
+                            )}
+                            <span className="text-muted-foreground">{condition.description}</span>
+                          </div>
+                          {condition.current && (
+                            <span className="font-medium">now: {condition.current}</span>
+                          )}
+                        </div>
+                      ))}
                     </div>
-                  </div>
+                  )}
                   
-                  {getWaitingReasons(item).length === 0 && (
+                  {item.lastCheck?.met && (
                     <div className="mt-3 pt-3 border-t border-blue-200 dark:border-blue-800">
                       <div className="flex items-center gap-2 text-green-600 font-medium">
                         <CheckCircle className="h-5 w-5" />
@@ -840,7 +816,7 @@ export default function WatchlistPage() {
                           Set Alerts
                         </Button>
                       </DialogTrigger>
-                      <DialogContent>
+                      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
                         <DialogHeader>
                           <DialogTitle>Configure Buy Alerts for {item.symbol}</DialogTitle>
                           <DialogDescription>
@@ -848,88 +824,19 @@ export default function WatchlistPage() {
                           </DialogDescription>
                         </DialogHeader>
                         <div className="space-y-4 py-4">
-                          <div>
-                            <Label>Target Price (Buy below)</Label>
-                            <Input 
-                              type="number" 
-                              placeholder={item.targetPrice?.toString() || 'Enter price'}
-                              value={(item.id && alertSettings[item.id]?.targetPrice) || ''}
-                              onChange={(e) => {
-                                const itemId = item.id
-                                if (itemId) {
-                                  setAlertSettings(prev => ({
-                                    ...prev,
-                                    [itemId]: {
-                                      ...(prev[itemId] || { targetPrice: '', minScore: '70', minTimingScore: '50' }),
-                                      targetPrice: e.target.value
-                                    }
-                                  }))
-                                }
-                              }}
-                            />
-                          </div>
-                          <div>
-                            <Label>Minimum Business Quality Score</Label>
-                            <Input 
-                              type="number" 
-                              placeholder={item.triggerConditions.minScore?.toString() || '70'}
-                              value={(item.id && alertSettings[item.id]?.minScore) || ''}
-                              onChange={(e) => {
-                                const itemId = item.id
-                                if (itemId) {
-                                  setAlertSettings(prev => ({
-                                    ...prev,
-                                    [itemId]: {
-                                      ...(prev[itemId] || { targetPrice: '', minScore: '70', minTimingScore: '50' }),
-                                      minScore: e.target.value
-                                    }
-                                  }))
-                                }
-                              }}
-                              min="0"
-                              max="100"
-                            />
-                            <p className="text-xs text-muted-foreground mt-1">
-                              Only buy high-quality businesses (70+ recommended)
-                            </p>
-                          </div>
-                          <div>
-                            <Label>Minimum Time to Buy Score</Label>
-                            <Input 
-                              type="number" 
-                              placeholder={item.triggerConditions.minTimingScore?.toString() || '50'}
-                              value={(item.id && alertSettings[item.id]?.minTimingScore) || ''}
-                              onChange={(e) => {
-                                const itemId = item.id
-                                if (itemId) {
-                                  setAlertSettings(prev => ({
-                                    ...prev,
-                                    [itemId]: {
-                                      ...(prev[itemId] || { targetPrice: '', minScore: '70', minTimingScore: '50' }),
-                                      minTimingScore: e.target.value
-                                    }
-                                  }))
-                                }
-                              }}
-                              min="0"
-                              max="100"
-                            />
-                            <p className="text-xs text-muted-foreground mt-1">
-                              Wait for favorable valuation and technical conditions (50+ recommended)
-                            </p>
-                            {item.timingScore !== undefined && (
-                              <div className="flex items-center gap-2 text-xs mt-2">
-                                <span className="text-muted-foreground">Current:</span>
-                                <span className={`font-semibold ${
-                                  item.timingScore >= 25 ? 'text-green-600' :
-                                  item.timingScore >= 15 ? 'text-yellow-600' :
-                                  'text-gray-600'
-                                }`}>
-                                  {Math.round((item.timingScore/40)*100)}%
-                                </span>
-                              </div>
-                            )}
-                          </div>
+                          <AlertRuleBuilder
+                            value={(item.id && alertSettings[item.id]) || item.alertRules}
+                            currentPrice={item.price}
+                            onChange={(rules) => {
+                              const itemId = item.id
+                              if (itemId) {
+                                setAlertSettings(prev => ({ ...prev, [itemId]: rules }))
+                              }
+                            }}
+                          />
+                          {item.id && alertErrors[item.id] && (
+                            <p className="text-sm text-red-600">{alertErrors[item.id]}</p>
+                          )}
                         </div>
                         <DialogFooter>
                           <Button 
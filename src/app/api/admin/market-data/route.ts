@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { MarketDataService } from '@/lib/services/market-data'
+
+// GET /api/admin/market-data - Provider health, circuit state and rate budgets
+export async function GET() {
+  try {
+    const providers = await MarketDataService.getHealth()
+
+    return NextResponse.json({
+      providers,
+      checkedAt: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Error fetching market data provider health:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch provider health' },
+      { status: 500 }
+    )
+  }
+}
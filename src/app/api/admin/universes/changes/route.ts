@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ConstituentHistoryService, BUILT_IN_UNIVERSE_MAP, isValidSymbol, normalizeSymbol } from '@/lib/services/universes'
+import { headers } from 'next/headers'
+
+// POST /api/admin/universes/changes - Backfill an index change from before tracking began
+export async function POST(request: NextRequest) {
+  try {
+    // Check authorization
+    const headersList = await headers()
+    const authHeader = headersList.get('authorization')
+
+    const adminSecret = process.env.ADMIN_SECRET
+    if (adminSecret && authHeader !== `Bearer ${adminSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { universeId, symbol, companyName, changeType, effectiveDate } = await request.json()
+    const normalized = typeof symbol === 'string' ? normalizeSymbol(symbol) : ''
+
+    const validDate = typeof effectiveDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(effectiveDate) && !isNaN(Date.parse(effectiveDate))
+
+    if (!BUILT_IN_UNIVERSE_MAP.has(universeId) || !isValidSymbol(normalized) || !['added', 'removed'].includes(changeType) || !validDate) {
+      return NextResponse.json(
+        { error: 'Provide an index universeId, a symbol, changeType (added or removed) and a YYYY-MM-DD effectiveDate' },
+        { status: 400 }
+      )
+    }
+
+    const change = await ConstituentHistoryService.recordManualChange(universeId, {
+      symbol: normalized,
+      companyName: typeof companyName === 'string' ? companyName : null,
+      changeType,
+      effectiveDate,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: change,
+      message: change ? 'Change recorded' : 'Change was already recorded'
+    })
+  } catch (error: any) {
+    console.error('Admin constituent change error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to record constituent change',
+        message: error.message || 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UniverseService, BUILT_IN_UNIVERSE_MAP } from '@/lib/services/universes'
+import { StockScreener } from '@/lib/services/screener'
+import { headers } from 'next/headers'
+
+// Admin endpoints for managing index universes
+
+async function isAuthorized(): Promise<boolean> {
+  const headersList = await headers()
+  const authHeader = headersList.get('authorization')
+
+  // Simple auth check - in production use proper admin authentication
+  const adminSecret = process.env.ADMIN_SECRET
+  return !adminSecret || authHeader === `Bearer ${adminSecret}`
+}
+
+// POST /api/admin/universes - Re-download an index universe's constituents
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await isAuthorized())) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { universeId } = await request.json()
+
+    if (!universeId || !BUILT_IN_UNIVERSE_MAP.has(universeId)) {
+      return NextResponse.json(
+        { error: `Unknown index universe. Use one of: ${Array.from(BUILT_IN_UNIVERSE_MAP.keys()).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    console.log(`Admin: Refreshing ${universeId} constituents`)
+
+    const constituents = await UniverseService.refreshUniverse(universeId)
+    StockScreener.clearCache()
+
+    return NextResponse.json({
+      success: true,
+      message: `${BUILT_IN_UNIVERSE_MAP.get(universeId)!.name} refreshed successfully`,
+      data: {
+        count: constituents.length,
+        symbols: constituents.map(c => c.symbol).slice(0, 10), // First 10 as preview
+        lastUpdated: new Date().toISOString()
+      }
+    })
+  } catch (error: any) {
+    console.error('Admin universe refresh error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to refresh universe',
+        message: error.message || 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/admin/universes?id= - Enable or disable an index universe, or change its schedule
+export async function PUT(request: NextRequest) {
+  try {
+    if (!(await isAuthorized())) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const universeId = request.nextUrl.searchParams.get('id')
+
+    if (!universeId) {
+      return NextResponse.json(
+        { error: 'Universe ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { enabled, refreshIntervalHours, scoreIntervalHours } = await request.json()
+
+    let universe
+    try {
+      universe = await UniverseService.updateIndexUniverse(universeId, {
+        enabled,
+        refreshIntervalHours,
+        scoreIntervalHours,
+      })
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (!universe) {
+      return NextResponse.json(
+        { error: 'Index universe not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: universe
+    })
+  } catch (error: any) {
+    console.error('Admin universe update error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update universe',
+        message: error.message || 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { AlertService } from '@/lib/services/alert.service'
+
+/**
+ * An alert's evaluation audit, or its trigger history with ?triggered=true
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const triggeredOnly = searchParams.get('triggered') === 'true'
+    const limit = parseInt(searchParams.get('limit') || '50')
+
+    const evaluations = await AlertService.getEvaluations(supabase, user.id, id, {
+      triggeredOnly,
+      limit: isNaN(limit) ? 50 : limit,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: evaluations,
+      count: evaluations.length,
+    })
+  } catch (error: any) {
+    console.error('Error fetching alert evaluations:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch alert evaluations', message: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,273 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { AlertService, MAX_ALERTS } from '@/lib/services/alert.service'
+import { normalizeSymbol } from '@/lib/services/universes'
+
+const LIMIT_REACHED = `You can have at most ${MAX_ALERTS} alerts`
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const symbol = searchParams.get('symbol')
+
+    const alerts = await AlertService.getAlerts(supabase, user.id, symbol ? normalizeSymbol(symbol) : undefined)
+
+    return NextResponse.json({
+      success: true,
+      data: alerts,
+      count: alerts.length,
+    })
+  } catch (error: any) {
+    console.error('Error fetching alerts:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch alerts', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    let input
+    try {
+      input = AlertService.validateAlert(body)
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    const alert = await AlertService.createAlert(supabase, user.id, input)
+
+    return NextResponse.json({
+      success: true,
+      data: alert,
+    })
+  } catch (error: any) {
+    console.error('Error creating alert:', error)
+
+    if (error.message === LIMIT_REACHED) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create alert', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const alertId = searchParams.get('id')
+
+    if (!alertId) {
+      return NextResponse.json(
+        { error: 'Alert ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+
+    let input
+    try {
+      input = AlertService.validateAlert(body)
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    const alert = await AlertService.updateAlert(supabase, user.id, alertId, input)
+
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: alert,
+    })
+  } catch (error: any) {
+    console.error('Error updating alert:', error)
+    return NextResponse.json(
+      { error: 'Failed to update alert', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Enable, disable or snooze an alert.
+ * Body: { enabled: boolean } or { snoozeDays: number | null } or { snoozedUntil: string | null }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const alertId = searchParams.get('id')
+
+    if (!alertId) {
+      return NextResponse.json(
+        { error: 'Alert ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+
+    let alert
+    if (typeof body.enabled === 'boolean') {
+      alert = await AlertService.setEnabled(supabase, user.id, alertId, body.enabled)
+    } else if ('snoozeDays' in body || 'snoozedUntil' in body) {
+      let until: Date | null = null
+      if (typeof body.snoozeDays === 'number') {
+        if (body.snoozeDays <= 0 || body.snoozeDays > 365) {
+          return NextResponse.json(
+            { error: 'Snooze must be between 1 and 365 days' },
+            { status: 400 }
+          )
+        }
+        until = new Date(Date.now() + body.snoozeDays * DAY_MS)
+      } else if (body.snoozedUntil) {
+        until = new Date(body.snoozedUntil)
+        if (isNaN(until.getTime()) || until.getTime() <= Date.now()) {
+          return NextResponse.json(
+            { error: 'snoozedUntil must be a future date' },
+            { status: 400 }
+          )
+        }
+      }
+      alert = await AlertService.snoozeAlert(supabase, user.id, alertId, until)
+    } else {
+      return NextResponse.json(
+        { error: 'Provide enabled, snoozeDays or snoozedUntil' },
+        { status: 400 }
+      )
+    }
+
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: alert,
+    })
+  } catch (error: any) {
+    console.error('Error updating alert:', error)
+    return NextResponse.json(
+      { error: 'Failed to update alert', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const alertId = searchParams.get('id')
+
+    if (!alertId) {
+      return NextResponse.json(
+        { error: 'Alert ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await AlertService.deleteAlert(supabase, user.id, alertId)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Alert deleted',
+    })
+  } catch (error: any) {
+    console.error('Error deleting alert:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete alert', message: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { BacktestService } from '@/lib/services/backtest.service'
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    let config
+    try {
+      config = BacktestService.normalizeConfig(body)
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    const result = await BacktestService.run(config)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    })
+  } catch (error: any) {
+    console.error('Error running backtest:', error)
+    return NextResponse.json(
+      { error: 'Failed to run backtest', message: error.message },
+      { status: 500 }
+    )
+  }
+}
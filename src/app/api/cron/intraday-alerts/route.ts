@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { IntradayAlertService } from '@/lib/services/intraday-alert.service'
+import { headers } from 'next/headers'
+
+// This endpoint should be called by a cron job every minute during market hours.
+// Each run polls prices for price-only alerts every 15 seconds for up to 45 seconds,
+// so a price target hit mid-session is reported within a minute. A long-running
+// process can use intradayAlertService.start() or attach() instead.
+
+const RUN_MS = 45 * 1000
+const POLL_INTERVAL_MS = 15 * 1000
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is authorized
+    const headersList = await headers()
+    const authHeader = headersList.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+    
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+    
+    const startTime = Date.now()
+    const evaluator = new IntradayAlertService()
+    let polls = 0
+    let updates = 0
+    let triggered = 0
+    
+    while (true) {
+      const result = await evaluator.pollOnce()
+      
+      if (!result.marketOpen) {
+        return NextResponse.json({
+          success: true,
+          message: 'Market is closed, intraday alert check skipped',
+          timestamp: new Date().toISOString()
+        })
+      }
+      
+      polls++
+      updates += result.updates
+      triggered += result.triggered
+      
+      if (result.symbols === 0 || Date.now() - startTime + POLL_INTERVAL_MS > RUN_MS) break
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+    }
+    
+    // Keep crossing state for the next run
+    await evaluator.flushState()
+    
+    const duration = Date.now() - startTime
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Intraday alert check completed',
+      polls,
+      updates,
+      triggered,
+      duration: `${duration}ms`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Intraday alert cron error:', error)
+    
+    return NextResponse.json(
+      {
+        error: 'Failed to check intraday alerts',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
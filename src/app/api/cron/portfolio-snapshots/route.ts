@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PortfolioPerformanceService } from '@/lib/services/portfolio-performance.service'
+import { headers } from 'next/headers'
+
+// This endpoint should be called by a cron job once a day after the US market
+// closes (e.g. 5 PM EST) to record each portfolio's end-of-day value
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is authorized
+    const headersList = await headers()
+    const authHeader = headersList.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+    
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+    
+    console.log('📸 Starting portfolio snapshot job...')
+    const startTime = Date.now()
+    
+    const result = await PortfolioPerformanceService.captureAllSnapshots()
+    
+    const duration = Date.now() - startTime
+    
+    if (result.failed > 0) {
+      console.error(`❌ ${result.failed} portfolio snapshots failed:`, result.errors)
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Portfolio snapshots completed',
+      processed: result.processed,
+      failed: result.failed,
+      duration: `${duration}ms`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Portfolio snapshot cron error:', error)
+    
+    return NextResponse.json(
+      {
+        error: 'Failed to capture portfolio snapshots',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
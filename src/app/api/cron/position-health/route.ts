@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PositionHealthService } from '@/lib/services/position-health.service'
+import { headers } from 'next/headers'
+
+// This endpoint should be called by a cron job once a day after scores are
+// refreshed to flag positions whose score has drifted since purchase
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is authorized
+    const headersList = await headers()
+    const authHeader = headersList.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+    
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+    
+    console.log('🩺 Starting position health check...')
+    const startTime = Date.now()
+    
+    const result = await PositionHealthService.checkAllPositions()
+    
+    const duration = Date.now() - startTime
+    
+    if (result.failed > 0) {
+      console.error(`❌ ${result.failed} position health checks failed:`, result.errors)
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Position health check completed',
+      processed: result.processed,
+      flagged: result.flagged,
+      notified: result.notified,
+      failed: result.failed,
+      duration: `${duration}ms`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Position health cron error:', error)
+    
+    return NextResponse.json(
+      {
+        error: 'Failed to check position health',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SavedScreenService } from '@/lib/services/saved-screen.service'
+import { headers } from 'next/headers'
+
+// This endpoint runs every saved screen with notifications on and notifies
+// users of stocks that entered or left them. The nightly score update runs it
+// automatically; call it directly to re-run after a manual recalculation.
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is authorized
+    const headersList = await headers()
+    const authHeader = headersList.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+    
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+    
+    console.log('🔎 Starting saved screen check...')
+    const startTime = Date.now()
+    
+    const result = await SavedScreenService.checkAllScreens()
+    
+    const duration = Date.now() - startTime
+    
+    if (result.failed > 0) {
+      console.error(`❌ ${result.failed} saved screens failed:`, result.errors)
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Saved screen check completed',
+      processed: result.processed,
+      notified: result.notified,
+      failed: result.failed,
+      duration: `${duration}ms`,
+      timestamp: new Date().toISOString()
+    })
+    
+  } catch (error) {
+    console.error('Saved screen cron error:', error)
+    
+    return NextResponse.json(
+      {
+        error: 'Failed to check saved screens',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
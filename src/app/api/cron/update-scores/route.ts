@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { BackgroundScoreCalculator } from '@/lib/services/background-score-calculator'
 import { AlertCheckerService } from '@/lib/services/alert-checker.service'
+import { SavedScreenService } from '@/lib/services/saved-screen.service'
 import { headers } from 'next/headers'
 
 // This endpoint is designed to be called by a cron job service (e.g., Vercel Cron, GitHub Actions, etc.)
-// It should run daily at 2 AM EST to update all S&P 500 stock scores
+// It should run daily at 2 AM EST to update scores for every enabled stock universe
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,10 +22,10 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    console.log('Starting scheduled S&P 500 score update')
+    console.log('Starting scheduled score update')
     
     // Start the calculation in the background (don't await)
-    BackgroundScoreCalculator.calculateAllSP500Scores()
+    BackgroundScoreCalculator.calculateAllScores()
       .then(async () => {
         console.log('✅ Background score calculation completed successfully')
         
@@ -36,6 +37,15 @@ export async function POST(request: NextRequest) {
         } catch (error) {
           console.error('❌ Alert check failed:', error)
         }
+        
+        // Then tell users which stocks entered or left their saved screens
+        console.log('🔎 Checking saved screens for new matches...')
+        try {
+          const screens = await SavedScreenService.checkAllScreens()
+          console.log(`✅ Saved screens checked: ${screens.processed} run, ${screens.notified} notified, ${screens.failed} failed`)
+        } catch (error) {
+          console.error('❌ Saved screen check failed:', error)
+        }
       })
       .catch((error) => {
         console.error('❌ Background score calculation failed:', error)
@@ -44,7 +54,7 @@ export async function POST(request: NextRequest) {
     // Return immediately
     return NextResponse.json({
       success: true,
-      message: 'S&P 500 score calculation started in background',
+      message: 'Score calculation started in background',
       note: 'Check server logs for progress',
       timestamp: new Date().toISOString()
     })
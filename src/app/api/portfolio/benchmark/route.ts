@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  PortfolioPerformanceService,
+  PERFORMANCE_WINDOWS,
+  PerformanceWindow,
+} from '@/lib/services/portfolio-performance.service'
+import {
+  PortfolioBenchmarkService,
+  BENCHMARK_PRESETS,
+  DEFAULT_BENCHMARK,
+} from '@/lib/services/portfolio-benchmark.service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const symbol = (searchParams.get('symbol') || DEFAULT_BENCHMARK).toUpperCase().trim()
+    const window = (searchParams.get('window')?.toUpperCase() || '1Y') as PerformanceWindow
+
+    if (!PERFORMANCE_WINDOWS.includes(window)) {
+      return NextResponse.json(
+        { error: `Window must be one of: ${PERFORMANCE_WINDOWS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!/^[A-Z0-9.^-]{1,10}$/.test(symbol)) {
+      return NextResponse.json(
+        { error: 'Invalid benchmark symbol' },
+        { status: 400 }
+      )
+    }
+
+    const history = await PortfolioPerformanceService.getPerformanceHistory(supabase, user.id, window)
+    const comparison = await PortfolioBenchmarkService.compare(history.series, symbol)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...comparison,
+        window,
+        presets: BENCHMARK_PRESETS,
+      },
+      count: comparison.series.length,
+    })
+  } catch (error: any) {
+    console.error('Error comparing portfolio to benchmark:', error)
+    return NextResponse.json(
+      { error: 'Failed to compare portfolio to benchmark', message: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { PortfolioService } from '@/lib/services/portfolio.service'
+import { ExportService, EXPORT_FORMATS, ExportFormat } from '@/lib/services/export.service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = (searchParams.get('format')?.toLowerCase() || 'csv') as ExportFormat
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const positions = await PortfolioService.getUserPortfolio(supabase, user.id)
+    const enrichedPositions = await PortfolioService.enrichPositions(positions)
+    const file = ExportService.exportPortfolio(enrichedPositions, format)
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        // Exports contain account data and must not hit the shared API cache
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error: any) {
+    console.error('Error exporting portfolio:', error)
+    return NextResponse.json(
+      { error: 'Failed to export portfolio', message: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { PositionHealthService } from '@/lib/services/position-health.service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const [positions, thresholds] = await Promise.all([
+      PositionHealthService.getPortfolioHealth(supabase, user.id),
+      PositionHealthService.getThresholds(supabase, user.id),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: { positions, thresholds },
+      count: positions.length,
+    })
+  } catch (error: any) {
+    console.error('Error fetching position health:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch position health', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    let thresholds
+    try {
+      thresholds = PositionHealthService.validateThresholds(body)
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    const saved = await PositionHealthService.saveThresholds(supabase, user.id, thresholds)
+
+    return NextResponse.json({
+      success: true,
+      data: saved,
+    })
+  } catch (error: any) {
+    console.error('Error saving position health thresholds:', error)
+    return NextResponse.json(
+      { error: 'Failed to save position health thresholds', message: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  PortfolioImportService,
+  BROKER_FORMATS,
+  BrokerFormat,
+  ColumnMapping,
+} from '@/lib/services/portfolio-import.service'
+
+// Roughly 5 MB of CSV text
+const MAX_CSV_LENGTH = 5 * 1024 * 1024
+
+const IMPORT_ERRORS = [
+  'CSV file is empty',
+  'CSV file has too many rows',
+  'Could not find required columns in CSV',
+]
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { csv, broker = 'generic', mapping, excludeRows, mode = 'preview' } = body
+
+    if (!csv || typeof csv !== 'string') {
+      return NextResponse.json(
+        { error: 'CSV content is required' },
+        { status: 400 }
+      )
+    }
+
+    if (csv.length > MAX_CSV_LENGTH) {
+      return NextResponse.json(
+        { error: 'CSV file is too large' },
+        { status: 400 }
+      )
+    }
+
+    if (!BROKER_FORMATS.includes(broker)) {
+      return NextResponse.json(
+        { error: `Broker must be one of: ${BROKER_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (mode !== 'preview' && mode !== 'commit') {
+      return NextResponse.json(
+        { error: 'Mode must be preview or commit' },
+        { status: 400 }
+      )
+    }
+
+    if (mapping && (!mapping.date || !mapping.symbol || !mapping.quantity || !mapping.price)) {
+      return NextResponse.json(
+        { error: 'Column mapping needs date, symbol, quantity and price' },
+        { status: 400 }
+      )
+    }
+
+    const rowsToExclude: number[] = Array.isArray(excludeRows)
+      ? excludeRows.map((row: any) => parseInt(row)).filter((row: number) => !isNaN(row))
+      : []
+
+    if (mode === 'preview') {
+      const preview = await PortfolioImportService.preview(
+        supabase,
+        user.id,
+        csv,
+        broker as BrokerFormat,
+        mapping as ColumnMapping | undefined,
+        rowsToExclude
+      )
+
+      return NextResponse.json({
+        success: true,
+        data: preview,
+        count: preview.trades.length,
+      })
+    }
+
+    const result = await PortfolioImportService.commit(
+      supabase,
+      user.id,
+      csv,
+      broker as BrokerFormat,
+      mapping as ColumnMapping | undefined,
+      rowsToExclude
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      count: result.imported,
+    })
+  } catch (error: any) {
+    console.error('Error importing transactions:', error)
+
+    if (IMPORT_ERRORS.includes(error.message)) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to import transactions', message: error.message },
+      { status: 500 }
+    )
+  }
+}
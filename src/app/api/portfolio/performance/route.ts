@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  PortfolioPerformanceService,
+  PERFORMANCE_WINDOWS,
+  PerformanceWindow,
+} from '@/lib/services/portfolio-performance.service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const window = (searchParams.get('window')?.toUpperCase() || '1Y') as PerformanceWindow
+
+    if (!PERFORMANCE_WINDOWS.includes(window)) {
+      return NextResponse.json(
+        { error: `Window must be one of: ${PERFORMANCE_WINDOWS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const history = await PortfolioPerformanceService.getPerformanceHistory(supabase, user.id, window)
+
+    return NextResponse.json({
+      success: true,
+      data: history,
+      count: history.series.length,
+    })
+  } catch (error: any) {
+    console.error('Error fetching portfolio performance:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch portfolio performance', message: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -2,10 +2,18 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { PortfolioService } from '@/lib/services/portfolio.service'
 import { StockDataService } from '@/lib/services/stock-data.service'
-import { PortfolioOptimizerService } from '@/lib/services/portfolio-optimizer.service'
+import { LedgerSummary, LOT_METHODS, LotMethod } from '@/lib/services/portfolio-ledger.service'
 
 // Helper function to calculate portfolio stats from enriched positions
-function calculatePortfolioStats(positions: any[]) {
+function calculatePortfolioStats(positions: any[], ledger: LedgerSummary) {
+  const realized = {
+    realizedGain: ledger.realizedGain,
+    realizedShortTerm: ledger.realizedShortTerm,
+    realizedLongTerm: ledger.realizedLongTerm,
+    dividendIncome: ledger.dividendIncome,
+    totalFees: ledger.totalFees,
+  }
+
   if (!positions || positions.length === 0) {
     return {
       totalValue: 0,
@@ -14,9 +22,11 @@ function calculatePortfolioStats(positions: any[]) {
       totalGainPercent: 0,
       dayGain: 0,
       dayGainPercent: 0,
+      unrealizedGain: 0,
       positions: 0,
       winners: 0,
       losers: 0,
+      ...realized,
     }
   }
 
@@ -38,9 +48,11 @@ function calculatePortfolioStats(positions: any[]) {
     totalGainPercent,
     dayGain,
     dayGainPercent,
+    unrealizedGain: totalGain,
     positions: positions.length,
     winners,
     losers,
+    ...realized,
   }
 }
 
@@ -58,65 +70,14 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get user's portfolio
-    const positions = await PortfolioService.getUserPortfolio(supabase, user.id)
+    // Get user's portfolio, derived from the transaction ledger
+    const { positions, ledger } = await PortfolioService.getPortfolioWithLedger(supabase, user.id)
 
-    // Batch fetch all stock data at once
-    const symbols = positions.map(p => p.symbol)
-    const stockDataResults = await PortfolioOptimizerService.batchFetchStockData(symbols)
-    
-    // Create a map for quick lookup
-    const stockDataMap = new Map(
-      stockDataResults.map(result => [result.originalSymbol, result.data])
-    )
-
-    // Enrich positions with fetched data
-    const enrichedPositions = positions.map(position => {
-      const stockData = stockDataMap.get(position.symbol)
-      
-      if (stockData?.quote) {
-        const currentPrice = stockData.quote.price || position.current_price || position.average_price
-        const totalValue = position.quantity * currentPrice
-        const totalCost = position.quantity * position.average_price
-        const gainLoss = totalValue - totalCost
-        const gainLossPercent = totalCost > 0 ? (gainLoss / totalCost) * 100 : 0
-
-        return {
-          ...position,
-          name: stockData.quote.name || position.stock?.company_name || position.symbol,
-          currentPrice,
-          currentScore: stockData.score?.score || 0,
-          dayChange: stockData.quote.change || 0,
-          dayChangePercent: stockData.quote.changePercent || 0,
-          totalValue,
-          gainLoss,
-          gainLossPercent,
-        }
-      } else {
-        // Fallback for failed fetches
-        console.warn(`Using fallback data for ${position.symbol}`)
-        const currentPrice = position.current_price || position.average_price
-        const totalValue = position.quantity * currentPrice
-        const totalCost = position.quantity * position.average_price
-        const gainLoss = totalValue - totalCost
-        const gainLossPercent = totalCost > 0 ? (gainLoss / totalCost) * 100 : 0
-        
-        return {
-          ...position,
-          name: position.stock?.company_name || position.symbol,
-          currentPrice,
-          currentScore: 0,
-          dayChange: 0,
-          dayChangePercent: 0,
-          totalValue,
-          gainLoss,
-          gainLossPercent,
-        }
-      }
-    })
+    // Enrich positions with current quotes and scores
+    const enrichedPositions = await PortfolioService.enrichPositions(positions)
 
     // Calculate portfolio stats based on enriched positions
-    const stats = calculatePortfolioStats(enrichedPositions)
+    const stats = calculatePortfolioStats(enrichedPositions, ledger)
 
     return NextResponse.json({
       success: true,
@@ -225,6 +186,14 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
+    // Holdings are derived from the ledger and can only change through transactions
+    if ('quantity' in updates || 'average_price' in updates || 'purchased_at' in updates) {
+      return NextResponse.json(
+        { error: 'Quantity and cost changes must be recorded as transactions via /api/portfolio/transactions' },
+        { status: 400 }
+      )
+    }
+
     // Update position
     const updated = await PortfolioService.updatePosition(
       supabase,
@@ -264,6 +233,7 @@ export async function DELETE(request: NextRequest) {
     const positionId = searchParams.get('id')
     const quantityToSell = searchParams.get('quantity')
     const sellPrice = searchParams.get('price')
+    const lotMethod = searchParams.get('lotMethod') as LotMethod | null
 
     if (!positionId) {
       return NextResponse.json(
@@ -272,6 +242,13 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
+    if (lotMethod && (!LOT_METHODS.includes(lotMethod) || lotMethod === 'specific')) {
+      return NextResponse.json(
+        { error: 'Lot method must be fifo, lifo or highest_cost; use /api/portfolio/transactions for specific lots' },
+        { status: 400 }
+      )
+    }
+
     if (quantityToSell && sellPrice) {
       // Partial sell
       const remaining = await PortfolioService.sellPartial(
@@ -279,7 +256,8 @@ export async function DELETE(request: NextRequest) {
         user.id,
         positionId,
         parseFloat(quantityToSell),
-        parseFloat(sellPrice)
+        parseFloat(sellPrice),
+        lotMethod || undefined
       )
 
       return NextResponse.json({
@@ -288,8 +266,13 @@ export async function DELETE(request: NextRequest) {
         message: remaining ? 'Partial position sold' : 'Position closed',
       })
     } else {
-      // Sell all
-      await PortfolioService.removePosition(supabase, user.id, positionId)
+      // Sell all (at the given price, or the last known price)
+      await PortfolioService.removePosition(
+        supabase,
+        user.id,
+        positionId,
+        sellPrice ? parseFloat(sellPrice) : undefined
+      )
 
       return NextResponse.json({
         success: true,
@@ -298,6 +281,14 @@ export async function DELETE(request: NextRequest) {
     }
   } catch (error: any) {
     console.error('Error selling position:', error)
+
+    if (error.message === 'Position not found') {
+      return NextResponse.json(
+        { error: 'Position not found' },
+        { status: 404 }
+      )
+    }
+
     return NextResponse.json(
       { error: 'Failed to sell position', message: error.message },
       { status: 500 }
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { PortfolioLedgerService } from '@/lib/services/portfolio-ledger.service'
+import { PortfolioOptimizerService } from '@/lib/services/portfolio-optimizer.service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const yearParam = searchParams.get('year')
+    const year = yearParam ? parseInt(yearParam) : undefined
+
+    if (yearParam && (!year || isNaN(year))) {
+      return NextResponse.json(
+        { error: 'Year must be a number' },
+        { status: 400 }
+      )
+    }
+
+    const ledger = await PortfolioLedgerService.getLedgerSummary(supabase, user.id)
+    const realized = PortfolioLedgerService.getRealizedGainsReport(ledger.positions, year)
+
+    // Price open lots to split unrealized gains by holding period
+    const openPositions = ledger.positions.filter(p => p.quantity > 0)
+    const stockDataResults = await PortfolioOptimizerService.batchFetchStockData(
+      openPositions.map(p => p.symbol)
+    )
+    const priceMap = new Map(
+      stockDataResults.map(result => [result.originalSymbol, result.data?.quote?.price as number | undefined])
+    )
+
+    const openLots = openPositions.flatMap(position => {
+      const currentPrice = priceMap.get(position.symbol) || position.averageCost
+
+      return position.lots.map(lot => {
+        const marketValue = lot.quantity * currentPrice
+        return {
+          ...lot,
+          currentPrice,
+          marketValue,
+          unrealizedGain: marketValue - lot.costBasis,
+          term: PortfolioLedgerService.getHoldingTerm(lot.acquiredAt),
+        }
+      })
+    })
+
+    const unrealizedShortTerm = openLots
+      .filter(lot => lot.term === 'short_term')
+      .reduce((sum, lot) => sum + lot.unrealizedGain, 0)
+    const unrealizedLongTerm = openLots
+      .filter(lot => lot.term === 'long_term')
+      .reduce((sum, lot) => sum + lot.unrealizedGain, 0)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        realized,
+        unrealized: {
+          shortTerm: unrealizedShortTerm,
+          longTerm: unrealizedLongTerm,
+          total: unrealizedShortTerm + unrealizedLongTerm,
+        },
+        openLots,
+      },
+    })
+  } catch (error: any) {
+    console.error('Error fetching tax lots:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch tax lots', message: error.message },
+      { status: 500 }
+    )
+  }
+}
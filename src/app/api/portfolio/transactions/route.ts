@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { PortfolioService } from '@/lib/services/portfolio.service'
+import {
+  PortfolioLedgerService,
+  TRANSACTION_TYPES,
+  TransactionType,
+  LOT_METHODS,
+  LotMethod,
+  LotSelection,
+} from '@/lib/services/portfolio-ledger.service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const symbol = searchParams.get('symbol')?.toUpperCase() || undefined
+
+    const transactions = await PortfolioLedgerService.getTransactions(supabase, user.id, symbol)
+    const ledger = PortfolioLedgerService.summarize(transactions)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        // Most recent first for display
+        transactions: [...transactions].reverse(),
+        positions: ledger.positions,
+        realizedGain: ledger.realizedGain,
+        realizedShortTerm: ledger.realizedShortTerm,
+        realizedLongTerm: ledger.realizedLongTerm,
+        dividendIncome: ledger.dividendIncome,
+        totalFees: ledger.totalFees,
+      },
+      count: transactions.length,
+    })
+  } catch (error: any) {
+    console.error('Error fetching transactions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch transactions', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const {
+      symbol,
+      type,
+      quantity,
+      price,
+      amount,
+      fees,
+      splitRatio,
+      lotMethod,
+      lotSelections,
+      notes,
+      executedAt,
+    } = body
+
+    if (!symbol || !type) {
+      return NextResponse.json(
+        { error: 'Symbol and type are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!TRANSACTION_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `Type must be one of: ${TRANSACTION_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const transactionType = type as TransactionType
+    const parsedQuantity = quantity !== undefined ? parseFloat(quantity) : undefined
+    const parsedPrice = price !== undefined ? parseFloat(price) : undefined
+    const parsedAmount = amount !== undefined ? parseFloat(amount) : undefined
+    const parsedFees = fees !== undefined ? parseFloat(fees) : undefined
+    const parsedSplitRatio = splitRatio !== undefined ? parseFloat(splitRatio) : undefined
+
+    // Validate the fields each transaction type needs
+    if (transactionType === 'buy' || transactionType === 'sell') {
+      if (!parsedQuantity || parsedQuantity <= 0 || !parsedPrice || parsedPrice <= 0) {
+        return NextResponse.json(
+          { error: 'Quantity and price must be positive numbers' },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (transactionType === 'split' && (!parsedSplitRatio || parsedSplitRatio <= 0)) {
+      return NextResponse.json(
+        { error: 'Split ratio must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    if (transactionType === 'dividend' || transactionType === 'fee') {
+      const hasAmount = parsedAmount !== undefined && parsedAmount > 0
+      const hasPerShare = transactionType === 'dividend' && !!parsedQuantity && !!parsedPrice
+      if (!hasAmount && !hasPerShare) {
+        return NextResponse.json(
+          { error: 'Amount must be a positive number' },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (lotMethod !== undefined && !LOT_METHODS.includes(lotMethod)) {
+      return NextResponse.json(
+        { error: `Lot method must be one of: ${LOT_METHODS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    let parsedSelections: LotSelection[] | undefined
+    if (lotMethod === 'specific') {
+      if (!Array.isArray(lotSelections) || lotSelections.length === 0) {
+        return NextResponse.json(
+          { error: 'Specific-lot sells require lotSelections' },
+          { status: 400 }
+        )
+      }
+      parsedSelections = lotSelections.map((selection: any) => ({
+        lotId: String(selection.lotId),
+        quantity: parseFloat(selection.quantity),
+      }))
+    }
+
+    if (parsedFees !== undefined && (isNaN(parsedFees) || parsedFees < 0)) {
+      return NextResponse.json(
+        { error: 'Fees cannot be negative' },
+        { status: 400 }
+      )
+    }
+
+    const parsedExecutedAt = executedAt ? new Date(executedAt) : undefined
+    if (parsedExecutedAt && isNaN(parsedExecutedAt.getTime())) {
+      return NextResponse.json(
+        { error: 'Executed at must be a valid date' },
+        { status: 400 }
+      )
+    }
+
+    if (parsedExecutedAt && parsedExecutedAt.getTime() > Date.now()) {
+      return NextResponse.json(
+        { error: 'Executed at cannot be in the future' },
+        { status: 400 }
+      )
+    }
+
+    const result = await PortfolioService.recordTransaction(supabase, user.id, {
+      symbol: symbol.toUpperCase(),
+      type: transactionType,
+      quantity: parsedQuantity,
+      price: parsedPrice,
+      amount: parsedAmount,
+      fees: parsedFees,
+      splitRatio: parsedSplitRatio,
+      lotMethod: lotMethod as LotMethod | undefined,
+      lotSelections: parsedSelections,
+      notes,
+      executedAt: parsedExecutedAt,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    })
+  } catch (error: any) {
+    console.error('Error recording transaction:', error)
+
+    if (error.message === 'Insufficient shares to sell' || error.message === 'Invalid lot selection') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to record transaction', message: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ScoringProfileService } from '@/lib/services/scoring-profile.service'
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.profileId || typeof body.profileId !== 'string') {
+      return NextResponse.json(
+        { error: 'Profile ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const profile = await ScoringProfileService.getProfile(supabase, user.id, body.profileId)
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Scoring profile not found' },
+        { status: 404 }
+      )
+    }
+
+    await ScoringProfileService.setActiveProfile(supabase, user.id, profile.id)
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+    })
+  } catch (error: any) {
+    console.error('Error selecting scoring profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to select scoring profile', message: error.message },
+      { status: 500 }
+    )
+  }
+}
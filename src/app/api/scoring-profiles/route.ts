@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ScoringProfileService } from '@/lib/services/scoring-profile.service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const [profiles, active] = await Promise.all([
+      ScoringProfileService.getProfiles(supabase, user.id),
+      ScoringProfileService.getActiveProfile(supabase, user.id),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: { profiles, activeProfileId: active.id },
+      count: profiles.length,
+    })
+  } catch (error: any) {
+    console.error('Error fetching scoring profiles:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch scoring profiles', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    let input
+    try {
+      input = ScoringProfileService.validateProfile(body)
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    const profile = await ScoringProfileService.createProfile(supabase, user.id, input)
+
+    // Select the new profile straight away unless asked not to
+    if (body.activate !== false) {
+      await ScoringProfileService.setActiveProfile(supabase, user.id, profile.id)
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+    })
+  } catch (error: any) {
+    console.error('Error creating scoring profile:', error)
+
+    if (error.message === 'A scoring profile with this name already exists') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create scoring profile', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const profileId = searchParams.get('id')
+
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+
+    let input
+    try {
+      input = ScoringProfileService.validateProfile(body)
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    const profile = await ScoringProfileService.updateProfile(supabase, user.id, profileId, input)
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Scoring profile not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+    })
+  } catch (error: any) {
+    console.error('Error updating scoring profile:', error)
+
+    if (error.message === 'A scoring profile with this name already exists') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update scoring profile', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const profileId = searchParams.get('id')
+
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Profile ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await ScoringProfileService.deleteProfile(supabase, user.id, profileId)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Scoring profile not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Scoring profile deleted',
+    })
+  } catch (error: any) {
+    console.error('Error deleting scoring profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete scoring profile', message: error.message },
+      { status: 500 }
+    )
+  }
+}
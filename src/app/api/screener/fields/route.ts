@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server'
+import { SCREENER_FIELDS, DEFAULT_COLUMNS } from '@/lib/services/screener'
+
+// GET /api/screener/fields - Fields a screen can filter and sort on
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    data: { fields: SCREENER_FIELDS, defaultColumns: DEFAULT_COLUMNS },
+    count: SCREENER_FIELDS.length,
+  })
+}
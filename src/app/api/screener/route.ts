@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ScoringProfileService } from '@/lib/services/scoring-profile.service'
+import {
+  StockScreener,
+  ScreenerQuery,
+  ScreenerQueryError,
+  ScreenerFilter,
+  parseScreen,
+  validateFilters,
+} from '@/lib/services/screener'
+
+const toNumber = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10)
+  return isFinite(parsed) ? parsed : undefined
+}
+
+const runScreen = async (
+  filters: () => ScreenerFilter[],
+  sortField: string | null | undefined,
+  sortDirection: string | null | undefined,
+  page: unknown,
+  pageSize: unknown
+) => {
+  try {
+    const query: ScreenerQuery = {
+      filters: filters(),
+      sort: sortField ? { field: sortField, direction: sortDirection === 'asc' ? 'asc' : 'desc' } : undefined,
+      page: toNumber(page),
+      pageSize: toNumber(pageSize),
+    }
+
+    // Signed-in users see scores under the profile they rank stocks by
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    const profile = user ? await ScoringProfileService.getActiveProfile(supabase, user.id) : undefined
+
+    const result = await StockScreener.run(query, profile)
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      count: result.rows.length,
+      profile: profile ? { id: profile.id, name: profile.name } : null,
+    })
+  } catch (error: any) {
+    if (error instanceof ScreenerQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error running screen:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to run screen',
+        message: error.message || 'Unknown error occurred'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// GET /api/screener?q=roic > 15 AND red_flags = 0&sort=score&order=desc&page=1&pageSize=25 - Screen the stock universe
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const text = searchParams.get('q') || ''
+
+  return runScreen(
+    () => parseScreen(text),
+    searchParams.get('sort'),
+    searchParams.get('order'),
+    searchParams.get('page'),
+    searchParams.get('pageSize')
+  )
+}
+
+// POST /api/screener - Screen with { query } text or a { filters } array, plus optional sort and paging
+export async function POST(request: NextRequest) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  return runScreen(
+    () => typeof body?.query === 'string' ? parseScreen(body.query) : validateFilters(body?.filters ?? []),
+    body?.sort?.field,
+    body?.sort?.direction,
+    body?.page,
+    body?.pageSize
+  )
+}
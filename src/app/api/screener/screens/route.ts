@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { SavedScreenService, MAX_SAVED_SCREENS } from '@/lib/services/saved-screen.service'
+
+const DUPLICATE_NAME = 'A screen with this name already exists'
+const LIMIT_REACHED = `You can save at most ${MAX_SAVED_SCREENS} screens`
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const screens = await SavedScreenService.getScreens(supabase, user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: screens,
+      count: screens.length,
+    })
+  } catch (error: any) {
+    console.error('Error fetching saved screens:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch saved screens', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    let input
+    try {
+      input = SavedScreenService.validateScreen(body)
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    const screen = await SavedScreenService.createScreen(supabase, user.id, input)
+
+    return NextResponse.json({
+      success: true,
+      data: screen,
+    })
+  } catch (error: any) {
+    console.error('Error saving screen:', error)
+
+    if (error.message === DUPLICATE_NAME || error.message === LIMIT_REACHED) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save screen', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const screenId = searchParams.get('id')
+
+    if (!screenId) {
+      return NextResponse.json(
+        { error: 'Screen ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+
+    let input
+    try {
+      input = SavedScreenService.validateScreen(body)
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    const screen = await SavedScreenService.updateScreen(supabase, user.id, screenId, input)
+
+    if (!screen) {
+      return NextResponse.json(
+        { error: 'Saved screen not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: screen,
+    })
+  } catch (error: any) {
+    console.error('Error updating saved screen:', error)
+
+    if (error.message === DUPLICATE_NAME) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update saved screen', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const screenId = searchParams.get('id')
+
+    if (!screenId) {
+      return NextResponse.json(
+        { error: 'Screen ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await SavedScreenService.deleteScreen(supabase, user.id, screenId)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Saved screen not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Saved screen deleted',
+    })
+  } catch (error: any) {
+    console.error('Error deleting saved screen:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete saved screen', message: error.message },
+      { status: 500 }
+    )
+  }
+}
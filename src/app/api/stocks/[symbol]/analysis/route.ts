@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { SECEdgarService } from '@/lib/services/sec-edgar.service'
 import { FinancialInterpreter } from '@/lib/services/financial-interpreter'
+import { MarketDataFixtures } from '@/lib/services/market-data'
 import { getRedisInstance } from '@/lib/utils/redis'
 
 export async function GET(
@@ -31,7 +32,7 @@ export async function GET(
     }
     
     // Check if this is a US-listed company
-    const cik = await SECEdgarService.getCIK(symbol)
+    const cik = await MarketDataFixtures.through('cik', symbol, () => SECEdgarService.getCIK(symbol))
     if (!cik) {
       console.log(`[Analysis API] Symbol ${symbol} is not a US-listed company`)
       return NextResponse.json(
@@ -61,7 +62,9 @@ export async function GET(
     // If not cached, fetch from SEC EDGAR
     if (!financialStatements) {
       console.log(`[Analysis API] Fetching fresh financial statements for ${symbol} (CIK: ${cik})`)
-      financialStatements = await SECEdgarService.getFinancialStatements(symbol)
+      financialStatements = await MarketDataFixtures.through('statements', symbol, () =>
+        SECEdgarService.getFinancialStatements(symbol)
+      )
       
       // Cache the statements for 2 days (48 hours)
       if (financialStatements) {
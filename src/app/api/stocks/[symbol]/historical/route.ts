@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { YahooFinanceService } from '@/lib/services/yahoo-finance.service'
+import { MarketDataService, HistoricalPeriod, HistoricalInterval } from '@/lib/services/market-data'
 import { Redis } from '@upstash/redis'
 
 const redis = new Redis({
@@ -13,10 +13,10 @@ export async function GET(
 ) {
   try {
     const { searchParams } = new URL(req.url)
-    const period = searchParams.get('period') as '1d' | '5d' | '1mo' | '3mo' | '6mo' | '1y' | '5y' || '1y'
+    const period = searchParams.get('period') as HistoricalPeriod || '1y'
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
-    const interval = searchParams.get('interval') as '1m' | '5m' | '15m' | '30m' | '1h' | '1d' || '1d'
+    const interval = searchParams.get('interval') as HistoricalInterval || '1d'
     const { symbol } = await params
 
     if (!symbol) {
@@ -51,24 +51,23 @@ export async function GET(
       console.error('Cache read error:', error)
     }
 
-    let historicalData: any[]
+    let result
     
     // Check if we have date range parameters
     if (startDate && endDate) {
       console.log(`[API] Fetching historical data for ${symbol} from ${startDate} to ${endDate}`)
-      historicalData = await YahooFinanceService.getHistoricalDataByDateRange(
-        symbol.toUpperCase(),
-        new Date(startDate),
-        new Date(endDate),
-        interval
-      )
+      result = await MarketDataService.getHistorical(symbol.toUpperCase(), {
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        interval,
+      })
     } else {
       console.log(`[API] Fetching ${period} historical data for ${symbol}`)
       // Fetch historical data using the service with period
-      historicalData = await YahooFinanceService.getHistoricalData(symbol.toUpperCase(), period)
+      result = await MarketDataService.getHistorical(symbol.toUpperCase(), { period })
     }
     
-    if (!historicalData || historicalData.length === 0) {
+    if (!result || result.data.length === 0) {
       console.log(`[API] No historical data found for ${symbol}`)
       return NextResponse.json(
         { error: 'No historical data available' },
@@ -76,10 +75,10 @@ export async function GET(
       )
     }
 
-    console.log(`[API] Successfully fetched ${historicalData.length} data points for ${symbol}`)
+    console.log(`[API] Successfully fetched ${result.data.length} data points for ${symbol} from ${result.provenance.provider}`)
     
     // Transform data to ensure proper format for the chart
-    const transformedData = historicalData.map(item => ({
+    const transformedData = result.data.map(item => ({
       date: item.date instanceof Date ? item.date.toISOString() : item.date,
       open: item.open,
       high: item.high,
@@ -89,12 +88,14 @@ export async function GET(
       adjustedClose: item.adjustedClose
     }))
 
-    // Cache the transformed data
-    try {
-      await redis.setex(cacheKey, cacheTTL, JSON.stringify(transformedData))
-      console.log(`[API] Cached historical data for ${symbol} with TTL ${cacheTTL}s`)
-    } catch (error) {
-      console.error('Cache write error:', error)
+    // Cache the transformed data, unless it is simulated
+    if (!result.provenance.synthetic) {
+      try {
+        await redis.setex(cacheKey, cacheTTL, JSON.stringify(transformedData))
+        console.log(`[API] Cached historical data for ${symbol} with TTL ${cacheTTL}s`)
+      } catch (error) {
+        console.error('Cache write error:', error)
+      }
     }
 
     return NextResponse.json({
@@ -102,7 +103,8 @@ export async function GET(
       period,
       data: transformedData,
       count: transformedData.length,
-      cached: false
+      cached: false,
+      provenance: result.provenance
     })
   } catch (error) {
     console.error('[API] Error fetching historical data:', error)
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { YahooFinanceService } from '@/lib/services/yahoo-finance.service'
+import { MarketDataService } from '@/lib/services/market-data'
 import { getRedisInstance } from '@/lib/utils/redis'
 
 export async function GET(
@@ -28,7 +28,7 @@ export async function GET(
     }
     
     // Get current quote to get shares outstanding
-    const quote = await YahooFinanceService.getQuote(symbol)
+    const quote = await MarketDataService.getQuote(symbol)
     if (!quote) {
       return NextResponse.json(
         { 
@@ -46,7 +46,7 @@ export async function GET(
     startDate.setFullYear(endDate.getFullYear() - 10)
     
     // Fetch monthly data (approximately 120 data points)
-    const historicalData = await YahooFinanceService.getHistoricalDataByDateRange(
+    const historicalData = await MarketDataService.getHistoricalDataByDateRange(
       symbol,
       startDate,
       endDate,
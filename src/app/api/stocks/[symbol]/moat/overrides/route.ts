@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { MoatHistoryService, MOAT_DIMENSION_KEYS, MoatDimensionKey } from '@/lib/services/moat-history.service'
+import { AIMoatAnalysisService } from '@/lib/services/ai-moat.service'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const { symbol } = await params
+    const symbolUpper = symbol.toUpperCase()
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    let input
+    try {
+      input = MoatHistoryService.validateOverride(body)
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    const override = await MoatHistoryService.setOverride(supabase, user.id, symbolUpper, input)
+
+    // Update the cached analysis so the next score calculation uses the override
+    const moatAnalysis = await AIMoatAnalysisService.refreshOverrides(symbolUpper)
+
+    return NextResponse.json({
+      success: true,
+      data: { override, moatAnalysis },
+    })
+  } catch (error: any) {
+    console.error('Error saving moat override:', error)
+
+    if (error.message === 'There is no moat analysis to pin yet') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    if (error.message === 'Only the user who set this override can change it') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save moat override', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const { symbol } = await params
+    const symbolUpper = symbol.toUpperCase()
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const dimension = request.nextUrl.searchParams.get('dimension') as MoatDimensionKey | null
+
+    if (!dimension || !MOAT_DIMENSION_KEYS.includes(dimension)) {
+      return NextResponse.json(
+        { error: `Dimension must be one of: ${MOAT_DIMENSION_KEYS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const removed = await MoatHistoryService.removeOverride(supabase, symbolUpper, dimension)
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Override not found' },
+        { status: 404 }
+      )
+    }
+
+    const moatAnalysis = await AIMoatAnalysisService.refreshOverrides(symbolUpper)
+
+    return NextResponse.json({
+      success: true,
+      data: { moatAnalysis },
+    })
+  } catch (error: any) {
+    console.error('Error removing moat override:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove moat override', message: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { AIMoatAnalysisService } from '@/lib/services/ai-moat.service';
 import { YahooFinanceService } from '@/lib/services/yahoo-finance.service';
+import { MarketDataService } from '@/lib/services/market-data';
 
 export async function GET(
   request: NextRequest,
@@ -27,8 +28,8 @@ export async function GET(
 
     // Fetch company data from Yahoo Finance (using static methods)
     const [quote, financials, companyProfile] = await Promise.all([
-      YahooFinanceService.getQuote(symbol),
-      YahooFinanceService.getFinancials(symbol),
+      MarketDataService.getQuote(symbol),
+      MarketDataService.getFinancials(symbol),
       YahooFinanceService.getCompanyProfile(symbol),
     ]);
 
@@ -109,10 +110,10 @@ export async function GET(
     const errorMessage = error instanceof Error ? error.message : 'Failed to fetch moat analysis';
     
     // Check if it's an API configuration issue
-    if (errorMessage.includes('AI service not configured')) {
+    if (errorMessage.includes('No moat analysis provider is available')) {
       return NextResponse.json(
         { 
-          error: 'AI moat analysis is not available. Please ensure XAI_API_KEY is configured in your environment variables.',
+          error: 'AI moat analysis is not available. Please check MOAT_ANALYSIS_PROVIDERS in your environment variables.',
           fallbackAnalysis: true 
         },
         { status: 503 }
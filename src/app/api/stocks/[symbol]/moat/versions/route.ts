@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MoatHistoryService } from '@/lib/services/moat-history.service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const { symbol } = await params
+    const symbolUpper = symbol.toUpperCase()
+
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    const [versions, overrides] = await Promise.all([
+      MoatHistoryService.getVersions(symbolUpper),
+      MoatHistoryService.getOverrides(symbolUpper),
+    ])
+
+    // Compare the requested versions, or the latest with the one before it
+    const toVersion = to ? versions.find(v => v.version === parseInt(to)) : versions[0]
+    const fromVersion = from
+      ? versions.find(v => v.version === parseInt(from))
+      : versions.find(v => toVersion && v.version < toVersion.version)
+
+    if ((from && !fromVersion) || (to && !toVersion)) {
+      return NextResponse.json(
+        { error: 'Moat analysis version not found' },
+        { status: 404 }
+      )
+    }
+
+    const diff = fromVersion && toVersion
+      ? MoatHistoryService.diffVersions(fromVersion, toVersion)
+      : null
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        symbol: symbolUpper,
+        versions,
+        overrides,
+        diff,
+      },
+      count: versions.length,
+    })
+  } catch (error: any) {
+    console.error('Error fetching moat analysis versions:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch moat analysis versions',
+        message: error.message || 'Unknown error occurred'
+      },
+      { status: 500 }
+    )
+  }
+}
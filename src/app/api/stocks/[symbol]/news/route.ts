@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { NewsService } from '@/lib/services/news.service'
 import { AlpacaNewsService } from '@/lib/services/alpaca-news.service'
 import { NewsAnalysisService } from '@/lib/services/news-analysis.service'
+import { MarketDataFixtures } from '@/lib/services/market-data'
 
 export async function GET(
   request: NextRequest,
@@ -16,23 +17,21 @@ export async function GET(
     const bypassCache = request.nextUrl.searchParams.get('bypassCache') === 'true'
 
     // Fetch news - try Alpaca first, fallback to Yahoo Finance
-    let news
-    try {
-      if (AlpacaNewsService.isConfigured()) {
-        console.log(`Using Alpaca for news: ${symbol}`)
-        // Fetch more articles initially if we need to filter by date or ensure minimum
-        const fetchLimit = (todayOnly || forDisplay) ? 50 : limit
-        news = await AlpacaNewsService.getStockNews(symbol, fetchLimit)
-      } else {
+    // Fetch more articles initially if we need to filter by date or ensure minimum
+    const fetchLimit = (todayOnly || forDisplay) ? 50 : limit
+    let news = await MarketDataFixtures.through('news', `${symbol}.${fetchLimit}`, async () => {
+      try {
+        if (AlpacaNewsService.isConfigured()) {
+          console.log(`Using Alpaca for news: ${symbol}`)
+          return await AlpacaNewsService.getStockNews(symbol, fetchLimit)
+        }
         console.log(`Alpaca not configured, falling back to Yahoo Finance for news: ${symbol}`)
-        const fetchLimit = (todayOnly || forDisplay) ? 50 : limit
-        news = await NewsService.getStockNews(symbol, fetchLimit)
+        return await NewsService.getStockNews(symbol, fetchLimit)
+      } catch (alpacaError) {
+        console.error('Alpaca news fetch failed, falling back to Yahoo Finance:', alpacaError)
+        return await NewsService.getStockNews(symbol, fetchLimit)
       }
-    } catch (alpacaError) {
-      console.error('Alpaca news fetch failed, falling back to Yahoo Finance:', alpacaError)
-      const fetchLimit = (todayOnly || forDisplay) ? 50 : limit
-      news = await NewsService.getStockNews(symbol, fetchLimit)
-    }
+    })
     
     // If forDisplay is true, replicate NewsFeed logic
     if (forDisplay && news && news.length > 0) {
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PeerComparisonService } from '@/lib/services/peer-comparison.service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const { symbol } = await params
+    const symbolUpper = symbol.toUpperCase()
+
+    const comparison = await PeerComparisonService.getComparison(symbolUpper)
+
+    return NextResponse.json({
+      success: true,
+      data: comparison,
+      count: comparison.group.peers.length,
+    })
+  } catch (error: any) {
+    console.error('Error fetching peer comparison:', error)
+
+    if (error.message?.startsWith('No S&P 500 peers found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch peer comparison',
+        message: error.message || 'Unknown error occurred'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  ScorePersistenceService,
+  SCORE_HISTORY_RANGES,
+  ScoreHistoryRange,
+} from '@/lib/services/score-persistence.service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const { symbol } = await params
+    const symbolUpper = symbol.toUpperCase()
+
+    const { searchParams } = new URL(request.url)
+    const range = (searchParams.get('range')?.toUpperCase() || '1Y') as ScoreHistoryRange
+
+    if (!SCORE_HISTORY_RANGES.includes(range)) {
+      return NextResponse.json(
+        { error: `Range must be one of: ${SCORE_HISTORY_RANGES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const history = await ScorePersistenceService.getScoreHistory(symbolUpper, range)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        symbol: symbolUpper,
+        range,
+        history,
+      },
+      count: history.length,
+    })
+  } catch (error: any) {
+    console.error('Error fetching score history:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch score history',
+        message: error.message || 'Unknown error occurred'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { HistoricalPeriod } from '@/lib/services/market-data'
+import { StockComparisonService, COMPARE_PERIODS } from '@/lib/services/stock-comparison.service'
+
+// GET /api/stocks/compare?symbols=AAPL,MSFT&period=1y - Side-by-side comparison of 2-6 stocks
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    let symbols: string[]
+    try {
+      symbols = StockComparisonService.parseSymbols(searchParams.get('symbols'))
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    const period = (searchParams.get('period') || '1y') as HistoricalPeriod
+    if (!COMPARE_PERIODS.includes(period)) {
+      return NextResponse.json(
+        { error: `Period must be one of: ${COMPARE_PERIODS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const comparison = await StockComparisonService.compare(symbols, period)
+
+    return NextResponse.json({
+      success: true,
+      data: comparison,
+      count: comparison.stocks.length,
+    })
+  } catch (error: any) {
+    console.error('Error comparing stocks:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to compare stocks',
+        message: error.message || 'Unknown error occurred'
+      },
+      { status: 500 }
+    )
+  }
+}
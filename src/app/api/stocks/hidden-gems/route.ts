@@ -1,10 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { StockDataService } from '@/lib/services/stock-data.service'
+import { StockScreener, ScreenerFilter } from '@/lib/services/screener'
+
+const RISK_LEVEL_FILTERS: Record<string, ScreenerFilter[]> = {
+  conservative: [{ field: 'score', operator: '>=', value: 70 }],
+  balanced: [
+    { field: 'score', operator: '>=', value: 50 },
+    { field: 'score', operator: '<=', value: 80 },
+  ],
+  growth: [{ field: 'score', operator: '<=', value: 60 }],
+}
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
-    
+
     // Parse query parameters
     const criteria = {
       minScore: searchParams.get('minScore') ? parseInt(searchParams.get('minScore')!) : undefined,
@@ -14,25 +23,40 @@ export async function GET(request: NextRequest) {
       maxPE: searchParams.get('maxPE') ? parseFloat(searchParams.get('maxPE')!) : undefined,
       riskLevel: searchParams.get('riskLevel') as 'conservative' | 'balanced' | 'growth' | undefined,
     }
-    
-    // Get hidden gems results
-    const stocks = await StockDataService.getScreenerStocks(criteria)
-    
-    // Limit to top 10 for now
-    const limitedStocks = stocks.slice(0, 10)
-    
+
+    // The original criteria expressed as screener filters
+    const filters: ScreenerFilter[] = []
+    if (criteria.minScore) filters.push({ field: 'score', operator: '>=', value: criteria.minScore })
+    if (criteria.maxScore) filters.push({ field: 'score', operator: '<=', value: criteria.maxScore })
+    if (criteria.sector) filters.push({ field: 'sector', operator: '=', value: criteria.sector })
+    if (criteria.minMarketCap) filters.push({ field: 'market_cap', operator: '>=', value: criteria.minMarketCap })
+    if (criteria.maxPE) filters.push({ field: 'pe_ratio', operator: '<=', value: criteria.maxPE })
+    if (criteria.riskLevel && RISK_LEVEL_FILTERS[criteria.riskLevel]) {
+      filters.push(...RISK_LEVEL_FILTERS[criteria.riskLevel])
+    }
+
+    const result = await StockScreener.run({
+      filters,
+      sort: { field: 'score', direction: 'desc' },
+      page: parseInt(searchParams.get('page') || '1') || 1,
+      pageSize: parseInt(searchParams.get('pageSize') || '10') || 10,
+    })
+
     return NextResponse.json({
       success: true,
-      data: limitedStocks,
-      count: limitedStocks.length,
+      data: result.rows,
+      count: result.rows.length,
+      total: result.total,
+      page: result.page,
+      totalPages: result.totalPages,
       criteria,
       timestamp: new Date().toISOString(),
     })
   } catch (error: any) {
     console.error('Error in hidden gems:', error)
-    
+
     return NextResponse.json(
-      { 
+      {
         error: 'Failed to find hidden gems',
         message: error.message || 'Unknown error occurred'
       },
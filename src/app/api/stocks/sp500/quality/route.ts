@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { SP500GitHubService } from '@/lib/services/sp500-github.service'
 import { ScorePersistenceService } from '@/lib/services/score-persistence.service'
-import { YahooFinanceService } from '@/lib/services/yahoo-finance.service'
+import { MarketDataService } from '@/lib/services/market-data'
 import { ValuationService, ValuationCategory } from '@/lib/services/valuation.service'
+import {
+  ScoringProfileService,
+  BUILT_IN_SCORING_PROFILES,
+  DEFAULT_SCORING_PROFILE_ID,
+} from '@/lib/services/scoring-profile.service'
+import { createClient } from '@/lib/supabase/server'
 import { StockScore, StockQuote } from '@/types/stock'
 
 interface StockWithValuation {
@@ -32,6 +38,7 @@ interface QualityStocksResponse {
   metadata: {
     totalStocks: number
     qualityThreshold: number
+    scoringProfile: { id: string, name: string }
     lastUpdated: Date
     fromCache: boolean
   }
@@ -41,8 +48,26 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const minBusinessScore = parseInt(searchParams.get('minScore') || '42') // Default 70% of 60
+    const profileId = searchParams.get('profile') || DEFAULT_SCORING_PROFILE_ID
     
-    console.log('Fetching S&P 500 quality stocks...')
+    // Built-in profiles are public; custom ones belong to the signed-in user
+    let profile = BUILT_IN_SCORING_PROFILES.find(p => p.id === profileId) || null
+    if (!profile) {
+      const supabase = await createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+      profile = user ? await ScoringProfileService.getProfile(supabase, user.id, profileId) : null
+    }
+    
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Scoring profile not found' },
+        { status: 404 }
+      )
+    }
+    
+    const isDefaultProfile = profile.id === DEFAULT_SCORING_PROFILE_ID
+    
+    console.log(`Fetching S&P 500 quality stocks (${profile.name} profile)...`)
     
     // Step 1: Get S&P 500 constituents
     const sp500Stocks = await SP500GitHubService.getConstituents()
@@ -51,17 +76,24 @@ export async function GET(request: NextRequest) {
     // Create a map for quick lookup
     const stockInfoMap = new Map(sp500Stocks.map(s => [s.symbol, s]))
     
-    // Step 2: Get quality stocks with scores
-    const qualityStocks = await ScorePersistenceService.getSP500QualityStocks(
+    // Step 2: Get quality stocks with scores. The quality minimum is on the
+    // standard 60-point scale, so a custom profile filters after re-weighting.
+    const qualityThreshold = minBusinessScore / 60 * ScoringProfileService.businessQualityMax(profile)
+    const weightedScores = new Map<string, ReturnType<typeof ScoringProfileService.rescore>>()
+    const qualityStocks = (await ScorePersistenceService.getSP500QualityStocks(
       symbols,
-      minBusinessScore
-    )
+      isDefaultProfile ? minBusinessScore : 0
+    )).filter(stock => {
+      const weighted = ScoringProfileService.rescore(stock, profile)
+      weightedScores.set(stock.symbol, weighted)
+      return weighted.businessQualityScore >= qualityThreshold
+    })
     
     console.log(`Found ${qualityStocks.length} quality stocks out of ${symbols.length} S&P 500 stocks`)
     
     // Step 3: Get current prices for quality stocks
     const qualitySymbols = qualityStocks.map(s => s.symbol)
-    const quotes = await YahooFinanceService.getQuotes(qualitySymbols)
+    const quotes = await MarketDataService.getQuotes(qualitySymbols)
     
     // Step 4: Calculate valuation categories and group stocks
     const stocksWithValuation: StockWithValuation[] = []
@@ -74,6 +106,7 @@ export async function GET(request: NextRequest) {
       metadata: {
         totalStocks: 0,
         qualityThreshold: minBusinessScore,
+        scoringProfile: { id: profile.id, name: profile.name },
         lastUpdated: new Date(),
         fromCache: true // Assuming scores are from cache/DB
       }
@@ -83,8 +116,9 @@ export async function GET(request: NextRequest) {
     for (const stock of qualityStocks) {
       const quote = quotes.get(stock.symbol)
       const stockInfo = stockInfoMap.get(stock.symbol)
+      const weighted = weightedScores.get(stock.symbol)
       
-      if (!quote || !stockInfo) continue
+      if (!quote || !stockInfo || !weighted) continue
       
       // Calculate valuation category
       let valuationCategory: ValuationCategory | null = null
@@ -114,10 +148,10 @@ export async function GET(request: NextRequest) {
         currentPrice: quote.price,
         priceChange: quote.change,
         priceChangePercent: quote.changePercent,
-        score: stock.score,
-        businessQualityScore: stock.businessQualityScore,
-        timingScore: stock.timingScore,
-        recommendation: stock.recommendation,
+        score: weighted.score,
+        businessQualityScore: weighted.businessQualityScore,
+        timingScore: weighted.timingScore,
+        recommendation: weighted.recommendation,
         fairValue: valuationCategory.fairValue,
         discountPremium: valuationCategory.discountPremium,
         peRatio: quote.peRatio,
@@ -144,6 +178,9 @@ export async function GET(request: NextRequest) {
       success: true,
       data: categorizedStocks,
       timestamp: new Date().toISOString()
+    }, profile.builtIn ? undefined : {
+      // Custom profiles are private to their owner
+      headers: { 'Cache-Control': 'private, no-store' }
     })
     
   } catch (error: any) {
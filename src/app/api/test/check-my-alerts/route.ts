@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { AlertCheckerService } from '@/lib/services/alert-checker.service'
+import { AlertRuleEngine, describeCondition } from '@/lib/services/alert-rules'
 
 // Test endpoint to manually check alerts for the current user
 // Only available in development
@@ -50,8 +51,8 @@ export async function POST(request: NextRequest) {
     // Log what we're checking
     console.log(`Found ${alertCount} active alerts to check:`)
     watchlistItems?.forEach(item => {
-      const triggers = item.buy_triggers as any
-      console.log(`- ${item.symbol}: Price < $${item.target_price || 'Any'}, Score >= ${triggers?.minScore || 'Any'}, Timing >= ${triggers?.minTimingScore || 'Any'}`)
+      const { rules } = AlertRuleEngine.fromBuyTriggers(item.buy_triggers, item.target_price)
+      console.log(`- ${item.symbol} (${rules.operator}): ${AlertRuleEngine.flatten(rules).map(describeCondition).join(', ') || 'No conditions'}`)
     })
     
     // Run the check
@@ -67,11 +68,7 @@ export async function POST(request: NextRequest) {
       duration: `${duration}ms`,
       alerts: watchlistItems?.map(item => ({
         symbol: item.symbol,
-        conditions: {
-          targetPrice: item.target_price,
-          minScore: (item.buy_triggers as any)?.minScore,
-          minTimingScore: (item.buy_triggers as any)?.minTimingScore
-        }
+        rules: AlertRuleEngine.fromBuyTriggers(item.buy_triggers, item.target_price).rules
       }))
     })
     
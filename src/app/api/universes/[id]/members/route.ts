@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ConstituentHistoryService, BUILT_IN_UNIVERSE_MAP } from '@/lib/services/universes'
+import { ScorePersistenceService } from '@/lib/services/score-persistence.service'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!BUILT_IN_UNIVERSE_MAP.has(id)) {
+      return NextResponse.json(
+        { error: `Membership history is kept for index universes: ${Array.from(BUILT_IN_UNIVERSE_MAP.keys()).join(', ')}` },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const today = new Date().toISOString().split('T')[0]
+    const asOf = searchParams.get('asOf') || today
+
+    if (!DATE_PATTERN.test(asOf) || isNaN(Date.parse(asOf)) || asOf > today) {
+      return NextResponse.json(
+        { error: 'asOf must be a YYYY-MM-DD date no later than today' },
+        { status: 400 }
+      )
+    }
+
+    const membership = await ConstituentHistoryService.getMembersAsOf(id, asOf)
+
+    // Scores as they stood on the date, including companies since removed
+    const scores = searchParams.get('scores') === 'true'
+      ? await ScorePersistenceService.getScoresAsOf(membership.members.map(m => m.symbol), asOf)
+      : null
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...membership,
+        members: membership.members.map(member => ({
+          ...member,
+          ...(scores ? { score: scores.get(member.symbol) || null } : {}),
+        })),
+      },
+      count: membership.members.length,
+      ...(membership.complete ? {} : {
+        warning: membership.trackedSince
+          ? `History is tracked from ${membership.trackedSince}; companies removed before then are missing`
+          : 'No constituent history has been recorded for this universe yet',
+      }),
+    })
+  } catch (error: any) {
+    console.error('Error fetching point-in-time members:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch universe members',
+        message: error.message || 'Unknown error occurred'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ConstituentHistoryService, BUILT_IN_UNIVERSE_MAP } from '@/lib/services/universes'
+
+// GET /api/universes/changes - Recent index additions and removals
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const universeId = searchParams.get('universe') || undefined
+    const since = searchParams.get('since') || undefined
+    const limit = parseInt(searchParams.get('limit') || '50') || 50
+
+    if (universeId && !BUILT_IN_UNIVERSE_MAP.has(universeId)) {
+      return NextResponse.json(
+        { error: `Unknown index universe. Use one of: ${Array.from(BUILT_IN_UNIVERSE_MAP.keys()).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (since && (!/^\d{4}-\d{2}-\d{2}$/.test(since) || isNaN(Date.parse(since)))) {
+      return NextResponse.json(
+        { error: 'since must be a YYYY-MM-DD date' },
+        { status: 400 }
+      )
+    }
+
+    const changes = await ConstituentHistoryService.getChanges({ universeId, since, limit })
+
+    return NextResponse.json({
+      success: true,
+      data: changes,
+      count: changes.length,
+    })
+  } catch (error: any) {
+    console.error('Error fetching constituent changes:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch constituent changes',
+        message: error.message || 'Unknown error occurred'
+      },
+      { status: 500 }
+    )
+  }
+}
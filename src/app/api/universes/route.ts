@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { UniverseService, MAX_CUSTOM_UNIVERSES } from '@/lib/services/universes'
+
+const DUPLICATE_NAME = 'A universe with this name already exists'
+const LIMIT_REACHED = `You can create at most ${MAX_CUSTOM_UNIVERSES} universes`
+
+// GET /api/universes - Every visible universe with its coverage and freshness
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const universes = await UniverseService.getQualityReport(supabase)
+
+    return NextResponse.json({
+      success: true,
+      data: universes,
+      count: universes.length,
+    })
+  } catch (error: any) {
+    console.error('Error fetching universes:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch universes', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/universes - Create a custom universe
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    let input
+    try {
+      input = UniverseService.validateCustomUniverse(body)
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    const universe = await UniverseService.createCustomUniverse(supabase, user.id, input)
+
+    return NextResponse.json({
+      success: true,
+      data: universe,
+    })
+  } catch (error: any) {
+    console.error('Error creating universe:', error)
+
+    if (error.message === DUPLICATE_NAME || error.message === LIMIT_REACHED) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create universe', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/universes?id= - Replace a custom universe
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const universeId = searchParams.get('id')
+
+    if (!universeId) {
+      return NextResponse.json(
+        { error: 'Universe ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+
+    let input
+    try {
+      input = UniverseService.validateCustomUniverse(body)
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    const universe = await UniverseService.updateCustomUniverse(supabase, user.id, universeId, input)
+
+    if (!universe) {
+      return NextResponse.json(
+        { error: 'Universe not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: universe,
+    })
+  } catch (error: any) {
+    console.error('Error updating universe:', error)
+
+    if (error.message === DUPLICATE_NAME) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update universe', message: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/universes?id= - Delete a custom universe
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const universeId = searchParams.get('id')
+
+    if (!universeId) {
+      return NextResponse.json(
+        { error: 'Universe ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await UniverseService.deleteCustomUniverse(supabase, user.id, universeId)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Universe not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Universe deleted',
+    })
+  } catch (error: any) {
+    console.error('Error deleting universe:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete universe', message: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { WatchlistService } from '@/lib/services/watchlist.service'
 import { StockDataService } from '@/lib/services/stock-data.service'
+import { ScoringProfileService } from '@/lib/services/scoring-profile.service'
+import { AlertRuleEngine, AlertRuleError } from '@/lib/services/alert-rules'
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,44 +19,21 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get user's watchlist
-    const watchlist = await WatchlistService.getUserWatchlist(supabase, user.id)
+    // Get user's watchlist and the profile they rank stocks by
+    const [watchlist, profile] = await Promise.all([
+      WatchlistService.getUserWatchlist(supabase, user.id),
+      ScoringProfileService.getActiveProfile(supabase, user.id),
+    ])
 
-    // Enrich with current market data
-    const enrichedWatchlist = await Promise.all(
-      watchlist.map(async (item) => {
-        try {
-          // Get current stock data
-          const stockData = await StockDataService.getStockData(item.symbol)
-          
-          return {
-            ...item,
-            currentPrice: stockData.quote?.price || 0,
-            change: stockData.quote?.change || 0,
-            changePercent: stockData.quote?.changePercent || 0,
-            score: stockData.score?.score || 0,
-            timingScore: stockData.score?.timingScore || 0,
-            name: stockData.quote?.name || item.stock?.company_name || item.symbol,
-          }
-        } catch (error) {
-          console.error(`Error enriching watchlist item ${item.symbol}:`, error)
-          return {
-            ...item,
-            currentPrice: 0,
-            change: 0,
-            changePercent: 0,
-            score: 0,
-            timingScore: 0,
-            name: item.stock?.company_name || item.symbol,
-          }
-        }
-      })
-    )
+    // Enrich with current market data, best score first
+    const enrichedWatchlist = (await WatchlistService.enrichWatchlist(watchlist, profile))
+      .sort((a, b) => b.score - a.score)
 
     return NextResponse.json({
       success: true,
       data: enrichedWatchlist,
       count: enrichedWatchlist.length,
+      profile: { id: profile.id, name: profile.name },
     })
   } catch (error: any) {
     console.error('Error fetching watchlist:', error)
@@ -103,7 +82,11 @@ export async function POST(request: NextRequest) {
     let enrichedItem = { ...watchlistItem }
     
     try {
-      const stockData = await StockDataService.getStockData(symbol.toUpperCase())
+      const [stockData, profile] = await Promise.all([
+        StockDataService.getStockData(symbol.toUpperCase()),
+        ScoringProfileService.getActiveProfile(supabase, user.id),
+      ])
+      const score = stockData.score ? ScoringProfileService.rescore(stockData.score, profile) : null
       
       // Update stock info in database
       if (stockData.quote) {
@@ -123,8 +106,9 @@ export async function POST(request: NextRequest) {
           currentPrice: stockData.quote.price || 0,
           change: stockData.quote.change || 0,
           changePercent: stockData.quote.changePercent || 0,
-          score: stockData.score?.score || 0,
-          timingScore: stockData.score?.timingScore || 0,
+          score: score?.score || 0,
+          timingScore: score?.timingScore || 0,
+          recommendation: score?.recommendation || null,
           // Include name separately for frontend
           name: stockData.quote.name || symbol.toUpperCase(),
         } as any
@@ -226,8 +210,25 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
-    // Validate alert settings if provided
-    if (updates.buy_triggers) {
+    // Validate alert rules if provided
+    if (updates.buy_triggers?.rules) {
+      try {
+        updates.buy_triggers = {
+          version: 2,
+          enabled: updates.buy_triggers.enabled !== false,
+          rules: AlertRuleEngine.validate(updates.buy_triggers.rules),
+        }
+      } catch (error) {
+        if (error instanceof AlertRuleError) {
+          return NextResponse.json(
+            { error: error.message },
+            { status: 400 }
+          )
+        }
+        throw error
+      }
+    } else if (updates.buy_triggers) {
+      // Original { minScore, minTimingScore } settings
       const { minScore, minTimingScore } = updates.buy_triggers
       
       // Validate scores are within range
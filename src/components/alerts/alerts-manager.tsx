@@ -0,0 +1,468 @@
+'use client'
+
+/**
+ * Alerts Manager - Create and manage standalone stock alerts, with trigger history and an evaluation audit
+ */
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Bell, BellOff, CheckCircle, Clock, History, Pencil, Plus, Trash2, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { AlertRuleBuilder } from '@/components/watchlist/alert-rule-builder'
+import type { AlertRuleGroup } from '@/lib/services/alert-rules'
+import type { AlertOutcome, StockAlert, StockAlertEvaluation } from '@/lib/services/alert.service'
+
+interface AlertForm {
+  symbol: string
+  name: string
+  rules: AlertRuleGroup
+  enabled: boolean
+  recurring: boolean
+  cooldownHours: string
+}
+
+const EMPTY_FORM: AlertForm = {
+  symbol: '',
+  name: '',
+  rules: { kind: 'group', operator: 'AND', conditions: [{ kind: 'condition', type: 'price_below', value: 100 }] },
+  enabled: true,
+  recurring: false,
+  cooldownHours: '24',
+}
+
+const OUTCOME_STYLES: Record<AlertOutcome, { label: string, className: string }> = {
+  triggered: { label: 'Triggered', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' },
+  not_met: { label: 'Not met', className: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300' },
+  snoozed: { label: 'Met, snoozed', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400' },
+  cooldown: { label: 'Met, cooling down', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400' },
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString()
+
+const isSnoozed = (alert: StockAlert) => !!alert.snoozedUntil && new Date(alert.snoozedUntil) > new Date()
+
+const statusOf = (alert: StockAlert): { label: string, variant: 'default' | 'secondary' | 'outline' } => {
+  if (!alert.enabled) return { label: 'Disabled', variant: 'outline' }
+  if (!alert.active) return { label: 'Triggered', variant: 'secondary' }
+  if (isSnoozed(alert)) return { label: `Snoozed until ${new Date(alert.snoozedUntil!).toLocaleDateString()}`, variant: 'outline' }
+  return { label: 'Active', variant: 'default' }
+}
+
+function EvaluationList({ evaluations, emptyText }: { evaluations: StockAlertEvaluation[], emptyText: string }) {
+  if (evaluations.length === 0) {
+    return <p className="text-sm text-muted-foreground py-2">{emptyText}</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {evaluations.map(evaluation => (
+        <div key={evaluation.id} className="rounded-md border p-2 text-sm">
+          <div className="flex items-center gap-2">
+            <span className={cn('rounded px-2 py-0.5 text-xs font-medium', OUTCOME_STYLES[evaluation.outcome].className)}>
+              {OUTCOME_STYLES[evaluation.outcome].label}
+            </span>
+            {evaluation.price !== null && <span>${evaluation.price.toFixed(2)}</span>}
+            <span className="ml-auto text-xs text-muted-foreground">{formatDateTime(evaluation.evaluatedAt)}</span>
+          </div>
+          <ul className="mt-1 space-y-0.5">
+            {evaluation.conditions.map((condition, index) => (
+              <li
+                key={index}
+                className="flex items-center gap-1 text-xs text-muted-foreground"
+                style={{ paddingLeft: condition.depth * 12 }}
+              >
+                {condition.met
+                  ? <CheckCircle className="h-3 w-3 text-green-600" />
+                  : <XCircle className="h-3 w-3 text-gray-400" />}
+                {condition.description}
+                {condition.current && <span className="text-gray-500">({condition.current})</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function AlertsManager() {
+  const [alerts, setAlerts] = useState<StockAlert[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null) // 'new' while creating
+  const [form, setForm] = useState<AlertForm>(EMPTY_FORM)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [history, setHistory] = useState<StockAlertEvaluation[]>([])
+  const [audit, setAudit] = useState<StockAlertEvaluation[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+
+  useEffect(() => {
+    loadAlerts()
+  }, [])
+
+  const loadAlerts = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/alerts')
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Failed to load alerts')
+        return
+      }
+
+      setAlerts(data.data)
+    } catch (error) {
+      console.error('Error loading alerts:', error)
+      setError('Failed to load alerts')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const replaceAlert = (updated: StockAlert) =>
+    setAlerts(prev => prev.map(alert => alert.id === updated.id ? updated : alert))
+
+  const startCreate = () => {
+    setEditingId('new')
+    setForm(EMPTY_FORM)
+    setFormError(null)
+  }
+
+  const startEdit = (alert: StockAlert) => {
+    setEditingId(alert.id)
+    setForm({
+      symbol: alert.symbol,
+      name: alert.name || '',
+      rules: alert.rules,
+      enabled: alert.enabled,
+      recurring: alert.recurring,
+      cooldownHours: String(alert.cooldownHours),
+    })
+    setFormError(null)
+  }
+
+  const saveAlert = async () => {
+    setSaving(true)
+    setFormError(null)
+    try {
+      const isNew = editingId === 'new'
+      const response = await fetch(isNew ? '/api/alerts' : `/api/alerts?id=${editingId}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          symbol: form.symbol,
+          name: form.name,
+          rules: form.rules,
+          enabled: form.enabled,
+          recurring: form.recurring,
+          cooldownHours: Number(form.cooldownHours),
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setFormError(data.error || 'Failed to save alert')
+        return
+      }
+
+      setAlerts(prev => isNew ? [data.data, ...prev] : prev.map(alert => alert.id === data.data.id ? data.data : alert))
+      setEditingId(null)
+    } catch (error) {
+      console.error('Error saving alert:', error)
+      setFormError('Failed to save alert')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const patchAlert = async (alertId: string, body: Record<string, unknown>) => {
+    try {
+      const response = await fetch(`/api/alerts?id=${alertId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Failed to update alert')
+        return
+      }
+
+      replaceAlert(data.data)
+    } catch (error) {
+      console.error('Error updating alert:', error)
+      setError('Failed to update alert')
+    }
+  }
+
+  const deleteAlert = async (alert: StockAlert) => {
+    if (!confirm(`Delete the ${alert.name || alert.symbol} alert and its history?`)) return
+
+    try {
+      const response = await fetch(`/api/alerts?id=${alert.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Failed to delete alert')
+        return
+      }
+
+      setAlerts(prev => prev.filter(existing => existing.id !== alert.id))
+      if (expandedId === alert.id) setExpandedId(null)
+    } catch (error) {
+      console.error('Error deleting alert:', error)
+      setError('Failed to delete alert')
+    }
+  }
+
+  const toggleHistory = async (alertId: string) => {
+    if (expandedId === alertId) {
+      setExpandedId(null)
+      return
+    }
+
+    setExpandedId(alertId)
+    setHistoryLoading(true)
+    try {
+      const [triggered, all] = await Promise.all([
+        fetch(`/api/alerts/${alertId}/evaluations?triggered=true&limit=50`).then(r => r.json()),
+        fetch(`/api/alerts/${alertId}/evaluations?limit=50`).then(r => r.json()),
+      ])
+      setHistory(triggered.success ? triggered.data : [])
+      setAudit(all.success ? all.data : [])
+    } catch (error) {
+      console.error('Error loading alert evaluations:', error)
+      setHistory([])
+      setAudit([])
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Alerts</h1>
+          <p className="text-muted-foreground">
+            Any number of alerts per stock, whether or not it&apos;s on your{' '}
+            <Link href="/watchlist" className="text-blue-600 hover:underline">watchlist</Link>
+          </p>
+        </div>
+        {editingId === null && (
+          <Button onClick={startCreate}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Alert
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {editingId !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId === 'new' ? 'New Alert' : 'Edit Alert'}</CardTitle>
+            <CardDescription>
+              One-shot alerts stop after they trigger; editing or re-enabling them re-arms them.
+              Recurring alerts keep checking and wait out their cooldown between triggers.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="alert-symbol">Symbol</Label>
+                <Input
+                  id="alert-symbol"
+                  value={form.symbol}
+                  placeholder="AAPL"
+                  onChange={(e) => setForm({ ...form, symbol: e.target.value.toUpperCase() })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="alert-name">Name (optional)</Label>
+                <Input
+                  id="alert-name"
+                  value={form.name}
+                  maxLength={60}
+                  placeholder="Buy the dip"
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <AlertRuleBuilder value={form.rules} onChange={(rules) => setForm({ ...form, rules })} />
+
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="alert-enabled"
+                  checked={form.enabled}
+                  onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+                />
+                <Label htmlFor="alert-enabled">Enabled</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="alert-recurring"
+                  checked={form.recurring}
+                  onCheckedChange={(recurring) => setForm({ ...form, recurring })}
+                />
+                <Label htmlFor="alert-recurring">Recurring</Label>
+              </div>
+              {form.recurring && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="alert-cooldown">Cooldown</Label>
+                  <Input
+                    id="alert-cooldown"
+                    type="number"
+                    className="w-20"
+                    min={0}
+                    step={1}
+                    value={form.cooldownHours}
+                    onChange={(e) => setForm({ ...form, cooldownHours: e.target.value })}
+                  />
+                  <span className="text-sm text-muted-foreground">hours</span>
+                </div>
+              )}
+            </div>
+
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+            <div className="flex gap-2">
+              <Button onClick={saveAlert} disabled={saving || !form.symbol}>
+                {saving ? 'Saving...' : 'Save Alert'}
+              </Button>
+              <Button variant="outline" onClick={() => setEditingId(null)} disabled={saving}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="space-y-3">
+          {[0, 1, 2].map(i => <Skeleton key={i} className="h-24 w-full" />)}
+        </div>
+      ) : alerts.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">
+            <Bell className="h-8 w-8 mx-auto mb-2" />
+            No alerts yet. Create one to be notified when a stock meets your conditions.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {alerts.map(alert => {
+            const status = statusOf(alert)
+            return (
+              <Card key={alert.id} className={cn(!alert.active && 'opacity-80')}>
+                <CardHeader className="pb-2">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        <Link href={`/stocks/${alert.symbol}`} className="hover:underline">{alert.symbol}</Link>
+                        {alert.name && <span className="font-normal text-muted-foreground">{alert.name}</span>}
+                      </CardTitle>
+                      <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                        <Badge variant="outline">{alert.recurring ? `Recurring, ${alert.cooldownHours}h cooldown` : 'One-shot'}</Badge>
+                        <span>Triggered {alert.triggerCount} {alert.triggerCount === 1 ? 'time' : 'times'}</span>
+                        {alert.triggeredAt && <span>Last {formatDateTime(alert.triggeredAt)}</span>}
+                        {alert.lastEvaluatedAt && <span>Checked {formatDateTime(alert.lastEvaluatedAt)}</span>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Switch
+                        checked={alert.enabled}
+                        title={alert.enabled ? 'Disable' : 'Enable'}
+                        onCheckedChange={(enabled) => patchAlert(alert.id, { enabled })}
+                      />
+                      {isSnoozed(alert) ? (
+                        <Button variant="ghost" size="sm" title="Clear snooze" onClick={() => patchAlert(alert.id, { snoozeDays: null })}>
+                          <Bell className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <>
+                          <Button variant="ghost" size="sm" title="Snooze for a day" onClick={() => patchAlert(alert.id, { snoozeDays: 1 })}>
+                            <BellOff className="h-4 w-4 mr-1" />1d
+                          </Button>
+                          <Button variant="ghost" size="sm" title="Snooze for a week" onClick={() => patchAlert(alert.id, { snoozeDays: 7 })}>
+                            <BellOff className="h-4 w-4 mr-1" />1w
+                          </Button>
+                        </>
+                      )}
+                      <Button variant="ghost" size="sm" title="History" onClick={() => toggleHistory(alert.id)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Edit" onClick={() => startEdit(alert)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Delete" onClick={() => deleteAlert(alert)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <ul className="space-y-0.5 text-sm">
+                    {(alert.lastResult || []).map((condition, index) => (
+                      <li key={index} className="flex items-center gap-1" style={{ paddingLeft: condition.depth * 12 }}>
+                        {condition.met
+                          ? <CheckCircle className="h-3 w-3 text-green-600" />
+                          : <XCircle className="h-3 w-3 text-gray-400" />}
+                        {condition.description}
+                        {condition.current && <span className="text-muted-foreground">({condition.current})</span>}
+                      </li>
+                    ))}
+                    {!alert.lastResult && (
+                      <li className="flex items-center gap-1 text-muted-foreground">
+                        <Clock className="h-3 w-3" />
+                        Not checked yet
+                      </li>
+                    )}
+                  </ul>
+
+                  {expandedId === alert.id && (
+                    historyLoading ? (
+                      <Skeleton className="h-20 w-full" />
+                    ) : (
+                      <Tabs defaultValue="history">
+                        <TabsList>
+                          <TabsTrigger value="history">Trigger history</TabsTrigger>
+                          <TabsTrigger value="audit">All evaluations</TabsTrigger>
+                        </TabsList>
+                        <TabsContent value="history">
+                          <EvaluationList evaluations={history} emptyText="This alert hasn't triggered yet." />
+                        </TabsContent>
+                        <TabsContent value="audit">
+                          <EvaluationList evaluations={audit} emptyText="No evaluations recorded yet." />
+                        </TabsContent>
+                      </Tabs>
+                    )
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
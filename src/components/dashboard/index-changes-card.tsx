@@ -0,0 +1,209 @@
+'use client'
+
+/**
+ * Index Changes Card - Recent index additions and removals, and index membership as of a past date
+ */
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertTriangle, ArrowDownRight, ArrowUpRight, History } from 'lucide-react'
+import { BUILT_IN_UNIVERSES } from '@/lib/services/universes/definitions'
+import type { ConstituentChange, PointInTimeMembership } from '@/lib/services/universes/types/universe-types'
+
+const ALL_UNIVERSES = 'all'
+const UNIVERSE_NAMES = new Map(BUILT_IN_UNIVERSES.map(universe => [universe.id, universe.name]))
+
+interface MembershipComparison {
+  membership: PointInTimeMembership
+  removedSince: string[]
+  addedSince: string[]
+}
+
+export function IndexChangesCard() {
+  const [universeId, setUniverseId] = useState(ALL_UNIVERSES)
+  const [changes, setChanges] = useState<ConstituentChange[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [asOf, setAsOf] = useState('')
+  const [comparison, setComparison] = useState<MembershipComparison | null>(null)
+  const [membershipError, setMembershipError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadChanges()
+  }, [universeId])
+
+  const loadChanges = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ limit: '25' })
+      if (universeId !== ALL_UNIVERSES) params.set('universe', universeId)
+
+      const response = await fetch(`/api/universes/changes?${params}`)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Failed to load index changes')
+        return
+      }
+
+      setChanges(data.data)
+    } catch (error) {
+      console.error('Error loading index changes:', error)
+      setError('Failed to load index changes')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadMembership = async () => {
+    const id = universeId === ALL_UNIVERSES ? 'sp500' : universeId
+    setMembershipError(null)
+    try {
+      const [past, current] = await Promise.all([
+        fetch(`/api/universes/${id}/members?asOf=${asOf}`).then(r => r.json()),
+        fetch(`/api/universes/${id}/members`).then(r => r.json()),
+      ])
+
+      if (!past.success || !current.success) {
+        setMembershipError(past.error || current.error || 'Failed to load members')
+        return
+      }
+
+      const then = new Set<string>(past.data.members.map((m: { symbol: string }) => m.symbol))
+      const now = new Set<string>(current.data.members.map((m: { symbol: string }) => m.symbol))
+
+      setComparison({
+        membership: past.data,
+        removedSince: Array.from(then).filter(symbol => !now.has(symbol)),
+        addedSince: Array.from(now).filter(symbol => !then.has(symbol)),
+      })
+    } catch (error) {
+      console.error('Error loading point-in-time members:', error)
+      setMembershipError('Failed to load members')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Index Changes
+            </CardTitle>
+            <CardDescription>
+              Additions and removals detected when constituent lists refresh. Scores of removed companies are kept.
+            </CardDescription>
+          </div>
+          <Select value={universeId} onValueChange={(value) => { setUniverseId(value); setComparison(null) }}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_UNIVERSES}>All indexes</SelectItem>
+              {BUILT_IN_UNIVERSES.map(universe => (
+                <SelectItem key={universe.id} value={universe.id}>{universe.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-8 w-full" />)}
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No changes recorded yet. Changes appear once a constituent list has been refreshed twice.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {changes.map(change => (
+              <div key={change.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                <div className="flex items-center gap-3 min-w-0">
+                  {change.changeType === 'added' ? (
+                    <ArrowUpRight className="h-4 w-4 text-green-600 shrink-0" />
+                  ) : (
+                    <ArrowDownRight className="h-4 w-4 text-red-600 shrink-0" />
+                  )}
+                  <Link href={`/stocks/${change.symbol}`} className="font-medium hover:underline">
+                    {change.symbol}
+                  </Link>
+                  <span className="text-muted-foreground truncate">{change.companyName}</span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant="outline">{UNIVERSE_NAMES.get(change.universeId) || change.universeId}</Badge>
+                  <Badge variant={change.changeType === 'added' ? 'secondary' : 'destructive'}>
+                    {change.changeType === 'added' ? 'Added' : 'Removed'}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground w-20 text-right">{change.effectiveDate}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 border-t pt-4">
+          <form
+            className="flex flex-col gap-2 md:flex-row md:items-end"
+            onSubmit={(e) => {
+              e.preventDefault()
+              loadMembership()
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="members-as-of">
+                {universeId === ALL_UNIVERSES ? 'S&P 500' : UNIVERSE_NAMES.get(universeId)} members as of
+              </Label>
+              <Input
+                id="members-as-of"
+                type="date"
+                value={asOf}
+                max={new Date().toISOString().split('T')[0]}
+                onChange={(e) => setAsOf(e.target.value)}
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={!asOf}>Show Members</Button>
+          </form>
+
+          {membershipError && <p className="text-sm text-red-600">{membershipError}</p>}
+
+          {comparison && (
+            <div className="space-y-2 text-sm">
+              <p>
+                <span className="font-medium">{comparison.membership.members.length}</span> members on {comparison.membership.asOf}
+                {' · '}{comparison.removedSince.length} since removed{' · '}{comparison.addedSince.length} since added
+              </p>
+              {!comparison.membership.complete && (
+                <p className="flex items-start gap-2 text-yellow-700">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  {comparison.membership.trackedSince
+                    ? `Changes are tracked from ${comparison.membership.trackedSince}. Companies removed before then are missing from this list.`
+                    : 'No history has been recorded for this index yet.'}
+                </p>
+              )}
+              {comparison.removedSince.length > 0 && (
+                <p className="text-muted-foreground">
+                  Since removed: {comparison.removedSince.slice(0, 20).join(', ')}
+                  {comparison.removedSince.length > 20 && ` and ${comparison.removedSince.length - 20} more`}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -8,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
+import { useRealtimeStocks } from '@/lib/hooks/useRealtimeStock'
 import { 
   Eye,
   Zap,
@@ -98,7 +99,14 @@ export function InteractiveWatchlistWidget() {
     }
   }
 
-  const filteredStocks = watchlistStocks.filter(stock => {
+  // Live prices from the stream server replace the stored ones as they arrive
+  const { prices } = useRealtimeStocks(watchlistStocks.map(stock => stock.symbol))
+  const liveStocks = watchlistStocks.map(stock => {
+    const live = prices.get(stock.symbol)
+    return live ? { ...stock, price: live.price, change: live.change, changePercent: live.changePercent } : stock
+  })
+
+  const filteredStocks = liveStocks.filter(stock => {
     if (selectedView === 'ready') return stock.alertProgress >= 80
     if (selectedView === 'soon') return stock.alertProgress >= 60 && stock.alertProgress < 80
     return true
@@ -160,7 +168,7 @@ export function InteractiveWatchlistWidget() {
                   {getMomentumIcon(stock.momentum)}
                 </div>
                 <div className="flex items-center gap-3 mt-1">
-                  <span className="text-lg font-medium">${stock.price}</span>
+                  <span className="text-lg font-medium">${stock.price.toFixed(2)}</span>
                   <span className={`text-sm ${stock.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                     {stock.change >= 0 ? '+' : ''}{stock.changePercent.toFixed(2)}%
                   </span>
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useRef } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Loader2, TrendingUp, TrendingDown, AlertCircle, Filter } from 'lucide-react'
@@ -8,6 +8,7 @@ import { formatCurrency, formatPercentage } from '@/lib/utils'
 import { StockCardShimmer, Shimmer } from '@/components/ui/shimmer'
 import { ValuationSection } from './valuation-section'
 import { DashboardFilters } from './dashboard-filters'
+import { ScoringProfileSelector } from './scoring-profile-selector'
 import { Button } from '@/components/ui/button'
 
 interface StockWithValuation {
@@ -37,6 +38,7 @@ interface QualityStocksData {
   metadata: {
     totalStocks: number
     qualityThreshold: number
+    scoringProfile?: { id: string, name: string }
     lastUpdated: Date
     fromCache: boolean
   }
@@ -57,14 +59,26 @@ export function QualityStocksDashboard({ initialData }: QualityStocksDashboardPr
   })
   const [showFilters, setShowFilters] = useState(false)
   const [useMockData, setUseMockData] = useState(false)
+  const [profileId, setProfileId] = useState<string | null>(null)
+  const profileLoaded = useRef(false)
 
-  useEffect(() => {
-    if (!initialData) {
-      fetchData()
+  // The first fetch waits for the selector to report the user's scoring
+  // profile; server-rendered data is only kept if it was scored under it
+  const handleProfileLoad = (id: string) => {
+    if (profileLoaded.current) return
+    profileLoaded.current = true
+    setProfileId(id)
+    if (!initialData || initialData.metadata.scoringProfile?.id !== id) {
+      fetchData(undefined, id)
     }
-  }, [])
+  }
+
+  const handleProfileChange = (id: string) => {
+    setProfileId(id)
+    fetchData(undefined, id)
+  }
 
-  const fetchData = async (minScore?: number) => {
+  const fetchData = async (minScore?: number, profile: string | null = profileId) => {
     try {
       setLoading(true)
       setError(null)
@@ -72,6 +86,9 @@ export function QualityStocksDashboard({ initialData }: QualityStocksDashboardPr
       const params = new URLSearchParams({
         minScore: String(minScore || filters.minScore)
       })
+      if (profile) {
+        params.set('profile', profile)
+      }
       
       const response = await fetch(`/api/stocks/sp500/quality?${params}`)
       
@@ -252,15 +269,18 @@ export function QualityStocksDashboard({ initialData }: QualityStocksDashboardPr
               Discover undervalued quality stocks waiting to be found
             </p>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            disabled
-            className="gap-2"
-          >
-            <Filter className="h-4 w-4" />
-            Filters
-          </Button>
+          <div className="flex items-center gap-2">
+            <ScoringProfileSelector onProfileChange={handleProfileChange} onLoad={handleProfileLoad} />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled
+              className="gap-2"
+            >
+              <Filter className="h-4 w-4" />
+              Filters
+            </Button>
+          </div>
         </div>
 
         {/* Summary Stats Shimmer */}
@@ -354,17 +374,21 @@ export function QualityStocksDashboard({ initialData }: QualityStocksDashboardPr
           <h1 className="text-3xl font-bold">Hidden Gems Explorer</h1>
           <p className="text-muted-foreground mt-1">
             Discover {data.metadata.totalStocks} undervalued quality stocks waiting to be found
+            {data.metadata.scoringProfile && ` · ranked by ${data.metadata.scoringProfile.name}`}
           </p>
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => setShowFilters(!showFilters)}
-          className="gap-2"
-        >
-          <Filter className="h-4 w-4" />
-          Filters
-        </Button>
+        <div className="flex items-center gap-2">
+          <ScoringProfileSelector onProfileChange={handleProfileChange} onLoad={handleProfileLoad} />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowFilters(!showFilters)}
+            className="gap-2"
+          >
+            <Filter className="h-4 w-4" />
+            Filters
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
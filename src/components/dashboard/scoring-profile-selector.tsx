@@ -0,0 +1,365 @@
+'use client'
+
+/**
+ * Scoring Profile Selector - Pick, create and edit the weighting used to rank stocks
+ */
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Pencil, Plus, Scale, Trash2 } from 'lucide-react'
+
+interface ScoreWeights {
+  financialHealth: number
+  moat: number
+  growth: number
+  valuation: number
+  technical: number
+}
+
+interface RecommendationThresholds {
+  strongBuy: number
+  buy: number
+  hold: number
+  sell: number
+  strongBuyQualityPercent: number
+  buyQualityPercent: number
+}
+
+interface ScoringProfile {
+  id: string
+  name: string
+  description: string | null
+  weights: ScoreWeights
+  thresholds: RecommendationThresholds
+  builtIn: boolean
+}
+
+interface ScoringProfileSelectorProps {
+  onProfileChange: (profileId: string) => void
+  onLoad?: (profileId: string) => void
+}
+
+const WEIGHT_FIELDS: { key: keyof ScoreWeights, label: string, group: string }[] = [
+  { key: 'financialHealth', label: 'Financial Health', group: 'Business quality' },
+  { key: 'moat', label: 'Competitive Moat', group: 'Business quality' },
+  { key: 'growth', label: 'Growth', group: 'Business quality' },
+  { key: 'valuation', label: 'Valuation', group: 'Timing' },
+  { key: 'technical', label: 'Technical', group: 'Timing' },
+]
+
+const THRESHOLD_FIELDS: { key: keyof RecommendationThresholds, label: string }[] = [
+  { key: 'strongBuy', label: 'Strong buy at' },
+  { key: 'buy', label: 'Buy at' },
+  { key: 'hold', label: 'Hold at' },
+  { key: 'sell', label: 'Sell at' },
+]
+
+type ProfileForm = {
+  name: string
+  description: string
+  weights: Record<keyof ScoreWeights, string>
+  thresholds: Record<keyof RecommendationThresholds, string>
+}
+
+const toForm = (profile: ScoringProfile, name: string): ProfileForm => ({
+  name,
+  description: profile.description || '',
+  weights: Object.fromEntries(
+    Object.entries(profile.weights).map(([key, value]) => [key, String(value)])
+  ) as ProfileForm['weights'],
+  thresholds: Object.fromEntries(
+    Object.entries(profile.thresholds).map(([key, value]) => [key, String(value)])
+  ) as ProfileForm['thresholds'],
+})
+
+export function ScoringProfileSelector({ onProfileChange, onLoad }: ScoringProfileSelectorProps) {
+  const [profiles, setProfiles] = useState<ScoringProfile[]>([])
+  const [activeId, setActiveId] = useState<string>('balanced')
+  const [editing, setEditing] = useState<{ id: string | null, form: ProfileForm } | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadProfiles(true)
+  }, [])
+
+  const loadProfiles = async (initial = false) => {
+    let profileId = 'balanced'
+    try {
+      const response = await fetch('/api/scoring-profiles')
+      if (response.ok) {
+        const result = await response.json()
+        if (result.success) {
+          setProfiles(result.data.profiles)
+          setActiveId(result.data.activeProfileId)
+          profileId = result.data.activeProfileId
+        }
+      }
+    } catch (error) {
+      console.error('Error loading scoring profiles:', error)
+    } finally {
+      if (initial) {
+        onLoad?.(profileId)
+      }
+    }
+  }
+
+  const activeProfile = profiles.find(p => p.id === activeId)
+
+  const handleSelect = async (profileId: string) => {
+    if (profileId === 'new') {
+      const base = activeProfile || profiles[0]
+      if (base) {
+        setError(null)
+        setEditing({ id: null, form: toForm(base, '') })
+      }
+      return
+    }
+
+    setActiveId(profileId)
+    try {
+      const response = await fetch('/api/scoring-profiles/active', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ profileId }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to select scoring profile')
+      }
+      onProfileChange(profileId)
+    } catch (error) {
+      console.error('Error selecting scoring profile:', error)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!activeProfile || activeProfile.builtIn) return
+    if (!confirm(`Delete the "${activeProfile.name}" scoring profile?`)) return
+
+    try {
+      const response = await fetch(`/api/scoring-profiles?id=${activeProfile.id}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to delete scoring profile')
+      }
+      await loadProfiles()
+      onProfileChange('balanced')
+    } catch (error) {
+      console.error('Error deleting scoring profile:', error)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!editing) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const { form } = editing
+      const body = {
+        name: form.name,
+        description: form.description,
+        weights: Object.fromEntries(
+          Object.entries(form.weights).map(([key, value]) => [key, parseFloat(value) || 0])
+        ),
+        thresholds: Object.fromEntries(
+          Object.entries(form.thresholds).map(([key, value]) => [key, parseFloat(value) || 0])
+        ),
+      }
+
+      const response = await fetch(
+        editing.id ? `/api/scoring-profiles?id=${editing.id}` : '/api/scoring-profiles',
+        {
+          method: editing.id ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(body),
+        }
+      )
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save scoring profile')
+      }
+
+      setEditing(null)
+      await loadProfiles()
+      onProfileChange(result.data.id)
+    } catch (error) {
+      console.error('Error saving scoring profile:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save scoring profile')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateWeight = (key: keyof ScoreWeights, value: string) => {
+    setEditing(prev => prev && { ...prev, form: { ...prev.form, weights: { ...prev.form.weights, [key]: value } } })
+  }
+
+  const updateThreshold = (key: keyof RecommendationThresholds, value: string) => {
+    setEditing(prev => prev && { ...prev, form: { ...prev.form, thresholds: { ...prev.form.thresholds, [key]: value } } })
+  }
+
+  const weightTotal = editing
+    ? Object.values(editing.form.weights).reduce((sum, value) => sum + (parseFloat(value) || 0), 0)
+    : 0
+
+  if (profiles.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Scale className="h-4 w-4 text-muted-foreground" />
+      <Select value={activeId} onValueChange={handleSelect}>
+        <SelectTrigger className="w-56" title={activeProfile?.description || undefined}>
+          <SelectValue placeholder="Scoring profile" />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value="new">
+            <span className="flex items-center">
+              <Plus className="h-4 w-4 mr-1" />
+              New profile...
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+      {activeProfile && !activeProfile.builtIn && (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Edit profile"
+            onClick={() => {
+              setError(null)
+              setEditing({ id: activeProfile.id, form: toForm(activeProfile, activeProfile.name) })
+            }}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" title="Delete profile" onClick={handleDelete}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Scoring Profile' : 'New Scoring Profile'}</DialogTitle>
+            <DialogDescription>
+              Give each part of the StockBeacon score the points you think it deserves. Points must add up to 100.
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+          {editing && (
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="profileName">Name</Label>
+                  <Input
+                    id="profileName"
+                    placeholder="e.g. Quality compounders"
+                    value={editing.form.name}
+                    onChange={(e) => setEditing({ ...editing, form: { ...editing.form, name: e.target.value } })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="profileDescription">Description</Label>
+                  <Input
+                    id="profileDescription"
+                    placeholder="Optional"
+                    value={editing.form.description}
+                    onChange={(e) => setEditing({ ...editing, form: { ...editing.form, description: e.target.value } })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Points per Component</Label>
+                  <span className={`text-sm font-medium ${weightTotal === 100 ? 'text-green-600' : 'text-red-600'}`}>
+                    {weightTotal} / 100
+                  </span>
+                </div>
+                {WEIGHT_FIELDS.map(field => (
+                  <div key={field.key} className="flex items-center justify-between gap-3">
+                    <div className="text-sm">
+                      <div className="font-medium">{field.label}</div>
+                      <div className="text-muted-foreground">{field.group}</div>
+                    </div>
+                    <Input
+                      type="number"
+                      className="w-24"
+                      min={0}
+                      max={100}
+                      value={editing.form.weights[field.key]}
+                      onChange={(e) => updateWeight(field.key, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Recommendation Thresholds</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  {THRESHOLD_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <Label htmlFor={`threshold-${field.key}`} className="text-xs text-muted-foreground">
+                        {field.label}
+                      </Label>
+                      <Input
+                        id={`threshold-${field.key}`}
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={editing.form.thresholds[field.key]}
+                        onChange={(e) => updateThreshold(field.key, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !editing?.form.name.trim() || weightTotal !== 100}>
+              {saving ? 'Saving...' : 'Save Profile'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,274 @@
+'use client'
+
+/**
+ * Universe Quality Dashboard - Score coverage and freshness per stock universe, and custom universe management
+ */
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertTriangle, Filter, Globe, Plus, RefreshCw, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { IndexChangesCard } from '@/components/dashboard/index-changes-card'
+import type { UniverseQuality } from '@/lib/services/universes/types/universe-types'
+
+const STATUS_STYLES: Record<UniverseQuality['status'], string> = {
+  healthy: 'bg-green-100 text-green-800 border-green-200',
+  degraded: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  stale: 'bg-red-100 text-red-800 border-red-200',
+  empty: 'bg-gray-100 text-gray-600 border-gray-200',
+}
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : 'Never'
+
+function CoverageCell({ value, detail }: { value: number, detail: string }) {
+  return (
+    <div className="min-w-[110px] space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="font-medium">{value.toFixed(0)}%</span>
+        <span className="text-muted-foreground">{detail}</span>
+      </div>
+      <Progress value={value} className="h-1.5" />
+    </div>
+  )
+}
+
+export function UniverseQualityDashboard() {
+  const [universes, setUniverses] = useState<UniverseQuality[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [symbols, setSymbols] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadUniverses()
+  }, [])
+
+  const loadUniverses = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/universes')
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Failed to load universes')
+        return
+      }
+
+      setUniverses(data.data)
+    } catch (error) {
+      console.error('Error loading universes:', error)
+      setError('Failed to load universes')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    setSaving(true)
+    setSaveError(null)
+    try {
+      const response = await fetch('/api/universes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, symbols }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setSaveError(data.error || 'Failed to create universe')
+        return
+      }
+
+      setName('')
+      setSymbols('')
+      await loadUniverses()
+    } catch (error) {
+      console.error('Error creating universe:', error)
+      setSaveError('Failed to create universe')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (universeId: string) => {
+    try {
+      const response = await fetch(`/api/universes?id=${universeId}`, { method: 'DELETE' })
+      if (response.ok) {
+        await loadUniverses()
+      }
+    } catch (error) {
+      console.error('Error deleting universe:', error)
+    }
+  }
+
+  const totalMembers = universes.filter(u => u.enabled).reduce((sum, u) => sum + u.constituentCount, 0)
+  const needsAttention = universes.filter(u => u.enabled && u.status !== 'healthy')
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Globe className="h-7 w-7" />
+            Stock Universes
+          </h1>
+          <p className="text-muted-foreground">
+            The index and custom lists StockBeacon scores, and how fresh their scores are
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadUniverses} disabled={loading}>
+          <RefreshCw className={cn('h-4 w-4 mr-2', loading && 'animate-spin')} />
+          Refresh
+        </Button>
+      </div>
+
+      {!loading && needsAttention.length > 0 && (
+        <Card className="border-yellow-200 bg-yellow-50">
+          <CardContent className="pt-6 flex items-start gap-2 text-sm text-yellow-800">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>
+              {needsAttention.map(u => u.name).join(', ')} {needsAttention.length === 1 ? 'needs' : 'need'} attention.
+              Members are rescored by the nightly job once their score is older than the universe&apos;s score interval.
+            </span>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Coverage</CardTitle>
+          <CardDescription>
+            {loading ? 'Loading…' : `${universes.filter(u => u.enabled).length} enabled universes with ${totalMembers} memberships`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : loading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 5 }).map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Universe</TableHead>
+                  <TableHead className="text-right">Members</TableHead>
+                  <TableHead>Scored</TableHead>
+                  <TableHead>Fresh</TableHead>
+                  <TableHead>Fundamentals</TableHead>
+                  <TableHead>List Updated</TableHead>
+                  <TableHead>Last Scored</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {universes.map(universe => (
+                  <TableRow key={universe.universeId} className={cn(!universe.enabled && 'opacity-60')}>
+                    <TableCell>
+                      <div className="font-medium flex items-center gap-2">
+                        {universe.name}
+                        {universe.kind === 'custom' && <Badge variant="outline">Custom</Badge>}
+                        {!universe.enabled && <Badge variant="secondary">Disabled</Badge>}
+                      </div>
+                      {universe.lastRefreshError && (
+                        <p className="text-xs text-red-600 mt-1">Refresh failed: {universe.lastRefreshError}</p>
+                      )}
+                      {universe.missingSymbols.length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Not yet scored: {universe.missingSymbols.slice(0, 8).join(', ')}
+                          {universe.constituentCount - universe.scoredCount > 8 && ` and ${universe.constituentCount - universe.scoredCount - 8} more`}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{universe.constituentCount}</TableCell>
+                    <TableCell>
+                      <CoverageCell value={universe.scoreCoverage} detail={`${universe.scoredCount}`} />
+                    </TableCell>
+                    <TableCell>
+                      <CoverageCell value={universe.freshness} detail={`${universe.freshCount}`} />
+                    </TableCell>
+                    <TableCell>
+                      <CoverageCell value={universe.snapshotCoverage} detail={`${universe.snapshotCount}`} />
+                    </TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      {universe.kind === 'custom' ? '—' : formatDate(universe.lastRefreshedAt)}
+                    </TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">{formatDate(universe.lastScoredAt)}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[universe.status]}>{universe.status}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {universe.kind === 'index' ? (
+                        <Button asChild size="sm" variant="ghost" title="Screen this universe">
+                          <Link href={`/screener?q=${encodeURIComponent(`universe HAS ${universe.universeId}`)}`}>
+                            <Filter className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                      ) : (
+                        <Button size="sm" variant="ghost" title="Delete universe" onClick={() => handleDelete(universe.universeId)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <IndexChangesCard />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Custom Universe</CardTitle>
+          <CardDescription>
+            Add your own list of symbols to the nightly score job, up to 500 symbols
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="universe-name">Name</Label>
+            <Input
+              id="universe-name"
+              placeholder="Regional banks"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="universe-symbols">Symbols</Label>
+            <textarea
+              id="universe-symbols"
+              className="flex min-h-[100px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              placeholder="ZION, CMA, FHN, WAL"
+              value={symbols}
+              onChange={(e) => setSymbols(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Separate symbols with commas, spaces or new lines</p>
+          </div>
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+          <Button onClick={handleCreate} disabled={saving || !name.trim() || !symbols.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Universe
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -2,14 +2,17 @@
 
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
-import { Home, Search, Eye, Briefcase } from 'lucide-react'
+import { Home, Search, Eye, Briefcase, GitCompare, Filter, Bell } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Logo } from '@/components/ui/logo'
 
 const navigation = [
   { name: 'Hidden Gems', href: '/hidden-gems', icon: Search },
+  { name: 'Screener', href: '/screener', icon: Filter },
   { name: 'Smart Watchlist', href: '/watchlist', icon: Eye },
+  { name: 'Alerts', href: '/alerts', icon: Bell },
   { name: 'Portfolio', href: '/portfolio', icon: Briefcase },
+  { name: 'Compare', href: '/compare', icon: GitCompare },
 ]
 
 export function MainNav() {
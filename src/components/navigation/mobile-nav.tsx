@@ -3,13 +3,16 @@
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { User } from '@supabase/supabase-js'
-import { Home, Search, Eye, Briefcase, User as UserIcon } from 'lucide-react'
+import { Home, Search, Eye, Briefcase, User as UserIcon, GitCompare, Filter, Bell } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
 const navigation = [
   { name: 'Hidden Gems', href: '/hidden-gems', icon: Search },
+  { name: 'Screener', href: '/screener', icon: Filter },
   { name: 'Smart Watchlist', href: '/watchlist', icon: Eye },
+  { name: 'Alerts', href: '/alerts', icon: Bell },
   { name: 'Portfolio', href: '/portfolio', icon: Briefcase },
+  { name: 'Compare', href: '/compare', icon: GitCompare },
   { name: 'Profile', href: '/profile', icon: UserIcon },
 ]
 
@@ -0,0 +1,246 @@
+'use client'
+
+/**
+ * Benchmark Comparison Panel - Cumulative return of the portfolio against an
+ * index or sector ETF, with alpha, beta and tracking error
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { formatPercentage } from '@/lib/utils'
+import { Activity, BarChart3 } from 'lucide-react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts'
+
+type PerformanceWindow = '1M' | '3M' | 'YTD' | '1Y' | 'ALL'
+
+const WINDOWS: PerformanceWindow[] = ['1M', '3M', 'YTD', '1Y', 'ALL']
+
+interface BenchmarkPreset {
+  symbol: string
+  name: string
+}
+
+interface BenchmarkPoint {
+  date: string
+  portfolioReturn: number
+  benchmarkReturn: number
+}
+
+interface BenchmarkMetrics {
+  portfolioReturn: number
+  benchmarkReturn: number
+  excessReturn: number
+  alpha: number | null
+  beta: number | null
+  correlation: number | null
+  trackingError: number | null
+  observations: number
+}
+
+interface BenchmarkComparison {
+  benchmark: string
+  window: PerformanceWindow
+  series: BenchmarkPoint[]
+  metrics: BenchmarkMetrics
+  presets: BenchmarkPreset[]
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+const returnColor = (value: number | null) =>
+  value === null ? '' : value >= 0 ? 'text-green-600' : 'text-red-600'
+
+export function BenchmarkComparisonPanel() {
+  const [benchmark, setBenchmark] = useState('SPY')
+  const [selectedWindow, setSelectedWindow] = useState<PerformanceWindow>('1Y')
+  const [comparison, setComparison] = useState<BenchmarkComparison | null>(null)
+  const [presets, setPresets] = useState<BenchmarkPreset[]>([{ symbol: 'SPY', name: 'S&P 500' }])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    loadComparison()
+  }, [benchmark, selectedWindow])
+
+  const loadComparison = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/portfolio/benchmark?symbol=${benchmark}&window=${selectedWindow}`)
+
+      if (!response.ok) {
+        console.error('Benchmark API error:', response.status)
+        return
+      }
+
+      const result = await response.json()
+      if (result.success) {
+        setComparison(result.data)
+        if (result.data.presets?.length) {
+          setPresets(result.data.presets)
+        }
+      }
+    } catch (error) {
+      console.error('Error loading benchmark comparison:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const metrics = comparison?.metrics
+  const series = comparison?.series || []
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Benchmark Comparison</CardTitle>
+            <CardDescription>
+              Is following StockBeacon scores beating a passive index?
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={benchmark} onValueChange={setBenchmark}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map(preset => (
+                  <SelectItem key={preset.symbol} value={preset.symbol}>
+                    {preset.symbol} · {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-1">
+              {WINDOWS.map(w => (
+                <Button
+                  key={w}
+                  size="sm"
+                  variant={w === selectedWindow ? 'default' : 'outline'}
+                  onClick={() => setSelectedWindow(w)}
+                >
+                  {w}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {metrics && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+            <div>
+              <p className="text-sm text-muted-foreground">vs {comparison?.benchmark}</p>
+              <p className={`text-lg font-semibold ${returnColor(metrics.excessReturn)}`}>
+                {formatPercentage(metrics.excessReturn)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {formatPercentage(metrics.portfolioReturn)} vs {formatPercentage(metrics.benchmarkReturn)}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Alpha (annualized)</p>
+              <p className={`text-lg font-semibold ${returnColor(metrics.alpha)}`}>
+                {metrics.alpha !== null ? formatPercentage(metrics.alpha) : '—'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Beta</p>
+              <p className="text-lg font-semibold">
+                {metrics.beta !== null ? metrics.beta.toFixed(2) : '—'}
+              </p>
+              {metrics.correlation !== null && (
+                <p className="text-xs text-muted-foreground">Correlation {metrics.correlation.toFixed(2)}</p>
+              )}
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Tracking Error</p>
+              <p className="text-lg font-semibold">
+                {metrics.trackingError !== null ? `${metrics.trackingError.toFixed(2)}%` : '—'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Observations</p>
+              <p className="text-lg font-semibold">{metrics.observations}</p>
+              <p className="text-xs text-muted-foreground">daily periods</p>
+            </div>
+          </div>
+        )}
+
+        <div className="h-64">
+          {loading ? (
+            <div className="h-full flex items-center justify-center">
+              <Activity className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : series.length > 1 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={series}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis
+                  dataKey="date"
+                  className="text-xs"
+                  tick={{ fill: 'currentColor' }}
+                  tickFormatter={formatDate}
+                />
+                <YAxis
+                  className="text-xs"
+                  tick={{ fill: 'currentColor' }}
+                  tickFormatter={(value) => `${value.toFixed(0)}%`}
+                />
+                <RechartsTooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--background))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '6px',
+                  }}
+                  labelStyle={{ color: 'hsl(var(--foreground))' }}
+                  labelFormatter={(label) => formatDate(String(label))}
+                  formatter={(value: any) => formatPercentage(Number(value))}
+                />
+                <Legend />
+                <Line
+                  type="monotone"
+                  dataKey="portfolioReturn"
+                  stroke="#3b82f6"
+                  strokeWidth={2}
+                  dot={false}
+                  name="Your Portfolio"
+                />
+                <Line
+                  type="monotone"
+                  dataKey="benchmarkReturn"
+                  stroke="#9ca3af"
+                  strokeWidth={2}
+                  strokeDasharray="4 4"
+                  dot={false}
+                  name={comparison?.benchmark || 'Benchmark'}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center bg-muted rounded">
+              <div className="text-center">
+                <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-2" />
+                <p className="text-muted-foreground">
+                  Not enough portfolio history yet to compare against a benchmark
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,350 @@
+'use client'
+
+/**
+ * Import Transactions Dialog - Upload a broker CSV, preview the detected
+ * trades and commit the new ones to the ledger
+ */
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { formatCurrency } from '@/lib/utils'
+
+type BrokerFormat = 'generic' | 'fidelity' | 'schwab' | 'robinhood' | 'ibkr'
+
+interface ColumnMapping {
+  date: string
+  symbol: string
+  action?: string
+  quantity: string
+  price: string
+  fees?: string
+  amount?: string
+}
+
+interface ImportedTrade {
+  row: number
+  symbol: string
+  type: 'buy' | 'sell' | 'dividend' | 'split' | 'fee'
+  quantity: number
+  price: number
+  amount?: number
+  fees: number
+  executedAt: string
+  description: string
+  status: 'new' | 'duplicate' | 'invalid'
+  error?: string
+}
+
+interface ImportPreview {
+  broker: BrokerFormat
+  headers: string[]
+  mapping: ColumnMapping
+  trades: ImportedTrade[]
+  skipped: { row: number, reason: string }[]
+  summary: {
+    total: number
+    new: number
+    duplicate: number
+    invalid: number
+  }
+}
+
+interface ImportTransactionsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => void
+}
+
+const BROKER_NAMES: Record<BrokerFormat, string> = {
+  generic: 'Generic CSV',
+  fidelity: 'Fidelity',
+  schwab: 'Charles Schwab',
+  robinhood: 'Robinhood',
+  ibkr: 'Interactive Brokers',
+}
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping, label: string, required: boolean }[] = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'symbol', label: 'Symbol', required: true },
+  { key: 'action', label: 'Action', required: false },
+  { key: 'quantity', label: 'Quantity', required: true },
+  { key: 'price', label: 'Price', required: true },
+  { key: 'fees', label: 'Fees', required: false },
+  { key: 'amount', label: 'Amount', required: false },
+]
+
+const NONE = '__none__'
+
+export function ImportTransactionsDialog({ open, onOpenChange, onImported }: ImportTransactionsDialogProps) {
+  const [broker, setBroker] = useState<BrokerFormat>('generic')
+  const [csv, setCsv] = useState('')
+  const [fileName, setFileName] = useState('')
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set())
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) {
+      setCsv('')
+      setFileName('')
+      setMapping(null)
+      setPreview(null)
+      setExcludedRows(new Set())
+      setError(null)
+    }
+  }, [open])
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setCsv(await file.text())
+    setMapping(null)
+    setPreview(null)
+    setExcludedRows(new Set())
+  }
+
+  const submit = async (mode: 'preview' | 'commit') => {
+    if (!csv) return
+
+    setWorking(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/portfolio/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          csv,
+          broker,
+          mapping: mapping || undefined,
+          // Exclusions only apply on commit so excluded rows stay visible in the preview
+          excludeRows: mode === 'commit' ? Array.from(excludedRows) : [],
+          mode,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to import transactions')
+      }
+
+      if (mode === 'preview') {
+        setPreview(result.data)
+        setMapping(result.data.mapping)
+      } else {
+        onImported()
+        onOpenChange(false)
+      }
+    } catch (error) {
+      console.error('Error importing transactions:', error)
+      setError(error instanceof Error ? error.message : 'Failed to import transactions')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const toggleRow = (row: number) => {
+    setExcludedRows(prev => {
+      const next = new Set(prev)
+      if (next.has(row)) {
+        next.delete(row)
+      } else {
+        next.add(row)
+      }
+      return next
+    })
+  }
+
+  const importCount = preview
+    ? preview.trades.filter(t => t.status === 'new' && !excludedRows.has(t.row)).length
+    : 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            Upload a transaction history CSV from your broker. Trades already in your portfolio are skipped.
+          </DialogDescription>
+        </DialogHeader>
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-2 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="importBroker">Broker Format</Label>
+              <Select
+                value={broker}
+                onValueChange={(value) => {
+                  setBroker(value as BrokerFormat)
+                  setMapping(null)
+                  setPreview(null)
+                }}
+              >
+                <SelectTrigger id="importBroker">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BROKER_NAMES) as BrokerFormat[]).map(format => (
+                    <SelectItem key={format} value={format}>
+                      {BROKER_NAMES[format]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="importFile">CSV File</Label>
+              <Input
+                id="importFile"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              {fileName && (
+                <p className="text-xs text-muted-foreground">{fileName}</p>
+              )}
+            </div>
+          </div>
+
+          {preview && mapping && (
+            <div className="space-y-2">
+              <Label>Column Mapping</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {MAPPING_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <p className="text-xs text-muted-foreground mb-1">{field.label}</p>
+                    <Select
+                      value={mapping[field.key] || NONE}
+                      onValueChange={(value) => setMapping({
+                        ...mapping,
+                        [field.key]: value === NONE ? undefined : value,
+                      })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {!field.required && <SelectItem value={NONE}>None</SelectItem>}
+                        {/* Preset fee mappings can combine several columns */}
+                        {mapping[field.key] && !preview.headers.includes(mapping[field.key]!) && (
+                          <SelectItem value={mapping[field.key]!}>{mapping[field.key]}</SelectItem>
+                        )}
+                        {preview.headers.filter(Boolean).map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <div className="flex gap-2 text-sm">
+                <Badge variant="outline">{preview.summary.new} new</Badge>
+                <Badge variant="outline">{preview.summary.duplicate} already imported</Badge>
+                {preview.summary.invalid > 0 && (
+                  <Badge variant="outline" className="border-red-500 text-red-500">
+                    {preview.summary.invalid} invalid
+                  </Badge>
+                )}
+                {preview.skipped.length > 0 && (
+                  <Badge variant="outline">{preview.skipped.length} non-trade rows ignored</Badge>
+                )}
+              </div>
+
+              {preview.trades.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">No trades found in this file</p>
+              ) : (
+                <div className="overflow-x-auto max-h-80 border rounded">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="p-2"></th>
+                        <th className="text-left p-2">Row</th>
+                        <th className="text-left p-2">Date</th>
+                        <th className="text-left p-2">Type</th>
+                        <th className="text-left p-2">Symbol</th>
+                        <th className="text-right p-2">Shares</th>
+                        <th className="text-right p-2">Price</th>
+                        <th className="text-right p-2">Amount</th>
+                        <th className="text-left p-2">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.trades.map(trade => (
+                        <tr key={trade.row} className="border-b hover:bg-muted/50">
+                          <td className="p-2">
+                            <input
+                              type="checkbox"
+                              checked={trade.status === 'new' && !excludedRows.has(trade.row)}
+                              disabled={trade.status !== 'new'}
+                              onChange={() => toggleRow(trade.row)}
+                            />
+                          </td>
+                          <td className="p-2 text-muted-foreground">{trade.row}</td>
+                          <td className="p-2">
+                            {new Date(trade.executedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                          </td>
+                          <td className="p-2 capitalize">{trade.type}</td>
+                          <td className="p-2 font-semibold">{trade.symbol}</td>
+                          <td className="text-right p-2">{trade.quantity || '-'}</td>
+                          <td className="text-right p-2">{trade.price ? formatCurrency(trade.price) : '-'}</td>
+                          <td className="text-right p-2">
+                            {formatCurrency(trade.amount ?? trade.quantity * trade.price)}
+                          </td>
+                          <td className="p-2">
+                            {trade.status === 'new' && <Badge variant="outline" className="border-green-500 text-green-500">New</Badge>}
+                            {trade.status === 'duplicate' && <Badge variant="outline">Duplicate</Badge>}
+                            {trade.status === 'invalid' && (
+                              <span className="text-red-600 text-xs">{trade.error}</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => submit('preview')} disabled={working || !csv}>
+            {working && !preview ? 'Reading...' : preview ? 'Refresh Preview' : 'Preview'}
+          </Button>
+          <Button onClick={() => submit('commit')} disabled={working || !preview || importCount === 0}>
+            {working && preview ? 'Importing...' : `Import ${importCount} Trades`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
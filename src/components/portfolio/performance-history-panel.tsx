@@ -0,0 +1,242 @@
+'use client'
+
+/**
+ * Performance History Panel - Portfolio value over time with time-weighted
+ * return, money-weighted return (IRR) and max drawdown per window
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { formatCurrency, formatPercentage } from '@/lib/utils'
+import { Activity, BarChart3 } from 'lucide-react'
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  ResponsiveContainer,
+  Area,
+  AreaChart
+} from 'recharts'
+
+type PerformanceWindow = '1M' | '3M' | 'YTD' | '1Y' | 'ALL'
+
+const WINDOWS: PerformanceWindow[] = ['1M', '3M', 'YTD', '1Y', 'ALL']
+
+interface PerformancePoint {
+  date: string
+  value: number
+  cost: number
+  netCashFlow: number
+  cumulativeReturn: number
+  drawdown: number
+}
+
+interface PerformanceMetrics {
+  window: PerformanceWindow
+  startDate: string | null
+  endDate: string | null
+  startValue: number
+  endValue: number
+  netCashFlow: number
+  timeWeightedReturn: number
+  moneyWeightedReturn: number | null
+  annualized: {
+    timeWeighted: number
+    moneyWeighted: number | null
+  } | null
+  maxDrawdown: number
+}
+
+interface PerformanceHistory {
+  window: PerformanceWindow
+  series: PerformancePoint[]
+  metrics: Record<PerformanceWindow, PerformanceMetrics>
+}
+
+interface PerformanceHistoryPanelProps {
+  showValues: boolean
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+const returnColor = (value: number | null) =>
+  value === null ? '' : value >= 0 ? 'text-green-600' : 'text-red-600'
+
+export function PerformanceHistoryPanel({ showValues }: PerformanceHistoryPanelProps) {
+  const [selectedWindow, setSelectedWindow] = useState<PerformanceWindow>('1Y')
+  const [history, setHistory] = useState<PerformanceHistory | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    loadPerformance()
+  }, [selectedWindow])
+
+  const loadPerformance = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/portfolio/performance?window=${selectedWindow}`)
+
+      if (!response.ok) {
+        console.error('Performance API error:', response.status)
+        return
+      }
+
+      const result = await response.json()
+      if (result.success) {
+        setHistory(result.data)
+      }
+    } catch (error) {
+      console.error('Error loading performance history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const metrics = history?.metrics[selectedWindow]
+  const series = history?.series || []
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Performance History</CardTitle>
+            <CardDescription>
+              Daily portfolio value with returns adjusted for money you added or withdrew
+            </CardDescription>
+          </div>
+          <div className="flex gap-1">
+            {WINDOWS.map(w => (
+              <Button
+                key={w}
+                size="sm"
+                variant={w === selectedWindow ? 'default' : 'outline'}
+                onClick={() => setSelectedWindow(w)}
+              >
+                {w}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {metrics && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div>
+              <p className="text-sm text-muted-foreground">Time-Weighted Return</p>
+              <p className={`text-lg font-semibold ${returnColor(metrics.timeWeightedReturn)}`}>
+                {formatPercentage(metrics.timeWeightedReturn)}
+              </p>
+              {metrics.annualized && (
+                <p className="text-xs text-muted-foreground">
+                  {formatPercentage(metrics.annualized.timeWeighted)} annualized
+                </p>
+              )}
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Money-Weighted (IRR)</p>
+              <p className={`text-lg font-semibold ${returnColor(metrics.moneyWeightedReturn)}`}>
+                {metrics.moneyWeightedReturn !== null ? formatPercentage(metrics.moneyWeightedReturn) : '—'}
+              </p>
+              {metrics.annualized?.moneyWeighted != null && (
+                <p className="text-xs text-muted-foreground">
+                  {formatPercentage(metrics.annualized.moneyWeighted)} annualized
+                </p>
+              )}
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Max Drawdown</p>
+              <p className="text-lg font-semibold text-red-600">
+                {metrics.maxDrawdown.toFixed(2)}%
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Net Deposits</p>
+              <p className="text-lg font-semibold">
+                {showValues ? formatCurrency(metrics.netCashFlow) : '••••'}
+              </p>
+              {metrics.startDate && (
+                <p className="text-xs text-muted-foreground">Since {formatDate(metrics.startDate)}</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="h-64">
+          {loading ? (
+            <div className="h-full flex items-center justify-center">
+              <Activity className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : series.length > 1 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={series}>
+                <defs>
+                  <linearGradient id="colorHistory" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.1}/>
+                    <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis
+                  dataKey="date"
+                  className="text-xs"
+                  tick={{ fill: 'currentColor' }}
+                  tickFormatter={formatDate}
+                />
+                <YAxis
+                  className="text-xs"
+                  tick={{ fill: 'currentColor' }}
+                  tickFormatter={(value) => showValues ? formatCurrency(value) : ''}
+                />
+                <RechartsTooltip
+                  content={({ active, payload }) => {
+                    if (active && payload && payload.length) {
+                      const point = payload[0].payload as PerformancePoint
+                      return (
+                        <div className="bg-background border rounded-md p-3 shadow-lg">
+                          <p className="font-medium">{formatDate(point.date)}</p>
+                          <p className="text-sm">
+                            Value: {showValues ? formatCurrency(point.value) : '••••'}
+                          </p>
+                          <p className={`text-sm ${returnColor(point.cumulativeReturn)}`}>
+                            Return: {formatPercentage(point.cumulativeReturn)}
+                          </p>
+                          {point.drawdown < 0 && (
+                            <p className="text-sm text-red-600">
+                              Drawdown: {point.drawdown.toFixed(2)}%
+                            </p>
+                          )}
+                        </div>
+                      )
+                    }
+                    return null
+                  }}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="value"
+                  stroke="#3b82f6"
+                  fill="url(#colorHistory)"
+                  strokeWidth={2}
+                  name="Portfolio Value"
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center bg-muted rounded">
+              <div className="text-center">
+                <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-2" />
+                <p className="text-muted-foreground">
+                  History builds up from daily snapshots — check back after the next market close
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,261 @@
+'use client'
+
+/**
+ * Sell Position Dialog - Records a sell with a chosen tax-lot matching method
+ */
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { formatCurrency } from '@/lib/utils'
+
+type LotMethod = 'fifo' | 'lifo' | 'highest_cost' | 'specific'
+
+interface SellablePosition {
+  id: string
+  symbol: string
+  quantity: number
+  currentPrice: number
+}
+
+interface OpenLot {
+  id: string
+  symbol: string
+  acquiredAt: string
+  quantity: number
+  costPerShare: number
+  term: 'short_term' | 'long_term'
+}
+
+interface SellPositionDialogProps {
+  position: SellablePosition | null
+  onOpenChange: (open: boolean) => void
+  onSold: () => void
+}
+
+const LOT_METHOD_LABELS: Record<LotMethod, string> = {
+  fifo: 'First in, first out (FIFO)',
+  lifo: 'Last in, first out (LIFO)',
+  highest_cost: 'Highest cost first',
+  specific: 'Specific lots',
+}
+
+export function SellPositionDialog({ position, onOpenChange, onSold }: SellPositionDialogProps) {
+  const [quantity, setQuantity] = useState('')
+  const [price, setPrice] = useState('')
+  const [fees, setFees] = useState('')
+  const [lotMethod, setLotMethod] = useState<LotMethod>('fifo')
+  const [openLots, setOpenLots] = useState<OpenLot[]>([])
+  const [lotQuantities, setLotQuantities] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!position) return
+
+    setQuantity('')
+    setPrice(position.currentPrice ? position.currentPrice.toFixed(2) : '')
+    setFees('')
+    setLotMethod('fifo')
+    setLotQuantities({})
+    setError(null)
+    loadOpenLots(position.symbol)
+  }, [position?.id])
+
+  const loadOpenLots = async (symbol: string) => {
+    try {
+      const response = await fetch('/api/portfolio/tax-lots')
+      if (!response.ok) return
+
+      const result = await response.json()
+      if (result.success) {
+        setOpenLots((result.data.openLots || []).filter((lot: OpenLot) => lot.symbol === symbol))
+      }
+    } catch (error) {
+      console.error('Error loading tax lots:', error)
+    }
+  }
+
+  // Specific-lot sells are sized by the lots picked
+  const specificQuantity = Object.values(lotQuantities)
+    .reduce((sum, value) => sum + (parseFloat(value) || 0), 0)
+  const sellQuantity = lotMethod === 'specific' ? specificQuantity : parseFloat(quantity) || 0
+
+  const handleSell = async () => {
+    if (!position || sellQuantity <= 0 || !price) return
+
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/portfolio/transactions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          symbol: position.symbol,
+          type: 'sell',
+          quantity: sellQuantity,
+          price: parseFloat(price),
+          fees: fees ? parseFloat(fees) : undefined,
+          lotMethod,
+          lotSelections: lotMethod === 'specific'
+            ? Object.entries(lotQuantities)
+              .filter(([, value]) => parseFloat(value) > 0)
+              .map(([lotId, value]) => ({ lotId, quantity: parseFloat(value) }))
+            : undefined,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to sell position')
+      }
+
+      onSold()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error selling position:', error)
+      setError(error instanceof Error ? error.message : 'Failed to sell position')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!position} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Sell {position?.symbol}</DialogTitle>
+          <DialogDescription>
+            You hold {position?.quantity} shares. Choose which tax lots the sale comes from.
+          </DialogDescription>
+        </DialogHeader>
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-2 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="lotMethod">Lot Matching</Label>
+            <Select value={lotMethod} onValueChange={(value) => setLotMethod(value as LotMethod)}>
+              <SelectTrigger id="lotMethod">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(LOT_METHOD_LABELS) as LotMethod[]).map(method => (
+                  <SelectItem key={method} value={method}>
+                    {LOT_METHOD_LABELS[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {lotMethod === 'specific' ? (
+            <div className="space-y-2">
+              <Label>Shares per Lot</Label>
+              {openLots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No open lots found</p>
+              ) : (
+                openLots.map(lot => (
+                  <div key={lot.id} className="flex items-center justify-between gap-3">
+                    <div className="text-sm">
+                      <div className="font-medium">
+                        {new Date(lot.acquiredAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </div>
+                      <div className="text-muted-foreground">
+                        {lot.quantity} @ {formatCurrency(lot.costPerShare)}
+                        <Badge variant="outline" className="ml-2">
+                          {lot.term === 'long_term' ? 'Long-term' : 'Short-term'}
+                        </Badge>
+                      </div>
+                    </div>
+                    <Input
+                      type="number"
+                      className="w-28"
+                      placeholder="0"
+                      max={lot.quantity}
+                      value={lotQuantities[lot.id] || ''}
+                      onChange={(e) => setLotQuantities(prev => ({ ...prev, [lot.id]: e.target.value }))}
+                    />
+                  </div>
+                ))
+              )}
+            </div>
+          ) : (
+            <div>
+              <Label htmlFor="sellQuantity">Quantity</Label>
+              <Input
+                id="sellQuantity"
+                type="number"
+                placeholder="Number of shares"
+                max={position?.quantity}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="sellPrice">Sell Price</Label>
+              <Input
+                id="sellPrice"
+                type="number"
+                step="0.01"
+                placeholder="Price per share"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="sellFees">Fees</Label>
+              <Input
+                id="sellFees"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={fees}
+                onChange={(e) => setFees(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {sellQuantity > 0 && price && (
+            <div className="rounded-lg bg-muted p-4 text-sm">
+              Proceeds: <span className="font-medium">
+                {formatCurrency(sellQuantity * parseFloat(price) - (parseFloat(fees) || 0))}
+              </span>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSell}
+            disabled={submitting || sellQuantity <= 0 || sellQuantity > (position?.quantity || 0) || !price}
+          >
+            {submitting ? 'Selling...' : 'Sell Shares'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,248 @@
+'use client'
+
+/**
+ * Tax Lots Panel - Realized gains by holding period and open lot details
+ * for year-end tax planning
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { formatCurrency } from '@/lib/utils'
+import { Activity } from 'lucide-react'
+
+type HoldingTerm = 'short_term' | 'long_term'
+
+interface TermTotals {
+  proceeds: number
+  costBasis: number
+  gain: number
+}
+
+interface RealizedLot {
+  lotId: string
+  sellTransactionId: string
+  symbol: string
+  acquiredAt: string
+  soldAt: string
+  quantity: number
+  proceeds: number
+  costBasis: number
+  gain: number
+  term: HoldingTerm
+}
+
+interface OpenLot {
+  id: string
+  symbol: string
+  acquiredAt: string
+  quantity: number
+  costBasis: number
+  costPerShare: number
+  currentPrice: number
+  marketValue: number
+  unrealizedGain: number
+  term: HoldingTerm
+}
+
+interface TaxLotData {
+  realized: {
+    year: number | null
+    shortTerm: TermTotals
+    longTerm: TermTotals
+    lots: RealizedLot[]
+  }
+  unrealized: {
+    shortTerm: number
+    longTerm: number
+    total: number
+  }
+  openLots: OpenLot[]
+}
+
+interface TaxLotsPanelProps {
+  showValues: boolean
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+const gainColor = (value: number) => value >= 0 ? 'text-green-600' : 'text-red-600'
+
+export function TaxLotsPanel({ showValues }: TaxLotsPanelProps) {
+  const currentYear = new Date().getFullYear()
+  const [year, setYear] = useState<string>(currentYear.toString())
+  const [data, setData] = useState<TaxLotData | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    loadTaxLots()
+  }, [year])
+
+  const loadTaxLots = async () => {
+    setLoading(true)
+    try {
+      const query = year === 'all' ? '' : `?year=${year}`
+      const response = await fetch(`/api/portfolio/tax-lots${query}`)
+
+      if (!response.ok) {
+        console.error('Tax lots API error:', response.status)
+        return
+      }
+
+      const result = await response.json()
+      if (result.success) {
+        setData(result.data)
+      }
+    } catch (error) {
+      console.error('Error loading tax lots:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const money = (value: number) => showValues ? formatCurrency(value) : '••••'
+  const years = Array.from({ length: 6 }, (_, i) => (currentYear - i).toString())
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Realized Gains</CardTitle>
+              <CardDescription>
+                Short-term (held one year or less) vs long-term, matched by each sale's lot method
+              </CardDescription>
+            </div>
+            <Select value={year} onValueChange={setYear}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {years.map(y => (
+                  <SelectItem key={y} value={y}>{y}</SelectItem>
+                ))}
+                <SelectItem value="all">All Years</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading || !data ? (
+            <div className="h-32 flex items-center justify-center">
+              <Activity className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                {([
+                  ['Short-Term', data.realized.shortTerm],
+                  ['Long-Term', data.realized.longTerm],
+                ] as [string, TermTotals][]).map(([label, totals]) => (
+                  <div key={label} className="p-4 bg-muted rounded">
+                    <p className="text-sm text-muted-foreground">{label} Realized</p>
+                    <p className={`text-2xl font-bold ${gainColor(totals.gain)}`}>{money(totals.gain)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Proceeds {money(totals.proceeds)} · Basis {money(totals.costBasis)}
+                    </p>
+                  </div>
+                ))}
+                <div className="p-4 bg-muted rounded">
+                  <p className="text-sm text-muted-foreground">Unrealized (Open Lots)</p>
+                  <p className={`text-2xl font-bold ${gainColor(data.unrealized.total)}`}>{money(data.unrealized.total)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Short {money(data.unrealized.shortTerm)} · Long {money(data.unrealized.longTerm)}
+                  </p>
+                </div>
+              </div>
+
+              {data.realized.lots.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">No sales in this period</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left p-2">Symbol</th>
+                        <th className="text-left p-2">Acquired</th>
+                        <th className="text-left p-2">Sold</th>
+                        <th className="text-right p-2">Shares</th>
+                        <th className="text-right p-2">Proceeds</th>
+                        <th className="text-right p-2">Cost Basis</th>
+                        <th className="text-right p-2">Gain/Loss</th>
+                        <th className="text-center p-2">Term</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.realized.lots.map(lot => (
+                        <tr key={`${lot.sellTransactionId}-${lot.lotId}`} className="border-b hover:bg-muted/50">
+                          <td className="p-2 font-semibold">{lot.symbol}</td>
+                          <td className="p-2 text-sm">{formatDate(lot.acquiredAt)}</td>
+                          <td className="p-2 text-sm">{formatDate(lot.soldAt)}</td>
+                          <td className="text-right p-2">{lot.quantity}</td>
+                          <td className="text-right p-2">{money(lot.proceeds)}</td>
+                          <td className="text-right p-2">{money(lot.costBasis)}</td>
+                          <td className={`text-right p-2 ${gainColor(lot.gain)}`}>{money(lot.gain)}</td>
+                          <td className="text-center p-2">
+                            <Badge variant="outline">{lot.term === 'long_term' ? 'Long' : 'Short'}</Badge>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Open Tax Lots</CardTitle>
+          <CardDescription>
+            Each purchase you still hold, with its cost and current holding period
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!data || data.openLots.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">No open lots</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2">Symbol</th>
+                    <th className="text-left p-2">Acquired</th>
+                    <th className="text-right p-2">Shares</th>
+                    <th className="text-right p-2">Cost/Share</th>
+                    <th className="text-right p-2">Market Value</th>
+                    <th className="text-right p-2">Unrealized</th>
+                    <th className="text-center p-2">Term</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.openLots.map(lot => (
+                    <tr key={lot.id} className="border-b hover:bg-muted/50">
+                      <td className="p-2 font-semibold">{lot.symbol}</td>
+                      <td className="p-2 text-sm">{formatDate(lot.acquiredAt)}</td>
+                      <td className="text-right p-2">{lot.quantity}</td>
+                      <td className="text-right p-2">{money(lot.costPerShare)}</td>
+                      <td className="text-right p-2">{money(lot.marketValue)}</td>
+                      <td className={`text-right p-2 ${gainColor(lot.unrealizedGain)}`}>{money(lot.unrealizedGain)}</td>
+                      <td className="text-center p-2">
+                        <Badge variant="outline">{lot.term === 'long_term' ? 'Long' : 'Short'}</Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,360 @@
+'use client'
+
+/**
+ * Moat Version History - Compare moat analysis versions and pin or override dimension scores
+ */
+
+import { useState, useEffect } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { History, Lock, PenLine, X } from 'lucide-react'
+import type { MoatAnalysis } from '@/lib/services/ai-moat.service'
+import type { MoatDimensionKey, MoatVersion, MoatVersionDiff } from '@/lib/services/moat-history.service'
+
+interface MoatVersionHistoryProps {
+  symbol: string
+  moatAnalysis: MoatAnalysis
+  onAnalysisChange: (analysis: MoatAnalysis) => void
+}
+
+const DIMENSIONS: { key: MoatDimensionKey, label: string }[] = [
+  { key: 'brandLoyalty', label: 'Brand Loyalty' },
+  { key: 'switchingCosts', label: 'Switching Costs' },
+  { key: 'networkEffects', label: 'Network Effects' },
+  { key: 'scaleAdvantages', label: 'Scale Advantages' },
+]
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+const describeSource = (version: MoatVersion) =>
+  [version.provider || 'unknown', version.model].filter(Boolean).join(' / ')
+
+export function MoatVersionHistory({ symbol, moatAnalysis, onAnalysisChange }: MoatVersionHistoryProps) {
+  const [versions, setVersions] = useState<MoatVersion[]>([])
+  const [diff, setDiff] = useState<MoatVersionDiff | null>(null)
+  const [from, setFrom] = useState<string>('')
+  const [to, setTo] = useState<string>('')
+  const [editing, setEditing] = useState<{ dimension: MoatDimensionKey, kind: 'pin' | 'override', score: string, justification: string } | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadVersions()
+  }, [symbol, moatAnalysis.version])
+
+  const loadVersions = async (fromVersion?: string, toVersion?: string) => {
+    try {
+      const params = new URLSearchParams()
+      if (fromVersion) params.set('from', fromVersion)
+      if (toVersion) params.set('to', toVersion)
+
+      const response = await fetch(`/api/stocks/${symbol}/moat/versions?${params}`)
+      if (!response.ok) {
+        console.error('Moat versions API error:', response.status)
+        return
+      }
+
+      const result = await response.json()
+      if (result.success) {
+        setVersions(result.data.versions)
+        setDiff(result.data.diff)
+        setFrom(result.data.diff ? String(result.data.diff.from) : '')
+        setTo(result.data.diff ? String(result.data.diff.to) : '')
+      }
+    } catch (error) {
+      console.error('Error loading moat versions:', error)
+    }
+  }
+
+  const handleCompare = (nextFrom: string, nextTo: string) => {
+    setFrom(nextFrom)
+    setTo(nextTo)
+    if (nextFrom && nextTo && nextFrom !== nextTo) {
+      loadVersions(nextFrom, nextTo)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!editing) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/stocks/${symbol}/moat/overrides`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          dimension: editing.dimension,
+          kind: editing.kind,
+          score: editing.kind === 'override' ? parseInt(editing.score) : undefined,
+          justification: editing.justification,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save override')
+      }
+
+      setEditing(null)
+      if (result.data.moatAnalysis) {
+        onAnalysisChange(result.data.moatAnalysis)
+      }
+    } catch (error) {
+      console.error('Error saving moat override:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save override')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleClear = async (dimension: MoatDimensionKey) => {
+    try {
+      const response = await fetch(`/api/stocks/${symbol}/moat/overrides?dimension=${dimension}`, {
+        method: 'DELETE',
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to clear override')
+      }
+      if (result.data.moatAnalysis) {
+        onAnalysisChange(result.data.moatAnalysis)
+      }
+    } catch (error) {
+      console.error('Error clearing moat override:', error)
+    }
+  }
+
+  const overrides = moatAnalysis.overrides || []
+  const label = (key: MoatDimensionKey) => DIMENSIONS.find(d => d.key === key)?.label || key
+  const fromVersion = versions.find(v => String(v.version) === from)
+  const toVersion = versions.find(v => String(v.version) === to)
+
+  return (
+    <div className="space-y-6">
+      {/* Pins and overrides */}
+      <div>
+        <h4 className="font-medium mb-1 flex items-center gap-2">
+          <Lock className="h-4 w-4 text-primary" />
+          Pin or Override Scores
+        </h4>
+        <p className="text-xs text-muted-foreground mb-3">
+          Pinned scores stay put when the analysis is refreshed. Overrides replace the score with your own.
+        </p>
+        <div className="space-y-2">
+          {DIMENSIONS.map(({ key, label }) => {
+            const override = overrides.find(o => o.dimension === key)
+            return (
+              <div key={key} className="flex items-start justify-between gap-3 text-sm">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{label}</span>
+                    <span>{moatAnalysis.dimensions[key].score}/25</span>
+                    {override && (
+                      <Badge variant="secondary">
+                        {override.kind === 'pin' ? `Pinned from v${override.sourceVersion}` : 'Overridden'}
+                      </Badge>
+                    )}
+                  </div>
+                  {override && (
+                    <p className="text-xs text-muted-foreground">
+                      {override.originalScore !== override.score && `Analysis said ${override.originalScore}/25. `}
+                      {override.justification}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {override ? (
+                    <Button size="sm" variant="ghost" title="Clear" onClick={() => handleClear(key)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Pin current score"
+                        onClick={() => {
+                          setError(null)
+                          setEditing({ dimension: key, kind: 'pin', score: '', justification: '' })
+                        }}
+                      >
+                        <Lock className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Override score"
+                        onClick={() => {
+                          setError(null)
+                          setEditing({ dimension: key, kind: 'override', score: String(moatAnalysis.dimensions[key].score), justification: '' })
+                        }}
+                      >
+                        <PenLine className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      {/* Version diff */}
+      <div>
+        <h4 className="font-medium mb-3 flex items-center gap-2">
+          <History className="h-4 w-4 text-primary" />
+          Version History
+        </h4>
+        {versions.length < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            {versions.length === 1
+              ? `Version 1 from ${formatDate(versions[0].createdAt)} (${describeSource(versions[0])}). Changes will show here after the next refresh.`
+              : 'No stored versions yet.'}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm">
+              <Select value={from} onValueChange={(value) => handleCompare(value, to)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="From version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map(v => (
+                    <SelectItem key={v.version} value={String(v.version)}>
+                      v{v.version} · {formatDate(v.createdAt)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">to</span>
+              <Select value={to} onValueChange={(value) => handleCompare(from, value)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="To version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map(v => (
+                    <SelectItem key={v.version} value={String(v.version)}>
+                      v{v.version} · {formatDate(v.createdAt)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {diff && fromVersion && toVersion && (
+              <div className="rounded-md border text-sm">
+                <div className="grid grid-cols-4 gap-2 px-3 py-2 border-b font-medium">
+                  <span>Dimension</span>
+                  <span className="text-right">v{diff.from}</span>
+                  <span className="text-right">v{diff.to}</span>
+                  <span className="text-right">Change</span>
+                </div>
+                {diff.dimensions.map(d => (
+                  <div key={d.dimension} className="grid grid-cols-4 gap-2 px-3 py-2 border-b last:border-b-0">
+                    <span title={d.explanationChanged ? 'Explanation changed' : undefined}>
+                      {label(d.dimension)}{d.explanationChanged && ' *'}
+                    </span>
+                    <span className="text-right">{d.before}</span>
+                    <span className="text-right">{d.after}</span>
+                    <span className={`text-right font-medium ${d.change > 0 ? 'text-green-600' : d.change < 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                      {d.change > 0 ? `+${d.change}` : d.change}
+                    </span>
+                  </div>
+                ))}
+                <div className="grid grid-cols-4 gap-2 px-3 py-2 bg-muted font-medium">
+                  <span>Overall</span>
+                  <span className="text-right">{diff.overallBefore}</span>
+                  <span className="text-right">{diff.overallAfter}</span>
+                  <span className={`text-right ${diff.overallChange > 0 ? 'text-green-600' : diff.overallChange < 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                    {diff.overallChange > 0 ? `+${diff.overallChange}` : diff.overallChange}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            {diff && fromVersion && toVersion && (
+              <p className="text-xs text-muted-foreground">
+                v{diff.from}: {describeSource(fromVersion)}{fromVersion.promptTemplate && `, ${fromVersion.promptTemplate} prompt`}.{' '}
+                v{diff.to}: {describeSource(toVersion)}{toVersion.promptTemplate && `, ${toVersion.promptTemplate} prompt`}.
+                {(diff.providerChanged || diff.modelChanged) && ' The model changed between these versions.'}
+                {diff.dimensions.some(d => d.explanationChanged) && ' * explanation changed.'}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing?.kind === 'pin' ? 'Pin' : 'Override'} {editing && label(editing.dimension)}
+            </DialogTitle>
+            <DialogDescription>
+              {editing?.kind === 'pin'
+                ? 'Keep the current score even when the analysis is refreshed.'
+                : 'Replace the analysed score with your own. This changes the moat part of the StockBeacon score.'}
+            </DialogDescription>
+          </DialogHeader>
+          {error && (
+            <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+          {editing && (
+            <div className="space-y-4 py-4">
+              {editing.kind === 'override' && (
+                <div>
+                  <Label htmlFor="moatOverrideScore">Score (0-25)</Label>
+                  <Input
+                    id="moatOverrideScore"
+                    type="number"
+                    min={0}
+                    max={25}
+                    value={editing.score}
+                    onChange={(e) => setEditing({ ...editing, score: e.target.value })}
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="moatOverrideJustification">Justification</Label>
+                <Input
+                  id="moatOverrideJustification"
+                  placeholder="Why this score is right"
+                  value={editing.justification}
+                  onChange={(e) => setEditing({ ...editing, justification: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !editing?.justification.trim()}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,240 @@
+'use client'
+
+/**
+ * Peer Comparison Panel - A company's ratios and valuation multiples against its S&P 500 peers
+ */
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Users } from 'lucide-react'
+import { formatLargeNumber } from '@/lib/utils'
+import type { PeerComparison, PeerMetricStats } from '@/lib/services/peer-comparison.service'
+
+interface PeerComparisonPanelProps {
+  symbol: string
+}
+
+type Category = PeerMetricStats['category']
+
+const CATEGORIES: { key: Category, name: string }[] = [
+  { key: 'valuation', name: 'Valuation' },
+  { key: 'profitability', name: 'Profitability' },
+  { key: 'liquidity', name: 'Liquidity' },
+  { key: 'leverage', name: 'Leverage' },
+  { key: 'efficiency', name: 'Efficiency' },
+]
+
+const STANDING_STYLES: Record<NonNullable<PeerMetricStats['standing']>, string> = {
+  better: 'text-green-600',
+  inline: '',
+  worse: 'text-red-600',
+}
+
+const formatValue = (value: number | null | undefined, unit: PeerMetricStats['unit']) => {
+  if (value === null || value === undefined) return '—'
+  if (unit === 'percent') return `${value.toFixed(1)}%`
+  if (unit === 'multiple') return `${value.toFixed(1)}x`
+  return value.toFixed(2)
+}
+
+export function PeerComparisonPanel({ symbol }: PeerComparisonPanelProps) {
+  const [comparison, setComparison] = useState<PeerComparison | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [category, setCategory] = useState<Category>('valuation')
+  const [view, setView] = useState<'summary' | 'side-by-side'>('summary')
+
+  useEffect(() => {
+    loadComparison()
+  }, [symbol])
+
+  const loadComparison = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/stocks/${symbol}/peers`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        setError(result.error || 'Failed to load peer comparison')
+        return
+      }
+
+      setComparison(result.data)
+    } catch (error) {
+      console.error('Error loading peer comparison:', error)
+      setError('Failed to load peer comparison')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const metrics = comparison?.metrics.filter(m => m.category === category) || []
+  const group = comparison?.group
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Peer Comparison
+            </CardTitle>
+            <CardDescription>
+              {group
+                ? `${symbol} against ${group.peers.length} S&P 500 peers in ${group.industry || group.sector}`
+                : 'How this company compares with similar S&P 500 companies'}
+            </CardDescription>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={view === 'summary' ? 'default' : 'outline'}
+              onClick={() => setView('summary')}
+            >
+              Peer Median
+            </Button>
+            <Button
+              size="sm"
+              variant={view === 'side-by-side' ? 'default' : 'outline'}
+              onClick={() => setView('side-by-side')}
+            >
+              Side by Side
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !comparison ? (
+          <div className="space-y-2">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        ) : comparison && group ? (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {group.peers.map(peer => (
+                <Link key={peer.symbol} href={`/stocks/${peer.symbol}`}>
+                  <Badge
+                    variant={peer.matchedOn === 'industry' ? 'default' : 'outline'}
+                    title={`${peer.companyName}${peer.industry ? ` · ${peer.industry}` : ''}`}
+                  >
+                    {peer.symbol}
+                  </Badge>
+                </Link>
+              ))}
+            </div>
+            <Link
+              href={`/compare?symbols=${[symbol, ...group.peers.slice(0, 3).map(p => p.symbol)].join(',')}`}
+              className="inline-block text-sm text-primary hover:underline"
+            >
+              Compare {symbol} with its closest peers
+            </Link>
+            <p className="text-xs text-muted-foreground">
+              Filled badges share the {group.industry ? 'industry' : 'sector'}; outlined badges are the closest
+              {' '}{group.sector} companies by market cap. Percentile is the share of peers with a lower value.
+            </p>
+
+            <div className="flex flex-wrap gap-1">
+              {CATEGORIES.map(c => (
+                <Button
+                  key={c.key}
+                  size="sm"
+                  variant={category === c.key ? 'secondary' : 'ghost'}
+                  onClick={() => setCategory(c.key)}
+                >
+                  {c.name}
+                </Button>
+              ))}
+            </div>
+
+            {metrics.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No peer data for this category.</p>
+            ) : view === 'summary' ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Metric</TableHead>
+                    <TableHead className="text-right">{symbol}</TableHead>
+                    <TableHead className="text-right">Peer Median</TableHead>
+                    <TableHead className="text-right">Middle 50%</TableHead>
+                    <TableHead className="text-right">Percentile</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {metrics.map(metric => (
+                    <TableRow key={metric.id}>
+                      <TableCell>
+                        {metric.name}
+                        {!metric.higherIsBetter && (
+                          <span className="text-xs text-muted-foreground"> (lower is better)</span>
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right font-medium ${metric.standing ? STANDING_STYLES[metric.standing] : ''}`}>
+                        {formatValue(metric.value, metric.unit)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatValue(metric.median, metric.unit)}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {metric.p25 !== null && metric.p75 !== null
+                          ? `${formatValue(metric.p25, metric.unit)} – ${formatValue(metric.p75, metric.unit)}`
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {metric.percentile !== null ? `${metric.percentile}th` : '—'}
+                        <span className="text-xs text-muted-foreground"> of {metric.peerCount}</span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Company</TableHead>
+                    <TableHead className="text-right">Market Cap</TableHead>
+                    {metrics.map(metric => (
+                      <TableHead key={metric.id} className="text-right">{metric.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparison.companies.map(company => (
+                    <TableRow key={company.symbol} className={company.symbol === symbol ? 'bg-muted/50 font-medium' : ''}>
+                      <TableCell title={company.companyName}>{company.symbol}</TableCell>
+                      <TableCell className="text-right">
+                        {company.marketCap ? `$${formatLargeNumber(company.marketCap)}` : '—'}
+                      </TableCell>
+                      {metrics.map(metric => (
+                        <TableCell key={metric.id} className="text-right">
+                          {formatValue(company.values[metric.id], metric.unit)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                  <TableRow className="border-t-2">
+                    <TableCell className="text-muted-foreground">Peer median</TableCell>
+                    <TableCell />
+                    {metrics.map(metric => (
+                      <TableCell key={metric.id} className="text-right text-muted-foreground">
+                        {formatValue(metric.median, metric.unit)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
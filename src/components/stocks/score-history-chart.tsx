@@ -0,0 +1,221 @@
+'use client'
+
+/**
+ * Score History Chart - StockBeacon score and sub-scores over time
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Activity, History } from 'lucide-react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts'
+
+type ScoreHistoryRange = '3M' | '6M' | '1Y' | '2Y' | 'ALL'
+
+const RANGES: ScoreHistoryRange[] = ['3M', '6M', '1Y', '2Y', 'ALL']
+
+interface ScoreHistoryPoint {
+  date: string
+  score: number
+  businessQualityScore: number
+  timingScore: number
+  financialHealthScore: number
+  moatScore: number | null
+  growthScore: number
+  valuationScore: number
+  technicalScore: number
+  recommendation: string
+}
+
+interface ScoreHistoryChartProps {
+  symbol: string
+}
+
+// Sub-scores have different maximums, so the component view plots each as a
+// percentage of its maximum
+const COMPONENTS: { key: keyof ScoreHistoryPoint, name: string, max: number, color: string }[] = [
+  { key: 'financialHealthScore', name: 'Financial Health', max: 25, color: '#3b82f6' },
+  { key: 'moatScore', name: 'Moat', max: 20, color: '#8b5cf6' },
+  { key: 'growthScore', name: 'Growth', max: 15, color: '#10b981' },
+  { key: 'valuationScore', name: 'Valuation', max: 20, color: '#f59e0b' },
+  { key: 'technicalScore', name: 'Technical', max: 20, color: '#ef4444' },
+]
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit', timeZone: 'UTC' })
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function ScoreHistoryChart({ symbol }: ScoreHistoryChartProps) {
+  const [range, setRange] = useState<ScoreHistoryRange>('1Y')
+  const [view, setView] = useState<'overall' | 'components'>('overall')
+  const [history, setHistory] = useState<ScoreHistoryPoint[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    loadHistory()
+  }, [symbol, range])
+
+  const loadHistory = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/stocks/${symbol}/score-history?range=${range}`)
+
+      if (!response.ok) {
+        console.error('Score history API error:', response.status)
+        return
+      }
+
+      const result = await response.json()
+      if (result.success) {
+        setHistory(result.data.history)
+      }
+    } catch (error) {
+      console.error('Error loading score history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const latest = history[history.length - 1]
+
+  // Compare with the last score from at least a quarter ago, if we have one
+  const quarterAgo = latest
+    ? [...history].reverse().find(point =>
+        new Date(latest.date).getTime() - new Date(point.date).getTime() >= 90 * DAY_MS
+      )
+    : undefined
+
+  const chartData = view === 'overall'
+    ? history
+    : history.map(point => ({
+        date: point.date,
+        ...Object.fromEntries(COMPONENTS.map(c => [
+          c.key,
+          point[c.key] === null ? null : Math.round((Number(point[c.key]) / c.max) * 100),
+        ])),
+      }))
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Score History</CardTitle>
+            <CardDescription>
+              {latest && quarterAgo
+                ? `${latest.score} today vs ${quarterAgo.score} on ${formatDate(quarterAgo.date)}`
+                : 'How the StockBeacon score has changed over time'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant={view === 'overall' ? 'default' : 'outline'}
+                onClick={() => setView('overall')}
+              >
+                Overall
+              </Button>
+              <Button
+                size="sm"
+                variant={view === 'components' ? 'default' : 'outline'}
+                onClick={() => setView('components')}
+              >
+                Components
+              </Button>
+            </div>
+            <div className="flex gap-1">
+              {RANGES.map(r => (
+                <Button
+                  key={r}
+                  size="sm"
+                  variant={r === range ? 'default' : 'outline'}
+                  onClick={() => setRange(r)}
+                >
+                  {r}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="h-64">
+          {loading ? (
+            <div className="h-full flex items-center justify-center">
+              <Activity className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : history.length > 1 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis
+                  dataKey="date"
+                  className="text-xs"
+                  tick={{ fill: 'currentColor' }}
+                  tickFormatter={formatDate}
+                />
+                <YAxis
+                  className="text-xs"
+                  tick={{ fill: 'currentColor' }}
+                  domain={[0, 100]}
+                  tickFormatter={(value) => view === 'components' ? `${value}%` : `${value}`}
+                />
+                <RechartsTooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--background))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '6px',
+                  }}
+                  labelStyle={{ color: 'hsl(var(--foreground))' }}
+                  labelFormatter={(label) => formatDate(String(label))}
+                  formatter={(value: any) => view === 'components' ? `${value}%` : value}
+                />
+                <Legend />
+                {view === 'overall' ? (
+                  <>
+                    <Line type="monotone" dataKey="score" stroke="#3b82f6" strokeWidth={2} dot={false} name="Overall (/100)" />
+                    <Line type="monotone" dataKey="businessQualityScore" stroke="#10b981" strokeWidth={2} dot={false} name="Business Quality (/60)" />
+                    <Line type="monotone" dataKey="timingScore" stroke="#f59e0b" strokeWidth={2} dot={false} name="Time to Buy (/40)" />
+                  </>
+                ) : (
+                  COMPONENTS.map(c => (
+                    <Line
+                      key={c.key}
+                      type="monotone"
+                      dataKey={c.key}
+                      stroke={c.color}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                      name={c.name}
+                    />
+                  ))
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center bg-muted rounded">
+              <div className="text-center">
+                <History className="h-12 w-12 text-muted-foreground mx-auto mb-2" />
+                <p className="text-muted-foreground">
+                  Score history builds up as {symbol} is re-scored each night
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,544 @@
+'use client'
+
+/**
+ * Stock Comparison Workspace - 2 to 6 stocks side by side, with the selection kept in the URL
+ */
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { GitCompare, Link2, Plus, X } from 'lucide-react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts'
+import { formatCurrency, formatLargeNumber, formatPercentage, getScoreColor } from '@/lib/utils'
+import type {
+  ComparedScore,
+  ComparedStock,
+  StatementTrendPoint,
+  StockComparison,
+} from '@/lib/services/stock-comparison.service'
+
+interface StockComparisonWorkspaceProps {
+  initialSymbols: string[]
+  initialPeriod: string
+}
+
+const MIN_SYMBOLS = 2
+const MAX_SYMBOLS = 6
+
+const PERIODS = ['3mo', '6mo', '1y', '2y', '5y']
+
+const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4']
+
+const SCORE_ROWS: { key: keyof Omit<ComparedScore, 'recommendation'>, name: string, max: number }[] = [
+  { key: 'score', name: 'StockBeacon Score', max: 100 },
+  { key: 'businessQualityScore', name: 'Business Quality', max: 60 },
+  { key: 'financialHealthScore', name: 'Financial Health', max: 25 },
+  { key: 'moatScore', name: 'Moat', max: 20 },
+  { key: 'growthScore', name: 'Growth', max: 15 },
+  { key: 'timingScore', name: 'Time to Buy', max: 40 },
+  { key: 'valuationScore', name: 'Valuation', max: 20 },
+  { key: 'technicalScore', name: 'Technical', max: 20 },
+]
+
+const HEALTH_CATEGORIES: { key: string, name: string }[] = [
+  { key: 'profitability', name: 'Profitability' },
+  { key: 'growth', name: 'Growth' },
+  { key: 'financial_stability', name: 'Financial Stability' },
+  { key: 'efficiency', name: 'Efficiency' },
+  { key: 'shareholder_value', name: 'Shareholder Value' },
+]
+
+const TREND_METRICS: { key: keyof Omit<StatementTrendPoint, 'fiscalYear'>, name: string }[] = [
+  { key: 'revenue', name: 'Revenue' },
+  { key: 'netIncome', name: 'Net Income' },
+  { key: 'freeCashFlow', name: 'Free Cash Flow' },
+  { key: 'operatingMargin', name: 'Operating Margin' },
+]
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit', timeZone: 'UTC' })
+
+const formatAmount = (value: number | null) => {
+  if (value === null) return '—'
+  return value < 0 ? `-$${formatLargeNumber(-value)}` : `$${formatLargeNumber(value)}`
+}
+
+// Index of the highest value in a row, for highlighting
+const bestIndex = (values: (number | null | undefined)[]) => {
+  let best = -1
+  values.forEach((value, index) => {
+    if (value !== null && value !== undefined && (best === -1 || value > values[best]!)) best = index
+  })
+  return best
+}
+
+export function StockComparisonWorkspace({ initialSymbols, initialPeriod }: StockComparisonWorkspaceProps) {
+  const router = useRouter()
+  const [symbols, setSymbols] = useState<string[]>(initialSymbols)
+  const [period, setPeriod] = useState(PERIODS.includes(initialPeriod) ? initialPeriod : '1y')
+  const [newSymbol, setNewSymbol] = useState('')
+  const [comparison, setComparison] = useState<StockComparison | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [trendMetric, setTrendMetric] = useState<typeof TREND_METRICS[number]['key']>('revenue')
+  const [linkCopied, setLinkCopied] = useState(false)
+
+  useEffect(() => {
+    // Keep the URL shareable without adding a history entry per change
+    const params = new URLSearchParams()
+    if (symbols.length > 0) params.set('symbols', symbols.join(','))
+    params.set('period', period)
+    router.replace(`/compare?${params}`, { scroll: false })
+
+    if (symbols.length >= MIN_SYMBOLS) {
+      loadComparison()
+    } else {
+      setComparison(null)
+    }
+  }, [symbols, period])
+
+  const loadComparison = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/stocks/compare?symbols=${encodeURIComponent(symbols.join(','))}&period=${period}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        setError(result.error || 'Failed to compare stocks')
+        return
+      }
+
+      setComparison(result.data)
+    } catch (error) {
+      console.error('Error loading comparison:', error)
+      setError('Failed to compare stocks')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAddSymbol = () => {
+    const symbol = newSymbol.trim().toUpperCase()
+    if (!symbol || symbols.includes(symbol) || symbols.length >= MAX_SYMBOLS) return
+    setSymbols([...symbols, symbol])
+    setNewSymbol('')
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy link:', error)
+    }
+  }
+
+  const stocks: ComparedStock[] = comparison?.stocks || []
+
+  const valuationMethods = Array.from(new Set(
+    stocks.flatMap(stock => stock.valuation?.methods.map(m => m.method) || [])
+  ))
+
+  const fiscalYears = Array.from(new Set(
+    stocks.flatMap(stock => stock.statementTrends.map(t => t.fiscalYear))
+  )).sort((a, b) => b - a)
+
+  const performanceData = (comparison?.performance || []).map(point => ({
+    date: point.date,
+    ...point.returns,
+  }))
+
+  const renderRow = (
+    name: string,
+    values: (number | null | undefined)[],
+    format: (value: number) => string,
+    highlight = true
+  ) => {
+    const best = highlight ? bestIndex(values) : -1
+    return (
+      <TableRow key={name}>
+        <TableCell>{name}</TableCell>
+        {values.map((value, index) => (
+          <TableCell key={stocks[index].symbol} className={`text-right ${index === best ? 'font-semibold text-green-600' : ''}`}>
+            {value === null || value === undefined ? '—' : format(value)}
+          </TableCell>
+        ))}
+      </TableRow>
+    )
+  }
+
+  const symbolHeader = (
+    <TableHeader>
+      <TableRow>
+        <TableHead />
+        {stocks.map(stock => (
+          <TableHead key={stock.symbol} className="text-right">{stock.symbol}</TableHead>
+        ))}
+      </TableRow>
+    </TableHeader>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <GitCompare className="h-7 w-7" />
+            Compare Stocks
+          </h1>
+          <p className="text-muted-foreground">
+            Put {MIN_SYMBOLS} to {MAX_SYMBOLS} stocks side by side
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleCopyLink} disabled={symbols.length < MIN_SYMBOLS}>
+          <Link2 className="h-4 w-4 mr-2" />
+          {linkCopied ? 'Link copied' : 'Copy link'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-center gap-2">
+            {symbols.map((symbol, index) => (
+              <Badge key={symbol} variant="outline" className="gap-1 py-1" style={{ borderColor: COLORS[index] }}>
+                {symbol}
+                <button
+                  type="button"
+                  aria-label={`Remove ${symbol}`}
+                  onClick={() => setSymbols(symbols.filter(s => s !== symbol))}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            {symbols.length < MAX_SYMBOLS && (
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  handleAddSymbol()
+                }}
+              >
+                <Input
+                  className="w-28 h-8"
+                  placeholder="Symbol"
+                  value={newSymbol}
+                  onChange={(e) => setNewSymbol(e.target.value)}
+                />
+                <Button type="submit" size="sm" variant="outline">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </form>
+            )}
+          </div>
+          {symbols.length < MIN_SYMBOLS && (
+            <p className="text-sm text-muted-foreground mt-3">
+              Add at least {MIN_SYMBOLS} symbols to compare.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading && !comparison && (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      )}
+
+      {stocks.length > 0 && (
+        <>
+          {/* Overview */}
+          <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${stocks.length}, minmax(0, 1fr))` }}>
+            {stocks.map((stock, index) => (
+              <Card key={stock.symbol} className="border-t-4" style={{ borderTopColor: COLORS[index] }}>
+                <CardContent className="pt-4 space-y-1">
+                  <Link href={`/stocks/${stock.symbol}`} className="font-bold hover:underline">
+                    {stock.symbol}
+                  </Link>
+                  <p className="text-xs text-muted-foreground truncate" title={stock.name}>{stock.name}</p>
+                  <p className="text-lg font-semibold">
+                    {stock.price !== null ? formatCurrency(stock.price) : '—'}
+                  </p>
+                  {stock.changePercent !== null && (
+                    <p className={`text-sm ${stock.changePercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatPercentage(stock.changePercent)}
+                    </p>
+                  )}
+                  {stock.score && (
+                    <p className={`text-2xl font-bold ${getScoreColor(stock.score.score)}`}>
+                      {stock.score.score}
+                      <span className="text-xs text-muted-foreground font-normal"> /100</span>
+                    </p>
+                  )}
+                  {stock.unavailable.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Missing: {stock.unavailable.join(', ')}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Price performance */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle>Price Performance</CardTitle>
+                  <CardDescription>Return from the first date all stocks traded</CardDescription>
+                </div>
+                <div className="flex gap-1">
+                  {PERIODS.map(p => (
+                    <Button
+                      key={p}
+                      size="sm"
+                      variant={p === period ? 'default' : 'outline'}
+                      onClick={() => setPeriod(p)}
+                    >
+                      {p.toUpperCase()}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="h-72">
+                {performanceData.length > 1 ? (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={performanceData}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                      <XAxis
+                        dataKey="date"
+                        className="text-xs"
+                        tick={{ fill: 'currentColor' }}
+                        tickFormatter={formatDate}
+                      />
+                      <YAxis
+                        className="text-xs"
+                        tick={{ fill: 'currentColor' }}
+                        tickFormatter={(value) => `${value}%`}
+                      />
+                      <RechartsTooltip
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--background))',
+                          border: '1px solid hsl(var(--border))',
+                          borderRadius: '6px',
+                        }}
+                        labelStyle={{ color: 'hsl(var(--foreground))' }}
+                        labelFormatter={(label) => formatDate(String(label))}
+                        formatter={(value: any) => formatPercentage(Number(value))}
+                      />
+                      <Legend />
+                      {stocks.map((stock, index) => (
+                        <Line
+                          key={stock.symbol}
+                          type="monotone"
+                          dataKey={(point: any) => point[stock.symbol]}
+                          stroke={COLORS[index]}
+                          strokeWidth={2}
+                          dot={false}
+                          connectNulls
+                          name={stock.symbol}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                ) : (
+                  <div className="h-full flex items-center justify-center bg-muted rounded">
+                    <p className="text-muted-foreground">No overlapping price history</p>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            {/* StockBeacon scores */}
+            <Card>
+              <CardHeader>
+                <CardTitle>StockBeacon Scores</CardTitle>
+                <CardDescription>Highest in each row is highlighted</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  {symbolHeader}
+                  <TableBody>
+                    {SCORE_ROWS.map(row => renderRow(
+                      `${row.name} (/${row.max})`,
+                      stocks.map(stock => stock.score?.[row.key]),
+                      value => `${Math.round(value)}`
+                    ))}
+                    <TableRow>
+                      <TableCell>Recommendation</TableCell>
+                      {stocks.map(stock => (
+                        <TableCell key={stock.symbol} className="text-right capitalize">
+                          {stock.score?.recommendation.replace('_', ' ') || '—'}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Financial health */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Financial Health</CardTitle>
+                <CardDescription>Health score categories from SEC filings</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  {symbolHeader}
+                  <TableBody>
+                    <TableRow>
+                      <TableCell>Grade</TableCell>
+                      {stocks.map(stock => (
+                        <TableCell key={stock.symbol} className="text-right font-semibold">
+                          {stock.health?.grade || '—'}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                    {renderRow('Overall', stocks.map(stock => stock.health?.overall), value => `${Math.round(value)}`)}
+                    {HEALTH_CATEGORIES.map(category => renderRow(
+                      category.name,
+                      stocks.map(stock => stock.health?.categories.find(c => c.name === category.key)?.score),
+                      value => `${Math.round(value)}`
+                    ))}
+                    {renderRow('Green flags', stocks.map(stock => stock.health ? stock.greenFlags.length : null), value => `${value}`)}
+                    {renderRow('Red flags', stocks.map(stock => stock.health ? stock.redFlags.length : null), value => `${value}`, false)}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Valuation */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Valuation</CardTitle>
+              <CardDescription>Intrinsic value by method, per share</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                {symbolHeader}
+                <TableBody>
+                  {renderRow('Current price', stocks.map(stock => stock.valuation?.currentPrice ?? stock.price), formatCurrency, false)}
+                  {renderRow('Average intrinsic value', stocks.map(stock => stock.valuation?.averageIntrinsicValue), formatCurrency, false)}
+                  {renderRow('Upside', stocks.map(stock => stock.valuation?.upside), formatPercentage)}
+                  <TableRow>
+                    <TableCell>Verdict</TableCell>
+                    {stocks.map(stock => (
+                      <TableCell key={stock.symbol} className="text-right capitalize">
+                        {stock.valuation?.recommendation || '—'}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                  {valuationMethods.map(method => renderRow(
+                    method,
+                    stocks.map(stock => stock.valuation?.methods.find(m => m.method === method)?.value),
+                    formatCurrency,
+                    false
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Statement trends */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle>Financial Statement Trends</CardTitle>
+                  <CardDescription>Annual figures by fiscal year</CardDescription>
+                </div>
+                <div className="flex gap-1">
+                  {TREND_METRICS.map(metric => (
+                    <Button
+                      key={metric.key}
+                      size="sm"
+                      variant={trendMetric === metric.key ? 'default' : 'outline'}
+                      onClick={() => setTrendMetric(metric.key)}
+                    >
+                      {metric.name}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {fiscalYears.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No financial statements available.</p>
+              ) : (
+                <Table>
+                  {symbolHeader}
+                  <TableBody>
+                    {fiscalYears.map(year => renderRow(
+                      `FY${year}`,
+                      stocks.map(stock => stock.statementTrends.find(t => t.fiscalYear === year)?.[trendMetric]),
+                      value => trendMetric === 'operatingMargin' ? `${value.toFixed(1)}%` : formatAmount(value),
+                      trendMetric === 'operatingMargin'
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Flags */}
+          <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${stocks.length}, minmax(0, 1fr))` }}>
+            {stocks.map(stock => (
+              <Card key={stock.symbol}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">{stock.symbol} Flags</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  {stock.greenFlags.length === 0 && stock.redFlags.length === 0 && (
+                    <p className="text-muted-foreground">No flags</p>
+                  )}
+                  {stock.greenFlags.map(flag => (
+                    <div key={`green-${flag.title}`} title={flag.explanation}>
+                      <span className="text-green-600">●</span> {flag.title}
+                    </div>
+                  ))}
+                  {stock.redFlags.map(flag => (
+                    <div key={`red-${flag.title}`} title={flag.explanation}>
+                      <span className="text-red-600">●</span> {flag.title}
+                      <span className="text-xs text-muted-foreground"> ({flag.level})</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
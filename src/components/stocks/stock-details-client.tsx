@@ -41,6 +41,9 @@ import { NewsFeed } from '@/components/stocks/news-feed'
 import { AINewsSummary } from '@/components/stocks/ai-news-summary'
 import { NewsEducationGuide } from '@/components/stocks/news-education-guide'
 import { ValuationChart } from '@/components/stocks/valuation-chart'
+import { ScoreHistoryChart } from '@/components/stocks/score-history-chart'
+import { MoatVersionHistory } from '@/components/stocks/moat-version-history'
+import { PeerComparisonPanel } from '@/components/stocks/peer-comparison-panel'
 import { ChartWrapper } from '@/components/stocks/chart-wrapper'
 import { type ComprehensiveValuation } from '@/lib/services/valuation.service'
 import { type NewsAnalysis } from '@/lib/services/news-analysis.service'
@@ -208,6 +211,25 @@ export function StockDetailsClient({
   // Manual inputs are now handled client-side in ValuationChart with instant feedback
   // Server sync happens on blur via handleRecalculateValuation
 
+  // Pins and overrides change the moat score, so the StockBeacon score follows
+  const handleMoatOverrideChange = async (analysis: MoatAnalysis) => {
+    setMoatAnalysis(analysis)
+    try {
+      const scoreResponse = await fetch(`/api/stocks/${symbol}/recalculate-score`, {
+        method: 'POST'
+      })
+      if (scoreResponse.ok) {
+        const scoreData = await scoreResponse.json()
+        setStockData((prevData: any) => ({
+          ...prevData,
+          stockbeaconScore: scoreData.score
+        }))
+      }
+    } catch (error) {
+      console.error(`[StockDetailsClient] Failed to recalculate score after moat override for ${symbol}:`, error)
+    }
+  }
+
   const loadMoatAnalysis = async () => {
     const startTime = Date.now()
     console.log(`[StockDetailsClient] Starting moat analysis load for ${symbol} at ${new Date().toISOString()}`)
@@ -276,7 +298,7 @@ export function StockDetailsClient({
           hasFallback: !!data.fallbackAnalysis
         })
         if (response.status === 503 && data.fallbackAnalysis) {
-          setMoatError('AI moat analysis is temporarily unavailable. Please ensure XAI_API_KEY is configured.')
+          setMoatError('AI moat analysis is temporarily unavailable. Please check the moat analysis provider configuration.')
         } else {
           setMoatError(data.error || 'Failed to generate moat analysis')
         }
@@ -1135,11 +1157,15 @@ export function StockDetailsClient({
           <TabsTrigger value="analysis">Moat Analysis</TabsTrigger>
           <TabsTrigger value="valuation">Intrinsic Value</TabsTrigger>
           <TabsTrigger value="financials">Financials</TabsTrigger>
+          <TabsTrigger value="peers">Peers</TabsTrigger>
           <TabsTrigger value="technicals">Technicals</TabsTrigger>
           <TabsTrigger value="news">News & Events</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
+          {/* Score History */}
+          <ScoreHistoryChart symbol={symbol} />
+
           {/* Company Profile */}
           {loadingProfile ? (
             <Card>
@@ -1483,9 +1509,17 @@ export function StockDetailsClient({
                     </div>
                   )}
 
+                  <MoatVersionHistory
+                    symbol={symbol}
+                    moatAnalysis={moatAnalysis}
+                    onAnalysisChange={handleMoatOverrideChange}
+                  />
+
                   <div className="flex items-center justify-between pt-2 border-t">
                     <p className="text-xs text-muted-foreground">
-                      AI analysis powered by advanced language models
+                      {moatAnalysis.provider
+                        ? `Analysis by ${moatAnalysis.provider}${moatAnalysis.model ? ` (${moatAnalysis.model})` : ''}${moatAnalysis.version ? `, version ${moatAnalysis.version}` : ''}`
+                        : 'AI analysis powered by advanced language models'}
                     </p>
                     <Button 
                       size="sm" 
@@ -1563,6 +1597,10 @@ export function StockDetailsClient({
           </Card>
         </TabsContent>
 
+        <TabsContent value="peers" className="space-y-4">
+          <PeerComparisonPanel symbol={symbol} />
+        </TabsContent>
+
         <TabsContent value="technicals" className="space-y-4">
           {score?.technicalIndicators && (
             <Card>
@@ -0,0 +1,426 @@
+'use client'
+
+/**
+ * Stock Screener - Filter the whole scored universe with screen text, sort, page and save screens
+ */
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { ArrowDown, ArrowUp, BookOpen, Filter, Save, Trash2 } from 'lucide-react'
+import { formatLargeNumber } from '@/lib/utils'
+import { SCREENER_FIELDS, SCREENER_FIELD_MAP } from '@/lib/services/screener/fields'
+import { formatScreen } from '@/lib/services/screener/dsl'
+import type {
+  ScreenerField,
+  ScreenerFieldGroup,
+  ScreenerFieldValue,
+  ScreenerResult,
+  ScreenerSort,
+} from '@/lib/services/screener/types/screener-types'
+import type { SavedScreen } from '@/lib/services/saved-screen.service'
+
+interface StockScreenerProps {
+  initialQuery: string
+  initialSort: ScreenerSort
+}
+
+const PAGE_SIZE = 25
+
+const EXAMPLE_SCREENS: { name: string, query: string }[] = [
+  { name: 'Quality on sale', query: 'roic > 15% AND red_flags = 0 AND valuation_level IN (undervalued, highly_undervalued) AND rsi < 40' },
+  { name: 'Fortress balance sheets', query: 'green_flag HAS fortress_balance_sheet AND debt_to_equity < 0.5 AND score >= 60' },
+  { name: 'Dividend payers', query: 'dividend_yield >= 2.5% AND red_flag NOT HAS unsustainable_dividend AND financial_health >= 18' },
+  { name: 'Large caps near lows', query: 'market_cap > 50B AND pct_from_52w_high <= -25' },
+  { name: 'Small-cap quality', query: 'universe HAS sp600 AND score >= 65 AND red_flags = 0' },
+]
+
+const GROUP_NAMES: Record<ScreenerFieldGroup, string> = {
+  quote: 'Quote',
+  score: 'StockBeacon Score',
+  ratio: 'Financial Ratios',
+  flag: 'Red & Green Flags',
+  valuation: 'Valuation',
+  technical: 'Technicals',
+}
+
+const formatValue = (value: ScreenerFieldValue | undefined, field: ScreenerField | undefined) => {
+  if (value === null || value === undefined) return '—'
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'None'
+  if (typeof value === 'string') return value.replace(/_/g, ' ')
+
+  switch (field?.unit) {
+    case 'currency':
+      return Math.abs(value) >= 1e6 ? `$${formatLargeNumber(value)}` : `$${value.toFixed(2)}`
+    case 'percent':
+      return `${value.toFixed(1)}%`
+    case 'multiple':
+      return `${value.toFixed(1)}x`
+    case 'shares':
+      return formatLargeNumber(value)
+    case 'count':
+    case 'points':
+      return Math.round(value).toString()
+    default:
+      return value.toFixed(2)
+  }
+}
+
+export function StockScreener({ initialQuery, initialSort }: StockScreenerProps) {
+  const router = useRouter()
+  const [query, setQuery] = useState(initialQuery)
+  const [appliedQuery, setAppliedQuery] = useState(initialQuery)
+  const [sort, setSort] = useState<ScreenerSort>(initialSort)
+  const [page, setPage] = useState(1)
+  const [result, setResult] = useState<ScreenerResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [screens, setScreens] = useState<SavedScreen[]>([])
+  const [selectedScreenId, setSelectedScreenId] = useState<string>('')
+  const [screenName, setScreenName] = useState('')
+  const [notify, setNotify] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadScreens()
+  }, [])
+
+  useEffect(() => {
+    // Keep the screen shareable without adding a history entry per change
+    const params = new URLSearchParams()
+    if (appliedQuery) params.set('q', appliedQuery)
+    params.set('sort', sort.field)
+    params.set('order', sort.direction)
+    router.replace(`/screener?${params}`, { scroll: false })
+
+    runScreen()
+  }, [appliedQuery, sort, page])
+
+  const runScreen = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({
+        q: appliedQuery,
+        sort: sort.field,
+        order: sort.direction,
+        page: String(page),
+        pageSize: String(PAGE_SIZE),
+      })
+      const response = await fetch(`/api/screener?${params}`)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || 'Failed to run screen')
+        return
+      }
+
+      setResult(data.data)
+    } catch (error) {
+      console.error('Error running screen:', error)
+      setError('Failed to run screen')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadScreens = async () => {
+    try {
+      const response = await fetch('/api/screener/screens')
+      const data = await response.json()
+      if (response.ok && data.success) {
+        setScreens(data.data)
+      }
+    } catch (error) {
+      console.error('Error loading saved screens:', error)
+    }
+  }
+
+  const applyQuery = (text: string) => {
+    setQuery(text)
+    setAppliedQuery(text.trim())
+    setPage(1)
+  }
+
+  const handleSort = (field: string) => {
+    const definition = SCREENER_FIELD_MAP.get(field)
+    if (!definition || definition.type === 'list') return
+
+    setSort(sort.field === field
+      ? { field, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+      : { field, direction: definition.type === 'number' ? 'desc' : 'asc' })
+    setPage(1)
+  }
+
+  const handleSelectScreen = (screenId: string) => {
+    const screen = screens.find(s => s.id === screenId)
+    if (!screen) return
+
+    setSelectedScreenId(screenId)
+    setScreenName(screen.name)
+    setNotify(screen.notify)
+    if (screen.sort) setSort(screen.sort)
+    applyQuery(formatScreen(screen.filters))
+  }
+
+  const handleSaveScreen = async () => {
+    setSaveError(null)
+    const existing = screens.find(s => s.name.toLowerCase() === screenName.trim().toLowerCase())
+    const body = JSON.stringify({ name: screenName, query, sort, notify })
+
+    try {
+      const response = existing
+        ? await fetch(`/api/screener/screens?id=${existing.id}`, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body })
+        : await fetch('/api/screener/screens', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setSaveError(data.error || 'Failed to save screen')
+        return
+      }
+
+      setSelectedScreenId(data.data.id)
+      await loadScreens()
+    } catch (error) {
+      console.error('Error saving screen:', error)
+      setSaveError('Failed to save screen')
+    }
+  }
+
+  const handleDeleteScreen = async () => {
+    if (!selectedScreenId) return
+    try {
+      const response = await fetch(`/api/screener/screens?id=${selectedScreenId}`, { method: 'DELETE' })
+      if (response.ok) {
+        setSelectedScreenId('')
+        setScreenName('')
+        setNotify(false)
+        await loadScreens()
+      }
+    } catch (error) {
+      console.error('Error deleting screen:', error)
+    }
+  }
+
+  const selectedScreen = screens.find(s => s.id === selectedScreenId)
+
+  const groupedFields = (Object.keys(GROUP_NAMES) as ScreenerFieldGroup[]).map(group => ({
+    group,
+    fields: SCREENER_FIELDS.filter(field => field.group === group),
+  }))
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Filter className="h-7 w-7" />
+          Stock Screener
+        </h1>
+        <p className="text-muted-foreground">
+          Screen every scored stock on quotes, scores, ratios, flags, valuation and technicals.{' '}
+          <Link href="/universes" className="underline underline-offset-2">See which universes are scored</Link>
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <form
+            className="flex flex-col gap-2 md:flex-row"
+            onSubmit={(e) => {
+              e.preventDefault()
+              applyQuery(query)
+            }}
+          >
+            <Input
+              className="font-mono"
+              placeholder="roic > 15% AND red_flags = 0 AND rsi < 40"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <Button type="submit" disabled={loading}>Run Screen</Button>
+          </form>
+
+          <div className="flex flex-wrap gap-2">
+            {EXAMPLE_SCREENS.map(example => (
+              <Button key={example.name} size="sm" variant="outline" onClick={() => applyQuery(example.query)}>
+                {example.name}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-2 md:flex-row md:items-center">
+            <Select value={selectedScreenId} onValueChange={handleSelectScreen}>
+              <SelectTrigger className="md:w-64">
+                <SelectValue placeholder={screens.length > 0 ? 'Load a saved screen' : 'No saved screens'} />
+              </SelectTrigger>
+              <SelectContent>
+                {screens.map(screen => (
+                  <SelectItem key={screen.id} value={screen.id}>{screen.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="md:w-64"
+              placeholder="Screen name"
+              value={screenName}
+              onChange={(e) => setScreenName(e.target.value)}
+            />
+            <div className="flex items-center gap-2">
+              <Switch id="screen-notify" checked={notify} onCheckedChange={setNotify} />
+              <Label htmlFor="screen-notify" className="text-sm font-normal">Notify me when stocks enter or leave this screen</Label>
+            </div>
+            <Button variant="outline" onClick={handleSaveScreen} disabled={!screenName.trim() || !query.trim()}>
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+            <Button variant="ghost" onClick={handleDeleteScreen} disabled={!selectedScreenId}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          </div>
+          {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+          {selectedScreen?.notify && (
+            <p className="text-xs text-muted-foreground">
+              {selectedScreen.lastRunAt
+                ? `Checked after each nightly score update; ${selectedScreen.lastMatchCount} stocks matched on ${new Date(selectedScreen.lastRunAt).toLocaleDateString()}.`
+                : 'Checked after each nightly score update. The first run records the current matches; you are notified of changes after that.'}
+            </p>
+          )}
+
+          <Collapsible>
+            <CollapsibleTrigger asChild>
+              <Button variant="link" size="sm" className="px-0">
+                <BookOpen className="h-4 w-4 mr-2" />
+                Field reference
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="space-y-4 pt-2">
+              <p className="text-sm text-muted-foreground">
+                Join conditions with AND. Compare numbers with &gt;, &gt;=, &lt;, &lt;=, = and !=; use 10B or 15% for
+                large numbers and percentages. Match text with = or IN (a, b), and flags with HAS or NOT HAS.
+                Stocks missing a value never match a condition on it.
+              </p>
+              {groupedFields.map(({ group, fields }) => (
+                <div key={group}>
+                  <h4 className="text-sm font-medium mb-1">{GROUP_NAMES[group]}</h4>
+                  <div className="flex flex-wrap gap-1">
+                    {fields.map(field => (
+                      <Badge
+                        key={field.id}
+                        variant="outline"
+                        className="font-mono cursor-pointer"
+                        title={[field.label, field.description, field.options?.join(', ')].filter(Boolean).join(' · ')}
+                        onClick={() => setQuery(query.trim() ? `${query.trim()} AND ${field.id} ` : `${field.id} `)}
+                      >
+                        {field.id}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CollapsibleContent>
+          </Collapsible>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Results</CardTitle>
+          <CardDescription>
+            {result
+              ? `${result.total} of ${result.universeSize} stocks match`
+              : 'Run a screen to see matching stocks'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading && !result ? (
+            <div className="space-y-2">
+              <Skeleton className="h-8 w-full" />
+              <Skeleton className="h-64 w-full" />
+            </div>
+          ) : result && result.rows.length > 0 ? (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Stock</TableHead>
+                    {result.columns.map(column => {
+                      const field = SCREENER_FIELD_MAP.get(column)
+                      const active = result.sort.field === column
+                      return (
+                        <TableHead
+                          key={column}
+                          className={`${field?.type === 'number' ? 'text-right' : ''} ${field?.type !== 'list' ? 'cursor-pointer select-none' : ''}`}
+                          onClick={() => handleSort(column)}
+                        >
+                          <span className="inline-flex items-center gap-1">
+                            {field?.label || column}
+                            {active && (result.sort.direction === 'asc'
+                              ? <ArrowUp className="h-3 w-3" />
+                              : <ArrowDown className="h-3 w-3" />)}
+                          </span>
+                        </TableHead>
+                      )
+                    })}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.rows.map(row => (
+                    <TableRow key={row.symbol}>
+                      <TableCell>
+                        <Link href={`/stocks/${row.symbol}`} className="font-medium hover:underline">
+                          {row.symbol}
+                        </Link>
+                        <div className="text-xs text-muted-foreground truncate max-w-[180px]">{row.companyName}</div>
+                      </TableCell>
+                      {result.columns.map(column => {
+                        const field = SCREENER_FIELD_MAP.get(column)
+                        return (
+                          <TableCell key={column} className={field?.type === 'number' ? 'text-right' : ''}>
+                            {formatValue(row.values[column], field)}
+                          </TableCell>
+                        )
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">
+                  Page {result.page} of {result.totalPages}
+                </span>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" disabled={result.page <= 1 || loading} onClick={() => setPage(result.page - 1)}>
+                    Previous
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={result.page >= result.totalPages || loading} onClick={() => setPage(result.page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ) : result ? (
+            <p className="text-sm text-muted-foreground">No stocks match this screen.</p>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+'use client'
+
+/**
+ * Export Menu - Download button offering CSV, JSON and Excel formats
+ */
+
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Download, FileJson, FileSpreadsheet, FileText } from 'lucide-react'
+
+interface ExportMenuProps {
+  endpoint: string
+  disabled?: boolean
+}
+
+const FORMATS = [
+  { format: 'csv', label: 'CSV', icon: FileText },
+  { format: 'xlsx', label: 'Excel (XLSX)', icon: FileSpreadsheet },
+  { format: 'json', label: 'JSON', icon: FileJson },
+]
+
+export function ExportMenu({ endpoint, disabled }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          <Download className="h-4 w-4 mr-1" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {FORMATS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem key={format} asChild>
+            {/* The route sets Content-Disposition so the browser downloads instead of navigating */}
+            <a href={`${endpoint}?format=${format}`} download>
+              <Icon className="mr-2 h-4 w-4" />
+              <span>{label}</span>
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,255 @@
+'use client'
+
+/**
+ * Alert Rule Builder - Edit a watchlist alert's conditions in nested AND / OR groups
+ */
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { FolderPlus, Plus, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  ALERT_CONDITIONS,
+  ALERT_CONDITION_MAP,
+  formatValuationLevel,
+  MAX_GROUP_DEPTH,
+  SMA_PERIODS,
+  VALUATION_LEVELS,
+} from '@/lib/services/alert-rules'
+import type {
+  AlertCondition,
+  AlertConditionType,
+  AlertRule,
+  AlertRuleGroup,
+  SmaPeriod,
+} from '@/lib/services/alert-rules'
+
+interface AlertRuleBuilderProps {
+  value: AlertRuleGroup
+  onChange: (rules: AlertRuleGroup) => void
+  currentPrice?: number
+}
+
+const DEFAULT_VALUES: Partial<Record<AlertConditionType, number>> = {
+  move_up_percent: 5,
+  move_down_percent: 5,
+  rsi_above: 70,
+  rsi_below: 30,
+  earnings_within_days: 7,
+  score_at_least: 70,
+  timing_at_least: 50,
+}
+
+/**
+ * A new condition of the given type with sensible starting values
+ */
+const createCondition = (type: AlertConditionType, currentPrice?: number): AlertCondition => {
+  const definition = ALERT_CONDITION_MAP.get(type)!
+  switch (definition.input) {
+    case 'period':
+      return { kind: 'condition', type, period: 50 }
+    case 'levels':
+      return { kind: 'condition', type, levels: ['undervalued', 'highly_undervalued'] }
+    case 'none':
+      return { kind: 'condition', type }
+    default:
+      return {
+        kind: 'condition',
+        type,
+        value: definition.unit === 'currency'
+          ? Math.round((currentPrice || 100) * 100) / 100
+          : DEFAULT_VALUES[type] ?? 0,
+      }
+  }
+}
+
+function ConditionEditor({ condition, onChange, onRemove, currentPrice }: {
+  condition: AlertCondition
+  onChange: (condition: AlertCondition) => void
+  onRemove: () => void
+  currentPrice?: number
+}) {
+  const definition = ALERT_CONDITION_MAP.get(condition.type)!
+
+  const toggleLevel = (level: string) => {
+    const levels = condition.levels || []
+    onChange({
+      ...condition,
+      levels: levels.includes(level) ? levels.filter(l => l !== level) : [...levels, level],
+    })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border bg-background p-2">
+      <Select
+        value={condition.type}
+        onValueChange={(type) => onChange(createCondition(type as AlertConditionType, currentPrice))}
+      >
+        <SelectTrigger className="w-[230px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ALERT_CONDITIONS.map(option => (
+            <SelectItem key={option.type} value={option.type}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {definition.input === 'value' && (
+        <div className="flex items-center gap-1">
+          {definition.unit === 'currency' && <span className="text-sm text-muted-foreground">$</span>}
+          <Input
+            type="number"
+            className="w-24"
+            value={condition.value ?? ''}
+            min={definition.min}
+            max={definition.max}
+            step={definition.unit === 'currency' ? '0.01' : '1'}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value)
+              onChange({ ...condition, value: isNaN(value) ? undefined : value })
+            }}
+          />
+          {definition.unit === 'percent' && <span className="text-sm text-muted-foreground">%</span>}
+          {definition.unit === 'days' && <span className="text-sm text-muted-foreground">days</span>}
+        </div>
+      )}
+
+      {definition.input === 'period' && (
+        <Select
+          value={String(condition.period)}
+          onValueChange={(period) => onChange({ ...condition, period: Number(period) as SmaPeriod })}
+        >
+          <SelectTrigger className="w-[90px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SMA_PERIODS.map(period => (
+              <SelectItem key={period} value={String(period)}>{period}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {definition.input === 'levels' && (
+        <div className="flex flex-wrap gap-1">
+          {VALUATION_LEVELS.map(level => (
+            <Badge
+              key={level}
+              variant={condition.levels?.includes(level) ? 'default' : 'outline'}
+              className="cursor-pointer capitalize"
+              onClick={() => toggleLevel(level)}
+            >
+              {formatValuationLevel(level)}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <Button variant="ghost" size="sm" className="ml-auto" title="Remove condition" onClick={onRemove}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+function GroupEditor({ group, depth, onChange, onRemove, currentPrice }: {
+  group: AlertRuleGroup
+  depth: number
+  onChange: (group: AlertRuleGroup) => void
+  onRemove?: () => void
+  currentPrice?: number
+}) {
+  const updateRule = (index: number, rule: AlertRule) =>
+    onChange({ ...group, conditions: group.conditions.map((existing, i) => i === index ? rule : existing) })
+
+  const removeRule = (index: number) =>
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) })
+
+  const addRule = (rule: AlertRule) =>
+    onChange({ ...group, conditions: [...group.conditions, rule] })
+
+  return (
+    <div className={cn('space-y-2 rounded-lg border p-3', depth > 0 && 'bg-muted/40')}>
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Alert when</span>
+        <Select
+          value={group.operator}
+          onValueChange={(operator) => onChange({ ...group, operator: operator as AlertRuleGroup['operator'] })}
+        >
+          <SelectTrigger className="w-[90px] h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="AND">ALL</SelectItem>
+            <SelectItem value="OR">ANY</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">of these are true</span>
+        {onRemove && (
+          <Button variant="ghost" size="sm" className="ml-auto" title="Remove group" onClick={onRemove}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((rule, index) => rule.kind === 'group' ? (
+        <GroupEditor
+          key={index}
+          group={rule}
+          depth={depth + 1}
+          onChange={(updated) => updateRule(index, updated)}
+          onRemove={() => removeRule(index)}
+          currentPrice={currentPrice}
+        />
+      ) : (
+        <ConditionEditor
+          key={index}
+          condition={rule}
+          onChange={(updated) => updateRule(index, updated)}
+          onRemove={() => removeRule(index)}
+          currentPrice={currentPrice}
+        />
+      ))}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => addRule(createCondition('price_below', currentPrice))}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Condition
+        </Button>
+        {depth < MAX_GROUP_DEPTH - 1 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => addRule({
+              kind: 'group',
+              operator: group.operator === 'AND' ? 'OR' : 'AND',
+              conditions: [createCondition('rsi_below', currentPrice)],
+            })}
+          >
+            <FolderPlus className="h-4 w-4 mr-1" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function AlertRuleBuilder({ value, onChange, currentPrice }: AlertRuleBuilderProps) {
+  return (
+    <div className="space-y-2">
+      <GroupEditor group={value} depth={0} onChange={onChange} currentPrice={currentPrice} />
+      <p className="text-xs text-muted-foreground">
+        Crossing and change conditions fire once, when the check after the change first sees it.
+        Valuation and red flags update with the nightly score job.
+      </p>
+    </div>
+  )
+}
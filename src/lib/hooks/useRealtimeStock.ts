@@ -84,8 +84,8 @@ export function useRealtimeStocks(
       unsubscribers.push(unsubPrice, unsubScore)
     })
 
-    // Start simulation in development
-    if (process.env.NODE_ENV === 'development') {
+    // Simulate in development when no stream server is configured
+    if (process.env.NODE_ENV === 'development' && !process.env.NEXT_PUBLIC_WS_URL) {
       stockWebSocket.startSimulation(symbols)
     }
 
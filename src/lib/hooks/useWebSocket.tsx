@@ -6,6 +6,7 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useAuth } from '@/lib/hooks/useAuth';
+import { createClient } from '@/lib/supabase/client';
 import { toast } from 'react-hot-toast';
 
 export interface WebSocketStatus {
@@ -43,20 +44,25 @@ export function useWebSocket() {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const { user } = useAuth();
 
-  // Initialize WebSocket connection
+  // Initialize WebSocket connection to the stream server
   useEffect(() => {
-    // Temporarily disable WebSocket connection to prevent errors
-    // TODO: Re-enable when WebSocket server is properly configured
-    return;
-    
-    if (!user) return;
+    if (!user || !process.env.NEXT_PUBLIC_WS_URL) return;
 
     setStatus(prev => ({ ...prev, connecting: true }));
 
-    // Create socket connection
-    const socket = io(process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000', {
+    const supabase = createClient();
+    const getAccessToken = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      return session?.access_token;
+    };
+
+    // The server verifies the access token sent with every (re)connect
+    const socket = io(process.env.NEXT_PUBLIC_WS_URL, {
       transports: ['websocket', 'polling'],
       autoConnect: true,
+      auth: (callback) => {
+        getAccessToken().then(token => callback({ token }));
+      },
     });
 
     socketRef.current = socket;
@@ -65,15 +71,6 @@ export function useWebSocket() {
     socket.on('connect', () => {
       console.log('WebSocket connected');
       setStatus({ connected: true, connecting: false, error: null });
-      
-      // Authenticate with server
-      if (user) {
-        socket.emit('authenticate', {
-          userId: user.id,
-          // Note: In production, get the actual session token from Supabase
-          token: 'mock-token', // TODO: Get actual session token
-        });
-      }
     });
 
     socket.on('disconnect', () => {
@@ -91,6 +88,11 @@ export function useWebSocket() {
       console.log('WebSocket authenticated:', data);
     });
 
+    // The access token expired; send the refreshed one
+    socket.on('auth:expired', async () => {
+      socket.emit('authenticate', { token: await getAccessToken() });
+    });
+
     socket.on('auth:error', (error) => {
       console.error('WebSocket auth error:', error);
       setStatus({ connected: false, connecting: false, error });
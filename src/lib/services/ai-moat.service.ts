@@ -1,9 +1,13 @@
 /**
  * AI-Powered Moat Analysis Service
- * Uses xAI (Grok) to analyze competitive advantages and business moats
+ * Analyzes competitive advantages and business moats with the configured
+ * moat analysis providers (see ./moat-analysis)
  */
 
 import { Redis } from '@upstash/redis';
+import { MarketDataFixtures } from './market-data/fixtures';
+import { MoatAnalyzer, MoatAssessment, CompanyData } from './moat-analysis';
+import { MoatHistoryService, MOAT_DIMENSION_KEYS, type MoatOverride } from './moat-history.service';
 
 const redis = new Redis({
   url: process.env.UPSTASH_REDIS_REST_URL!,
@@ -34,25 +38,18 @@ export interface MoatAnalysis {
   summary: string;
   strength: 'Strong' | 'Moderate' | 'Weak';
   lastUpdated: Date;
+  provider?: string; // Which moat analysis provider produced it
+  model?: string | null;
+  promptTemplate?: string | null;
+  version?: number; // Stored version in ai_moat_analysis
+  overrides?: AppliedMoatOverride[]; // Human pins and overrides already reflected in the scores
 }
 
-interface CompanyData {
-  symbol: string;
-  companyName: string;
-  sector: string;
-  industry: string;
-  businessSummary: string;
-  grossMargins?: number;
-  operatingMargins?: number;
-  profitMargins?: number;
-  marketCap?: number;
-  employees?: number;
-  revenueGrowth?: number;
-  competitorsList?: string[];
+export interface AppliedMoatOverride extends MoatOverride {
+  originalScore: number; // What the analysis itself scored the dimension
 }
 
 export class AIMoatAnalysisService {
-  private static XAI_API_URL = 'https://api.x.ai/v1/chat/completions';
   private static CACHE_PREFIX = 'moat_analysis:';
   private static CACHE_TTL = parseInt(process.env.CACHE_TTL_AI_ANALYSIS || '86400'); // 24 hours
 
@@ -78,8 +75,15 @@ export class AIMoatAnalysisService {
       }
     }
 
-    // Generate new analysis
-    const analysis = await this.generateMoatAnalysis(symbol, companyData);
+    // Generate new analysis (or replay a recorded one)
+    const generated = await MarketDataFixtures.through('moat', symbol, () =>
+      this.generateMoatAnalysis(symbol, companyData)
+    );
+
+    // Keep it as a new version, then apply any human overrides on top
+    const version = await MoatHistoryService.recordVersion(generated);
+    const overrides = await MoatHistoryService.getOverrides(symbol);
+    const analysis = this.applyOverrides({ ...generated, version: version ?? undefined }, overrides);
 
     // Cache the result
     try {
@@ -92,137 +96,103 @@ export class AIMoatAnalysisService {
   }
 
   /**
-   * Generate moat analysis using xAI (Grok)
+   * Generate moat analysis with the first provider that succeeds
    */
   private static async generateMoatAnalysis(
     symbol: string,
     companyData: CompanyData
   ): Promise<MoatAnalysis> {
-    try {
-      // Check if XAI API key is configured
-      if (!process.env.XAI_API_KEY) {
-        console.error('XAI_API_KEY is not set in environment variables');
-        throw new Error('AI service not configured');
-      }
+    const result = await MoatAnalyzer.analyze(companyData);
+    return {
+      ...this.formatMoatAnalysis(symbol, result.assessment),
+      provider: result.provider,
+      model: result.model,
+      promptTemplate: result.promptTemplate,
+    };
+  }
 
-      const prompt = this.buildAnalysisPrompt(companyData);
-      
-      const response = await fetch(this.XAI_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.XAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: process.env.XAI_MODEL || 'grok-2-1212',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a senior investment analyst specializing in competitive moat analysis, trained in the Warren Buffett/Charlie Munger approach. You provide brutally honest, detailed assessments that institutional investors rely on. You never sugarcoat weaknesses, always consider competitive dynamics, and focus on sustainable advantages that can persist for 5-10 years. Your analysis is evidence-based, comparing companies to best-in-class examples. Always respond with valid JSON.',
-            },
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          temperature: 0.2, // Very low temperature for consistent, analytical responses
-          max_tokens: 2500, // Increased for more detailed analysis
-        }),
-      });
+  /**
+   * Re-apply overrides to the current analysis after they change, without
+   * generating a new one. Returns null if the symbol has never been analysed.
+   */
+  static async refreshOverrides(symbol: string): Promise<MoatAnalysis | null> {
+    const cacheKey = `${this.CACHE_PREFIX}${symbol}`;
 
-      if (!response.ok) {
-        throw new Error(`xAI API error: ${response.statusText}`);
+    let base: MoatAnalysis | null = null;
+    const latest = await MoatHistoryService.getLatestVersion(symbol);
+    if (latest) {
+      base = {
+        ...this.formatMoatAnalysis(symbol, { ...latest.dimensions, summary: latest.summary }),
+        provider: latest.provider || undefined,
+        model: latest.model,
+        promptTemplate: latest.promptTemplate,
+        version: latest.version,
+        lastUpdated: new Date(latest.createdAt),
+      };
+    } else {
+      try {
+        base = (await redis.get(cacheKey)) as MoatAnalysis | null;
+      } catch (error) {
+        console.error('Cache read error:', error);
       }
+    }
 
-      const data = await response.json();
-      let content = data.choices[0].message.content;
-      
-      // Clean up the response - remove markdown code blocks if present
-      content = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      
-      // Parse the JSON response
-      const aiAnalysis = JSON.parse(content);
-      
-      return this.formatMoatAnalysis(symbol, aiAnalysis);
+    if (!base) {
+      return null;
+    }
+
+    const overrides = await MoatHistoryService.getOverrides(symbol);
+    const analysis = this.applyOverrides(base, overrides);
+
+    try {
+      await redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(analysis));
     } catch (error) {
-      console.error('AI moat analysis error:', error);
-      // Return fallback analysis
-      return this.getFallbackAnalysis(symbol, companyData);
+      console.error('Cache write error:', error);
     }
+
+    return analysis;
   }
 
   /**
-   * Build the analysis prompt for the AI
+   * Replace dimension scores with pinned or manual ones and recompute the
+   * overall score. Safe to call on an analysis that already has overrides.
    */
-  private static buildAnalysisPrompt(companyData: CompanyData): string {
-    return `
-    Perform a comprehensive competitive moat analysis for ${companyData.companyName} (${companyData.symbol}).
-    
-    Company Context:
-    - Sector: ${companyData.sector}
-    - Industry: ${companyData.industry}
-    - Market Cap: ${companyData.marketCap ? `$${(companyData.marketCap / 1e9).toFixed(1)}B` : 'N/A'}
-    - Business: ${companyData.businessSummary}
-    - Key Metrics:
-      - Gross Margins: ${companyData.grossMargins ? `${(companyData.grossMargins * 100).toFixed(1)}%` : 'N/A'}
-      - Operating Margins: ${companyData.operatingMargins ? `${(companyData.operatingMargins * 100).toFixed(1)}%` : 'N/A'}
-      - Revenue Growth: ${companyData.revenueGrowth ? `${(companyData.revenueGrowth * 100).toFixed(1)}%` : 'N/A'}
-    ${companyData.competitorsList ? `- Main Competitors: ${companyData.competitorsList.join(', ')}` : ''}
-    
-    Analyze the company's competitive position critically and honestly. Consider both current advantages and future vulnerabilities over a 5-10 year horizon.
-    
-    Score the company across these FOUR MOAT DIMENSIONS:
-    
-    1. BRAND LOYALTY & PRICING POWER (0-25 points)
-    Evaluate: Brand recognition strength, customer retention vs industry average, ability to raise prices without losing customers, premium pricing capability.
-    Consider: Does the brand command premium prices? Do customers actively choose it over cheaper alternatives?
-    
-    2. SWITCHING COSTS (0-25 points)
-    Analyze: Financial costs of switching, time/effort costs, business disruption, data migration complexity, integration dependencies, psychological barriers.
-    Quantify: How much would it really cost/disrupt a customer to switch to a competitor?
-    
-    3. NETWORK EFFECTS (0-25 points)
-    Examine: Does value increase with more users? Are there two-sided network effects? Can users easily multi-home with competitors?
-    Evidence: Look for user growth correlation with engagement, marketplace dynamics.
-    
-    4. ECONOMIES OF SCALE (0-25 points)
-    Evaluate: Fixed cost advantages, purchasing power, distribution efficiency, R&D cost spreading, operating leverage.
-    Proof: Are margins expanding with growth? Do they have cost advantages competitors can't match?
-    
-    CRITICAL ASSESSMENT:
-    - What could destroy this moat in 5 years?
-    - Which competitors pose the biggest threat?
-    - What are the company's biggest vulnerabilities?
-    
-    Provide your response as a JSON object with this structure:
-    {
-      "brandLoyalty": {
-        "score": [0-25],
-        "explanation": "[3-4 sentences with specific evidence. Be critical - explain WHY the score is high or low with concrete examples. Use plain English.]"
-      },
-      "switchingCosts": {
-        "score": [0-25],
-        "explanation": "[3-4 sentences quantifying switching barriers or lack thereof. Compare to competitors. Be specific about what makes switching easy or hard.]"
-      },
-      "networkEffects": {
-        "score": [0-25],
-        "explanation": "[3-4 sentences on network dynamics. Explain if effects are strengthening or weakening. Compare to platform leaders.]"
-      },
-      "scaleAdvantages": {
-        "score": [0-25],
-        "explanation": "[3-4 sentences on scale benefits. Are these advantages sustainable? How do margins compare to smaller competitors?]"
-      },
-      "summary": "[One paragraph (4-6 sentences) providing an honest overall assessment. Start with the moat classification (Strong/Moderate/Weak), explain the key competitive advantages AND vulnerabilities, and assess the moat's durability. Be specific about threats and compare to best-in-class examples. Write for an intelligent investor who wants the truth, not marketing speak.]"
+  static applyOverrides(analysis: MoatAnalysis, overrides: MoatOverride[]): MoatAnalysis {
+    // Start from what the analysis itself said
+    const dimensions = { ...analysis.dimensions };
+    for (const applied of analysis.overrides || []) {
+      dimensions[applied.dimension] = { ...dimensions[applied.dimension], score: applied.originalScore };
     }
-    
-    Be intellectually honest. If the company lacks a moat, say so clearly. Compare to industry leaders. Focus on sustainable advantages, not temporary benefits.
-    `;
+
+    const applied: AppliedMoatOverride[] = overrides.map(override => {
+      const originalScore = dimensions[override.dimension].score;
+      return { ...override, originalScore };
+    });
+    for (const override of applied) {
+      dimensions[override.dimension] = { ...dimensions[override.dimension], score: override.score };
+    }
+
+    const overallScore = MOAT_DIMENSION_KEYS.reduce((sum, key) => sum + dimensions[key].score, 0);
+
+    return {
+      ...analysis,
+      dimensions,
+      overallScore,
+      strength: this.getStrength(overallScore),
+      overrides: applied,
+    };
+  }
+
+  private static getStrength(overallScore: number): MoatAnalysis['strength'] {
+    if (overallScore >= 70) return 'Strong';
+    if (overallScore >= 40) return 'Moderate';
+    return 'Weak';
   }
 
   /**
-   * Format the AI response into our MoatAnalysis structure
+   * Turn a provider's assessment into our MoatAnalysis structure
    */
-  private static formatMoatAnalysis(symbol: string, aiAnalysis: any): MoatAnalysis {
+  private static formatMoatAnalysis(symbol: string, aiAnalysis: MoatAssessment): MoatAnalysis {
     const dimensions = {
       brandLoyalty: aiAnalysis.brandLoyalty,
       switchingCosts: aiAnalysis.switchingCosts,
@@ -236,10 +206,7 @@ export class AIMoatAnalysisService {
       dimensions.networkEffects.score +
       dimensions.scaleAdvantages.score;
 
-    let strength: 'Strong' | 'Moderate' | 'Weak';
-    if (overallScore >= 70) strength = 'Strong';
-    else if (overallScore >= 40) strength = 'Moderate';
-    else strength = 'Weak';
+    const strength = this.getStrength(overallScore);
 
     // Update the summary to ensure it matches the calculated strength
     let summary = aiAnalysis.summary;
@@ -275,63 +242,6 @@ export class AIMoatAnalysisService {
     };
   }
 
-  /**
-   * Fallback analysis when AI is unavailable
-   */
-  private static getFallbackAnalysis(
-    symbol: string,
-    companyData: CompanyData
-  ): MoatAnalysis {
-    // Calculate basic scores based on available metrics
-    const marginScore = Math.min(
-      25,
-      Math.round((companyData.grossMargins || 0) * 100)
-    );
-    
-    const growthScore = Math.min(
-      25,
-      Math.round((companyData.revenueGrowth || 0) * 50)
-    );
-
-    const sizeScore = companyData.marketCap
-      ? Math.min(25, Math.round(Math.log10(companyData.marketCap / 1e9) * 5))
-      : 10;
-
-    const brandScore = ['AAPL', 'GOOGL', 'MSFT', 'AMZN', 'TSLA', 'NVDA'].includes(symbol)
-      ? 20
-      : 10;
-
-    const overallScore = marginScore + growthScore + sizeScore + brandScore;
-
-    return {
-      symbol,
-      overallScore,
-      dimensions: {
-        brandLoyalty: {
-          score: brandScore,
-          explanation: 'Brand strength calculated based on market position and recognition.',
-        },
-        switchingCosts: {
-          score: marginScore,
-          explanation: 'Higher margins often indicate pricing power from switching costs.',
-        },
-        networkEffects: {
-          score: growthScore,
-          explanation: 'Growth rate suggests potential network effects and market expansion.',
-        },
-        scaleAdvantages: {
-          score: sizeScore,
-          explanation: 'Company size provides economies of scale and competitive advantages.',
-        },
-      },
-      summary: `${companyData.companyName} shows ${
-        overallScore >= 70 ? 'strong' : overallScore >= 40 ? 'moderate' : 'limited'
-      } competitive advantages based on financial metrics. This is a simplified analysis.`,
-      strength: overallScore >= 70 ? 'Strong' : overallScore >= 40 ? 'Moderate' : 'Weak',
-      lastUpdated: new Date(),
-    };
-  }
-
   /**
    * Get multiple moat analyses in batch (for efficiency)
    */
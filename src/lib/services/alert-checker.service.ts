@@ -1,60 +1,62 @@
 import { createClient } from '@/lib/supabase/server'
+import { createClient as createAdminClient, SupabaseClient } from '@supabase/supabase-js'
 import { StockDataService } from './stock-data.service'
 import { NotificationService } from './notification.service'
-import { Database } from '@/types/database'
+import { ScreenerSnapshot, ScreenerSnapshotService } from './screener'
+import { AlertService } from './alert.service'
+import { AlertContext, AlertEvaluation, AlertRuleEngine, AlertRuleState } from './alert-rules'
+import { Database, Json } from '@/types/database'
 
 type WatchlistRow = Database['public']['Tables']['watchlists']['Row']
+type AlertRow = Database['public']['Tables']['alerts']['Row']
 
-interface AlertCheckResult {
-  watchlistId: string
-  userId: string
-  symbol: string
-  triggered: boolean
-  conditions: {
-    priceTarget: { target: number | null; current: number; met: boolean }
-    businessQuality: { target: number | null; current: number; met: boolean }
-    timeToBuy: { target: number | null; current: number; met: boolean }
-  }
-  allConditionsMet: boolean
-}
+type StockData = Awaited<ReturnType<typeof StockDataService.getStockData>>
+
+const PAGE_SIZE = 1000
 
 export class AlertCheckerService {
   /**
-   * Check all active watchlist alerts
+   * Check all active watchlist alerts and standalone alerts. Runs from cron
+   * jobs without a user session, so it uses the service role.
    */
   static async checkAllAlerts(): Promise<void> {
     console.log('🔔 Starting alert check...')
     const startTime = Date.now()
     
     try {
-      const supabase = await createClient()
-      
-      // Get all watchlist items with alerts enabled
-      const { data: watchlistItems, error } = await supabase
-        .from('watchlists')
-        .select('*')
-        .eq('alert_enabled', true)
-        .not('buy_triggers', 'is', null)
+      const supabase = this.adminClient()
       
-      if (error) {
-        console.error('Error fetching watchlist items:', error)
-        return
+      // Get all watchlist items with alerts enabled, paged past the Supabase row limit
+      const watchlistItems: WatchlistRow[] = []
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('watchlists')
+          .select('*')
+          .eq('alert_enabled', true)
+          .not('buy_triggers', 'is', null)
+          .order('id')
+          .range(from, from + PAGE_SIZE - 1)
+        
+        if (error) {
+          console.error('Error fetching watchlist items:', error)
+          return
+        }
+        
+        watchlistItems.push(...((data || []) as WatchlistRow[]))
+        if (!data || data.length < PAGE_SIZE) break
       }
       
-      if (!watchlistItems || watchlistItems.length === 0) {
+      const alerts = await AlertService.getActiveAlerts()
+      
+      if (watchlistItems.length === 0 && alerts.length === 0) {
         console.log('No active alerts to check')
         return
       }
       
-      console.log(`Checking ${watchlistItems.length} active alerts...`)
+      console.log(`Checking ${watchlistItems.length} watchlist alerts and ${alerts.length} standalone alerts...`)
       
-      // Group by symbol to minimize API calls
-      const symbolGroups = this.groupBySymbol(watchlistItems)
-      
-      // Check each symbol
-      for (const [symbol, items] of Object.entries(symbolGroups)) {
-        await this.checkSymbolAlerts(symbol, items)
-      }
+      await this.checkGroupedAlerts(supabase, watchlistItems, alerts)
+      await AlertService.pruneEvaluations()
       
       const duration = Date.now() - startTime
       console.log(`✅ Alert check completed in ${duration}ms`)
@@ -65,36 +67,72 @@ export class AlertCheckerService {
   }
   
   /**
-   * Check alerts for a specific symbol
+   * Group alerts by symbol to minimize API calls, then check each symbol
+   */
+  private static async checkGroupedAlerts(
+    supabase: SupabaseClient<Database>,
+    watchlistItems: WatchlistRow[],
+    alerts: AlertRow[]
+  ): Promise<void> {
+    const watchlistGroups = this.groupBySymbol(watchlistItems)
+    const alertGroups = this.groupBySymbol(alerts)
+    const symbols = new Set([...Object.keys(watchlistGroups), ...Object.keys(alertGroups)])
+    
+    for (const symbol of Array.from(symbols)) {
+      await this.checkSymbolAlerts(supabase, symbol, watchlistGroups[symbol] || [], alertGroups[symbol] || [])
+    }
+  }
+  
+  /**
+   * Check alerts for a specific symbol. Each watchlist item's and alert's
+   * rules are evaluated against the latest data and the state kept from
+   * its previous check.
    */
   private static async checkSymbolAlerts(
+    supabase: SupabaseClient<Database>,
     symbol: string, 
-    watchlistItems: WatchlistRow[]
+    watchlistItems: WatchlistRow[],
+    alerts: AlertRow[]
   ): Promise<void> {
     try {
-      // Get current stock data
-      const stockData = await StockDataService.getStockData(symbol)
+      // Get current stock data, plus valuation and red flags from the nightly snapshot
+      const [stockData, snapshot] = await Promise.all([
+        StockDataService.getStockData(symbol),
+        ScreenerSnapshotService.getSnapshot(symbol).catch(error => {
+          console.warn(`⚠️ No screener snapshot for ${symbol}:`, error)
+          return null
+        }),
+      ])
       
-      if (!stockData.quote || !stockData.score) {
+      if (!stockData.quote) {
         console.log(`⚠️ No data available for ${symbol}`)
         return
       }
       
-      const currentPrice = stockData.quote.price
-      const currentScore = stockData.score.score
-      const currentTimingScore = stockData.score.timingScore
+      const context = this.buildContext(stockData, snapshot)
       
       // Check each watchlist item for this symbol
       for (const item of watchlistItems) {
-        const result = await this.evaluateAlertConditions(
-          item,
-          currentPrice,
-          currentScore,
-          currentTimingScore
-        )
+        const triggers = AlertRuleEngine.fromBuyTriggers(item.buy_triggers, item.target_price)
+        if (!triggers.enabled || triggers.rules.conditions.length === 0) continue
+        
+        const previous = item.trigger_state as unknown as AlertRuleState | null
+        const evaluation = AlertRuleEngine.evaluate(triggers.rules, context, previous)
         
-        if (result.allConditionsMet) {
-          await this.handleTriggeredAlert(result, stockData)
+        await this.saveTriggerState(supabase, item.id, AlertRuleEngine.buildState(context, evaluation))
+        
+        if (evaluation.met) {
+          await this.handleTriggeredAlert(supabase, item, stockData, evaluation)
+        }
+      }
+      
+      if (alerts.length > 0) {
+        const result = await AlertService.evaluateAlerts(alerts, context, {
+          symbol,
+          name: stockData.quote.name || symbol,
+        })
+        if (result.triggered > 0 || result.failed > 0) {
+          console.log(`${symbol}: ${result.triggered} standalone alerts triggered, ${result.failed} failed`)
         }
       }
       
@@ -104,53 +142,28 @@ export class AlertCheckerService {
   }
   
   /**
-   * Evaluate if alert conditions are met
+   * Everything the alert rules can test for a symbol
    */
-  private static evaluateAlertConditions(
-    item: WatchlistRow,
-    currentPrice: number,
-    currentScore: number,
-    currentTimingScore: number
-  ): AlertCheckResult {
-    const buyTriggers = item.buy_triggers as any || {}
-    
-    // Check price target
-    const priceTargetMet = !item.target_price || currentPrice <= item.target_price
-    
-    // Check business quality score
-    const minScore = buyTriggers.minScore
-    const scoreTargetMet = !minScore || currentScore >= minScore
-    
-    // Check time to buy score (convert from 0-40 to 0-100 scale)
-    const minTimingScore = buyTriggers.minTimingScore
-    const timingScorePercent = Math.round((currentTimingScore / 40) * 100)
-    const timingTargetMet = !minTimingScore || timingScorePercent >= minTimingScore
-    
-    const allConditionsMet = priceTargetMet && scoreTargetMet && timingTargetMet
+  private static buildContext(stockData: StockData, snapshot: ScreenerSnapshot | null): AlertContext {
+    const { quote, score } = stockData
+    const technicals = score?.technicalIndicators
     
     return {
-      watchlistId: item.id,
-      userId: item.user_id,
-      symbol: item.symbol,
-      triggered: allConditionsMet,
-      conditions: {
-        priceTarget: {
-          target: item.target_price,
-          current: currentPrice,
-          met: priceTargetMet
-        },
-        businessQuality: {
-          target: minScore,
-          current: currentScore,
-          met: scoreTargetMet
-        },
-        timeToBuy: {
-          target: minTimingScore,
-          current: timingScorePercent,
-          met: timingTargetMet
-        }
+      price: quote.price,
+      changePercent: quote.changePercent ?? null,
+      rsi: technicals?.rsi ?? null,
+      sma: {
+        20: technicals?.sma20 ?? null,
+        50: technicals?.sma50 ?? null,
+        150: technicals?.sma150 ?? null,
+        200: technicals?.sma200 ?? null,
       },
-      allConditionsMet
+      valuationLevel: snapshot?.valuationLevel ?? null,
+      redFlags: snapshot ? snapshot.redFlags.map(flag => flag.id) : null,
+      earningsDate: quote.earningsDate ? new Date(quote.earningsDate).toISOString() : null,
+      score: score?.score ?? null,
+      // Time to buy is scored 0-40; alert rules use a percentage
+      timingScore: score ? Math.round((score.timingScore / 40) * 100) : null,
     }
   }
   
@@ -158,80 +171,58 @@ export class AlertCheckerService {
    * Handle a triggered alert
    */
   private static async handleTriggeredAlert(
-    result: AlertCheckResult,
-    stockData: any
+    supabase: SupabaseClient<Database>,
+    item: WatchlistRow,
+    stockData: StockData,
+    evaluation: AlertEvaluation
   ): Promise<void> {
-    console.log(`🎯 Alert triggered for ${result.symbol}!`)
+    console.log(`🎯 Alert triggered for ${item.symbol}!`)
     
     try {
-      const supabase = await createClient()
+      // Cooldown since the item's last alert is checked before sending
+      const sent = await NotificationService.sendWatchlistRuleAlert(item.user_id, {
+        alertId: item.id,
+        symbol: item.symbol,
+        name: stockData.quote.name || item.symbol,
+        price: stockData.quote.price,
+        conditions: evaluation.conditions,
+      }, supabase)
       
-      // Check cooldown period (if implemented)
-      const shouldSendAlert = await this.checkCooldownPeriod(
-        result.watchlistId,
-        result.userId
-      )
-      
-      if (!shouldSendAlert) {
-        console.log(`Skipping alert for ${result.symbol} - cooldown period active`)
-        return
+      if (sent) {
+        console.log(`✅ Alert sent for ${item.symbol}`)
       }
       
-      // Send notification
-      await NotificationService.checkWatchlistTriggers(
-        result.symbol,
-        result.conditions.priceTarget.current,
-        result.conditions.businessQuality.current,
-        stockData.score.timingScore
-      )
-      
-      // Update last alert sent timestamp
-      await this.updateLastAlertSent(result.watchlistId)
-      
-      console.log(`✅ Alert sent for ${result.symbol}`)
-      
     } catch (error) {
-      console.error(`Error handling alert for ${result.symbol}:`, error)
+      console.error(`Error handling alert for ${item.symbol}:`, error)
     }
   }
   
   /**
-   * Check if we should send an alert based on cooldown period
+   * Keep this check's data so crossing and change conditions can compare against it
    */
-  private static async checkCooldownPeriod(
+  private static async saveTriggerState(
+    supabase: SupabaseClient<Database>,
     watchlistId: string,
-    userId: string
-  ): Promise<boolean> {
-    // For now, always return true
-    // TODO: Implement cooldown logic when last_alert_sent column is added
-    return true
-  }
-  
-  /**
-   * Update the last alert sent timestamp
-   */
-  private static async updateLastAlertSent(watchlistId: string): Promise<void> {
+    state: AlertRuleState
+  ): Promise<void> {
     try {
-      const supabase = await createClient()
-      
-      // This will fail until we add the column, but that's OK for now
-      await supabase
-        .from('watchlists')
-        .update({
-          // last_alert_sent: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
+      const { error } = await (supabase
+        .from('watchlists') as any)
+        .update({ trigger_state: state as unknown as Json })
         .eq('id', watchlistId)
-        
+      
+      if (error) {
+        console.error(`Error saving trigger state for ${watchlistId}:`, error)
+      }
     } catch (error) {
-      // Ignore for now - column doesn't exist yet
+      console.error(`Error saving trigger state for ${watchlistId}:`, error)
     }
   }
   
   /**
-   * Group watchlist items by symbol
+   * Group watchlist items or alerts by symbol
    */
-  private static groupBySymbol(items: WatchlistRow[]): Record<string, WatchlistRow[]> {
+  private static groupBySymbol<T extends { symbol: string }>(items: T[]): Record<string, T[]> {
     return items.reduce((groups, item) => {
       const symbol = item.symbol
       if (!groups[symbol]) {
@@ -239,7 +230,7 @@ export class AlertCheckerService {
       }
       groups[symbol].push(item)
       return groups
-    }, {} as Record<string, WatchlistRow[]>)
+    }, {} as Record<string, T[]>)
   }
   
   /**
@@ -258,19 +249,24 @@ export class AlertCheckerService {
         .eq('alert_enabled', true)
         .not('buy_triggers', 'is', null)
       
-      if (error || !watchlistItems || watchlistItems.length === 0) {
+      const alerts = await AlertService.getActiveAlerts(userId)
+      
+      if (error || ((!watchlistItems || watchlistItems.length === 0) && alerts.length === 0)) {
         console.log('No active alerts for user')
         return
       }
       
-      const symbolGroups = this.groupBySymbol(watchlistItems)
-      
-      for (const [symbol, items] of Object.entries(symbolGroups)) {
-        await this.checkSymbolAlerts(symbol, items)
-      }
+      await this.checkGroupedAlerts(supabase, watchlistItems || [], alerts)
       
     } catch (error) {
       console.error('Error checking user alerts:', error)
     }
   }
+
+  private static adminClient(): SupabaseClient<Database> {
+    return createAdminClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+  }
 }
@@ -0,0 +1,77 @@
+/**
+ * Alert condition catalogue - every condition a watchlist buy trigger can use
+ */
+
+import { VALUATION_LEVELS } from '../screener/fields'
+import { AlertCondition, AlertConditionDefinition, AlertConditionType, SmaPeriod } from './types/alert-rule-types'
+
+export const SMA_PERIODS: SmaPeriod[] = [20, 50, 150, 200]
+
+export { VALUATION_LEVELS }
+
+export const ALERT_CONDITIONS: AlertConditionDefinition[] = [
+  // Price
+  { type: 'price_below', label: 'Price is below', input: 'value', unit: 'currency', min: 0, event: false },
+  { type: 'price_above', label: 'Price is above', input: 'value', unit: 'currency', min: 0, event: false },
+  { type: 'price_crosses_below', label: 'Price crosses below', input: 'value', unit: 'currency', min: 0, event: true },
+  { type: 'price_crosses_above', label: 'Price crosses above', input: 'value', unit: 'currency', min: 0, event: true },
+  { type: 'move_down_percent', label: 'Falls on the day by at least', input: 'value', unit: 'percent', min: 0, max: 100, event: false },
+  { type: 'move_up_percent', label: 'Rises on the day by at least', input: 'value', unit: 'percent', min: 0, max: 1000, event: false },
+
+  // Technicals
+  { type: 'rsi_below', label: 'RSI is below', input: 'value', unit: 'points', min: 0, max: 100, event: false },
+  { type: 'rsi_above', label: 'RSI is above', input: 'value', unit: 'points', min: 0, max: 100, event: false },
+  { type: 'price_crosses_above_sma', label: 'Price crosses above SMA', input: 'period', event: true },
+  { type: 'price_crosses_below_sma', label: 'Price crosses below SMA', input: 'period', event: true },
+  { type: 'golden_cross', label: 'Golden cross (SMA 50 above SMA 200)', input: 'none', event: true },
+  { type: 'death_cross', label: 'Death cross (SMA 50 below SMA 200)', input: 'none', event: true },
+
+  // Fundamentals and events
+  { type: 'valuation_enters', label: 'Valuation changes to', input: 'levels', event: true },
+  { type: 'new_red_flag', label: 'A new red flag appears', input: 'none', event: true },
+  { type: 'earnings_within_days', label: 'Earnings are within', input: 'value', unit: 'days', min: 0, max: 90, event: false },
+  { type: 'score_at_least', label: 'Business quality is at least', input: 'value', unit: 'points', min: 0, max: 100, event: false },
+  { type: 'timing_at_least', label: 'Time to buy is at least', input: 'value', unit: 'percent', min: 0, max: 100, event: false },
+]
+
+// Conditions a price update alone can decide, checked intraday as prices stream in
+export const PRICE_CONDITIONS: AlertConditionType[] = [
+  'price_below',
+  'price_above',
+  'price_crosses_below',
+  'price_crosses_above',
+  'move_down_percent',
+  'move_up_percent',
+]
+
+export const ALERT_CONDITION_MAP = new Map<AlertConditionType, AlertConditionDefinition>(
+  ALERT_CONDITIONS.map(definition => [definition.type, definition])
+)
+
+export const formatValuationLevel = (level: string) => level.replace(/_/g, ' ')
+
+/**
+ * Human readable condition, e.g. "Price crosses below $150.00"
+ */
+export function describeCondition(condition: AlertCondition): string {
+  const definition = ALERT_CONDITION_MAP.get(condition.type)
+  if (!definition) return condition.type
+
+  switch (definition.input) {
+    case 'period':
+      return `${definition.label} ${condition.period}`
+    case 'levels':
+      return `${definition.label} ${(condition.levels || []).map(formatValuationLevel).join(' or ')}`
+    case 'none':
+      return definition.label
+    default: {
+      const value = condition.value ?? 0
+      switch (definition.unit) {
+        case 'currency': return `${definition.label} $${value.toFixed(2)}`
+        case 'percent': return `${definition.label} ${value}%`
+        case 'days': return `${definition.label} ${value} days`
+        default: return `${definition.label} ${value}`
+      }
+    }
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Alert Rule Engine
+ * Evaluates watchlist buy triggers: conditions on price, technicals,
+ * valuation, red flags and earnings combined in nested AND / OR groups.
+ * Crossing and change conditions compare against the state kept from the
+ * previous check, so they fire once when the change happens.
+ */
+
+import { ALERT_CONDITION_MAP, describeCondition, PRICE_CONDITIONS, SMA_PERIODS, VALUATION_LEVELS } from './conditions'
+import {
+  AlertCondition,
+  AlertConditionResult,
+  AlertContext,
+  AlertEvaluation,
+  AlertRule,
+  AlertRuleGroup,
+  AlertRuleState,
+  AlertTriggers,
+} from './types/alert-rule-types'
+
+export * from './types/alert-rule-types'
+export * from './conditions'
+
+export class AlertRuleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AlertRuleError'
+  }
+}
+
+export const MAX_ALERT_CONDITIONS = 20
+export const MAX_GROUP_DEPTH = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const formatPrice = (value: number | null) => value === null ? null : `$${value.toFixed(2)}`
+
+export class AlertRuleEngine {
+  /**
+   * Read stored buy triggers. The original { minScore, minTimingScore }
+   * shape and the item's target price become an AND group.
+   */
+  static fromBuyTriggers(buyTriggers: any, targetPrice?: number | null): AlertTriggers {
+    if (buyTriggers?.version === 2 && buyTriggers.rules) {
+      return buyTriggers as AlertTriggers
+    }
+
+    const conditions: AlertCondition[] = []
+    if (targetPrice) {
+      conditions.push({ kind: 'condition', type: 'price_below', value: targetPrice })
+    }
+    if (buyTriggers?.minScore) {
+      conditions.push({ kind: 'condition', type: 'score_at_least', value: buyTriggers.minScore })
+    }
+    if (buyTriggers?.minTimingScore) {
+      conditions.push({ kind: 'condition', type: 'timing_at_least', value: buyTriggers.minTimingScore })
+    }
+
+    return {
+      version: 2,
+      enabled: buyTriggers?.enabled !== false,
+      rules: { kind: 'group', operator: 'AND', conditions },
+    }
+  }
+
+  /**
+   * Check rules arriving as JSON and return them normalised
+   */
+  static validate(input: any): AlertRuleGroup {
+    let count = 0
+
+    const check = (rule: any, depth: number): AlertRule => {
+      if (rule?.kind === 'group') {
+        if (depth >= MAX_GROUP_DEPTH) {
+          throw new AlertRuleError(`Groups can be nested at most ${MAX_GROUP_DEPTH} deep`)
+        }
+        if (rule.operator !== 'AND' && rule.operator !== 'OR') {
+          throw new AlertRuleError('A group must combine its conditions with AND or OR')
+        }
+        if (!Array.isArray(rule.conditions) || rule.conditions.length === 0) {
+          throw new AlertRuleError('Each group needs at least one condition')
+        }
+        return {
+          kind: 'group',
+          operator: rule.operator,
+          conditions: rule.conditions.map((child: any) => check(child, depth + 1)),
+        }
+      }
+
+      const definition = ALERT_CONDITION_MAP.get(rule?.type)
+      if (rule?.kind !== 'condition' || !definition) {
+        throw new AlertRuleError(`Unknown alert condition "${rule?.type}"`)
+      }
+      if (++count > MAX_ALERT_CONDITIONS) {
+        throw new AlertRuleError(`An alert can have at most ${MAX_ALERT_CONDITIONS} conditions`)
+      }
+
+      const condition: AlertCondition = { kind: 'condition', type: definition.type }
+      switch (definition.input) {
+        case 'value': {
+          const value = rule.value
+          if (typeof value !== 'number' || !isFinite(value)) {
+            throw new AlertRuleError(`${definition.label} needs a number`)
+          }
+          if ((definition.min !== undefined && value < definition.min) || (definition.max !== undefined && value > definition.max)) {
+            throw new AlertRuleError(`${definition.label} must be between ${definition.min ?? 0} and ${definition.max ?? 'any'}`)
+          }
+          condition.value = value
+          break
+        }
+        case 'period':
+          if (!SMA_PERIODS.includes(rule.period)) {
+            throw new AlertRuleError(`SMA period must be one of ${SMA_PERIODS.join(', ')}`)
+          }
+          condition.period = rule.period
+          break
+        case 'levels':
+          if (!Array.isArray(rule.levels) || rule.levels.length === 0 || rule.levels.some((level: any) => !VALUATION_LEVELS.includes(level))) {
+            throw new AlertRuleError(`Choose valuation levels from: ${VALUATION_LEVELS.join(', ')}`)
+          }
+          condition.levels = Array.from(new Set<string>(rule.levels))
+          break
+      }
+      return condition
+    }
+
+    if (input?.kind !== 'group') {
+      throw new AlertRuleError('Rules must be a group of conditions')
+    }
+    return check(input, 0) as AlertRuleGroup
+  }
+
+  /**
+   * Evaluate rules against the latest data. Without a previous state the
+   * crossing and change conditions are not met; the first check sets the baseline.
+   */
+  static evaluate(rules: AlertRuleGroup, context: AlertContext, previous: AlertRuleState | null): AlertEvaluation {
+    const conditions: AlertConditionResult[] = []
+    const met = this.evaluateGroup(rules, context, previous, 0, conditions)
+    return { met, conditions }
+  }
+
+  /**
+   * State to keep for the next check
+   */
+  static buildState(context: AlertContext, lastResult?: AlertEvaluation): AlertRuleState {
+    return {
+      price: context.price,
+      sma: context.sma,
+      valuationLevel: context.valuationLevel,
+      redFlags: context.redFlags,
+      evaluatedAt: new Date().toISOString(),
+      lastResult,
+    }
+  }
+
+  /**
+   * Every condition in the rules, outside their groups
+   */
+  static flatten(rule: AlertRule): AlertCondition[] {
+    return rule.kind === 'group' ? rule.conditions.flatMap(child => this.flatten(child)) : [rule]
+  }
+
+  /**
+   * Whether every condition can be decided from price alone
+   */
+  static isPriceOnly(rule: AlertRule): boolean {
+    const conditions = this.flatten(rule)
+    return conditions.length > 0 && conditions.every(condition => PRICE_CONDITIONS.includes(condition.type))
+  }
+
+  private static evaluateGroup(
+    group: AlertRuleGroup,
+    context: AlertContext,
+    previous: AlertRuleState | null,
+    depth: number,
+    results: AlertConditionResult[]
+  ): boolean {
+    const outcomes: boolean[] = []
+
+    for (const rule of group.conditions) {
+      if (rule.kind === 'group') {
+        const header: AlertConditionResult = {
+          description: rule.operator === 'AND' ? 'All of' : 'Any of',
+          depth,
+          met: false,
+          current: null,
+        }
+        results.push(header)
+        header.met = this.evaluateGroup(rule, context, previous, depth + 1, results)
+        outcomes.push(header.met)
+      } else {
+        const { met, current } = this.evaluateCondition(rule, context, previous)
+        results.push({ description: describeCondition(rule), depth, met, current })
+        outcomes.push(met)
+      }
+    }
+
+    if (outcomes.length === 0) return false
+    return group.operator === 'AND' ? outcomes.every(Boolean) : outcomes.some(Boolean)
+  }
+
+  private static evaluateCondition(
+    condition: AlertCondition,
+    context: AlertContext,
+    previous: AlertRuleState | null
+  ): { met: boolean, current: string | null } {
+    const value = condition.value ?? 0
+    const price = formatPrice(context.price)
+
+    switch (condition.type) {
+      case 'price_above':
+        return { met: context.price > value, current: price }
+      case 'price_below':
+        return { met: context.price < value, current: price }
+      case 'price_crosses_above':
+        return { met: !!previous && previous.price < value && context.price >= value, current: price }
+      case 'price_crosses_below':
+        return { met: !!previous && previous.price > value && context.price <= value, current: price }
+      case 'move_up_percent':
+        return {
+          met: context.changePercent !== null && context.changePercent >= value,
+          current: context.changePercent === null ? null : `${context.changePercent.toFixed(2)}%`,
+        }
+      case 'move_down_percent':
+        return {
+          met: context.changePercent !== null && context.changePercent <= -value,
+          current: context.changePercent === null ? null : `${context.changePercent.toFixed(2)}%`,
+        }
+      case 'rsi_above':
+      case 'rsi_below': {
+        if (context.rsi === null) return { met: false, current: null }
+        return {
+          met: condition.type === 'rsi_above' ? context.rsi > value : context.rsi < value,
+          current: context.rsi.toFixed(1),
+        }
+      }
+      case 'price_crosses_above_sma':
+      case 'price_crosses_below_sma': {
+        const period = condition.period!
+        const sma = context.sma[period]
+        const previousSma = previous?.sma[period] ?? null
+        if (sma === null) return { met: false, current: null }
+        const current = `${price} vs ${formatPrice(sma)}`
+        if (!previous || previousSma === null) return { met: false, current }
+        return {
+          met: condition.type === 'price_crosses_above_sma'
+            ? previous.price < previousSma && context.price >= sma
+            : previous.price > previousSma && context.price <= sma,
+          current,
+        }
+      }
+      case 'golden_cross':
+      case 'death_cross': {
+        const { 50: fast, 200: slow } = context.sma
+        if (fast === null || slow === null) return { met: false, current: null }
+        const current = `${formatPrice(fast)} vs ${formatPrice(slow)}`
+        const previousFast = previous?.sma[50] ?? null
+        const previousSlow = previous?.sma[200] ?? null
+        if (previousFast === null || previousSlow === null) return { met: false, current }
+        return {
+          met: condition.type === 'golden_cross'
+            ? previousFast <= previousSlow && fast > slow
+            : previousFast >= previousSlow && fast < slow,
+          current,
+        }
+      }
+      case 'valuation_enters': {
+        const levels = condition.levels || []
+        const current = context.valuationLevel
+        return {
+          met: !!previous && previous.valuationLevel !== null && current !== null &&
+            levels.includes(current) && !levels.includes(previous.valuationLevel),
+          current,
+        }
+      }
+      case 'new_red_flag': {
+        if (!context.redFlags) return { met: false, current: null }
+        const known = previous?.redFlags ? new Set(previous.redFlags) : null
+        const added = known ? context.redFlags.filter(flag => !known.has(flag)) : []
+        return {
+          met: added.length > 0,
+          current: added.length > 0 ? added.join(', ') : `${context.redFlags.length} flags`,
+        }
+      }
+      case 'earnings_within_days': {
+        if (!context.earningsDate) return { met: false, current: null }
+        const days = Math.ceil((new Date(context.earningsDate).getTime() - Date.now()) / DAY_MS)
+        return { met: days >= 0 && days <= value, current: days >= 0 ? `in ${days} days` : 'passed' }
+      }
+      case 'score_at_least':
+        return {
+          met: context.score !== null && context.score >= value,
+          current: context.score === null ? null : String(context.score),
+        }
+      case 'timing_at_least':
+        return {
+          met: context.timingScore !== null && context.timingScore >= value,
+          current: context.timingScore === null ? null : `${context.timingScore}%`,
+        }
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Alert Rule Types
+ * Watchlist buy triggers built from conditions combined in AND / OR groups
+ */
+
+export type AlertConditionType =
+  | 'price_above'
+  | 'price_below'
+  | 'price_crosses_above'
+  | 'price_crosses_below'
+  | 'move_up_percent'
+  | 'move_down_percent'
+  | 'rsi_above'
+  | 'rsi_below'
+  | 'price_crosses_above_sma'
+  | 'price_crosses_below_sma'
+  | 'golden_cross'
+  | 'death_cross'
+  | 'valuation_enters'
+  | 'new_red_flag'
+  | 'earnings_within_days'
+  | 'score_at_least'
+  | 'timing_at_least'
+
+export type AlertRuleOperator = 'AND' | 'OR'
+
+export type SmaPeriod = 20 | 50 | 150 | 200
+
+// What a condition type needs configured, used by validation and the rule builder
+export type AlertConditionInput = 'value' | 'period' | 'levels' | 'none'
+
+export interface AlertConditionDefinition {
+  type: AlertConditionType
+  label: string
+  input: AlertConditionInput
+  unit?: 'currency' | 'percent' | 'points' | 'days'
+  min?: number
+  max?: number
+  // Crossing and change conditions compare against the previous check
+  event: boolean
+}
+
+export interface AlertCondition {
+  kind: 'condition'
+  type: AlertConditionType
+  value?: number
+  period?: SmaPeriod
+  levels?: string[] // Valuation levels for valuation_enters
+}
+
+export interface AlertRuleGroup {
+  kind: 'group'
+  operator: AlertRuleOperator
+  conditions: AlertRule[]
+}
+
+export type AlertRule = AlertCondition | AlertRuleGroup
+
+// Stored in watchlists.buy_triggers
+export interface AlertTriggers {
+  version: 2
+  enabled: boolean
+  rules: AlertRuleGroup
+}
+
+// Everything a rule can test for one symbol at one check
+export interface AlertContext {
+  price: number
+  changePercent: number | null
+  rsi: number | null
+  sma: Record<SmaPeriod, number | null>
+  valuationLevel: string | null
+  redFlags: string[] | null // null when the symbol has no screener snapshot
+  earningsDate: string | null
+  score: number | null
+  timingScore: number | null // 0-100
+}
+
+// The part of a check kept in watchlists.trigger_state for the next one
+export interface AlertRuleState {
+  price: number
+  sma: Record<SmaPeriod, number | null>
+  valuationLevel: string | null
+  redFlags: string[] | null
+  evaluatedAt: string
+  lastResult?: AlertEvaluation
+}
+
+export interface AlertConditionResult {
+  description: string
+  depth: number // Nesting level, 0 for the top group's own conditions
+  met: boolean
+  current: string | null
+}
+
+export interface AlertEvaluation {
+  met: boolean
+  conditions: AlertConditionResult[]
+}
@@ -0,0 +1,520 @@
+import { Database, Json } from '@/types/database'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { NotificationService } from './notification.service'
+import { WatchlistService } from './watchlist.service'
+import { isValidSymbol, normalizeSymbol } from './universes'
+import {
+  AlertConditionResult,
+  AlertContext,
+  AlertRuleEngine,
+  AlertRuleGroup,
+  AlertRuleState,
+} from './alert-rules'
+
+type AlertRow = Database['public']['Tables']['alerts']['Row']
+type AlertEvaluationRow = Database['public']['Tables']['alert_evaluations']['Row']
+
+export type AlertOutcome = AlertEvaluationRow['outcome']
+
+export interface StockAlert {
+  id: string
+  symbol: string
+  name: string | null
+  alertType: AlertRow['alert_type']
+  rules: AlertRuleGroup
+  enabled: boolean
+  recurring: boolean // One-shot alerts stop checking once triggered
+  cooldownHours: number // Minimum time between triggers of a recurring alert
+  snoozedUntil: string | null
+  triggered: boolean
+  triggeredAt: string | null
+  triggerCount: number
+  active: boolean // Enabled and still checked
+  lastEvaluatedAt: string | null
+  lastResult: AlertConditionResult[] | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type StockAlertInput = Pick<StockAlert, 'symbol' | 'name' | 'rules' | 'enabled' | 'recurring' | 'cooldownHours'>
+
+export interface StockAlertEvaluation {
+  id: string
+  alertId: string
+  symbol: string
+  outcome: AlertOutcome
+  price: number | null
+  met: boolean
+  conditions: AlertConditionResult[]
+  evaluatedAt: string
+}
+
+// What a cron run over a symbol's alerts did
+export interface AlertRunResult {
+  evaluated: number
+  triggered: number
+  failed: number
+}
+
+export const MAX_ALERTS = 100
+export const MAX_COOLDOWN_HOURS = 24 * 30
+
+const EVALUATION_RETENTION_DAYS = 30 // Evaluations that didn't trigger are pruned after this
+const HOUR_MS = 60 * 60 * 1000
+const PAGE_SIZE = 1000
+
+export class AlertService {
+  /**
+   * The user's alerts, optionally for one symbol, newest first
+   */
+  static async getAlerts(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    symbol?: string
+  ): Promise<StockAlert[]> {
+
+    let query = supabase
+      .from('alerts')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (symbol) query = query.eq('symbol', symbol)
+
+    const { data, error } = await query.order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching alerts:', error)
+      throw error
+    }
+
+    return ((data || []) as AlertRow[]).map(row => this.mapRow(row))
+  }
+
+  /**
+   * Create an alert. The symbol doesn't need to be on the watchlist.
+   */
+  static async createAlert(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    input: StockAlertInput
+  ): Promise<StockAlert> {
+
+    const { count } = await supabase
+      .from('alerts')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+
+    if ((count || 0) >= MAX_ALERTS) {
+      throw new Error(`You can have at most ${MAX_ALERTS} alerts`)
+    }
+
+    await WatchlistService.ensureStockExists(supabase, input.symbol)
+
+    const { data, error } = await (supabase
+      .from('alerts') as any)
+      .insert({
+        user_id: userId,
+        symbol: input.symbol,
+        name: input.name,
+        alert_type: this.alertTypeFor(input.rules),
+        condition: input.rules as unknown as Json,
+        enabled: input.enabled,
+        recurring: input.recurring,
+        cooldown_hours: input.cooldownHours,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating alert:', error)
+      throw error
+    }
+
+    return this.mapRow(data)
+  }
+
+  /**
+   * Replace an alert's settings. Editing a triggered one-shot alert re-arms it;
+   * the last check's state is kept so crossing conditions carry on.
+   */
+  static async updateAlert(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    alertId: string,
+    input: StockAlertInput
+  ): Promise<StockAlert | null> {
+
+    await WatchlistService.ensureStockExists(supabase, input.symbol)
+
+    const { data, error } = await (supabase
+      .from('alerts') as any)
+      .update({
+        symbol: input.symbol,
+        name: input.name,
+        alert_type: this.alertTypeFor(input.rules),
+        condition: input.rules as unknown as Json,
+        enabled: input.enabled,
+        recurring: input.recurring,
+        cooldown_hours: input.cooldownHours,
+        triggered: false,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', alertId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating alert:', error)
+      throw error
+    }
+
+    return data ? this.mapRow(data) : null
+  }
+
+  /**
+   * Snooze an alert until a time, or clear the snooze with null. Snoozed
+   * alerts are still evaluated so their history and crossings stay current.
+   */
+  static async snoozeAlert(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    alertId: string,
+    until: Date | null
+  ): Promise<StockAlert | null> {
+    return this.patchAlert(supabase, userId, alertId, { snoozed_until: until ? until.toISOString() : null })
+  }
+
+  /**
+   * Turn an alert on or off. Turning a triggered one-shot alert on re-arms it.
+   */
+  static async setEnabled(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    alertId: string,
+    enabled: boolean
+  ): Promise<StockAlert | null> {
+    return this.patchAlert(supabase, userId, alertId, enabled ? { enabled, triggered: false } : { enabled })
+  }
+
+  /**
+   * Delete an alert and its evaluations
+   */
+  static async deleteAlert(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    alertId: string
+  ): Promise<boolean> {
+
+    const { data, error } = await supabase
+      .from('alerts')
+      .delete()
+      .eq('id', alertId)
+      .eq('user_id', userId)
+      .select('id')
+
+    if (error) {
+      console.error('Error deleting alert:', error)
+      throw error
+    }
+
+    return (data || []).length > 0
+  }
+
+  /**
+   * An alert's evaluations, newest first. With triggeredOnly this is its
+   * trigger history, which is never pruned.
+   */
+  static async getEvaluations(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    alertId: string,
+    options: { triggeredOnly?: boolean, limit?: number } = {}
+  ): Promise<StockAlertEvaluation[]> {
+
+    let query = supabase
+      .from('alert_evaluations')
+      .select('*')
+      .eq('alert_id', alertId)
+      .eq('user_id', userId)
+
+    if (options.triggeredOnly) query = query.eq('outcome', 'triggered')
+
+    const { data, error } = await query
+      .order('evaluated_at', { ascending: false })
+      .limit(Math.min(options.limit || 50, 500))
+
+    if (error) {
+      console.error('Error fetching alert evaluations:', error)
+      throw error
+    }
+
+    return ((data || []) as AlertEvaluationRow[]).map(row => {
+      const result = row.result as unknown as { met: boolean, conditions: AlertConditionResult[] }
+      return {
+        id: row.id,
+        alertId: row.alert_id,
+        symbol: row.symbol,
+        outcome: row.outcome,
+        price: row.price,
+        met: result.met,
+        conditions: result.conditions || [],
+        evaluatedAt: row.evaluated_at,
+      }
+    })
+  }
+
+  /**
+   * Validate an alert submitted by a user
+   */
+  static validateAlert(input: any): StockAlertInput {
+    const symbol = typeof input?.symbol === 'string' ? normalizeSymbol(input.symbol) : ''
+    if (!isValidSymbol(symbol)) {
+      throw new Error('A valid symbol is required')
+    }
+
+    const name = typeof input?.name === 'string' && input.name.trim() ? input.name.trim() : null
+    if (name && name.length > 60) {
+      throw new Error('Name must be at most 60 characters')
+    }
+
+    const cooldownHours = input?.cooldownHours ?? 24
+    if (typeof cooldownHours !== 'number' || !Number.isInteger(cooldownHours) || cooldownHours < 0 || cooldownHours > MAX_COOLDOWN_HOURS) {
+      throw new Error(`Cooldown must be a whole number of hours between 0 and ${MAX_COOLDOWN_HOURS}`)
+    }
+
+    return {
+      symbol,
+      name,
+      rules: AlertRuleEngine.validate(input?.rules),
+      enabled: input?.enabled !== false,
+      recurring: input?.recurring === true,
+      cooldownHours,
+    }
+  }
+
+  /**
+   * Alerts the checker should evaluate: enabled, and recurring or not yet
+   * triggered. Reads every user's alerts with the service role, paged past
+   * the Supabase row limit.
+   */
+  static async getActiveAlerts(userId?: string): Promise<AlertRow[]> {
+    const supabase = this.adminClient()
+    const rows: AlertRow[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('alerts')
+        .select('*')
+        .eq('enabled', true)
+        .or('recurring.eq.true,triggered.eq.false')
+
+      if (userId) query = query.eq('user_id', userId)
+
+      const { data, error } = await query
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching active alerts:', error)
+        throw error
+      }
+
+      rows.push(...((data || []) as AlertRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return rows
+  }
+
+  /**
+   * Evaluate one symbol's alerts against its latest data, record each
+   * evaluation and notify the owners of alerts that trigger
+   */
+  static async evaluateAlerts(
+    alerts: AlertRow[],
+    context: AlertContext,
+    stock: { symbol: string, name: string }
+  ): Promise<AlertRunResult> {
+    const supabase = this.adminClient()
+    const result: AlertRunResult = { evaluated: 0, triggered: 0, failed: 0 }
+
+    for (const row of alerts) {
+      const rules = this.readRules(row)
+      if (!rules) continue
+
+      try {
+        const previous = row.trigger_state as unknown as AlertRuleState | null
+        const evaluation = AlertRuleEngine.evaluate(rules, context, previous)
+        const now = new Date()
+
+        let outcome: AlertOutcome = 'not_met'
+        if (evaluation.met) {
+          if (row.snoozed_until && new Date(row.snoozed_until) > now) {
+            outcome = 'snoozed'
+          } else if (row.recurring && row.triggered_at && now.getTime() - new Date(row.triggered_at).getTime() < row.cooldown_hours * HOUR_MS) {
+            outcome = 'cooldown'
+          } else {
+            outcome = 'triggered'
+          }
+        }
+
+        const { error: evaluationError } = await (supabase
+          .from('alert_evaluations') as any)
+          .insert({
+            alert_id: row.id,
+            user_id: row.user_id,
+            symbol: row.symbol,
+            outcome,
+            price: context.price,
+            result: evaluation as unknown as Json,
+            evaluated_at: now.toISOString(),
+          })
+
+        if (evaluationError) {
+          throw new Error(evaluationError.message)
+        }
+
+        const message = `${stock.symbol} meets your alert rules at $${context.price.toFixed(2)}`
+        const { error: updateError } = await (supabase
+          .from('alerts') as any)
+          .update({
+            trigger_state: AlertRuleEngine.buildState(context, evaluation) as unknown as Json,
+            last_evaluated_at: now.toISOString(),
+            ...(outcome === 'triggered' ? {
+              triggered: true,
+              triggered_at: now.toISOString(),
+              trigger_count: row.trigger_count + 1,
+              message,
+            } : {}),
+          })
+          .eq('id', row.id)
+
+        if (updateError) {
+          throw new Error(updateError.message)
+        }
+
+        result.evaluated++
+
+        if (outcome === 'triggered') {
+          result.triggered++
+          await NotificationService.sendNotification({
+            userId: row.user_id,
+            type: 'stock_alert',
+            priority: 'high',
+            channel: 'all',
+            data: {
+              alertId: row.id,
+              alertName: row.name,
+              symbol: stock.symbol,
+              name: stock.name,
+              price: context.price,
+              conditions: evaluation.conditions,
+              message,
+            },
+          }, supabase)
+        }
+      } catch (error) {
+        result.failed++
+        console.error(`Error evaluating alert ${row.id} for ${row.symbol}:`, error)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Drop evaluations that didn't trigger once they are past the retention window
+   */
+  static async pruneEvaluations(): Promise<void> {
+    const cutoff = new Date(Date.now() - EVALUATION_RETENTION_DAYS * 24 * HOUR_MS)
+
+    const { error } = await this.adminClient()
+      .from('alert_evaluations')
+      .delete()
+      .eq('outcome', 'not_met')
+      .lt('evaluated_at', cutoff.toISOString())
+
+    if (error) {
+      console.error('Error pruning alert evaluations:', error)
+    }
+  }
+
+  /**
+   * Category for the alerts list, from the conditions an alert uses
+   */
+  static alertTypeFor(rules: AlertRuleGroup): AlertRow['alert_type'] {
+    const types = new Set(AlertRuleEngine.flatten(rules).map(condition => condition.type))
+    const only = (allowed: string[]) => types.size > 0 && Array.from(types).every(type => allowed.includes(type))
+
+    if (only(['price_above', 'price_below', 'price_crosses_above', 'price_crosses_below'])) return 'price_target'
+    if (only(['score_at_least', 'timing_at_least'])) return 'score_change'
+    if (only(['earnings_within_days'])) return 'earnings'
+    if (only([
+      'move_up_percent', 'move_down_percent', 'rsi_above', 'rsi_below',
+      'price_crosses_above_sma', 'price_crosses_below_sma', 'golden_cross', 'death_cross',
+    ])) return 'technical'
+    return 'rules'
+  }
+
+  /**
+   * An alert's rules, or null for rows from before alerts held rules
+   */
+  static readRules(row: AlertRow): AlertRuleGroup | null {
+    const condition = row.condition as unknown as AlertRuleGroup | null
+    return condition?.kind === 'group' && Array.isArray(condition.conditions) ? condition : null
+  }
+
+  private static async patchAlert(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    alertId: string,
+    changes: Database['public']['Tables']['alerts']['Update']
+  ): Promise<StockAlert | null> {
+
+    const { data, error } = await (supabase
+      .from('alerts') as any)
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', alertId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating alert:', error)
+      throw error
+    }
+
+    return data ? this.mapRow(data) : null
+  }
+
+  private static adminClient(): SupabaseClient<Database> {
+    return createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+  }
+
+  private static mapRow(row: AlertRow): StockAlert {
+    const state = row.trigger_state as unknown as AlertRuleState | null
+    return {
+      id: row.id,
+      symbol: row.symbol,
+      name: row.name,
+      alertType: row.alert_type,
+      rules: this.readRules(row) || { kind: 'group', operator: 'AND', conditions: [] },
+      enabled: row.enabled,
+      recurring: row.recurring,
+      cooldownHours: row.cooldown_hours,
+      snoozedUntil: row.snoozed_until,
+      triggered: row.triggered,
+      triggeredAt: row.triggered_at,
+      triggerCount: row.trigger_count,
+      active: row.enabled && (row.recurring || !row.triggered),
+      lastEvaluatedAt: row.last_evaluated_at,
+      lastResult: state?.lastResult?.conditions || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+}
@@ -175,45 +175,70 @@ export class AlpacaDataService {
   static async getHistoricalData(
     symbol: string, 
     period: string = '3mo'
+  ): Promise<StockHistorical[]> {
+    // Calculate date range
+    const end = new Date()
+    const start = new Date()
+    
+    switch (period) {
+      case '1mo':
+        start.setMonth(start.getMonth() - 1)
+        break
+      case '3mo':
+        start.setMonth(start.getMonth() - 3)
+        break
+      case '6mo':
+        start.setMonth(start.getMonth() - 6)
+        break
+      case '1y':
+        start.setFullYear(start.getFullYear() - 1)
+        break
+      case '2y':
+        start.setFullYear(start.getFullYear() - 2)
+        break
+      case '5y':
+        start.setFullYear(start.getFullYear() - 5)
+        break
+      default:
+        start.setMonth(start.getMonth() - 3)
+    }
+    
+    return this.getHistoricalDataByDateRange(symbol, start, end)
+  }
+  
+  /**
+   * Get daily bars between two dates, following pagination
+   */
+  static async getHistoricalDataByDateRange(
+    symbol: string,
+    start: Date,
+    end: Date
   ): Promise<StockHistorical[]> {
     try {
-      // Calculate date range
-      const end = new Date()
-      const start = new Date()
+      const bars: AlpacaBar[] = []
+      let pageToken: string | null = null
       
-      switch (period) {
-        case '1mo':
-          start.setMonth(start.getMonth() - 1)
-          break
-        case '3mo':
-          start.setMonth(start.getMonth() - 3)
-          break
-        case '6mo':
-          start.setMonth(start.getMonth() - 6)
-          break
-        case '1y':
-          start.setFullYear(start.getFullYear() - 1)
-          break
-        default:
-          start.setMonth(start.getMonth() - 3)
-      }
-      
-      const response = await fetch(
-        `${this.BASE_URL}/stocks/${symbol}/bars?` +
-        `start=${start.toISOString().split('T')[0]}&` +
-        `end=${end.toISOString().split('T')[0]}&` +
-        `timeframe=1Day&` +
-        `page_limit=1000`,
-        { headers: this.getHeaders() }
-      )
-      
-      if (!response.ok) {
-        throw new Error(`Alpaca API error: ${response.status}`)
-      }
-      
-      const data = await response.json()
+      do {
+        const response: Response = await fetch(
+          `${this.BASE_URL}/stocks/${symbol}/bars?` +
+          `start=${start.toISOString().split('T')[0]}&` +
+          `end=${end.toISOString().split('T')[0]}&` +
+          `timeframe=1Day&` +
+          `limit=10000` +
+          (pageToken ? `&page_token=${pageToken}` : ''),
+          { headers: this.getHeaders() }
+        )
+        
+        if (!response.ok) {
+          throw new Error(`Alpaca API error: ${response.status}`)
+        }
+        
+        const data = await response.json()
+        bars.push(...(data.bars || []))
+        pageToken = data.next_page_token || null
+      } while (pageToken)
       
-      return (data.bars || []).map((bar: AlpacaBar) => ({
+      return bars.map((bar: AlpacaBar) => ({
         date: new Date(bar.t),
         open: bar.o,
         high: bar.h,
@@ -1,11 +1,13 @@
-import { SP500GitHubService } from './sp500-github.service'
+import { createClient } from '@supabase/supabase-js'
 import { ScorePersistenceService } from './score-persistence.service'
-import { YahooFinanceService } from './yahoo-finance.service'
-import { AlpacaDataService } from './alpaca-data.service'
+import { MarketDataService } from './market-data'
 import { StockBeaconScoreService } from './stockbeacon-score.service'
 import { AIMoatAnalysisService } from './ai-moat.service'
 import { RedisCacheService } from './redis-cache.service'
+import { ScreenerSnapshotService } from './screener'
+import { UniverseService } from './universes'
 import { StockScore } from '@/types/stock'
+import { Database } from '@/types/database'
 
 interface CalculationProgress {
   total: number
@@ -21,31 +23,56 @@ export class BackgroundScoreCalculator {
   private static readonly RATE_LIMIT_DELAY = 2000 // 2 seconds between batches (1 stock/second average)
   private static readonly MAX_RETRIES = 3
   private static readonly RETRY_DELAY = 5000 // 5 seconds
+  private static readonly TRACKED_MAX_AGE_HOURS = 24 // Watched and held symbols outside any universe
   
   private static progress: CalculationProgress | null = null
   
   /**
-   * Calculate scores for all S&P 500 stocks
+   * Calculate scores for every enabled universe and tracked symbol. Each
+   * symbol is rescored once its score is older than the strictest score
+   * interval of the universes it belongs to.
    */
-  static async calculateAllSP500Scores(): Promise<void> {
-    console.log('\n🚀 ========== S&P 500 SCORE CALCULATION STARTED ==========')
+  static async calculateAllScores(): Promise<void> {
+    console.log('\n🚀 ========== SCORE CALCULATION STARTED ==========')
     console.log(`📅 Start time: ${new Date().toLocaleString()}`)
     const startTime = new Date()
     
     try {
-      // Get S&P 500 constituents
-      console.log('\n📋 Fetching S&P 500 constituents...')
-      const sp500Stocks = await SP500GitHubService.getConstituents()
-      const symbols = sp500Stocks.map(s => s.symbol)
+      // Re-download index lists that are due before deciding what to score
+      console.log('\n📋 Refreshing universe constituents...')
+      const refresh = await UniverseService.refreshDueUniverses()
+      if (refresh.refreshed.length > 0 || refresh.failed.length > 0) {
+        console.log(`✅ Refreshed: ${refresh.refreshed.join(', ') || 'none'} | Failed: ${refresh.failed.join(', ') || 'none'}`)
+      }
+      
+      const plan = await UniverseService.getScoringPlan()
+      const trackedSymbols = await this.getTrackedSymbols()
+      for (const symbol of trackedSymbols) {
+        if (!plan.maxAgeBySymbol.has(symbol)) {
+          plan.maxAgeBySymbol.set(symbol, this.TRACKED_MAX_AGE_HOURS)
+        }
+      }
       
-      console.log(`✅ Found ${symbols.length} S&P 500 stocks`)
+      for (const universe of plan.universes) {
+        console.log(`   ${universe.name}: ${universe.constituentCount} symbols, rescored after ${universe.scoreIntervalHours}h`)
+      }
+      console.log(`✅ ${plan.maxAgeBySymbol.size} symbols across ${plan.universes.length} universes and watchlists`)
       
-      // Get stale scores (older than 24 hours or missing)
+      // Get stale scores, grouped by how old each symbol's score may get
       console.log('\n🔍 Checking for stale scores...')
-      const staleSymbols = await ScorePersistenceService.getStaleScores(symbols, 24)
+      const symbolsByMaxAge = new Map<number, string[]>()
+      for (const [symbol, maxAge] of plan.maxAgeBySymbol) {
+        symbolsByMaxAge.set(maxAge, [...(symbolsByMaxAge.get(maxAge) || []), symbol])
+      }
+      
+      const staleSymbols: string[] = []
+      for (const maxAge of Array.from(symbolsByMaxAge.keys()).sort((a, b) => a - b)) {
+        staleSymbols.push(...await ScorePersistenceService.getStaleScores(symbolsByMaxAge.get(maxAge)!, maxAge))
+      }
       
       if (staleSymbols.length === 0) {
         console.log('✨ All scores are up to date! No calculation needed.')
+        await UniverseService.markScored(plan.universes.map(u => u.id))
         return
       }
       
@@ -63,6 +90,7 @@ export class BackgroundScoreCalculator {
       
       // Calculate scores in batches
       await this.calculateScoresInBatches(staleSymbols)
+      await UniverseService.markScored(plan.universes.map(u => u.id))
       
       // Log final results
       const duration = (Date.now() - startTime.getTime()) / 1000 / 60 // minutes
@@ -89,6 +117,28 @@ export class BackgroundScoreCalculator {
     }
   }
   
+  /**
+   * Symbols held or watched by any user, so the screener covers them too
+   */
+  private static async getTrackedSymbols(): Promise<string[]> {
+    const supabase = createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+
+    const [watchlists, portfolios] = await Promise.all([
+      supabase.from('watchlists').select('symbol'),
+      supabase.from('portfolios').select('symbol'),
+    ])
+
+    if (watchlists.error || portfolios.error) {
+      console.warn('Failed to load tracked symbols:', watchlists.error || portfolios.error)
+    }
+
+    const rows = [...(watchlists.data || []), ...(portfolios.data || [])] as Array<{ symbol: string }>
+    return Array.from(new Set(rows.map(row => row.symbol.toUpperCase())))
+  }
+  
   /**
    * Calculate scores in batches with rate limiting
    */
@@ -146,30 +196,23 @@ export class BackgroundScoreCalculator {
         console.log(`   📈 ${symbol}: Fetching data...`)
       }
       
-      // Use Alpaca for crawler to avoid Yahoo Finance rate limits
-      let quote, financials, historical
-      
-      if (AlpacaDataService.isConfigured()) {
-        // Use Alpaca if configured
-        [quote, financials, historical] = await Promise.all([
-          AlpacaDataService.getQuote(symbol),
-          AlpacaDataService.getFinancials(symbol),
-          AlpacaDataService.getHistoricalData(symbol, '3mo')
-        ])
-      } else {
-        // Fallback to Yahoo Finance
-        console.log(`   ⚠️  Alpaca not configured, using Yahoo Finance (may hit rate limits)`)
-        ;[quote, financials, historical] = await Promise.all([
-          YahooFinanceService.getQuote(symbol),
-          YahooFinanceService.getFinancials(symbol),
-          YahooFinanceService.getHistoricalData(symbol, '3mo')
-        ])
-      }
+      // Providers fail over on their own when one is rate limited or down
+      const [quote, financials, prices] = await Promise.all([
+        MarketDataService.getQuote(symbol),
+        MarketDataService.getFinancials(symbol),
+        MarketDataService.getHistorical(symbol, { period: '3mo' })
+      ])
       
       if (!quote || !financials) {
         throw new Error(`Missing data`)
       }
       
+      // Never persist a score built on generated prices
+      if (prices?.provenance.synthetic) {
+        throw new Error('Only synthetic price history available')
+      }
+      const historical = prices?.data || []
+      
       // Get AI moat analysis if available (don't fail if not)
       let aiMoatAnalysis = null
       try {
@@ -199,6 +242,13 @@ export class BackgroundScoreCalculator {
       
       // Update Redis cache
       await RedisCacheService.setScore(symbol, score)
+
+      // Screener fundamentals are best effort and never fail the score
+      try {
+        await ScreenerSnapshotService.capture(symbol, quote, financials, score)
+      } catch (snapshotError) {
+        console.warn(`Failed to capture screener snapshot for ${symbol}:`, snapshotError)
+      }
       
       if (this.progress) {
         this.progress.completed++
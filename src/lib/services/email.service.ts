@@ -8,6 +8,7 @@ import { Redis } from '@upstash/redis';
 import PerfectStormAlertEmail from '@/lib/emails/templates/perfect-storm-alert';
 import { createElement } from 'react';
 import { renderAsync } from '@react-email/components';
+import type { AlertConditionResult } from './alert-rules';
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 const redis = new Redis({
@@ -61,6 +62,41 @@ export interface DailyDigestData {
   };
 }
 
+export interface ScreenMatchStock {
+  symbol: string;
+  name: string;
+  score: number | null;
+  price: number | null;
+}
+
+export interface ScreenMatchAlertData {
+  screenId: string;
+  screenName: string;
+  screenQuery: string;
+  entered: ScreenMatchStock[];
+  exited: ScreenMatchStock[];
+  matchCount: number;
+}
+
+export interface RuleAlertData {
+  alertId: string; // Watchlist item or standalone alert
+  alertName?: string | null;
+  symbol: string;
+  name: string;
+  price: number;
+  conditions: AlertConditionResult[];
+}
+
+export interface ExitSignalAlertData {
+  symbol: string;
+  level: 'warning' | 'consider' | 'urgent';
+  message: string;
+  reasons: string[];
+  purchaseScore: number;
+  currentScore: number;
+  scoreChange: number;
+}
+
 export class EmailService {
   private static RATE_LIMIT_PREFIX = 'email_rate:';
   private static LAST_SENT_PREFIX = 'email_last:';
@@ -173,6 +209,124 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send Saved Screen Match Email
+   */
+  static async sendScreenMatchAlert(
+    recipient: EmailRecipient,
+    data: ScreenMatchAlertData
+  ): Promise<boolean> {
+    try {
+      // Check rate limits per screen so several screens can report on the same night
+      if (!(await this.checkRateLimit(recipient.userId, `screen_match:${data.screenId}`))) {
+        return false;
+      }
+
+      const htmlContent = this.generateScreenMatchHTML(recipient.name || 'Investor', data);
+
+      const result = await resend.emails.send({
+        from: process.env.RESEND_FROM_EMAIL || 'StockBeacon <notifications@stockbeacon.app>',
+        to: recipient.email,
+        subject: data.entered.length > 0
+          ? `🔎 ${data.screenName}: ${data.entered.length} new ${data.entered.length === 1 ? 'match' : 'matches'}`
+          : `🔎 ${data.screenName}: ${data.exited.length} ${data.exited.length === 1 ? 'stock' : 'stocks'} no longer matching`,
+        html: htmlContent,
+        tags: [
+          { name: 'type', value: 'screen_match' },
+        ],
+      });
+
+      if (result.data) {
+        await this.updateRateLimitCounters(recipient.userId, `screen_match:${data.screenId}`);
+        await this.logEmailSent(recipient.userId, 'screen_match', data.screenName);
+        return true;
+      }
+
+      return false;
+    } catch (error) {
+      console.error('Error sending screen match alert:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Send Rule Alert Email, for watchlist buy triggers and standalone alerts
+   */
+  static async sendRuleAlert(
+    recipient: EmailRecipient,
+    data: RuleAlertData
+  ): Promise<boolean> {
+    try {
+      // Check rate limits per alert so alerts on different stocks don't block each other
+      if (!(await this.checkRateLimit(recipient.userId, `rule_alert:${data.alertId}`))) {
+        return false;
+      }
+
+      const htmlContent = this.generateRuleAlertHTML(recipient.name || 'Investor', data);
+
+      const result = await resend.emails.send({
+        from: process.env.RESEND_FROM_EMAIL || 'StockBeacon <notifications@stockbeacon.app>',
+        to: recipient.email,
+        subject: `🎯 ${data.alertName || data.symbol} - ${data.symbol} meets your alert rules at $${data.price.toFixed(2)}`,
+        html: htmlContent,
+        tags: [
+          { name: 'type', value: 'rule_alert' },
+          { name: 'symbol', value: data.symbol },
+        ],
+      });
+
+      if (result.data) {
+        await this.updateRateLimitCounters(recipient.userId, `rule_alert:${data.alertId}`);
+        await this.logEmailSent(recipient.userId, 'rule_alert', data.symbol);
+        return true;
+      }
+
+      return false;
+    } catch (error) {
+      console.error('Error sending rule alert:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Send Exit Signal Email, when a held position's thesis has weakened
+   */
+  static async sendExitSignalAlert(
+    recipient: EmailRecipient,
+    data: ExitSignalAlertData
+  ): Promise<boolean> {
+    try {
+      // Check rate limits per symbol so signals on different positions don't block each other
+      if (!(await this.checkRateLimit(recipient.userId, `exit_signal:${data.symbol}`))) {
+        return false;
+      }
+
+      const htmlContent = this.generateExitSignalHTML(recipient.name || 'Investor', data);
+
+      const result = await resend.emails.send({
+        from: process.env.RESEND_FROM_EMAIL || 'StockBeacon <notifications@stockbeacon.app>',
+        to: recipient.email,
+        subject: `⚠️ ${data.message}`,
+        html: htmlContent,
+        tags: [
+          { name: 'type', value: 'exit_signal' },
+          { name: 'symbol', value: data.symbol },
+        ],
+      });
+
+      if (result.data) {
+        await this.updateRateLimitCounters(recipient.userId, `exit_signal:${data.symbol}`);
+        await this.logEmailSent(recipient.userId, 'exit_signal', data.symbol);
+        return true;
+      }
+
+      return false;
+    } catch (error) {
+      console.error('Error sending exit signal alert:', error);
+      return false;
+    }
+  }
+
   /**
    * Send Welcome Email
    */
@@ -358,6 +512,199 @@ export class EmailService {
     `;
   }
 
+  /**
+   * Generate Saved Screen Match HTML
+   */
+  private static generateScreenMatchHTML(userName: string, data: ScreenMatchAlertData): string {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://stockbeacon.app';
+    const screenUrl = `${baseUrl}/screener?q=${encodeURIComponent(data.screenQuery)}`;
+    const stockRow = (stock: ScreenMatchStock, color: string) => `
+      <div style="border-left: 3px solid ${color}; padding-left: 16px; margin-bottom: 12px;">
+        <a href="${baseUrl}/stocks/${stock.symbol}" style="color: #1a1f2e;"><strong>${stock.symbol}</strong></a> - ${stock.name}<br>
+        <span style="color: #6b7280;">
+          ${stock.price !== null ? `$${stock.price.toFixed(2)}` : ''}${stock.score !== null ? ` | Score: ${stock.score}/100` : ''}
+        </span>
+      </div>
+    `;
+
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>${data.screenName} - New Matches</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background-color: #f6f9fc; margin: 0; padding: 20px;">
+          <div style="max-width: 600px; margin: 0 auto; background: white; border-radius: 12px; overflow: hidden;">
+            <!-- Header -->
+            <div style="background: #1a1f2e; padding: 24px; text-align: center;">
+              <h1 style="color: white; margin: 0; font-size: 24px;">🔎 ${data.screenName}</h1>
+            </div>
+            
+            <!-- Content -->
+            <div style="padding: 32px;">
+              <p style="color: #484848; font-size: 16px;">Hi ${userName},</p>
+              <p style="color: #484848; font-size: 16px;">
+                After last night's score update, ${data.matchCount} ${data.matchCount === 1 ? 'stock meets' : 'stocks meet'} your screen:
+              </p>
+              <p style="background: #f9fafb; border-radius: 8px; padding: 12px; font-family: monospace; font-size: 13px; color: #1a1f2e;">
+                ${data.screenQuery}
+              </p>
+              
+              <!-- Entered -->
+              ${data.entered.length > 0 ? `
+                <h3 style="color: #1a1f2e; margin: 24px 0 16px 0;">New matches</h3>
+                ${data.entered.map(stock => stockRow(stock, '#10b981')).join('')}
+              ` : ''}
+              
+              <!-- Exited -->
+              ${data.exited.length > 0 ? `
+                <h3 style="color: #1a1f2e; margin: 24px 0 16px 0;">No longer matching</h3>
+                ${data.exited.map(stock => stockRow(stock, '#9ca3af')).join('')}
+              ` : ''}
+              
+              <!-- CTA -->
+              <div style="text-align: center; margin: 32px 0;">
+                <a href="${screenUrl}" style="display: inline-block; background: #1a1f2e; color: white; padding: 12px 32px; border-radius: 8px; text-decoration: none; font-weight: 600;">
+                  Open Screen →
+                </a>
+              </div>
+            </div>
+            
+            <!-- Footer -->
+            <div style="background: #f9fafb; padding: 24px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+                © 2024 StockBeacon | 
+                <a href="${baseUrl}/screener" style="color: #6b7280;">Manage Screens</a> | 
+                <a href="${baseUrl}/unsubscribe" style="color: #6b7280;">Unsubscribe</a>
+              </p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Generate Rule Alert HTML
+   */
+  private static generateRuleAlertHTML(userName: string, data: RuleAlertData): string {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://stockbeacon.app';
+    const conditionRow = (condition: AlertConditionResult) => `
+      <div style="margin: 0 0 8px ${condition.depth * 20}px; color: ${condition.met ? '#10b981' : '#9ca3af'};">
+        ${condition.met ? '✓' : '○'} <span style="color: #484848;">${condition.description}</span>
+        ${condition.current ? `<span style="color: #6b7280;">(now: ${condition.current})</span>` : ''}
+      </div>
+    `;
+
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>${data.symbol} - Alert Triggered</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background-color: #f6f9fc; margin: 0; padding: 20px;">
+          <div style="max-width: 600px; margin: 0 auto; background: white; border-radius: 12px; overflow: hidden;">
+            <!-- Header -->
+            <div style="background: #1a1f2e; padding: 24px; text-align: center;">
+              <h1 style="color: white; margin: 0; font-size: 24px;">🎯 ${data.symbol} Alert</h1>
+            </div>
+            
+            <!-- Content -->
+            <div style="padding: 32px;">
+              <p style="color: #484848; font-size: 16px;">Hi ${userName},</p>
+              <p style="color: #484848; font-size: 16px;">
+                ${data.name} (${data.symbol}) is trading at $${data.price.toFixed(2)} and meets the rules of ${data.alertName ? `your alert "${data.alertName}"` : 'your alert'}:
+              </p>
+              
+              <!-- Conditions -->
+              <div style="background: #f9fafb; border-radius: 8px; padding: 16px; font-size: 14px;">
+                ${data.conditions.map(conditionRow).join('')}
+              </div>
+              
+              <!-- CTA -->
+              <div style="text-align: center; margin: 32px 0;">
+                <a href="${baseUrl}/stocks/${data.symbol}" style="display: inline-block; background: #1a1f2e; color: white; padding: 12px 32px; border-radius: 8px; text-decoration: none; font-weight: 600;">
+                  View ${data.symbol} →
+                </a>
+              </div>
+            </div>
+            
+            <!-- Footer -->
+            <div style="background: #f9fafb; padding: 24px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+                © 2024 StockBeacon | 
+                <a href="${baseUrl}/alerts" style="color: #6b7280;">Manage Alerts</a> | 
+                <a href="${baseUrl}/unsubscribe" style="color: #6b7280;">Unsubscribe</a>
+              </p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Generate Exit Signal Email HTML
+   */
+  private static generateExitSignalHTML(userName: string, data: ExitSignalAlertData): string {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://stockbeacon.app';
+    const color = data.level === 'urgent' ? '#ef4444' : data.level === 'consider' ? '#f59e0b' : '#6b7280';
+
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>${data.symbol} - Exit Signal</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background-color: #f6f9fc; margin: 0; padding: 20px;">
+          <div style="max-width: 600px; margin: 0 auto; background: white; border-radius: 12px; overflow: hidden;">
+            <!-- Header -->
+            <div style="background: #1a1f2e; padding: 24px; text-align: center;">
+              <h1 style="color: white; margin: 0; font-size: 24px;">⚠️ ${data.symbol} Exit Signal</h1>
+            </div>
+            
+            <!-- Content -->
+            <div style="padding: 32px;">
+              <p style="color: #484848; font-size: 16px;">Hi ${userName},</p>
+              <p style="color: #484848; font-size: 16px;">${data.message}.</p>
+              
+              <!-- Score change -->
+              <div style="background: #f9fafb; border-radius: 8px; padding: 16px; margin: 16px 0; text-align: center;">
+                <span style="color: #6b7280;">Score when bought: <strong>${data.purchaseScore}</strong></span>
+                &nbsp;→&nbsp;
+                <span style="color: #6b7280;">Now: <strong style="color: ${color};">${data.currentScore}</strong></span>
+                <span style="color: ${color};">(${data.scoreChange > 0 ? '+' : ''}${data.scoreChange})</span>
+              </div>
+              
+              <!-- Reasons -->
+              <div style="background: #f9fafb; border-radius: 8px; padding: 16px; font-size: 14px;">
+                ${data.reasons.map(reason => `<div style="margin-bottom: 8px; color: #484848;">• ${reason}</div>`).join('')}
+              </div>
+              
+              <!-- CTA -->
+              <div style="text-align: center; margin: 32px 0;">
+                <a href="${baseUrl}/portfolio" style="display: inline-block; background: #1a1f2e; color: white; padding: 12px 32px; border-radius: 8px; text-decoration: none; font-weight: 600;">
+                  Review Position →
+                </a>
+              </div>
+            </div>
+            
+            <!-- Footer -->
+            <div style="background: #f9fafb; padding: 24px; text-align: center; border-top: 1px solid #e5e7eb;">
+              <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+                © 2024 StockBeacon | 
+                <a href="${baseUrl}/unsubscribe" style="color: #6b7280;">Unsubscribe</a>
+              </p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
   /**
    * Generate Welcome Email HTML
    */
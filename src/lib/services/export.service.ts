@@ -0,0 +1,153 @@
+import { ExportColumn, ExportRow, toCsv, toXlsx } from '@/lib/utils/export-formats'
+import { EnrichedPortfolioPosition } from './portfolio.service'
+import { EnrichedWatchlistItem } from './watchlist.service'
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'xlsx']
+
+export type ExportType = 'portfolio' | 'watchlist'
+
+export interface ExportFile {
+  body: string | Uint8Array<ArrayBuffer>
+  contentType: string
+  filename: string
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+}
+
+const PORTFOLIO_COLUMNS: ExportColumn[] = [
+  { key: 'symbol', header: 'Symbol' },
+  { key: 'name', header: 'Name' },
+  { key: 'sector', header: 'Sector' },
+  { key: 'quantity', header: 'Quantity' },
+  { key: 'average_price', header: 'Average Price' },
+  { key: 'current_price', header: 'Current Price' },
+  { key: 'market_value', header: 'Market Value' },
+  { key: 'cost_basis', header: 'Cost Basis' },
+  { key: 'gain_loss', header: 'Gain/Loss' },
+  { key: 'gain_loss_percent', header: 'Gain/Loss %' },
+  { key: 'day_change', header: 'Day Change' },
+  { key: 'day_change_percent', header: 'Day Change %' },
+  { key: 'current_score', header: 'Current Score' },
+  { key: 'purchase_score', header: 'Purchase Score' },
+  { key: 'realized_gain', header: 'Realized Gain' },
+  { key: 'dividend_income', header: 'Dividend Income' },
+  { key: 'purchased_at', header: 'Purchased At' },
+]
+
+const WATCHLIST_COLUMNS: ExportColumn[] = [
+  { key: 'symbol', header: 'Symbol' },
+  { key: 'name', header: 'Name' },
+  { key: 'sector', header: 'Sector' },
+  { key: 'current_price', header: 'Current Price' },
+  { key: 'change', header: 'Change' },
+  { key: 'change_percent', header: 'Change %' },
+  { key: 'score', header: 'Score' },
+  { key: 'timing_score', header: 'Timing Score' },
+  { key: 'target_price', header: 'Target Price' },
+  { key: 'alert_enabled', header: 'Alert Enabled' },
+  { key: 'buy_triggers', header: 'Buy Triggers' },
+  { key: 'notes', header: 'Notes' },
+  { key: 'added_at', header: 'Added At' },
+]
+
+export class ExportService {
+  /**
+   * Render enriched portfolio positions as a downloadable file
+   */
+  static exportPortfolio(positions: EnrichedPortfolioPosition[], format: ExportFormat): ExportFile {
+    const records = positions.map(position => ({
+      symbol: position.symbol,
+      name: position.name,
+      sector: position.stock?.sector || null,
+      quantity: position.quantity,
+      average_price: this.round(position.average_price),
+      current_price: this.round(position.currentPrice),
+      market_value: this.round(position.totalValue),
+      cost_basis: this.round(position.quantity * position.average_price),
+      gain_loss: this.round(position.gainLoss),
+      gain_loss_percent: this.round(position.gainLossPercent),
+      day_change: this.round(position.dayChange),
+      day_change_percent: this.round(position.dayChangePercent),
+      current_score: position.currentScore,
+      purchase_score: position.purchase_score,
+      realized_gain: this.round(position.realizedGain ?? 0),
+      dividend_income: this.round(position.dividendIncome ?? 0),
+      purchased_at: position.purchased_at,
+    }))
+
+    return this.render('portfolio', format, PORTFOLIO_COLUMNS, records)
+  }
+
+  /**
+   * Render enriched watchlist items as a downloadable file
+   */
+  static exportWatchlist(items: EnrichedWatchlistItem[], format: ExportFormat): ExportFile {
+    const records = items.map(item => ({
+      symbol: item.symbol,
+      name: item.name,
+      sector: item.stock?.sector || null,
+      current_price: this.round(item.currentPrice),
+      change: this.round(item.change),
+      change_percent: this.round(item.changePercent),
+      score: item.score,
+      timing_score: item.timingScore,
+      target_price: item.target_price,
+      alert_enabled: item.alert_enabled,
+      buy_triggers: item.buy_triggers,
+      notes: item.notes,
+      added_at: item.created_at,
+    }))
+
+    return this.render('watchlist', format, WATCHLIST_COLUMNS, records)
+  }
+
+  private static render(
+    type: ExportType,
+    format: ExportFormat,
+    columns: ExportColumn[],
+    records: Record<string, unknown>[]
+  ): ExportFile {
+
+    const exportedAt = new Date()
+    const filename = `stockbeacon-${type}-${exportedAt.toISOString().split('T')[0]}.${format}`
+
+    if (format === 'json') {
+      // JSON keeps nested values such as buy triggers as structured data
+      const body = JSON.stringify({
+        exportedAt: exportedAt.toISOString(),
+        type,
+        count: records.length,
+        data: records,
+      }, null, 2)
+      return { body, contentType: CONTENT_TYPES.json, filename }
+    }
+
+    const rows: ExportRow[] = records.map(record => {
+      const row: ExportRow = {}
+      for (const column of columns) {
+        const value = record[column.key]
+        row[column.key] = value !== null && typeof value === 'object'
+          ? JSON.stringify(value)
+          : value as ExportRow[string]
+      }
+      return row
+    })
+
+    // Copy the workbook out of Node's pooled buffer so it is a valid response body
+    const body = format === 'csv'
+      ? toCsv(columns, rows)
+      : new Uint8Array(toXlsx(type === 'portfolio' ? 'Portfolio' : 'Watchlist', columns, rows))
+
+    return { body, contentType: CONTENT_TYPES[format], filename }
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100
+  }
+}
@@ -0,0 +1,414 @@
+/**
+ * Intraday Alert Service
+ * Evaluates price-only alert rules as prices arrive during market hours, so
+ * a price target hit mid-session is reported within minutes instead of after
+ * the next scheduled check. Prices come from Alpaca snapshots (pollOnce/start)
+ * or the WebSocketService stock feed (attach).
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { AlpacaDataService } from './alpaca-data.service'
+import { StockDataService } from './stock-data.service'
+import { NotificationService } from './notification.service'
+import { AlertService } from './alert.service'
+import { AlertContext, AlertEvaluation, AlertRuleEngine, AlertRuleGroup, AlertRuleState } from './alert-rules'
+import { Database, Json } from '@/types/database'
+import type { RealtimeStockUpdate, WebSocketService } from '@/lib/websocket/websocket.service'
+
+type WatchlistRow = Database['public']['Tables']['watchlists']['Row']
+type AlertRow = Database['public']['Tables']['alerts']['Row']
+
+export interface PriceUpdate {
+  symbol: string
+  price: number
+  changePercent: number | null
+  name?: string
+}
+
+// A watchlist item or standalone alert whose rules are checked on every price
+interface IntradayTarget<T> {
+  row: T
+  rules: AlertRuleGroup
+  state: AlertRuleState | null
+  dirty: boolean // State changed since it was last saved
+}
+
+export interface IntradayRunResult {
+  marketOpen: boolean
+  symbols: number
+  updates: number
+  triggered: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const REFRESH_MS = 5 * 60 * 1000 // Reload alerts so new and edited ones are picked up
+const MARKET_STATUS_MS = 60 * 1000
+const DEFAULT_COOLDOWN_HOURS = 24
+const QUOTE_BATCH_SIZE = 100 // Alpaca snapshots per request
+const PAGE_SIZE = 1000
+
+export class IntradayAlertService {
+  private watchlistTargets: Map<string, IntradayTarget<WatchlistRow>[]> = new Map() // symbol -> targets
+  private alertTargets: Map<string, IntradayTarget<AlertRow>[]> = new Map() // symbol -> targets
+  private inFlight: Set<string> = new Set() // Targets with a notification being sent
+  private loadedAt = 0
+  private loading: Promise<void> | null = null
+  private marketOpen = false
+  private marketCheckedAt = 0
+  private timer: NodeJS.Timeout | null = null
+  private polling = false
+  private detach: (() => void) | null = null
+
+  /**
+   * Load the price-only watchlist triggers and standalone alerts. Rule state
+   * from earlier price updates is kept for targets that are still active.
+   */
+  async refresh(): Promise<void> {
+    const supabase = this.adminClient()
+
+    // Paged past the Supabase row limit
+    const watchlistItems: WatchlistRow[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('watchlists')
+        .select('*')
+        .eq('alert_enabled', true)
+        .not('buy_triggers', 'is', null)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching watchlist alerts for intraday checks:', error)
+        return
+      }
+
+      watchlistItems.push(...((data || []) as WatchlistRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const alerts = await AlertService.getActiveAlerts()
+
+    const watchlistTargets = new Map<string, IntradayTarget<WatchlistRow>[]>()
+    for (const row of watchlistItems) {
+      const triggers = AlertRuleEngine.fromBuyTriggers(row.buy_triggers, row.target_price)
+      if (!triggers.enabled || !AlertRuleEngine.isPriceOnly(triggers.rules)) continue
+      this.addTarget(watchlistTargets, this.watchlistTargets, row, triggers.rules)
+    }
+
+    const alertTargets = new Map<string, IntradayTarget<AlertRow>[]>()
+    for (const row of alerts) {
+      const rules = AlertService.readRules(row)
+      if (!rules || !AlertRuleEngine.isPriceOnly(rules)) continue
+      this.addTarget(alertTargets, this.alertTargets, row, rules)
+    }
+
+    this.watchlistTargets = watchlistTargets
+    this.alertTargets = alertTargets
+    this.loadedAt = Date.now()
+  }
+
+  /**
+   * Symbols with at least one price-only alert
+   */
+  getSymbols(): string[] {
+    return Array.from(new Set([...Array.from(this.watchlistTargets.keys()), ...Array.from(this.alertTargets.keys())]))
+  }
+
+  /**
+   * Evaluate a symbol's alerts against a new price. Returns how many triggered.
+   */
+  async handlePriceUpdate(update: PriceUpdate): Promise<number> {
+    const symbol = update.symbol.toUpperCase()
+    const watchlistTargets = this.watchlistTargets.get(symbol) || []
+    const alertTargets = this.alertTargets.get(symbol) || []
+    if ((watchlistTargets.length === 0 && alertTargets.length === 0) || !(update.price > 0)) return 0
+
+    const context = this.buildContext(update)
+    const name = update.name || symbol
+    let triggered = 0
+
+    for (const target of watchlistTargets) {
+      const evaluation = this.evaluate(target, context)
+      if (!evaluation.met || this.inFlight.has(target.row.id) || this.inWatchlistCooldown(target.row)) continue
+
+      this.inFlight.add(target.row.id)
+      try {
+        // The service-role client reads and records last_alert_sent, so the
+        // cooldown holds across runs
+        const sent = await NotificationService.sendWatchlistRuleAlert(target.row.user_id, {
+          alertId: target.row.id,
+          symbol,
+          name,
+          price: update.price,
+          conditions: evaluation.conditions,
+        }, this.adminClient())
+
+        // Sent, or held back by the stored cooldown: wait out the cooldown before trying again
+        target.row = { ...target.row, last_alert_sent: new Date().toISOString() }
+        if (sent) {
+          triggered++
+          console.log(`🎯 Intraday alert sent for ${symbol} at $${update.price.toFixed(2)}`)
+          await this.saveState('watchlists', target)
+        }
+      } catch (error) {
+        console.error(`Error sending intraday alert for ${symbol}:`, error)
+      } finally {
+        this.inFlight.delete(target.row.id)
+      }
+    }
+
+    for (const target of alertTargets) {
+      const previous = target.state
+      const evaluation = this.evaluate(target, context)
+      if (!evaluation.met || this.inFlight.has(target.row.id) || !this.canTrigger(target.row)) continue
+
+      this.inFlight.add(target.row.id)
+      try {
+        // Evaluated again by the alert service, which records and notifies
+        const result = await AlertService.evaluateAlerts(
+          [{ ...target.row, trigger_state: previous as unknown as Json }],
+          context,
+          { symbol, name }
+        )
+
+        if (result.triggered > 0) {
+          triggered++
+          const now = new Date().toISOString()
+          target.row = { ...target.row, triggered: true, triggered_at: now, trigger_count: target.row.trigger_count + 1 }
+          target.dirty = false
+          if (!target.row.recurring) {
+            this.alertTargets.set(symbol, (this.alertTargets.get(symbol) || []).filter(t => t !== target))
+          }
+        }
+      } finally {
+        this.inFlight.delete(target.row.id)
+      }
+    }
+
+    return triggered
+  }
+
+  /**
+   * Fetch the latest prices for every symbol with an alert and evaluate them.
+   * Does nothing while the market is closed.
+   */
+  async pollOnce(): Promise<IntradayRunResult> {
+    const result: IntradayRunResult = { marketOpen: await this.isMarketOpen(), symbols: 0, updates: 0, triggered: 0 }
+    if (!result.marketOpen) return result
+
+    if (!AlpacaDataService.isConfigured()) {
+      console.warn('Alpaca is not configured, intraday alert polling skipped')
+      return result
+    }
+
+    await this.ensureLoaded()
+
+    const symbols = this.getSymbols()
+    result.symbols = symbols.length
+
+    for (let i = 0; i < symbols.length; i += QUOTE_BATCH_SIZE) {
+      const quotes = await AlpacaDataService.getBulkQuotes(symbols.slice(i, i + QUOTE_BATCH_SIZE))
+      for (const quote of Array.from(quotes.values())) {
+        result.updates++
+        result.triggered += await this.handlePriceUpdate({
+          symbol: quote.symbol,
+          price: quote.price,
+          changePercent: quote.changePercent ?? null,
+        })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Poll on an interval, for a long-running process
+   */
+  start(intervalMs: number = 60 * 1000): void {
+    if (this.timer) return
+
+    const tick = async () => {
+      if (this.polling) return
+      this.polling = true
+      try {
+        const result = await this.pollOnce()
+        if (result.marketOpen) await this.flushState()
+        if (result.triggered > 0) {
+          console.log(`Intraday alerts: ${result.triggered} triggered across ${result.symbols} symbols`)
+        }
+      } catch (error) {
+        console.error('Intraday alert poll error:', error)
+      } finally {
+        this.polling = false
+      }
+    }
+
+    this.timer = setInterval(tick, intervalMs)
+    tick()
+  }
+
+  /**
+   * Evaluate alerts on every update the WebSocketService broadcasts
+   */
+  attach(websocket: WebSocketService): void {
+    this.detach?.()
+    this.detach = websocket.onStockUpdate((update: RealtimeStockUpdate) => {
+      this.handleStreamUpdate(update).catch(error => {
+        console.error(`Intraday alert error for ${update.symbol}:`, error)
+      })
+    })
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.detach?.()
+    this.detach = null
+  }
+
+  /**
+   * Save the rule state of targets evaluated since the last save, so
+   * crossings carry over to the next run and the scheduled checks
+   */
+  async flushState(): Promise<void> {
+    for (const targets of Array.from(this.watchlistTargets.values())) {
+      for (const target of targets.filter(t => t.dirty)) {
+        await this.saveState('watchlists', target)
+      }
+    }
+    for (const targets of Array.from(this.alertTargets.values())) {
+      for (const target of targets.filter(t => t.dirty)) {
+        await this.saveState('alerts', target)
+      }
+    }
+  }
+
+  private async handleStreamUpdate(update: RealtimeStockUpdate): Promise<void> {
+    if (!(await this.isMarketOpen())) return
+    await this.ensureLoaded()
+    await this.handlePriceUpdate({
+      symbol: update.symbol,
+      price: update.price,
+      changePercent: update.changePercent,
+    })
+  }
+
+  /**
+   * Save state and reload alerts once they are older than the refresh interval.
+   * Concurrent callers share one reload.
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt <= REFRESH_MS) return
+    if (!this.loading) {
+      this.loading = this.flushState()
+        .then(() => this.refresh())
+        .finally(() => { this.loading = null })
+    }
+    await this.loading
+  }
+
+  private addTarget<T extends { id: string, symbol: string, trigger_state: Json | null }>(
+    targets: Map<string, IntradayTarget<T>[]>,
+    existing: Map<string, IntradayTarget<T>[]>,
+    row: T,
+    rules: AlertRuleGroup
+  ): void {
+    const known = (existing.get(row.symbol) || []).find(target => target.row.id === row.id)
+    const target: IntradayTarget<T> = {
+      row,
+      rules,
+      state: known?.state ?? (row.trigger_state as unknown as AlertRuleState | null),
+      dirty: known?.dirty ?? false,
+    }
+
+    if (!targets.has(row.symbol)) {
+      targets.set(row.symbol, [])
+    }
+    targets.get(row.symbol)!.push(target)
+  }
+
+  /**
+   * Evaluate a target and move its state on. Moving averages, valuation and
+   * red flags aren't in a price update, so those are kept from the last full check.
+   */
+  private evaluate<T>(target: IntradayTarget<T>, context: AlertContext): AlertEvaluation {
+    const previous = target.state
+    const evaluation = AlertRuleEngine.evaluate(target.rules, context, previous)
+    target.state = {
+      ...AlertRuleEngine.buildState(context, evaluation),
+      sma: previous?.sma ?? context.sma,
+      valuationLevel: previous?.valuationLevel ?? null,
+      redFlags: previous?.redFlags ?? null,
+    }
+    target.dirty = true
+    return evaluation
+  }
+
+  private buildContext(update: PriceUpdate): AlertContext {
+    return {
+      price: update.price,
+      changePercent: update.changePercent,
+      rsi: null,
+      sma: { 20: null, 50: null, 150: null, 200: null },
+      valuationLevel: null,
+      redFlags: null,
+      earningsDate: null,
+      score: null,
+      timingScore: null,
+    }
+  }
+
+  private inWatchlistCooldown(row: WatchlistRow): boolean {
+    if (!row.last_alert_sent) return false
+    const cooldownHours = row.alert_cooldown_hours || DEFAULT_COOLDOWN_HOURS
+    return Date.now() - new Date(row.last_alert_sent).getTime() < cooldownHours * HOUR_MS
+  }
+
+  /**
+   * Snoozed, cooling down and already triggered one-shot alerts are left to
+   * the scheduled check, which records them in the evaluation audit
+   */
+  private canTrigger(row: AlertRow): boolean {
+    const now = Date.now()
+    if (row.snoozed_until && new Date(row.snoozed_until).getTime() > now) return false
+    if (!row.recurring) return !row.triggered
+    return !row.triggered_at || now - new Date(row.triggered_at).getTime() >= row.cooldown_hours * HOUR_MS
+  }
+
+  private async isMarketOpen(): Promise<boolean> {
+    if (Date.now() - this.marketCheckedAt > MARKET_STATUS_MS) {
+      this.marketOpen = await StockDataService.isMarketOpen()
+      this.marketCheckedAt = Date.now()
+    }
+    return this.marketOpen
+  }
+
+  private async saveState<T extends { id: string }>(table: 'watchlists' | 'alerts', target: IntradayTarget<T>): Promise<void> {
+    try {
+      const { error } = await (this.adminClient()
+        .from(table) as any)
+        .update({ trigger_state: target.state as unknown as Json })
+        .eq('id', target.row.id)
+
+      if (error) {
+        console.error(`Error saving intraday trigger state for ${target.row.id}:`, error)
+        return
+      }
+      target.dirty = false
+    } catch (error) {
+      console.error(`Error saving intraday trigger state for ${target.row.id}:`, error)
+    }
+  }
+
+  private adminClient(): SupabaseClient<Database> {
+    return createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+  }
+}
+
+// Export singleton instance
+export const intradayAlertService = new IntradayAlertService()
@@ -0,0 +1,111 @@
+/**
+ * Market Data Fixtures
+ * File-backed store of recorded vendor responses, so runs can be replayed
+ * without network access. Controlled by MARKET_DATA_MODE:
+ *   live   - call vendors as normal (default)
+ *   record - call vendors and save every successful response
+ *   replay - serve saved responses only; never touch the network
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { HistoricalRequest } from './types/market-data-types'
+
+export type MarketDataMode = 'live' | 'record' | 'replay'
+
+export type FixtureKind =
+  | 'quote'
+  | 'historical'
+  | 'financials'
+  | 'statements'
+  | 'news'
+  | 'moat'
+  | 'cik'
+  | 'quote-summary'
+  | 'trending'
+  | 'search'
+
+// Full ISO timestamps are turned back into Dates on read. Plain YYYY-MM-DD
+// strings (e.g. statement periods) are left alone.
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+export class MarketDataFixtures {
+  static getMode(): MarketDataMode {
+    const mode = process.env.MARKET_DATA_MODE
+    return mode === 'record' || mode === 'replay' ? mode : 'live'
+  }
+
+  static getDirectory(): string {
+    return process.env.MARKET_DATA_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'market-data')
+  }
+
+  /**
+   * A saved response, or null if nothing was recorded for this key
+   */
+  static async read<T>(kind: FixtureKind, key: string): Promise<T | null> {
+    try {
+      const contents = await fs.readFile(this.filePath(kind, key), 'utf8')
+      return JSON.parse(contents, (_, value) =>
+        typeof value === 'string' && ISO_TIMESTAMP.test(value) ? new Date(value) : value
+      ) as T
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.error(`[Fixtures] Failed to read ${kind}/${key}:`, error)
+      }
+      return null
+    }
+  }
+
+  static async write(kind: FixtureKind, key: string, data: unknown): Promise<void> {
+    try {
+      const file = this.filePath(kind, key)
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.writeFile(file, JSON.stringify(data, null, 2) + '\n', 'utf8')
+    } catch (error) {
+      // Recording is best effort; the live response is still returned
+      console.error(`[Fixtures] Failed to record ${kind}/${key}:`, error)
+    }
+  }
+
+  /**
+   * Wrap a vendor call so it is recorded or replayed according to the mode.
+   * Replaying a key that was never recorded throws, so gaps in the fixtures
+   * show up instead of silently falling through to the network.
+   */
+  static async through<T>(kind: FixtureKind, key: string, fetch: () => Promise<T>): Promise<T> {
+    const mode = this.getMode()
+
+    if (mode === 'replay') {
+      const recorded = await this.read<T>(kind, key)
+      if (recorded === null) {
+        throw new Error(`No recorded ${kind} fixture for ${key}`)
+      }
+      return recorded
+    }
+
+    const data = await fetch()
+    if (mode === 'record' && data !== null && data !== undefined && !(Array.isArray(data) && data.length === 0)) {
+      await this.write(kind, key, data)
+    }
+    return data
+  }
+
+  /**
+   * Fixture key for a price history request. Period requests are keyed by
+   * period rather than dates so they replay the same bars on any day.
+   */
+  static historicalKey(symbol: string, request: HistoricalRequest): string {
+    const interval = request.interval || '1d'
+    if (request.period) {
+      return `${symbol}.${request.period}.${interval}`
+    }
+    const start = request.startDate!.toISOString().split('T')[0]
+    const end = request.endDate!.toISOString().split('T')[0]
+    return `${symbol}.${start}.${end}.${interval}`
+  }
+
+  private static filePath(kind: FixtureKind, key: string): string {
+    const safeKey = key.toUpperCase().replace(/[^A-Z0-9._-]/g, '_')
+    return path.join(this.getDirectory(), kind, `${safeKey}.json`)
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Market Data Service
+ * Single entry point for quotes, price history and fundamentals, with
+ * priority-ordered providers, health tracking and automatic failover
+ */
+
+import {
+  StockQuote,
+  StockFinancials,
+  StockHistorical,
+  FinancialStatements,
+} from '@/types/stock'
+import { MarketDataRegistry } from './registry'
+import { FixtureKind, MarketDataFixtures } from './fixtures'
+import {
+  HistoricalInterval,
+  HistoricalPeriod,
+  HistoricalRequest,
+  ProviderHealth,
+  ProviderResult,
+} from './types/market-data-types'
+import { SECEdgarProvider } from './providers/sec-edgar-provider'
+import { YahooFinanceProvider } from './providers/yahoo-provider'
+import { AlpacaProvider } from './providers/alpaca-provider'
+import { FinancialModelingPrepProvider } from './providers/fmp-provider'
+import { SyntheticProvider } from './providers/synthetic-provider'
+import { ReplayProvider } from './providers/replay-provider'
+
+export * from './types/market-data-types'
+export { MarketDataRegistry } from './registry'
+export { MarketDataFixtures } from './fixtures'
+export type { MarketDataMode, FixtureKind } from './fixtures'
+
+export class MarketDataService {
+  private static registry: MarketDataRegistry | null = null
+
+  /**
+   * The registry used by every request, built from the default providers on
+   * first use. Replay mode uses recorded fixtures only.
+   */
+  static getRegistry(): MarketDataRegistry {
+    if (!this.registry && MarketDataFixtures.getMode() === 'replay') {
+      this.registry = new MarketDataRegistry().register(new ReplayProvider())
+    }
+    if (!this.registry) {
+      this.registry = new MarketDataRegistry()
+        .register(new SECEdgarProvider())
+        .register(new YahooFinanceProvider())
+        .register(new AlpacaProvider())
+        .register(new FinancialModelingPrepProvider())
+        .register(new SyntheticProvider())
+    }
+    return this.registry
+  }
+
+  /**
+   * Replace the registry, e.g. to run against a different set of providers
+   */
+  static setRegistry(registry: MarketDataRegistry | null) {
+    this.registry = registry
+  }
+
+  static async getQuote(symbol: string): Promise<StockQuote | null> {
+    const result = await this.getRegistry().execute(
+      'quote',
+      symbol,
+      provider => provider.getQuote!(symbol),
+      { isEmpty: quote => !quote.price }
+    )
+    await this.record('quote', symbol, result)
+    return result ? { ...result.data, provenance: result.provenance } : null
+  }
+
+  static async getQuotes(symbols: string[]): Promise<Map<string, StockQuote>> {
+    const results = await this.getRegistry().executeBatch(
+      'quotes',
+      symbols,
+      async (provider, remaining) => {
+        const quotes = await provider.getQuotes!(remaining)
+        // A zero price means the provider had nothing for that symbol
+        return new Map(Array.from(quotes).filter(([, quote]) => quote.price > 0))
+      },
+      remaining => remaining.length
+    )
+
+    const quotes = new Map<string, StockQuote>()
+    for (const [symbol, result] of results) {
+      await this.record('quote', symbol, result)
+      quotes.set(symbol, { ...result.data, provenance: result.provenance })
+    }
+    return quotes
+  }
+
+  /**
+   * Price history with the provider it came from
+   */
+  static async getHistorical(
+    symbol: string,
+    request: HistoricalRequest
+  ): Promise<ProviderResult<StockHistorical[]> | null> {
+
+    const resolved = this.resolveRequest(request)
+
+    const result = await this.getRegistry().execute(
+      'historical',
+      symbol,
+      provider => provider.getHistorical!(symbol, resolved),
+      {
+        isEmpty: bars => bars.length === 0,
+        accepts: provider => (provider.historicalIntervals || ['1d']).includes(resolved.interval!),
+      }
+    )
+    await this.record('historical', MarketDataFixtures.historicalKey(symbol, resolved), result)
+    return result
+  }
+
+  static async getHistoricalData(
+    symbol: string,
+    period: HistoricalPeriod = '3mo'
+  ): Promise<StockHistorical[]> {
+    return (await this.getHistorical(symbol, { period }))?.data || []
+  }
+
+  static async getHistoricalDataByDateRange(
+    symbol: string,
+    startDate: Date,
+    endDate: Date,
+    interval: HistoricalInterval = '1d'
+  ): Promise<StockHistorical[]> {
+    return (await this.getHistorical(symbol, { startDate, endDate, interval }))?.data || []
+  }
+
+  static async getFinancials(symbol: string): Promise<StockFinancials | null> {
+    const result = await this.getRegistry().execute(
+      'financials',
+      symbol,
+      provider => provider.getFinancials!(symbol)
+    )
+    await this.record('financials', symbol, result)
+    return result?.data || null
+  }
+
+  static async getFinancialStatements(symbol: string): Promise<FinancialStatements | null> {
+    const result = await this.getRegistry().execute(
+      'statements',
+      symbol,
+      provider => provider.getFinancialStatements!(symbol),
+      { isEmpty: statements => statements.incomeStatements.annual.length === 0 && statements.incomeStatements.quarterly.length === 0 }
+    )
+    await this.record('statements', symbol, result)
+    return result?.data || null
+  }
+
+  static getHealth(): Promise<ProviderHealth[]> {
+    return this.getRegistry().getHealth()
+  }
+
+  /**
+   * Save a vendor response when running in record mode. Synthetic data is
+   * never recorded, so replays only ever contain real responses.
+   */
+  private static async record<T>(kind: FixtureKind, key: string, result: ProviderResult<T> | null) {
+    if (result && !result.provenance.synthetic && MarketDataFixtures.getMode() === 'record') {
+      await MarketDataFixtures.write(kind, key, result.data)
+    }
+  }
+
+  /**
+   * Fill in dates and interval so every provider sees a complete request
+   */
+  private static resolveRequest(request: HistoricalRequest): HistoricalRequest {
+    if (request.startDate && request.endDate) {
+      return { ...request, period: undefined, interval: request.interval || '1d' }
+    }
+
+    const period = request.period || '3mo'
+    const endDate = new Date()
+    const startDate = new Date()
+
+    switch (period) {
+      case '1d': startDate.setDate(endDate.getDate() - 1); break
+      case '5d': startDate.setDate(endDate.getDate() - 5); break
+      case '1mo': startDate.setMonth(endDate.getMonth() - 1); break
+      case '3mo': startDate.setMonth(endDate.getMonth() - 3); break
+      case '6mo': startDate.setMonth(endDate.getMonth() - 6); break
+      case '1y': startDate.setFullYear(endDate.getFullYear() - 1); break
+      case '2y': startDate.setFullYear(endDate.getFullYear() - 2); break
+      case '5y': startDate.setFullYear(endDate.getFullYear() - 5); break
+    }
+
+    return {
+      period,
+      startDate,
+      endDate,
+      // Matches the intraday bars Yahoo returns for short periods
+      interval: period === '1d' || period === '5d' ? '5m' : '1d',
+    }
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Alpaca provider - prices only, needs API credentials
+ */
+
+import { StockQuote } from '@/types/stock'
+import { AlpacaDataService } from '../../alpaca-data.service'
+import {
+  HistoricalInterval,
+  HistoricalRequest,
+  MarketDataCapability,
+  MarketDataProvider,
+} from '../types/market-data-types'
+
+// Alpaca's snapshot endpoint takes at most this many symbols
+const MAX_BULK_SYMBOLS = 100
+
+export class AlpacaProvider implements MarketDataProvider {
+  readonly name = 'alpaca'
+  readonly priority = 20
+  readonly synthetic = false
+  // No fundamentals: Alpaca's financials are placeholder defaults
+  readonly capabilities: MarketDataCapability[] = ['quote', 'quotes', 'historical']
+  readonly rateBudget = { requests: 200, windowMs: 60 * 1000 }
+  readonly historicalIntervals: HistoricalInterval[] = ['1d']
+
+  isConfigured() {
+    return AlpacaDataService.isConfigured()
+  }
+
+  getQuote(symbol: string) {
+    return AlpacaDataService.getQuote(symbol)
+  }
+
+  async getQuotes(symbols: string[]) {
+    const quotes = new Map<string, StockQuote>()
+    for (let i = 0; i < symbols.length; i += MAX_BULK_SYMBOLS) {
+      const batch = await AlpacaDataService.getBulkQuotes(symbols.slice(i, i + MAX_BULK_SYMBOLS))
+      batch.forEach((quote, symbol) => quotes.set(symbol, quote))
+    }
+    return quotes
+  }
+
+  getHistorical(symbol: string, request: HistoricalRequest) {
+    return AlpacaDataService.getHistoricalDataByDateRange(symbol, request.startDate!, request.endDate!)
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Financial Modeling Prep provider - statements, needs keys in the key pool
+ */
+
+import { FinancialModelingPrepService } from '../../financial-modeling-prep.service'
+import { MarketDataCapability, MarketDataProvider } from '../types/market-data-types'
+
+export class FinancialModelingPrepProvider implements MarketDataProvider {
+  readonly name = 'fmp'
+  readonly priority = 30
+  readonly synthetic = false
+  readonly capabilities: MarketDataCapability[] = ['statements']
+  // Key rotation is handled by FMPKeyManagerService; this caps total usage
+  readonly rateBudget = { requests: 250, windowMs: 24 * 60 * 60 * 1000 }
+
+  isConfigured() {
+    return FinancialModelingPrepService.isConfigured()
+  }
+
+  getFinancialStatements(symbol: string) {
+    return FinancialModelingPrepService.getFinancialStatements(symbol)
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Replay provider - serves responses saved by a MARKET_DATA_MODE=record run.
+ * Used on its own in replay mode, so nothing reaches the network.
+ */
+
+import {
+  StockQuote,
+  StockFinancials,
+  StockHistorical,
+  FinancialStatements,
+} from '@/types/stock'
+import { MarketDataFixtures } from '../fixtures'
+import {
+  HistoricalInterval,
+  HistoricalRequest,
+  MarketDataCapability,
+  MarketDataProvider,
+} from '../types/market-data-types'
+
+export class ReplayProvider implements MarketDataProvider {
+  readonly name = 'replay'
+  readonly priority = 0
+  readonly synthetic = false
+  readonly capabilities: MarketDataCapability[] = ['quote', 'quotes', 'historical', 'financials', 'statements']
+  readonly rateBudget = null
+  readonly historicalIntervals: HistoricalInterval[] = ['1m', '5m', '15m', '30m', '1h', '1d']
+
+  isConfigured() {
+    return true
+  }
+
+  getQuote(symbol: string) {
+    return MarketDataFixtures.read<StockQuote>('quote', symbol)
+  }
+
+  async getQuotes(symbols: string[]) {
+    const quotes = new Map<string, StockQuote>()
+    for (const symbol of symbols) {
+      const quote = await MarketDataFixtures.read<StockQuote>('quote', symbol)
+      if (quote) {
+        quotes.set(symbol, quote)
+      }
+    }
+    return quotes
+  }
+
+  async getHistorical(symbol: string, request: HistoricalRequest) {
+    const key = MarketDataFixtures.historicalKey(symbol, request)
+    return (await MarketDataFixtures.read<StockHistorical[]>('historical', key)) || []
+  }
+
+  getFinancials(symbol: string) {
+    return MarketDataFixtures.read<StockFinancials>('financials', symbol)
+  }
+
+  getFinancialStatements(symbol: string) {
+    return MarketDataFixtures.read<FinancialStatements>('statements', symbol)
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * SEC EDGAR provider - audited financial statements straight from filings
+ */
+
+import { SECEdgarService } from '../../sec-edgar.service'
+import { MarketDataCapability, MarketDataProvider } from '../types/market-data-types'
+
+export class SECEdgarProvider implements MarketDataProvider {
+  readonly name = 'sec-edgar'
+  // Ahead of Yahoo so statements come from the primary source when possible
+  readonly priority = 5
+  readonly synthetic = false
+  readonly capabilities: MarketDataCapability[] = ['statements']
+  // SEC fair access policy allows 10 requests per second
+  readonly rateBudget = { requests: 10, windowMs: 1000 }
+
+  isConfigured() {
+    return true
+  }
+
+  getFinancialStatements(symbol: string) {
+    return SECEdgarService.getFinancialStatements(symbol)
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Yahoo Finance provider - full coverage, no API key, informal rate limits
+ */
+
+import { YahooFinanceService } from '../../yahoo-finance.service'
+import {
+  HistoricalInterval,
+  HistoricalRequest,
+  MarketDataCapability,
+  MarketDataProvider,
+} from '../types/market-data-types'
+
+export class YahooFinanceProvider implements MarketDataProvider {
+  readonly name = 'yahoo'
+  readonly priority = 10
+  readonly synthetic = false
+  readonly capabilities: MarketDataCapability[] = ['quote', 'quotes', 'historical', 'financials', 'statements']
+  // Each quote is several upstream calls, so the budget is counted per symbol
+  readonly rateBudget = { requests: 600, windowMs: 60 * 1000 }
+  readonly historicalIntervals: HistoricalInterval[] = ['1m', '5m', '15m', '30m', '1h', '1d']
+
+  isConfigured() {
+    return true
+  }
+
+  getQuote(symbol: string) {
+    return YahooFinanceService.getQuote(symbol)
+  }
+
+  getQuotes(symbols: string[]) {
+    return YahooFinanceService.getQuotes(symbols)
+  }
+
+  getHistorical(symbol: string, request: HistoricalRequest) {
+    // Period requests pick their own intraday interval for short periods
+    if (request.period) {
+      return YahooFinanceService.getHistoricalData(symbol, request.period)
+    }
+    return YahooFinanceService.getHistoricalDataByDateRange(
+      symbol,
+      request.startDate!,
+      request.endDate!,
+      request.interval
+    )
+  }
+
+  getFinancials(symbol: string) {
+    return YahooFinanceService.getFinancials(symbol)
+  }
+
+  getFinancialStatements(symbol: string) {
+    return YahooFinanceService.getFinancialStatements(symbol)
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Market Data Registry
+ * Runs requests against providers in priority order, skipping any that are
+ * unconfigured, over their rate budget, or cooling down after repeated failures
+ */
+
+import {
+  MarketDataCapability,
+  MarketDataProvider,
+  ProviderHealth,
+  ProviderResult,
+} from './types/market-data-types'
+
+interface HealthState {
+  successes: number
+  failures: number
+  consecutiveFailures: number
+  trips: number
+  lastSuccessAt: Date | null
+  lastFailureAt: Date | null
+  lastError: string | null
+  cooldownUntil: number
+  windowStart: number
+  used: number
+}
+
+// Consecutive failures before a provider is taken out of rotation
+const FAILURE_THRESHOLD = 5
+const BASE_COOLDOWN_MS = 30 * 1000
+const MAX_COOLDOWN_MS = 10 * 60 * 1000
+
+export class MarketDataRegistry {
+  private providers: MarketDataProvider[] = []
+  private state = new Map<string, HealthState>()
+
+  register(provider: MarketDataProvider): this {
+    this.providers = [...this.providers.filter(p => p.name !== provider.name), provider]
+      .sort((a, b) => a.priority - b.priority)
+    this.state.set(provider.name, {
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      trips: 0,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      cooldownUntil: 0,
+      windowStart: Date.now(),
+      used: 0,
+    })
+    return this
+  }
+
+  getProviders(capability?: MarketDataCapability): MarketDataProvider[] {
+    return capability
+      ? this.providers.filter(p => p.capabilities.includes(capability))
+      : [...this.providers]
+  }
+
+  /**
+   * Run a single-result request, failing over until a provider returns data
+   */
+  async execute<T>(
+    capability: MarketDataCapability,
+    label: string,
+    call: (provider: MarketDataProvider) => Promise<T | null>,
+    options: {
+      cost?: number
+      isEmpty?: (data: T) => boolean
+      accepts?: (provider: MarketDataProvider) => boolean
+    } = {}
+  ): Promise<ProviderResult<T> | null> {
+
+    const passedOver: string[] = []
+
+    for (const provider of this.getProviders(capability)) {
+      if (options.accepts && !options.accepts(provider)) continue
+      if (!(await this.isReady(provider, options.cost ?? 1))) {
+        passedOver.push(provider.name)
+        continue
+      }
+
+      try {
+        const data = await call(provider)
+        if (data === null || data === undefined || options.isEmpty?.(data)) {
+          // A provider without this symbol is healthy, so only thrown errors count against it
+          console.warn(`[MarketData] ${provider.name} ${capability} returned no data for ${label}`)
+          passedOver.push(provider.name)
+          continue
+        }
+
+        this.recordSuccess(provider)
+        return { data, provenance: this.provenance(provider, passedOver) }
+      } catch (error) {
+        this.recordFailure(provider, error)
+        console.warn(`[MarketData] ${provider.name} ${capability} failed for ${label}:`, error instanceof Error ? error.message : error)
+        passedOver.push(provider.name)
+      }
+    }
+
+    console.error(`[MarketData] No provider could serve ${capability} for ${label}`)
+    return null
+  }
+
+  /**
+   * Run a keyed batch request. Keys a provider does not return are retried
+   * on the next provider.
+   */
+  async executeBatch<T>(
+    capability: MarketDataCapability,
+    keys: string[],
+    call: (provider: MarketDataProvider, keys: string[]) => Promise<Map<string, T>>,
+    cost: (keys: string[]) => number = () => 1
+  ): Promise<Map<string, ProviderResult<T>>> {
+
+    const results = new Map<string, ProviderResult<T>>()
+    const passedOver: string[] = []
+    let remaining = [...keys]
+
+    for (const provider of this.getProviders(capability)) {
+      if (remaining.length === 0) break
+      if (!(await this.isReady(provider, cost(remaining)))) {
+        passedOver.push(provider.name)
+        continue
+      }
+
+      try {
+        const batch = await call(provider, remaining)
+        if (batch.size === 0) {
+          // Not a failure: the provider just has none of these symbols
+          console.warn(`[MarketData] ${provider.name} ${capability} returned no data for ${remaining.length} symbols`)
+        } else {
+          this.recordSuccess(provider)
+          const provenance = this.provenance(provider, passedOver)
+          for (const [key, data] of batch) {
+            results.set(key, { data, provenance })
+          }
+          remaining = remaining.filter(key => !batch.has(key))
+        }
+      } catch (error) {
+        this.recordFailure(provider, error)
+        console.warn(`[MarketData] ${provider.name} ${capability} failed for ${remaining.length} symbols:`, error instanceof Error ? error.message : error)
+      }
+      passedOver.push(provider.name)
+    }
+
+    if (remaining.length > 0) {
+      console.warn(`[MarketData] No provider could serve ${capability} for: ${remaining.join(', ')}`)
+    }
+
+    return results
+  }
+
+  async getHealth(): Promise<ProviderHealth[]> {
+    const now = Date.now()
+
+    return Promise.all(this.providers.map(async provider => {
+      const state = this.state.get(provider.name)!
+      const budget = provider.rateBudget
+      const windowExpired = budget ? now - state.windowStart >= budget.windowMs : false
+
+      return {
+        name: provider.name,
+        priority: provider.priority,
+        synthetic: provider.synthetic,
+        capabilities: provider.capabilities,
+        configured: await provider.isConfigured(),
+        available: state.cooldownUntil <= now,
+        successes: state.successes,
+        failures: state.failures,
+        consecutiveFailures: state.consecutiveFailures,
+        lastSuccessAt: state.lastSuccessAt,
+        lastFailureAt: state.lastFailureAt,
+        lastError: state.lastError,
+        cooldownUntil: state.cooldownUntil > now ? new Date(state.cooldownUntil) : null,
+        budget: budget
+          ? {
+              limit: budget.requests,
+              used: windowExpired ? 0 : state.used,
+              windowMs: budget.windowMs,
+              resetsAt: new Date((windowExpired ? now : state.windowStart) + budget.windowMs),
+            }
+          : null,
+      }
+    }))
+  }
+
+  /**
+   * Configured, not cooling down, and able to spend `cost` from its budget
+   */
+  private async isReady(provider: MarketDataProvider, cost: number): Promise<boolean> {
+    const state = this.state.get(provider.name)!
+    const now = Date.now()
+
+    if (state.cooldownUntil > now) return false
+    if (!(await provider.isConfigured())) return false
+
+    const budget = provider.rateBudget
+    if (budget) {
+      if (now - state.windowStart >= budget.windowMs) {
+        state.windowStart = now
+        state.used = 0
+      }
+      if (state.used + cost > budget.requests) {
+        console.warn(`[MarketData] ${provider.name} rate budget exhausted (${state.used}/${budget.requests})`)
+        return false
+      }
+      state.used += cost
+    }
+
+    return true
+  }
+
+  private recordSuccess(provider: MarketDataProvider) {
+    const state = this.state.get(provider.name)!
+    state.successes++
+    state.consecutiveFailures = 0
+    state.trips = 0
+    state.lastSuccessAt = new Date()
+  }
+
+  private recordFailure(provider: MarketDataProvider, error: unknown) {
+    const state = this.state.get(provider.name)!
+    state.failures++
+    state.consecutiveFailures++
+    state.lastFailureAt = new Date()
+    state.lastError = error instanceof Error ? error.message : String(error)
+
+    if (state.consecutiveFailures >= FAILURE_THRESHOLD) {
+      // Back off longer each time the provider trips without recovering
+      const cooldown = Math.min(BASE_COOLDOWN_MS * Math.pow(2, state.trips), MAX_COOLDOWN_MS)
+      state.trips++
+      state.consecutiveFailures = 0
+      state.cooldownUntil = Date.now() + cooldown
+      console.warn(`[MarketData] ${provider.name} taken out of rotation for ${cooldown / 1000}s`)
+    }
+  }
+
+  private provenance(provider: MarketDataProvider, passedOver: string[]) {
+    return {
+      provider: provider.name,
+      synthetic: provider.synthetic,
+      fallback: passedOver.length > 0,
+      attempted: [...passedOver],
+      fetchedAt: new Date(),
+    }
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Market Data Provider Types
+ * Shared contract for every quote, price history and fundamentals vendor
+ */
+
+import {
+  StockQuote,
+  StockFinancials,
+  StockHistorical,
+  FinancialStatements,
+  DataProvenance,
+} from '@/types/stock'
+
+export type MarketDataCapability = 'quote' | 'quotes' | 'historical' | 'financials' | 'statements'
+
+export type HistoricalPeriod = '1d' | '5d' | '1mo' | '3mo' | '6mo' | '1y' | '2y' | '5y'
+
+export type HistoricalInterval = '1m' | '5m' | '15m' | '30m' | '1h' | '1d'
+
+export interface HistoricalRequest {
+  period?: HistoricalPeriod // Used when no explicit dates are given
+  startDate?: Date
+  endDate?: Date
+  interval?: HistoricalInterval
+}
+
+// Requests allowed per window. Counted per server instance.
+export interface RateBudget {
+  requests: number
+  windowMs: number
+}
+
+export interface MarketDataProvider {
+  readonly name: string
+  readonly priority: number // Lower runs first
+  readonly synthetic: boolean
+  readonly capabilities: MarketDataCapability[]
+  readonly rateBudget: RateBudget | null
+  readonly historicalIntervals?: HistoricalInterval[] // Defaults to daily only
+
+  isConfigured(): boolean | Promise<boolean>
+
+  // Methods return null (or an empty collection) when they have no data
+  getQuote?(symbol: string): Promise<StockQuote | null>
+  getQuotes?(symbols: string[]): Promise<Map<string, StockQuote>>
+  getHistorical?(symbol: string, request: HistoricalRequest): Promise<StockHistorical[]>
+  getFinancials?(symbol: string): Promise<StockFinancials | null>
+  getFinancialStatements?(symbol: string): Promise<FinancialStatements | null>
+}
+
+export interface ProviderHealth {
+  name: string
+  priority: number
+  synthetic: boolean
+  capabilities: MarketDataCapability[]
+  configured: boolean
+  available: boolean // False while the circuit breaker is open
+  successes: number
+  failures: number
+  consecutiveFailures: number
+  lastSuccessAt: Date | null
+  lastFailureAt: Date | null
+  lastError: string | null
+  cooldownUntil: Date | null
+  budget: {
+    limit: number
+    used: number
+    windowMs: number
+    resetsAt: Date
+  } | null
+}
+
+export interface ProviderResult<T> {
+  data: T
+  provenance: DataProvenance
+}
@@ -0,0 +1,125 @@
+/**
+ * Moat Analyzer
+ * Runs moat analysis through the configured providers in order, falling
+ * back to the rule-based analyzer so there is always an answer.
+ *
+ * MOAT_ANALYSIS_PROVIDERS is a comma-separated list of:
+ *   xai, openai, anthropic, local (Ollama, llama.cpp or any OpenAI-compatible server), rule-based
+ */
+
+import { MoatPromptTemplate, MoatAnalysisProvider, MoatAssessment, CompanyData } from './types/moat-analysis-types'
+import { COMPACT_MOAT_PROMPT, DETAILED_MOAT_PROMPT, MOAT_PROMPT_TEMPLATES } from './prompts'
+import { OpenAICompatibleProvider } from './providers/openai-compatible-provider'
+import { AnthropicProvider } from './providers/anthropic-provider'
+import { RuleBasedProvider } from './providers/rule-based-provider'
+
+export * from './types/moat-analysis-types'
+export * from './prompts'
+export { MoatSchemaError, parseMoatResponse, validateMoatAssessment } from './schema'
+
+export interface MoatAnalyzerResult {
+  assessment: MoatAssessment
+  provider: string
+  model: string | null
+  promptTemplate: string | null
+}
+
+const DEFAULT_PROVIDERS = 'xai'
+
+/**
+ * Template override from e.g. LOCAL_LLM_MOAT_PROMPT=detailed
+ */
+const templateFor = (prefix: string, fallback: MoatPromptTemplate): MoatPromptTemplate =>
+  MOAT_PROMPT_TEMPLATES[process.env[`${prefix}_MOAT_PROMPT`] || ''] || fallback
+
+const PROVIDER_FACTORIES: Record<string, () => MoatAnalysisProvider> = {
+  'xai': () => new OpenAICompatibleProvider({
+    name: 'xai',
+    baseUrl: process.env.XAI_BASE_URL || 'https://api.x.ai/v1',
+    apiKey: process.env.XAI_API_KEY,
+    model: process.env.XAI_MODEL || 'grok-2-1212',
+    template: templateFor('XAI', DETAILED_MOAT_PROMPT),
+    requiresApiKey: true,
+  }),
+  'openai': () => new OpenAICompatibleProvider({
+    name: 'openai',
+    baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: process.env.OPENAI_API_KEY,
+    model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    template: templateFor('OPENAI', DETAILED_MOAT_PROMPT),
+    requiresApiKey: true,
+    jsonMode: true,
+  }),
+  'local': () => new OpenAICompatibleProvider({
+    name: 'local',
+    baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+    model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    template: templateFor('LOCAL_LLM', COMPACT_MOAT_PROMPT),
+    requiresApiKey: false,
+    jsonMode: true,
+    // Local models on CPU can take minutes
+    timeoutMs: 180000,
+  }),
+  'anthropic': () => new AnthropicProvider({
+    baseUrl: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    model: process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest',
+    template: templateFor('ANTHROPIC', DETAILED_MOAT_PROMPT),
+  }),
+  'rule-based': () => new RuleBasedProvider(),
+}
+
+export class MoatAnalyzer {
+  private static providers: MoatAnalysisProvider[] | null = null
+
+  /**
+   * Providers in the order they are tried, always ending with rule-based
+   */
+  static getProviders(): MoatAnalysisProvider[] {
+    if (!this.providers) {
+      const names = (process.env.MOAT_ANALYSIS_PROVIDERS || DEFAULT_PROVIDERS)
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(Boolean)
+
+      const providers: MoatAnalysisProvider[] = []
+      for (const name of names) {
+        const factory = PROVIDER_FACTORIES[name]
+        if (!factory) {
+          console.warn(`[MoatAnalyzer] Unknown moat analysis provider "${name}" ignored`)
+          continue
+        }
+        providers.push(factory())
+      }
+      if (!providers.some(p => p.name === 'rule-based')) {
+        providers.push(new RuleBasedProvider())
+      }
+
+      this.providers = providers
+    }
+    return this.providers
+  }
+
+  /**
+   * Replace the provider chain, e.g. to compare models
+   */
+  static setProviders(providers: MoatAnalysisProvider[] | null) {
+    this.providers = providers
+  }
+
+  static async analyze(companyData: CompanyData): Promise<MoatAnalyzerResult> {
+    for (const provider of this.getProviders()) {
+      if (!provider.isConfigured()) continue
+
+      try {
+        const assessment = await provider.analyze(companyData)
+        return { assessment, provider: provider.name, model: provider.model, promptTemplate: provider.promptTemplate }
+      } catch (error) {
+        console.warn(`[MoatAnalyzer] ${provider.name} failed for ${companyData.symbol}:`, error instanceof Error ? error.message : error)
+      }
+    }
+
+    throw new Error('No moat analysis provider is available')
+  }
+}
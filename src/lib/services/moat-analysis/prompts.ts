@@ -0,0 +1,103 @@
+/**
+ * Moat Analysis Prompt Templates
+ * Each provider picks the template that suits its model: the detailed prompt
+ * for hosted frontier models, the compact one for small local models
+ */
+
+import { CompanyData, MoatPromptTemplate } from './types/moat-analysis-types'
+
+const percent = (value?: number) => value ? `${(value * 100).toFixed(1)}%` : 'N/A'
+
+export const DETAILED_MOAT_PROMPT: MoatPromptTemplate = {
+  name: 'detailed',
+  system: 'You are a senior investment analyst specializing in competitive moat analysis, trained in the Warren Buffett/Charlie Munger approach. You provide brutally honest, detailed assessments that institutional investors rely on. You never sugarcoat weaknesses, always consider competitive dynamics, and focus on sustainable advantages that can persist for 5-10 years. Your analysis is evidence-based, comparing companies to best-in-class examples. Always respond with valid JSON.',
+  buildPrompt(companyData: CompanyData): string {
+    return `
+    Perform a comprehensive competitive moat analysis for ${companyData.companyName} (${companyData.symbol}).
+    
+    Company Context:
+    - Sector: ${companyData.sector}
+    - Industry: ${companyData.industry}
+    - Market Cap: ${companyData.marketCap ? `$${(companyData.marketCap / 1e9).toFixed(1)}B` : 'N/A'}
+    - Business: ${companyData.businessSummary}
+    - Key Metrics:
+      - Gross Margins: ${percent(companyData.grossMargins)}
+      - Operating Margins: ${percent(companyData.operatingMargins)}
+      - Revenue Growth: ${percent(companyData.revenueGrowth)}
+    ${companyData.competitorsList ? `- Main Competitors: ${companyData.competitorsList.join(', ')}` : ''}
+    
+    Analyze the company's competitive position critically and honestly. Consider both current advantages and future vulnerabilities over a 5-10 year horizon.
+    
+    Score the company across these FOUR MOAT DIMENSIONS:
+    
+    1. BRAND LOYALTY & PRICING POWER (0-25 points)
+    Evaluate: Brand recognition strength, customer retention vs industry average, ability to raise prices without losing customers, premium pricing capability.
+    Consider: Does the brand command premium prices? Do customers actively choose it over cheaper alternatives?
+    
+    2. SWITCHING COSTS (0-25 points)
+    Analyze: Financial costs of switching, time/effort costs, business disruption, data migration complexity, integration dependencies, psychological barriers.
+    Quantify: How much would it really cost/disrupt a customer to switch to a competitor?
+    
+    3. NETWORK EFFECTS (0-25 points)
+    Examine: Does value increase with more users? Are there two-sided network effects? Can users easily multi-home with competitors?
+    Evidence: Look for user growth correlation with engagement, marketplace dynamics.
+    
+    4. ECONOMIES OF SCALE (0-25 points)
+    Evaluate: Fixed cost advantages, purchasing power, distribution efficiency, R&D cost spreading, operating leverage.
+    Proof: Are margins expanding with growth? Do they have cost advantages competitors can't match?
+    
+    CRITICAL ASSESSMENT:
+    - What could destroy this moat in 5 years?
+    - Which competitors pose the biggest threat?
+    - What are the company's biggest vulnerabilities?
+    
+    Provide your response as a JSON object with this structure:
+    {
+      "brandLoyalty": {
+        "score": [0-25],
+        "explanation": "[3-4 sentences with specific evidence. Be critical - explain WHY the score is high or low with concrete examples. Use plain English.]"
+      },
+      "switchingCosts": {
+        "score": [0-25],
+        "explanation": "[3-4 sentences quantifying switching barriers or lack thereof. Compare to competitors. Be specific about what makes switching easy or hard.]"
+      },
+      "networkEffects": {
+        "score": [0-25],
+        "explanation": "[3-4 sentences on network dynamics. Explain if effects are strengthening or weakening. Compare to platform leaders.]"
+      },
+      "scaleAdvantages": {
+        "score": [0-25],
+        "explanation": "[3-4 sentences on scale benefits. Are these advantages sustainable? How do margins compare to smaller competitors?]"
+      },
+      "summary": "[One paragraph (4-6 sentences) providing an honest overall assessment. Start with the moat classification (Strong/Moderate/Weak), explain the key competitive advantages AND vulnerabilities, and assess the moat's durability. Be specific about threats and compare to best-in-class examples. Write for an intelligent investor who wants the truth, not marketing speak.]"
+    }
+    
+    Be intellectually honest. If the company lacks a moat, say so clearly. Compare to industry leaders. Focus on sustainable advantages, not temporary benefits.
+    `
+  },
+}
+
+export const COMPACT_MOAT_PROMPT: MoatPromptTemplate = {
+  name: 'compact',
+  system: 'You are an investment analyst who rates competitive moats. Reply with a single JSON object and nothing else.',
+  buildPrompt(companyData: CompanyData): string {
+    return [
+      `Rate the competitive moat of ${companyData.companyName} (${companyData.symbol}).`,
+      `Sector: ${companyData.sector}. Industry: ${companyData.industry}.`,
+      `Business: ${companyData.businessSummary}`,
+      `Gross margin: ${percent(companyData.grossMargins)}. Operating margin: ${percent(companyData.operatingMargins)}. Revenue growth: ${percent(companyData.revenueGrowth)}.`,
+      '',
+      'Give each dimension a whole-number score from 0 to 25 and a two sentence explanation:',
+      'brandLoyalty (pricing power), switchingCosts, networkEffects, scaleAdvantages.',
+      'Then write a 3-4 sentence summary that starts with Strong, Moderate or Weak moat.',
+      '',
+      'Answer with exactly this JSON shape:',
+      '{"brandLoyalty":{"score":0,"explanation":""},"switchingCosts":{"score":0,"explanation":""},"networkEffects":{"score":0,"explanation":""},"scaleAdvantages":{"score":0,"explanation":""},"summary":""}',
+    ].join('\n')
+  },
+}
+
+export const MOAT_PROMPT_TEMPLATES: Record<string, MoatPromptTemplate> = {
+  [DETAILED_MOAT_PROMPT.name]: DETAILED_MOAT_PROMPT,
+  [COMPACT_MOAT_PROMPT.name]: COMPACT_MOAT_PROMPT,
+}
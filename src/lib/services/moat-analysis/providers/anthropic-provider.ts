@@ -0,0 +1,75 @@
+/**
+ * Anthropic provider - the Messages API, or any endpoint that speaks it
+ */
+
+import { parseMoatResponse } from '../schema'
+import {
+  CompanyData,
+  MoatAnalysisProvider,
+  MoatPromptTemplate,
+} from '../types/moat-analysis-types'
+
+const ANTHROPIC_VERSION = '2023-06-01'
+
+export interface AnthropicOptions {
+  baseUrl: string
+  apiKey?: string
+  model: string
+  template: MoatPromptTemplate
+  timeoutMs?: number
+}
+
+export class AnthropicProvider implements MoatAnalysisProvider {
+  readonly name = 'anthropic'
+  readonly model: string
+  readonly promptTemplate: string
+
+  constructor(private options: AnthropicOptions) {
+    this.model = options.model
+    this.promptTemplate = options.template.name
+  }
+
+  isConfigured() {
+    return !!this.options.apiKey
+  }
+
+  async analyze(companyData: CompanyData) {
+    const { baseUrl, apiKey, template, timeoutMs } = this.options
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey!,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system: template.system,
+        messages: [
+          { role: 'user', content: template.buildPrompt(companyData) },
+        ],
+        temperature: 0.2,
+        max_tokens: 2500,
+      }),
+      signal: AbortSignal.timeout(timeoutMs ?? 60000),
+    })
+
+    if (!response.ok) {
+      throw new Error(`${this.name} API error: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    const content = Array.isArray(data?.content)
+      ? data.content
+          .filter((block: any) => block.type === 'text')
+          .map((block: any) => block.text)
+          .join('')
+      : null
+    if (!content) {
+      throw new Error(`${this.name} returned no text content`)
+    }
+
+    return parseMoatResponse(content)
+  }
+}
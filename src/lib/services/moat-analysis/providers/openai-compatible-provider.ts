@@ -0,0 +1,73 @@
+/**
+ * OpenAI-compatible provider - any /chat/completions endpoint: xAI, OpenAI,
+ * or a local server such as Ollama or llama.cpp
+ */
+
+import { parseMoatResponse } from '../schema'
+import {
+  CompanyData,
+  MoatAnalysisProvider,
+  MoatPromptTemplate,
+} from '../types/moat-analysis-types'
+
+export interface OpenAICompatibleOptions {
+  name: string
+  baseUrl: string // Up to and including /v1
+  apiKey?: string
+  model: string
+  template: MoatPromptTemplate
+  requiresApiKey: boolean // Local servers usually run without one
+  jsonMode?: boolean // Ask for response_format json_object
+  timeoutMs?: number
+}
+
+export class OpenAICompatibleProvider implements MoatAnalysisProvider {
+  readonly name: string
+  readonly model: string
+  readonly promptTemplate: string
+
+  constructor(private options: OpenAICompatibleOptions) {
+    this.name = options.name
+    this.model = options.model
+    this.promptTemplate = options.template.name
+  }
+
+  isConfigured() {
+    return !!this.options.baseUrl && (!this.options.requiresApiKey || !!this.options.apiKey)
+  }
+
+  async analyze(companyData: CompanyData) {
+    const { baseUrl, apiKey, template, jsonMode, timeoutMs } = this.options
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: template.system },
+          { role: 'user', content: template.buildPrompt(companyData) },
+        ],
+        temperature: 0.2, // Very low temperature for consistent, analytical responses
+        max_tokens: 2500,
+        ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      }),
+      signal: AbortSignal.timeout(timeoutMs ?? 60000),
+    })
+
+    if (!response.ok) {
+      throw new Error(`${this.name} API error: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    const content = data?.choices?.[0]?.message?.content
+    if (typeof content !== 'string') {
+      throw new Error(`${this.name} returned no message content`)
+    }
+
+    return parseMoatResponse(content)
+  }
+}
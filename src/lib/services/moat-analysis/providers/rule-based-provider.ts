@@ -0,0 +1,61 @@
+/**
+ * Rule-based provider - scores a moat from financial metrics alone.
+ * Deterministic, free and always available, so it is the last resort.
+ */
+
+import { MAX_DIMENSION_SCORE } from '../schema'
+import { CompanyData, MoatAnalysisProvider, MoatAssessment } from '../types/moat-analysis-types'
+
+// Companies whose brand is widely treated as a moat in its own right
+const RECOGNIZED_BRANDS = ['AAPL', 'GOOGL', 'MSFT', 'AMZN', 'TSLA', 'NVDA']
+
+const clamp = (value: number) => Math.max(0, Math.min(MAX_DIMENSION_SCORE, Math.round(value)))
+
+const percent = (value?: number) => `${((value || 0) * 100).toFixed(1)}%`
+
+export class RuleBasedProvider implements MoatAnalysisProvider {
+  readonly name = 'rule-based'
+  readonly model = null
+  readonly promptTemplate = null
+
+  isConfigured() {
+    return true
+  }
+
+  async analyze(companyData: CompanyData): Promise<MoatAssessment> {
+    const brandScore = RECOGNIZED_BRANDS.includes(companyData.symbol) ? 20 : 10
+    // Higher margins often indicate pricing power from switching costs
+    const marginScore = clamp((companyData.grossMargins || 0) * 100)
+    const growthScore = clamp((companyData.revenueGrowth || 0) * 50)
+    const sizeScore = companyData.marketCap
+      ? clamp(Math.log10(companyData.marketCap / 1e9) * 5)
+      : 10
+
+    const overallScore = brandScore + marginScore + growthScore + sizeScore
+    const strength = overallScore >= 70 ? 'Strong' : overallScore >= 40 ? 'Moderate' : 'Weak'
+
+    return {
+      brandLoyalty: {
+        score: brandScore,
+        explanation: RECOGNIZED_BRANDS.includes(companyData.symbol)
+          ? 'One of a handful of globally recognized brands with demonstrated pricing power.'
+          : 'No brand advantage can be inferred from financial data alone, so a neutral score is used.',
+      },
+      switchingCosts: {
+        score: marginScore,
+        explanation: `Gross margin of ${percent(companyData.grossMargins)}. Higher margins often indicate pricing power from switching costs.`,
+      },
+      networkEffects: {
+        score: growthScore,
+        explanation: `Revenue growth of ${percent(companyData.revenueGrowth)}. Sustained growth suggests potential network effects and market expansion.`,
+      },
+      scaleAdvantages: {
+        score: sizeScore,
+        explanation: companyData.marketCap
+          ? `Market cap of $${(companyData.marketCap / 1e9).toFixed(1)}B. Larger companies spread fixed costs over more revenue.`
+          : 'Market cap is unknown, so a neutral score is used.',
+      },
+      summary: `${companyData.companyName} has a ${strength} moat based on its margins, growth and size. This is a simplified analysis from financial metrics, not a qualitative review of the business.`,
+    }
+  }
+}
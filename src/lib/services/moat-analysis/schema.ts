@@ -0,0 +1,86 @@
+/**
+ * Moat Analysis Schema
+ * Parses and validates model output against the MoatAssessment shape
+ */
+
+import { MoatAssessment, MoatDimension } from './types/moat-analysis-types'
+
+export const MOAT_DIMENSIONS = ['brandLoyalty', 'switchingCosts', 'networkEffects', 'scaleAdvantages'] as const
+
+export const MAX_DIMENSION_SCORE = 25
+
+export class MoatSchemaError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid moat analysis: ${issues.join('; ')}`)
+    this.name = 'MoatSchemaError'
+  }
+}
+
+/**
+ * Pull the JSON object out of a model reply. Models often wrap it in
+ * markdown fences or add a sentence before or after it.
+ */
+export function parseMoatResponse(content: string): MoatAssessment {
+  const cleaned = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+  const start = cleaned.indexOf('{')
+  const end = cleaned.lastIndexOf('}')
+
+  if (start === -1 || end <= start) {
+    throw new MoatSchemaError(['response does not contain a JSON object'])
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(cleaned.slice(start, end + 1))
+  } catch {
+    throw new MoatSchemaError(['response is not valid JSON'])
+  }
+
+  return validateMoatAssessment(parsed)
+}
+
+/**
+ * Check every dimension has a 0-25 score and an explanation, and that there
+ * is a summary. Fractional scores are rounded; anything else is rejected.
+ */
+export function validateMoatAssessment(value: unknown): MoatAssessment {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new MoatSchemaError(['expected a JSON object'])
+  }
+
+  const input = value as Record<string, any>
+  const issues: string[] = []
+
+  const dimensions = {} as Record<typeof MOAT_DIMENSIONS[number], MoatDimension>
+  for (const key of MOAT_DIMENSIONS) {
+    const dimension = input[key]
+    if (!dimension || typeof dimension !== 'object') {
+      issues.push(`${key} is missing`)
+      continue
+    }
+
+    // Some models return numbers as strings
+    const score = typeof dimension.score === 'string' ? parseFloat(dimension.score) : dimension.score
+    if (typeof score !== 'number' || !isFinite(score) || score < 0 || score > MAX_DIMENSION_SCORE) {
+      issues.push(`${key}.score must be a number between 0 and ${MAX_DIMENSION_SCORE}`)
+    }
+    if (typeof dimension.explanation !== 'string' || !dimension.explanation.trim()) {
+      issues.push(`${key}.explanation must be a non-empty string`)
+    }
+
+    dimensions[key] = {
+      score: Math.round(score),
+      explanation: typeof dimension.explanation === 'string' ? dimension.explanation.trim() : '',
+    }
+  }
+
+  if (typeof input.summary !== 'string' || !input.summary.trim()) {
+    issues.push('summary must be a non-empty string')
+  }
+
+  if (issues.length > 0) {
+    throw new MoatSchemaError(issues)
+  }
+
+  return { ...dimensions, summary: input.summary.trim() }
+}
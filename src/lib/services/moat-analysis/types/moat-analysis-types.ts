@@ -0,0 +1,52 @@
+/**
+ * Moat Analysis Provider Types
+ * Shared contract for every backend that can assess a company's competitive moat
+ */
+
+export interface CompanyData {
+  symbol: string
+  companyName: string
+  sector: string
+  industry: string
+  businessSummary: string
+  grossMargins?: number
+  operatingMargins?: number
+  profitMargins?: number
+  marketCap?: number
+  employees?: number
+  revenueGrowth?: number
+  competitorsList?: string[]
+}
+
+export interface MoatDimension {
+  score: number // 0-25
+  explanation: string
+}
+
+// The part of a moat analysis a provider is responsible for. Overall score
+// and strength are derived from it, so every provider is scored the same way.
+export interface MoatAssessment {
+  brandLoyalty: MoatDimension
+  switchingCosts: MoatDimension
+  networkEffects: MoatDimension
+  scaleAdvantages: MoatDimension
+  summary: string
+}
+
+export interface MoatPromptTemplate {
+  name: string
+  system: string
+  buildPrompt(companyData: CompanyData): string
+}
+
+export interface MoatAnalysisProvider {
+  readonly name: string
+  readonly model: string | null // Null for providers that are not language models
+  readonly promptTemplate: string | null
+
+  isConfigured(): boolean
+
+  // Returns a validated assessment, or throws if the backend failed or
+  // answered with something that does not match the schema
+  analyze(companyData: CompanyData): Promise<MoatAssessment>
+}
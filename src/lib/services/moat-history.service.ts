@@ -0,0 +1,336 @@
+import { createClient } from '@/lib/supabase/server'
+import { Database, Json } from '@/types/database'
+import { createClient as createAdminClient, SupabaseClient } from '@supabase/supabase-js'
+import type { MoatAnalysis } from './ai-moat.service'
+
+type MoatAnalysisRow = Database['public']['Tables']['ai_moat_analysis']['Row']
+type MoatAnalysisInsert = Database['public']['Tables']['ai_moat_analysis']['Insert']
+type MoatOverrideRow = Database['public']['Tables']['moat_overrides']['Row']
+
+export type MoatDimensionKey = keyof MoatAnalysis['dimensions']
+
+export const MOAT_DIMENSION_KEYS: MoatDimensionKey[] = ['brandLoyalty', 'switchingCosts', 'networkEffects', 'scaleAdvantages']
+
+export const MOAT_DIMENSION_LABELS: Record<MoatDimensionKey, string> = {
+  brandLoyalty: 'Brand Loyalty',
+  switchingCosts: 'Switching Costs',
+  networkEffects: 'Network Effects',
+  scaleAdvantages: 'Scale Advantages',
+}
+
+export interface MoatVersion {
+  version: number
+  overallScore: number
+  dimensions: MoatAnalysis['dimensions']
+  summary: string
+  provider: string | null
+  model: string | null
+  promptTemplate: string | null
+  createdAt: string
+}
+
+export interface MoatOverride {
+  dimension: MoatDimensionKey
+  kind: 'pin' | 'override'
+  score: number
+  justification: string
+  sourceVersion: number | null // Version a pinned score was taken from
+  createdBy: string | null
+  updatedAt: string
+}
+
+export type MoatOverrideInput = Pick<MoatOverride, 'dimension' | 'kind' | 'justification'> & { score?: number }
+
+export interface MoatDimensionDiff {
+  dimension: MoatDimensionKey
+  before: number
+  after: number
+  change: number
+  explanationChanged: boolean
+}
+
+export interface MoatVersionDiff {
+  from: number
+  to: number
+  overallBefore: number
+  overallAfter: number
+  overallChange: number
+  dimensions: MoatDimensionDiff[]
+  providerChanged: boolean
+  modelChanged: boolean
+}
+
+export class MoatHistoryService {
+  /**
+   * Append a freshly generated analysis as the next version for its symbol.
+   * Failures are logged rather than thrown so history problems never block
+   * the analysis itself. Versions are shared, so only the service role writes them.
+   */
+  static async recordVersion(analysis: MoatAnalysis): Promise<number | null> {
+    try {
+      const supabase = this.adminClient()
+      const latest = await this.getLatestVersion(analysis.symbol, supabase)
+
+      // A replayed or identical answer is not a new version
+      if (latest && this.isSameAnalysis(latest, analysis)) {
+        return latest.version
+      }
+
+      const version = (latest?.version || 0) + 1
+      const row: MoatAnalysisInsert = {
+        symbol: analysis.symbol,
+        version,
+        moat_score: analysis.overallScore,
+        brand_loyalty_score: analysis.dimensions.brandLoyalty.score,
+        switching_costs_score: analysis.dimensions.switchingCosts.score,
+        network_effects_score: analysis.dimensions.networkEffects.score,
+        scale_advantages_score: analysis.dimensions.scaleAdvantages.score,
+        analysis_text: analysis.summary,
+        explanations: Object.fromEntries(
+          MOAT_DIMENSION_KEYS.map(key => [key, analysis.dimensions[key].explanation])
+        ) as Json,
+        provider: analysis.provider || null,
+        model: analysis.model || null,
+        prompt_template: analysis.promptTemplate || null,
+        expires_at: null,
+      }
+
+      const { error } = await (supabase
+        .from('ai_moat_analysis') as any)
+        .insert(row)
+
+      if (error) {
+        console.error(`Error recording moat analysis version for ${analysis.symbol}:`, error)
+        return null
+      }
+
+      return version
+    } catch (error) {
+      console.error(`Error recording moat analysis version for ${analysis.symbol}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * A symbol's versions, newest first
+   */
+  static async getVersions(symbol: string, limit = 20): Promise<MoatVersion[]> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('ai_moat_analysis')
+      .select('*')
+      .eq('symbol', symbol)
+      .order('version', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching moat analysis versions:', error)
+      throw new Error(`Failed to fetch moat analysis versions for ${symbol}: ${error.message}`)
+    }
+
+    return ((data || []) as MoatAnalysisRow[]).map(row => this.mapVersion(row))
+  }
+
+  static async getLatestVersion(
+    symbol: string,
+    client?: SupabaseClient<Database>
+  ): Promise<MoatVersion | null> {
+    const supabase = client || await createClient()
+
+    const { data } = await supabase
+      .from('ai_moat_analysis')
+      .select('*')
+      .eq('symbol', symbol)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    return data ? this.mapVersion(data as MoatAnalysisRow) : null
+  }
+
+  /**
+   * Dimension-by-dimension changes between two versions
+   */
+  static diffVersions(from: MoatVersion, to: MoatVersion): MoatVersionDiff {
+    return {
+      from: from.version,
+      to: to.version,
+      overallBefore: from.overallScore,
+      overallAfter: to.overallScore,
+      overallChange: to.overallScore - from.overallScore,
+      dimensions: MOAT_DIMENSION_KEYS.map(dimension => ({
+        dimension,
+        before: from.dimensions[dimension].score,
+        after: to.dimensions[dimension].score,
+        change: to.dimensions[dimension].score - from.dimensions[dimension].score,
+        explanationChanged: from.dimensions[dimension].explanation !== to.dimensions[dimension].explanation,
+      })),
+      providerChanged: from.provider !== to.provider,
+      modelChanged: from.model !== to.model,
+    }
+  }
+
+  static async getOverrides(symbol: string): Promise<MoatOverride[]> {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('moat_overrides')
+      .select('*')
+      .eq('symbol', symbol)
+
+    if (error) {
+      console.error('Error fetching moat overrides:', error)
+      return []
+    }
+
+    return ((data || []) as MoatOverrideRow[]).map(row => this.mapOverride(row))
+  }
+
+  /**
+   * Pin a dimension at its latest analysed score, or override it with a
+   * manual score
+   */
+  static async setOverride(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    symbol: string,
+    input: MoatOverrideInput
+  ): Promise<MoatOverride> {
+
+    let score = input.score
+    let sourceVersion: number | null = null
+
+    if (input.kind === 'pin') {
+      const latest = await this.getLatestVersion(symbol, supabase)
+      if (!latest) {
+        throw new Error('There is no moat analysis to pin yet')
+      }
+      score = latest.dimensions[input.dimension].score
+      sourceVersion = latest.version
+    }
+
+    const { data, error } = await (supabase
+      .from('moat_overrides') as any)
+      .upsert({
+        symbol,
+        dimension: input.dimension,
+        kind: input.kind,
+        score,
+        justification: input.justification,
+        source_version: sourceVersion,
+        created_by: userId,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'symbol,dimension' })
+      .select()
+      .single()
+
+    if (error) {
+      // Row level security: the dimension is overridden by someone else
+      if (error.code === '42501') {
+        throw new Error('Only the user who set this override can change it')
+      }
+      console.error('Error saving moat override:', error)
+      throw error
+    }
+
+    return this.mapOverride(data)
+  }
+
+  static async removeOverride(
+    supabase: SupabaseClient<Database>,
+    symbol: string,
+    dimension: MoatDimensionKey
+  ): Promise<boolean> {
+
+    const { data, error } = await supabase
+      .from('moat_overrides')
+      .delete()
+      .eq('symbol', symbol)
+      .eq('dimension', dimension)
+      .select('id')
+
+    if (error) {
+      console.error('Error removing moat override:', error)
+      throw error
+    }
+
+    return (data || []).length > 0
+  }
+
+  /**
+   * Validate an override submitted by a user
+   */
+  static validateOverride(input: any): MoatOverrideInput {
+    if (!MOAT_DIMENSION_KEYS.includes(input?.dimension)) {
+      throw new Error(`Dimension must be one of: ${MOAT_DIMENSION_KEYS.join(', ')}`)
+    }
+    if (input?.kind !== 'pin' && input?.kind !== 'override') {
+      throw new Error('Kind must be pin or override')
+    }
+
+    const justification = typeof input?.justification === 'string' ? input.justification.trim() : ''
+    if (!justification || justification.length > 1000) {
+      throw new Error('A justification of at most 1000 characters is required')
+    }
+
+    if (input.kind === 'override') {
+      const score = input.score
+      if (typeof score !== 'number' || !Number.isInteger(score) || score < 0 || score > 25) {
+        throw new Error('Override score must be a whole number between 0 and 25')
+      }
+      return { dimension: input.dimension, kind: 'override', score, justification }
+    }
+
+    return { dimension: input.dimension, kind: 'pin', justification }
+  }
+
+  private static isSameAnalysis(version: MoatVersion, analysis: MoatAnalysis): boolean {
+    return version.summary === analysis.summary &&
+      version.provider === (analysis.provider || null) &&
+      version.model === (analysis.model || null) &&
+      MOAT_DIMENSION_KEYS.every(key =>
+        version.dimensions[key].score === analysis.dimensions[key].score &&
+        version.dimensions[key].explanation === analysis.dimensions[key].explanation
+      )
+  }
+
+  private static mapVersion(row: MoatAnalysisRow): MoatVersion {
+    const explanations = (row.explanations || {}) as Record<string, string>
+
+    return {
+      version: row.version,
+      overallScore: row.moat_score,
+      dimensions: {
+        brandLoyalty: { score: row.brand_loyalty_score, explanation: explanations.brandLoyalty || '' },
+        switchingCosts: { score: row.switching_costs_score, explanation: explanations.switchingCosts || '' },
+        networkEffects: { score: row.network_effects_score, explanation: explanations.networkEffects || '' },
+        scaleAdvantages: { score: row.scale_advantages_score, explanation: explanations.scaleAdvantages || '' },
+      },
+      summary: row.analysis_text,
+      provider: row.provider,
+      model: row.model,
+      promptTemplate: row.prompt_template,
+      createdAt: row.created_at,
+    }
+  }
+
+  private static mapOverride(row: MoatOverrideRow): MoatOverride {
+    return {
+      dimension: row.dimension,
+      kind: row.kind,
+      score: row.score,
+      justification: row.justification,
+      sourceVersion: row.source_version,
+      createdBy: row.created_by,
+      updatedAt: row.updated_at,
+    }
+  }
+
+  private static adminClient(): SupabaseClient<Database> {
+    return createAdminClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+  }
+}
@@ -3,8 +3,10 @@
  * Handles multi-channel notifications with intelligent delivery
  */
 
-import { EmailService, EmailRecipient, PerfectStormAlertData } from './email.service';
+import { EmailService, EmailRecipient, RuleAlertData } from './email.service';
 import { createClient } from '@/lib/supabase/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/database';
 import { Redis } from '@upstash/redis';
 
 const redis = new Redis({
@@ -26,7 +28,7 @@ export interface NotificationPreferences {
 
 export interface NotificationData {
   userId: string;
-  type: 'perfect_storm' | 'price_alert' | 'score_change' | 'exit_signal' | 'daily_digest';
+  type: 'perfect_storm' | 'price_alert' | 'score_change' | 'exit_signal' | 'daily_digest' | 'screen_match' | 'watchlist_alert' | 'stock_alert';
   priority: 'high' | 'medium' | 'low';
   channel: 'email' | 'push' | 'in_app' | 'all';
   data: any;
@@ -47,12 +49,17 @@ export class NotificationService {
   private static NOTIFICATION_LOG_PREFIX = 'notification_log:';
   
   /**
-   * Send a notification through appropriate channels
+   * Send a notification through appropriate channels. Jobs running outside a
+   * request pass a service-role client for the preference, in-app and
+   * recipient lookups.
    */
-  static async sendNotification(notification: NotificationData): Promise<boolean> {
+  static async sendNotification(
+    notification: NotificationData,
+    supabase?: SupabaseClient<Database>
+  ): Promise<boolean> {
     try {
       // Get user preferences
-      const preferences = await this.getUserPreferences(notification.userId);
+      const preferences = await this.getUserPreferences(notification.userId, supabase);
       
       // Check if user wants this type of notification
       if (!this.shouldSendNotification(notification, preferences)) {
@@ -74,8 +81,7 @@ export class NotificationService {
       let sent = false;
       
       if (notification.channel === 'all' || notification.channel === 'in_app') {
-        await this.sendInAppNotification(notification);
-        sent = true;
+        sent = await this.sendInAppNotification(notification, supabase) || sent;
       }
       
       if (notification.channel === 'all' || notification.channel === 'push') {
@@ -88,7 +94,7 @@ export class NotificationService {
       if (notification.channel === 'all' || notification.channel === 'email') {
         // Only send email if user is not currently active
         if (!isActive && preferences.emailEnabled) {
-          sent = await this.sendEmailNotification(notification) || sent;
+          sent = await this.sendEmailNotification(notification, supabase) || sent;
         }
       }
       
@@ -103,179 +109,40 @@ export class NotificationService {
   }
 
   /**
-   * Check watchlist triggers and send alerts
-   * Updated to work with new buy_triggers structure
+   * Send a watchlist alert whose rules are met, unless the item's cooldown
+   * since its last alert is still running. Callers outside a request pass a
+   * service-role client, since the request client can't see the item.
    */
-  static async checkWatchlistTriggers(
-    symbol: string,
-    currentPrice: number,
-    currentScore: number,
-    currentTimingScore?: number
-  ): Promise<void> {
+  static async sendWatchlistRuleAlert(
+    userId: string,
+    data: RuleAlertData,
+    supabase?: SupabaseClient<Database>
+  ): Promise<boolean> {
     try {
-      const supabase = await createClient();
-      
-      // Get all watchlist items for this symbol with alerts enabled
-      const { data: watchlistItems, error } = await supabase
-        .from('watchlists')
-        .select('*')
-        .eq('symbol', symbol)
-        .eq('alert_enabled', true);
-      
-      if (error || !watchlistItems) {
-        console.error('Error fetching watchlist items:', error);
-        return;
-      }
-      
-      // Check each watchlist item for triggered conditions
-      for (const item of watchlistItems) {
-        const triggers = await this.evaluateTriggers(
-          item, 
-          currentPrice, 
-          currentScore,
-          currentTimingScore
-        );
-        
-        if (triggers.allMet) {
-          // Check cooldown period
-          const canSendAlert = await this.checkCooldown(item.id, item.user_id);
-          if (canSendAlert) {
-            // Perfect Storm Alert!
-            await this.sendPerfectStormAlert(item.user_id, symbol, triggers, item);
-            await this.updateLastAlertSent(item.id);
-          }
-        } else if (triggers.anyMet) {
-          // Partial trigger alert (optional, can be disabled)
-          // await this.sendPartialTriggerAlert(item.user_id, symbol, triggers);
-        }
+      const canSendAlert = await this.checkCooldown(data.alertId, userId, supabase);
+      if (!canSendAlert) {
+        console.log(`Skipping alert for ${data.symbol} - cooldown period active`);
+        return false;
       }
-    } catch (error) {
-      console.error('Watchlist trigger check error:', error);
-    }
-  }
 
-  /**
-   * Evaluate watchlist triggers
-   * Updated for new buy_triggers structure
-   */
-  private static async evaluateTriggers(
-    watchlistItem: any,
-    currentPrice: number,
-    currentScore: number,
-    currentTimingScore?: number
-  ): Promise<any> {
-    const buyTriggers = watchlistItem.buy_triggers || {};
-    const targetPrice = watchlistItem.target_price;
-    
-    const results = {
-      priceTarget: {
-        configured: !!targetPrice,
-        target: targetPrice,
-        current: currentPrice,
-        met: !targetPrice || currentPrice <= targetPrice
-      },
-      businessQuality: {
-        configured: !!buyTriggers.minScore,
-        target: buyTriggers.minScore,
-        current: currentScore,
-        met: !buyTriggers.minScore || currentScore >= buyTriggers.minScore
-      },
-      timeToBuy: {
-        configured: !!buyTriggers.minTimingScore && currentTimingScore !== undefined,
-        target: buyTriggers.minTimingScore,
-        current: currentTimingScore ? Math.round((currentTimingScore / 40) * 100) : null,
-        met: !buyTriggers.minTimingScore || !currentTimingScore || 
-             Math.round((currentTimingScore / 40) * 100) >= buyTriggers.minTimingScore
-      },
-      allMet: false,
-      anyMet: false,
-      configuredCount: 0,
-      metCount: 0
-    };
-    
-    // Count configured and met conditions
-    const conditions = [results.priceTarget, results.businessQuality, results.timeToBuy];
-    results.configuredCount = conditions.filter(c => c.configured).length;
-    results.metCount = conditions.filter(c => c.configured && c.met).length;
-    
-    // Determine if all configured conditions are met
-    results.anyMet = results.metCount > 0;
-    results.allMet = results.configuredCount > 0 && results.metCount === results.configuredCount;
-    
-    return results;
-  }
-
-  /**
-   * Send Perfect Storm Alert
-   * Updated to work with new trigger structure
-   */
-  private static async sendPerfectStormAlert(
-    userId: string,
-    symbol: string,
-    triggers: any,
-    watchlistItem: any
-  ): Promise<void> {
-    try {
-      const supabase = await createClient();
-      
-      // Get user details
-      const { data: userProfile } = await supabase
-        .from('user_profiles')
-        .select('email, full_name')
-        .eq('user_id', userId)
-        .single();
-      
-      if (!userProfile) return;
-      
-      // Get stock details
-      const { data: stockData } = await supabase
-        .from('stocks')
-        .select('*')
-        .eq('symbol', symbol)
-        .single();
-      
-      if (!stockData) return;
-      
-      // Prepare alert data
-      const alertData: PerfectStormAlertData = {
-        stockSymbol: symbol,
-        stockName: stockData.company_name || symbol,
-        currentPrice: stockData.current_price || 0,
-        stockBeaconScore: stockData.beacon_score || 0,
-        triggers: {
-          priceTarget: triggers.priceTarget.met,
-          scoreThreshold: triggers.businessQuality.met,
-          timeToBuy: triggers.timeToBuy.met,
-          details: {
-            price: { current: triggers.priceTarget.current, target: triggers.priceTarget.target },
-            businessQuality: { current: triggers.businessQuality.current, target: triggers.businessQuality.target },
-            timeToBuy: { current: triggers.timeToBuy.current, target: triggers.timeToBuy.target }
-          }
-        },
-        moatStrength: stockData.moat_strength || 'Moderate',
-        recommendation: 'All your buy criteria have been met. This is an excellent entry opportunity.',
-        strengths: stockData.strengths || [],
-      };
-      
-      // Send the notification
-      await this.sendNotification({
+      const sent = await this.sendNotification({
         userId,
-        type: 'perfect_storm',
+        type: 'watchlist_alert',
         priority: 'high',
         channel: 'all',
-        data: alertData,
-      });
-      
-      // Also send email if user is not active
-      const recipient: EmailRecipient = {
-        email: userProfile.email,
-        name: userProfile.full_name,
-        userId,
-      };
-      
-      await EmailService.sendPerfectStormAlert(recipient, alertData);
+        data: {
+          ...data,
+          message: `${data.symbol} meets your alert rules at $${data.price.toFixed(2)}`,
+        },
+      }, supabase);
+
+      if (sent) {
+        await this.updateLastAlertSent(data.alertId, supabase);
+      }
+      return sent;
     } catch (error) {
-      console.error('Perfect storm alert error:', error);
+      console.error('Watchlist rule alert error:', error);
+      return false;
     }
   }
 
@@ -305,10 +172,11 @@ export class NotificationService {
    * Send email notification
    */
   private static async sendEmailNotification(
-    notification: NotificationData
+    notification: NotificationData,
+    client?: SupabaseClient<Database>
   ): Promise<boolean> {
     try {
-      const supabase = await createClient();
+      const supabase = client ?? await createClient();
       
       // Get user email
       const { data: userProfile } = await supabase
@@ -331,6 +199,13 @@ export class NotificationService {
           return await EmailService.sendPerfectStormAlert(recipient, notification.data);
         case 'daily_digest':
           return await EmailService.sendDailyDigest(recipient, notification.data);
+        case 'screen_match':
+          return await EmailService.sendScreenMatchAlert(recipient, notification.data);
+        case 'watchlist_alert':
+        case 'stock_alert':
+          return await EmailService.sendRuleAlert(recipient, notification.data);
+        case 'exit_signal':
+          return await EmailService.sendExitSignalAlert(recipient, notification.data);
         default:
           // Generic email for other types
           return false;
@@ -362,14 +237,15 @@ export class NotificationService {
    * Send in-app notification
    */
   private static async sendInAppNotification(
-    notification: NotificationData
+    notification: NotificationData,
+    client?: SupabaseClient<Database>
   ): Promise<boolean> {
     try {
-      const supabase = await createClient();
+      const supabase = client ?? await createClient();
       
       // Store in-app notification in database
-      const { error } = await supabase
-        .from('notifications')
+      const { error } = await (supabase
+        .from('notifications') as any)
         .insert({
           user_id: notification.userId,
           type: notification.type,
@@ -398,7 +274,8 @@ export class NotificationService {
    * Get user notification preferences
    */
   private static async getUserPreferences(
-    userId: string
+    userId: string,
+    client?: SupabaseClient<Database>
   ): Promise<NotificationPreferences> {
     try {
       const cacheKey = `${this.USER_PREFERENCES_PREFIX}${userId}`;
@@ -408,7 +285,7 @@ export class NotificationService {
         return cached as NotificationPreferences;
       }
       
-      const supabase = await createClient();
+      const supabase = client ?? await createClient();
       const { data, error } = await supabase
         .from('notification_preferences')
         .select('*')
@@ -458,6 +335,8 @@ export class NotificationService {
       case 'perfect_storm':
         return preferences.perfectStormAlerts;
       case 'price_alert':
+      case 'watchlist_alert':
+      case 'stock_alert':
         return preferences.priceAlerts;
       case 'daily_digest':
         return preferences.dailyDigest;
@@ -508,7 +387,7 @@ export class NotificationService {
   /**
    * Process queued notifications (called by cron job)
    */
-  static async processQueuedNotifications(): Promise<void> {
+  static async processQueuedNotifications(supabase?: SupabaseClient<Database>): Promise<void> {
     try {
       const queueLength = await redis.llen(this.NOTIFICATION_QUEUE);
       
@@ -517,11 +396,11 @@ export class NotificationService {
         if (!notificationJson) break;
         
         const notification = JSON.parse(notificationJson as string);
-        const preferences = await this.getUserPreferences(notification.userId);
+        const preferences = await this.getUserPreferences(notification.userId, supabase);
         
         // Check if we're still in quiet hours
         if (!this.isInQuietHours(preferences)) {
-          await this.sendNotification(notification);
+          await this.sendNotification(notification, supabase);
         } else {
           // Put it back in the queue
           await redis.lpush(this.NOTIFICATION_QUEUE, notificationJson as string);
@@ -605,10 +484,11 @@ export class NotificationService {
    */
   private static async checkCooldown(
     watchlistId: string,
-    userId: string
+    userId: string,
+    client?: SupabaseClient<Database>
   ): Promise<boolean> {
     try {
-      const supabase = await createClient();
+      const supabase = client ?? await createClient();
       
       // Get watchlist item to check last alert sent
       const { data: item, error } = await supabase
@@ -644,18 +524,24 @@ export class NotificationService {
   /**
    * Update last alert sent timestamp
    */
-  private static async updateLastAlertSent(watchlistId: string): Promise<void> {
+  private static async updateLastAlertSent(
+    watchlistId: string,
+    client?: SupabaseClient<Database>
+  ): Promise<void> {
     try {
-      const supabase = await createClient();
+      const supabase = client ?? await createClient();
       
-      await supabase
-        .from('watchlists')
+      const { error } = await (supabase
+        .from('watchlists') as any)
         .update({
           last_alert_sent: new Date().toISOString(),
           updated_at: new Date().toISOString()
         })
         .eq('id', watchlistId);
-        
+      
+      if (error) {
+        console.error('Update last alert sent error:', error);
+      }
     } catch (error) {
       console.error('Update last alert sent error:', error);
     }
@@ -0,0 +1,445 @@
+import { MarketDataService } from './market-data'
+import { RedisCacheService } from './redis-cache.service'
+import { SP500GitHubService, SP500Stock } from './sp500-github.service'
+import { RatioAnalyzer } from './financial-interpreter/analyzers/ratio-analyzer'
+import { FinancialRatio, IndustryBenchmarks } from './financial-interpreter/types/interpreter-types'
+import { FinancialStatements, StockQuote } from '@/types/stock'
+
+export type MarketCapBand = NonNullable<SP500Stock['marketCapTier']>
+
+export interface PeerCompany {
+  symbol: string
+  companyName: string
+  sector: string
+  industry: string | null
+  marketCap: number | null
+  marketCapBand: MarketCapBand | null
+  matchedOn: 'industry' | 'sector' // Whether the peer shares the company's industry or only its sector
+}
+
+export interface PeerGroup {
+  symbol: string
+  companyName: string
+  sector: string
+  industry: string | null
+  marketCap: number | null
+  marketCapBand: MarketCapBand | null
+  peers: PeerCompany[]
+  sectorSize: number // Constituents in the sector the peers were drawn from
+}
+
+export interface PeerMetricDefinition {
+  id: string
+  name: string
+  category: FinancialRatio['category']
+  unit: 'percent' | 'ratio' | 'multiple'
+  higherIsBetter: boolean
+}
+
+export interface PeerMetricStats extends PeerMetricDefinition {
+  value: number | null // The company's own value
+  median: number | null
+  p25: number | null
+  p75: number | null
+  percentile: number | null // Share of peers with a lower value, 0-100
+  standing: 'better' | 'inline' | 'worse' | null // Against the peer interquartile range, allowing for direction
+  peerCount: number
+}
+
+export interface PeerCompanyMetrics {
+  symbol: string
+  companyName: string
+  marketCap: number | null
+  values: Record<string, number | null>
+}
+
+export interface PeerComparison {
+  symbol: string
+  group: PeerGroup
+  metrics: PeerMetricStats[]
+  companies: PeerCompanyMetrics[] // The company first, then its peers
+  benchmarks: IndustryBenchmarks | null
+  generatedAt: string
+}
+
+interface CachedCompanyMetrics extends PeerCompanyMetrics {
+  definitions: PeerMetricDefinition[]
+}
+
+const MAX_PEERS = 10
+const FETCH_CONCURRENCY = 3
+const GROUP_CACHE_TTL = 24 * 60 * 60 // Constituents and industries rarely change
+const METRICS_CACHE_TTL = 12 * 60 * 60 // Multiples move with the price
+
+// Leverage ratios where a lower value is the stronger position
+const LOWER_IS_BETTER = ['debt_to_equity', 'debt_to_assets', 'equity_multiplier']
+
+export const VALUATION_MULTIPLES: PeerMetricDefinition[] = [
+  { id: 'pe_ratio', name: 'Price-to-Earnings (P/E)', category: 'valuation', unit: 'multiple', higherIsBetter: false },
+  { id: 'price_to_sales', name: 'Price-to-Sales (P/S)', category: 'valuation', unit: 'multiple', higherIsBetter: false },
+  { id: 'price_to_book', name: 'Price-to-Book (P/B)', category: 'valuation', unit: 'multiple', higherIsBetter: false },
+  { id: 'ev_to_ebitda', name: 'EV / EBITDA', category: 'valuation', unit: 'multiple', higherIsBetter: false },
+  { id: 'price_to_fcf', name: 'Price-to-Free Cash Flow', category: 'valuation', unit: 'multiple', higherIsBetter: false },
+]
+
+// Yahoo sector names for companies outside the index
+const YAHOO_TO_GICS_SECTOR: Record<string, string> = {
+  'Technology': 'Information Technology',
+  'Healthcare': 'Health Care',
+  'Financial Services': 'Financials',
+  'Consumer Cyclical': 'Consumer Discretionary',
+  'Consumer Defensive': 'Consumer Staples',
+  'Basic Materials': 'Materials',
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Earnings-based multiples are meaningless when the denominator is negative
+const positiveMultiple = (price: number | null, denominator: number | null | undefined) =>
+  price && denominator && denominator > 0 ? round(price / denominator) : null
+
+export class PeerComparisonService {
+  /**
+   * Peers for a company from the S&P 500: same industry first, then the rest
+   * of its sector, with companies of a similar size ranked ahead
+   */
+  static async getPeerGroup(symbol: string): Promise<PeerGroup> {
+    const cacheKey = `peer_group:${symbol}`
+    const cached = await RedisCacheService.get(cacheKey)
+    if (cached) {
+      try {
+        return JSON.parse(cached)
+      } catch (e) {
+        console.error(`Failed to parse cached peer group for ${symbol}:`, e)
+      }
+    }
+
+    const constituents = await SP500GitHubService.getConstituents()
+    const constituent = constituents.find(c => c.symbol === symbol)
+    const quote = await MarketDataService.getQuote(symbol)
+
+    const sector = constituent?.sector ||
+      (quote?.sector ? YAHOO_TO_GICS_SECTOR[quote.sector] || quote.sector : null)
+    const candidates = constituents.filter(c => c.sector === sector && c.symbol !== symbol)
+
+    if (!sector || candidates.length === 0) {
+      throw new Error(`No S&P 500 peers found for ${symbol}`)
+    }
+
+    const quotes = await MarketDataService.getQuotes(candidates.map(c => c.symbol))
+
+    // The index's sub-industry when we have it, otherwise the quote's industry
+    const industryOf = (stock: SP500Stock | undefined, stockQuote: StockQuote | undefined | null) =>
+      stock?.industry || stockQuote?.industry || null
+
+    const industry = industryOf(constituent, quote)
+    const marketCap = quote?.marketCap || null
+    const marketCapBand = this.getMarketCapBand(marketCap)
+
+    const peers: PeerCompany[] = candidates.map(candidate => {
+      const candidateQuote = quotes.get(candidate.symbol)
+      const candidateIndustry = industryOf(candidate, candidateQuote)
+      const candidateMarketCap = candidateQuote?.marketCap || null
+
+      return {
+        symbol: candidate.symbol,
+        companyName: candidate.companyName,
+        sector: candidate.sector,
+        industry: candidateIndustry,
+        marketCap: candidateMarketCap,
+        marketCapBand: this.getMarketCapBand(candidateMarketCap),
+        matchedOn: industry && candidateIndustry === industry ? 'industry' : 'sector',
+      }
+    })
+
+    // Log distance so a $50B peer is as far from $100B as $200B is
+    const sizeDistance = (peer: PeerCompany) =>
+      marketCap && peer.marketCap ? Math.abs(Math.log(peer.marketCap / marketCap)) : Infinity
+
+    peers.sort((a, b) =>
+      Number(b.matchedOn === 'industry') - Number(a.matchedOn === 'industry') ||
+      Number(b.marketCapBand === marketCapBand) - Number(a.marketCapBand === marketCapBand) ||
+      sizeDistance(a) - sizeDistance(b)
+    )
+
+    const group: PeerGroup = {
+      symbol,
+      companyName: constituent?.companyName || quote?.name || symbol,
+      sector,
+      industry,
+      marketCap,
+      marketCapBand,
+      peers: peers.slice(0, MAX_PEERS),
+      sectorSize: candidates.length + 1,
+    }
+
+    await RedisCacheService.set(cacheKey, JSON.stringify(group), GROUP_CACHE_TTL)
+    return group
+  }
+
+  /**
+   * A company's ratios and valuation multiples against its peer group
+   */
+  static async getComparison(symbol: string): Promise<PeerComparison> {
+    const group = await this.getPeerGroup(symbol)
+
+    const metrics = await this.getCompanyMetrics([
+      { symbol, companyName: group.companyName },
+      ...group.peers,
+    ])
+
+    const target = metrics.get(symbol)
+    const peerMetrics = group.peers
+      .map(peer => metrics.get(peer.symbol))
+      .filter((m): m is CachedCompanyMetrics => !!m)
+
+    // Every metric any company reported, in the order they were first seen
+    const definitions = new Map<string, PeerMetricDefinition>()
+    for (const company of [target, ...peerMetrics]) {
+      for (const definition of company?.definitions || []) {
+        if (!definitions.has(definition.id)) definitions.set(definition.id, definition)
+      }
+    }
+
+    const stats = Array.from(definitions.values()).map(definition =>
+      this.calculateStats(
+        definition,
+        target?.values[definition.id] ?? null,
+        peerMetrics
+          .map(m => m.values[definition.id])
+          .filter((v): v is number => v !== null && v !== undefined)
+      )
+    )
+
+    const companies: PeerCompanyMetrics[] = [
+      target || { symbol, companyName: group.companyName, marketCap: group.marketCap, values: {} },
+      ...peerMetrics,
+    ].map(company => ({
+      symbol: company.symbol,
+      companyName: company.companyName,
+      marketCap: company.marketCap,
+      values: company.values,
+    }))
+
+    return {
+      symbol,
+      group,
+      metrics: stats,
+      companies,
+      benchmarks: this.toIndustryBenchmarks(group, stats),
+      generatedAt: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Valuation multiples from the latest statements and quote. Multiples with
+   * a negative denominator are left out.
+   */
+  static calculateMultiples(
+    statements: FinancialStatements,
+    quote: StockQuote | null
+  ): Record<string, number | null> {
+    const income = statements.incomeStatements.ttm || statements.incomeStatements.annual[0]
+    const balance = statements.balanceSheets.quarterly[0] || statements.balanceSheets.annual[0]
+    const cashFlow = statements.cashFlowStatements.ttm || statements.cashFlowStatements.annual[0]
+    const marketCap = quote?.marketCap || null
+
+    const totalDebt = (balance.shortTermDebt || 0) + (balance.longTermDebt || 0)
+    const enterpriseValue = marketCap ? marketCap + totalDebt - (balance.cashAndCashEquivalents || 0) : null
+    const ebitda = income.operatingIncome !== null
+      ? income.operatingIncome + (cashFlow.depreciation || 0)
+      : null
+    const freeCashFlow = cashFlow.freeCashFlow ??
+      (cashFlow.operatingCashFlow !== null
+        ? cashFlow.operatingCashFlow - Math.abs(cashFlow.capitalExpenditures || 0)
+        : null)
+
+    return {
+      pe_ratio: quote?.peRatio && quote.peRatio > 0
+        ? round(quote.peRatio)
+        : positiveMultiple(marketCap, income.netIncome),
+      price_to_sales: positiveMultiple(marketCap, income.revenue),
+      price_to_book: positiveMultiple(marketCap, balance.totalShareholderEquity),
+      ev_to_ebitda: positiveMultiple(enterpriseValue, ebitda),
+      price_to_fcf: positiveMultiple(marketCap, freeCashFlow),
+    }
+  }
+
+  /**
+   * Market cap bands, matching the S&P 500 constituent tiers
+   */
+  static getMarketCapBand(marketCap: number | null): MarketCapBand | null {
+    if (!marketCap) return null
+    if (marketCap >= 200e9) return 'mega'
+    if (marketCap >= 10e9) return 'large'
+    return 'mid'
+  }
+
+  private static async getCompanyMetrics(
+    companies: { symbol: string, companyName: string }[]
+  ): Promise<Map<string, CachedCompanyMetrics>> {
+
+    const results = new Map<string, CachedCompanyMetrics>()
+    const missing: { symbol: string, companyName: string }[] = []
+
+    for (const company of companies) {
+      const cached = await RedisCacheService.get(`peer_metrics:${company.symbol}`)
+      if (cached) {
+        try {
+          results.set(company.symbol, JSON.parse(cached))
+          continue
+        } catch (e) {
+          console.error(`Failed to parse cached peer metrics for ${company.symbol}:`, e)
+        }
+      }
+      missing.push(company)
+    }
+
+    if (missing.length === 0) return results
+
+    const quotes = await MarketDataService.getQuotes(missing.map(c => c.symbol))
+
+    for (let i = 0; i < missing.length; i += FETCH_CONCURRENCY) {
+      const batch = missing.slice(i, i + FETCH_CONCURRENCY)
+      await Promise.all(batch.map(async company => {
+        try {
+          const statements = await MarketDataService.getFinancialStatements(company.symbol)
+          if (!statements ||
+              statements.incomeStatements.annual.length === 0 ||
+              statements.balanceSheets.annual.length === 0 ||
+              statements.cashFlowStatements.annual.length === 0) {
+            console.warn(`[PeerComparison] No financial statements for ${company.symbol}`)
+            return
+          }
+
+          const metrics = await this.calculateCompanyMetrics(
+            company,
+            statements,
+            quotes.get(company.symbol) || null
+          )
+          results.set(company.symbol, metrics)
+          await RedisCacheService.set(`peer_metrics:${company.symbol}`, JSON.stringify(metrics), METRICS_CACHE_TTL)
+        } catch (error) {
+          console.error(`[PeerComparison] Failed to calculate metrics for ${company.symbol}:`, error)
+        }
+      }))
+    }
+
+    return results
+  }
+
+  private static async calculateCompanyMetrics(
+    company: { symbol: string, companyName: string },
+    statements: FinancialStatements,
+    quote: StockQuote | null
+  ): Promise<CachedCompanyMetrics> {
+
+    const ratios = await new RatioAnalyzer().analyze(statements)
+
+    const values: Record<string, number | null> = {}
+    const definitions: PeerMetricDefinition[] = []
+
+    for (const ratio of ratios) {
+      if (ratio.value === null || !isFinite(ratio.value)) continue
+      values[ratio.id] = round(ratio.value)
+      definitions.push({
+        id: ratio.id,
+        name: ratio.name,
+        category: ratio.category,
+        unit: ratio.formula.includes('× 100') ? 'percent' : 'ratio',
+        higherIsBetter: !LOWER_IS_BETTER.includes(ratio.id),
+      })
+    }
+
+    Object.assign(values, this.calculateMultiples(statements, quote))
+
+    return {
+      symbol: company.symbol,
+      companyName: company.companyName,
+      marketCap: quote?.marketCap || null,
+      values,
+      definitions: [...definitions, ...VALUATION_MULTIPLES],
+    }
+  }
+
+  private static calculateStats(
+    definition: PeerMetricDefinition,
+    value: number | null,
+    peerValues: number[]
+  ): PeerMetricStats {
+
+    const sorted = [...peerValues].sort((a, b) => a - b)
+    const median = this.quantile(sorted, 0.5)
+    const p25 = this.quantile(sorted, 0.25)
+    const p75 = this.quantile(sorted, 0.75)
+
+    let percentile: number | null = null
+    let standing: PeerMetricStats['standing'] = null
+
+    if (value !== null && sorted.length > 0) {
+      const below = sorted.filter(v => v < value).length
+      const equal = sorted.filter(v => v === value).length
+      percentile = Math.round(((below + equal / 2) / sorted.length) * 100)
+
+      if (p25 !== null && p75 !== null) {
+        const aboveRange = value > p75
+        const belowRange = value < p25
+        standing = !aboveRange && !belowRange
+          ? 'inline'
+          : aboveRange === definition.higherIsBetter ? 'better' : 'worse'
+      }
+    }
+
+    return {
+      ...definition,
+      value,
+      median: median !== null ? round(median) : null,
+      p25: p25 !== null ? round(p25) : null,
+      p75: p75 !== null ? round(p75) : null,
+      percentile,
+      standing,
+      peerCount: sorted.length,
+    }
+  }
+
+  /**
+   * Linear interpolation between the closest ranks
+   */
+  private static quantile(sorted: number[], q: number): number | null {
+    if (sorted.length === 0) return null
+    const position = (sorted.length - 1) * q
+    const lower = Math.floor(position)
+    const upper = Math.ceil(position)
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+  }
+
+  /**
+   * Peer statistics in the interpreter's benchmark shape. Only available when
+   * peers report every benchmarked ratio (banks, for example, have no gross margin).
+   */
+  private static toIndustryBenchmarks(group: PeerGroup, stats: PeerMetricStats[]): IndustryBenchmarks | null {
+    const range = (id: string) => {
+      const stat = stats.find(s => s.id === id)
+      return stat && stat.median !== null && stat.p25 !== null && stat.p75 !== null
+        ? { p25: stat.p25, median: stat.median, p75: stat.p75 }
+        : null
+    }
+
+    const currentRatio = range('current_ratio')
+    const debtToEquity = range('debt_to_equity')
+    const grossMargin = range('gross_margin')
+    const operatingMargin = range('operating_margin')
+    const roe = range('roe')
+    const roic = range('roic')
+
+    if (!currentRatio || !debtToEquity || !grossMargin || !operatingMargin || !roe || !roic) {
+      return null
+    }
+
+    return {
+      sector: group.sector,
+      industry: group.industry || group.sector,
+      benchmarks: { currentRatio, debtToEquity, grossMargin, operatingMargin, roe, roic },
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { MarketDataService } from './market-data'
+import { RedisCacheService } from './redis-cache.service'
+import { PerformancePoint } from './portfolio-performance.service'
+
+export interface BenchmarkPreset {
+  symbol: string
+  name: string
+}
+
+export interface BenchmarkPoint {
+  date: string
+  portfolioReturn: number // Cumulative time-weighted return, as a percentage
+  benchmarkReturn: number // Cumulative total return of the benchmark, as a percentage
+}
+
+export interface BenchmarkMetrics {
+  portfolioReturn: number
+  benchmarkReturn: number
+  excessReturn: number // Portfolio minus benchmark cumulative return
+  alpha: number | null // Annualized Jensen's alpha (risk-free rate of zero), as a percentage
+  beta: number | null
+  correlation: number | null
+  trackingError: number | null // Annualized standard deviation of excess returns, as a percentage
+  observations: number // Number of aligned periods used for the statistics
+}
+
+export interface BenchmarkComparison {
+  benchmark: string
+  series: BenchmarkPoint[]
+  metrics: BenchmarkMetrics
+}
+
+export const DEFAULT_BENCHMARK = 'SPY'
+
+export const BENCHMARK_PRESETS: BenchmarkPreset[] = [
+  { symbol: 'SPY', name: 'S&P 500' },
+  { symbol: 'QQQ', name: 'Nasdaq 100' },
+  { symbol: 'IWM', name: 'Russell 2000' },
+  { symbol: 'XLK', name: 'Technology' },
+  { symbol: 'XLF', name: 'Financials' },
+  { symbol: 'XLV', name: 'Health Care' },
+  { symbol: 'XLY', name: 'Consumer Discretionary' },
+  { symbol: 'XLP', name: 'Consumer Staples' },
+  { symbol: 'XLE', name: 'Energy' },
+  { symbol: 'XLI', name: 'Industrials' },
+  { symbol: 'XLB', name: 'Materials' },
+  { symbol: 'XLU', name: 'Utilities' },
+  { symbol: 'XLRE', name: 'Real Estate' },
+  { symbol: 'XLC', name: 'Communication Services' },
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class PortfolioBenchmarkService {
+  /**
+   * Align a portfolio performance series with a benchmark and compare them
+   */
+  static async compare(
+    series: PerformancePoint[],
+    benchmarkSymbol: string = DEFAULT_BENCHMARK
+  ): Promise<BenchmarkComparison> {
+
+    const benchmark = benchmarkSymbol.toUpperCase()
+
+    if (series.length === 0) {
+      return { benchmark, series: [], metrics: this.calculateMetrics([], [], 0) }
+    }
+
+    const closes = await this.getBenchmarkCloses(
+      benchmark,
+      series[0].date,
+      series[series.length - 1].date
+    )
+
+    // Use the last close on or before each portfolio date so weekends and
+    // holidays carry the prior session forward
+    const aligned: { date: string, portfolioIndex: number, benchmarkClose: number }[] = []
+    let closeIndex = 0
+    let lastClose: number | null = null
+
+    for (const point of series) {
+      while (closeIndex < closes.length && closes[closeIndex].date <= point.date) {
+        lastClose = closes[closeIndex].close
+        closeIndex++
+      }
+      if (lastClose !== null) {
+        aligned.push({
+          date: point.date,
+          portfolioIndex: 1 + point.cumulativeReturn / 100,
+          benchmarkClose: lastClose,
+        })
+      }
+    }
+
+    if (aligned.length === 0) {
+      return { benchmark, series: [], metrics: this.calculateMetrics([], [], 0) }
+    }
+
+    // Rebase both to the first aligned date
+    const baseIndex = aligned[0].portfolioIndex
+    const baseClose = aligned[0].benchmarkClose
+    const comparisonSeries: BenchmarkPoint[] = aligned.map(point => ({
+      date: point.date,
+      portfolioReturn: (point.portfolioIndex / baseIndex - 1) * 100,
+      benchmarkReturn: (point.benchmarkClose / baseClose - 1) * 100,
+    }))
+
+    const portfolioReturns: number[] = []
+    const benchmarkReturns: number[] = []
+    for (let i = 1; i < aligned.length; i++) {
+      portfolioReturns.push(aligned[i].portfolioIndex / aligned[i - 1].portfolioIndex - 1)
+      benchmarkReturns.push(aligned[i].benchmarkClose / aligned[i - 1].benchmarkClose - 1)
+    }
+
+    const spanDays = (
+      new Date(aligned[aligned.length - 1].date).getTime() - new Date(aligned[0].date).getTime()
+    ) / DAY_MS
+    const periodsPerYear = portfolioReturns.length > 0 && spanDays > 0
+      ? 365 / (spanDays / portfolioReturns.length)
+      : 0
+
+    const metrics = this.calculateMetrics(portfolioReturns, benchmarkReturns, periodsPerYear)
+    const last = comparisonSeries[comparisonSeries.length - 1]
+
+    return {
+      benchmark,
+      series: comparisonSeries,
+      metrics: {
+        ...metrics,
+        portfolioReturn: last.portfolioReturn,
+        benchmarkReturn: last.benchmarkReturn,
+        excessReturn: last.portfolioReturn - last.benchmarkReturn,
+      },
+    }
+  }
+
+  /**
+   * Calculate alpha, beta, correlation and tracking error from aligned
+   * periodic returns
+   */
+  static calculateMetrics(
+    portfolioReturns: number[],
+    benchmarkReturns: number[],
+    periodsPerYear: number
+  ): BenchmarkMetrics {
+
+    const n = Math.min(portfolioReturns.length, benchmarkReturns.length)
+    const metrics: BenchmarkMetrics = {
+      portfolioReturn: 0,
+      benchmarkReturn: 0,
+      excessReturn: 0,
+      alpha: null,
+      beta: null,
+      correlation: null,
+      trackingError: null,
+      observations: n,
+    }
+
+    // Need at least two periods for a sample variance
+    if (n < 2) {
+      return metrics
+    }
+
+    const meanP = this.mean(portfolioReturns)
+    const meanB = this.mean(benchmarkReturns)
+
+    let covariance = 0
+    let varianceP = 0
+    let varianceB = 0
+    for (let i = 0; i < n; i++) {
+      covariance += (portfolioReturns[i] - meanP) * (benchmarkReturns[i] - meanB)
+      varianceP += Math.pow(portfolioReturns[i] - meanP, 2)
+      varianceB += Math.pow(benchmarkReturns[i] - meanB, 2)
+    }
+    covariance /= n - 1
+    varianceP /= n - 1
+    varianceB /= n - 1
+
+    const excess = portfolioReturns.map((r, i) => r - benchmarkReturns[i])
+    const meanExcess = this.mean(excess)
+    const excessVariance = excess.reduce((sum, r) => sum + Math.pow(r - meanExcess, 2), 0) / (n - 1)
+
+    if (varianceB > 0) {
+      metrics.beta = covariance / varianceB
+      metrics.alpha = (meanP - metrics.beta * meanB) * periodsPerYear * 100
+    }
+    if (varianceB > 0 && varianceP > 0) {
+      metrics.correlation = covariance / Math.sqrt(varianceP * varianceB)
+    }
+    metrics.trackingError = Math.sqrt(excessVariance * periodsPerYear) * 100
+
+    return metrics
+  }
+
+  /**
+   * Daily benchmark closes (dividend-adjusted) between two YYYY-MM-DD dates
+   */
+  private static async getBenchmarkCloses(
+    symbol: string,
+    startDate: string,
+    endDate: string
+  ): Promise<{ date: string, close: number }[]> {
+
+    const cacheKey = `${startDate}:${endDate}`
+    const cached = await RedisCacheService.getHistorical(symbol, cacheKey)
+    if (cached && cached.length > 0) {
+      return cached
+    }
+
+    // Start a week early so the first portfolio date has a prior close
+    const start = new Date(new Date(`${startDate}T00:00:00Z`).getTime() - 7 * DAY_MS)
+    const end = new Date(new Date(`${endDate}T00:00:00Z`).getTime() + DAY_MS)
+    const result = await MarketDataService.getHistorical(symbol, { startDate: start, endDate: end })
+    const historical = result && !result.provenance.synthetic ? result.data : []
+
+    const closes = historical
+      .map(bar => ({
+        date: new Date(bar.date).toISOString().split('T')[0],
+        close: bar.adjustedClose || bar.close,
+      }))
+      .filter(bar => bar.close > 0)
+
+    if (closes.length > 0) {
+      await RedisCacheService.setHistorical(symbol, cacheKey, closes)
+    }
+
+    return closes
+  }
+
+  private static mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+  }
+}
@@ -0,0 +1,632 @@
+import { Database } from '@/types/database'
+import { SupabaseClient } from '@supabase/supabase-js'
+import {
+  PortfolioLedgerService,
+  PortfolioTransaction,
+  RecordTransactionInput,
+  TransactionType,
+} from './portfolio-ledger.service'
+import { PortfolioService } from './portfolio.service'
+
+export type BrokerFormat = 'generic' | 'fidelity' | 'schwab' | 'robinhood' | 'ibkr'
+
+export const BROKER_FORMATS: BrokerFormat[] = ['generic', 'fidelity', 'schwab', 'robinhood', 'ibkr']
+
+export interface ColumnMapping {
+  date: string
+  symbol: string
+  action?: string // Omit when the quantity sign carries the side
+  quantity: string
+  price: string
+  fees?: string // Several fee columns are joined with ' + '
+  amount?: string
+}
+
+export interface ImportedTrade {
+  row: number // 1-based line number in the file
+  symbol: string
+  type: TransactionType
+  quantity: number
+  price: number
+  amount?: number
+  fees: number
+  executedAt: string
+  description: string // Broker's action text
+  status: 'new' | 'duplicate' | 'invalid'
+  error?: string
+}
+
+export interface ImportPreview {
+  broker: BrokerFormat
+  headers: string[]
+  mapping: ColumnMapping
+  trades: ImportedTrade[]
+  skipped: { row: number, reason: string }[] // Rows that are not trades (transfers, interest, ...)
+  summary: {
+    total: number
+    new: number
+    duplicate: number
+    invalid: number
+  }
+}
+
+export interface ImportResult {
+  imported: number
+  skipped: number
+  transactions: PortfolioTransaction[]
+}
+
+interface BrokerPreset {
+  name: string
+  // Candidate headers per field; the first present one wins, except fees,
+  // where every present column is summed (e.g. Fidelity commission + fees)
+  columns: Record<keyof ColumnMapping, string[]>
+}
+
+const BROKER_PRESETS: Record<BrokerFormat, BrokerPreset> = {
+  generic: {
+    name: 'Generic CSV',
+    columns: {
+      date: ['date', 'trade date', 'transaction date', 'executed at', 'run date', 'activity date'],
+      symbol: ['symbol', 'ticker', 'instrument'],
+      action: ['action', 'type', 'transaction type', 'side', 'trans code', 'buy/sell'],
+      quantity: ['quantity', 'qty', 'shares'],
+      price: ['price', 'trade price', 'price ($)'],
+      fees: ['fees', 'fee', 'commission', 'fees & comm'],
+      amount: ['amount', 'net amount', 'amount ($)'],
+    },
+  },
+  fidelity: {
+    name: 'Fidelity',
+    columns: {
+      date: ['run date'],
+      symbol: ['symbol'],
+      action: ['action'],
+      quantity: ['quantity'],
+      price: ['price ($)', 'price'],
+      fees: ['commission ($)', 'fees ($)'],
+      amount: ['amount ($)', 'amount'],
+    },
+  },
+  schwab: {
+    name: 'Charles Schwab',
+    columns: {
+      date: ['date'],
+      symbol: ['symbol'],
+      action: ['action'],
+      quantity: ['quantity'],
+      price: ['price'],
+      fees: ['fees & comm'],
+      amount: ['amount'],
+    },
+  },
+  robinhood: {
+    name: 'Robinhood',
+    columns: {
+      date: ['activity date'],
+      symbol: ['instrument'],
+      action: ['trans code'],
+      quantity: ['quantity'],
+      price: ['price'],
+      fees: [],
+      amount: ['amount'],
+    },
+  },
+  ibkr: {
+    name: 'Interactive Brokers',
+    columns: {
+      date: ['tradedate', 'trade date', 'date/time'],
+      symbol: ['symbol'],
+      action: ['buy/sell'],
+      quantity: ['quantity'],
+      price: ['tradeprice', 't. price', 'price'],
+      fees: ['ibcommission', 'comm/fee', 'commission'],
+      amount: ['proceeds', 'netcash'],
+    },
+  },
+}
+
+// Larger files should be split; each row becomes a ledger insert
+const MAX_IMPORT_ROWS = 5000
+
+// Header rows are searched for within the first lines (Fidelity adds a preamble)
+const HEADER_SEARCH_ROWS = 20
+
+export class PortfolioImportService {
+  /**
+   * Parse and classify a broker CSV, flagging trades already in the ledger
+   */
+  static async preview(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    csv: string,
+    broker: BrokerFormat = 'generic',
+    mapping?: ColumnMapping,
+    excludeRows: number[] = []
+  ): Promise<ImportPreview> {
+
+    const existing = await PortfolioLedgerService.getTransactions(supabase, userId)
+    return this.buildPreview(csv, broker, existing, mapping, excludeRows)
+  }
+
+  /**
+   * Record every new trade in the file, skipping duplicates, invalid rows and
+   * any rows the user excluded after previewing
+   */
+  static async commit(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    csv: string,
+    broker: BrokerFormat = 'generic',
+    mapping?: ColumnMapping,
+    excludeRows: number[] = []
+  ): Promise<ImportResult> {
+
+    const preview = await this.preview(supabase, userId, csv, broker, mapping, excludeRows)
+    const toImport = preview.trades.filter(trade => trade.status === 'new')
+
+    const inputs: RecordTransactionInput[] = toImport.map(trade => ({
+      symbol: trade.symbol,
+      type: trade.type,
+      quantity: trade.quantity,
+      price: trade.price,
+      amount: trade.amount,
+      fees: trade.fees,
+      notes: `Imported from ${BROKER_PRESETS[broker].name}: ${trade.description}`.slice(0, 500),
+      executedAt: new Date(trade.executedAt),
+    }))
+
+    const transactions = await PortfolioService.recordTransactions(supabase, userId, inputs)
+
+    return {
+      imported: transactions.length,
+      skipped: preview.trades.length - toImport.length,
+      transactions,
+    }
+  }
+
+  /**
+   * Build the preview against a known ledger
+   */
+  static buildPreview(
+    csv: string,
+    broker: BrokerFormat,
+    existing: PortfolioTransaction[],
+    mapping?: ColumnMapping,
+    excludeRows: number[] = []
+  ): ImportPreview {
+
+    const rows = this.parseCsv(csv)
+
+    if (rows.length === 0) {
+      throw new Error('CSV file is empty')
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error('CSV file has too many rows')
+    }
+
+    const { headerIndex, columns } = this.resolveColumns(rows, broker, mapping)
+    const headers = rows[headerIndex]
+    const excluded = new Set(excludeRows)
+    const trades: ImportedTrade[] = []
+    const skipped: { row: number, reason: string }[] = []
+
+    for (let i = headerIndex + 1; i < rows.length; i++) {
+      const rowNumber = i + 1
+      if (excluded.has(rowNumber)) continue
+
+      const row = rows[i]
+      const result = this.parseRow(row, columns, rowNumber)
+
+      if (result === null) continue // Blank or footer line
+      if ('reason' in result) {
+        skipped.push({ row: rowNumber, reason: result.reason })
+        continue
+      }
+      trades.push(result)
+    }
+
+    this.sequenceTrades(trades)
+    this.flagDuplicates(trades, existing)
+    this.validateSells(trades, existing)
+
+    return {
+      broker,
+      headers,
+      mapping: {
+        date: headers[columns.date],
+        symbol: headers[columns.symbol],
+        action: columns.action !== undefined ? headers[columns.action] : undefined,
+        quantity: headers[columns.quantity],
+        price: headers[columns.price],
+        fees: columns.fees.length > 0 ? columns.fees.map(c => headers[c]).join(' + ') : undefined,
+        amount: columns.amount !== undefined ? headers[columns.amount] : undefined,
+      },
+      trades,
+      skipped,
+      summary: {
+        total: trades.length,
+        new: trades.filter(t => t.status === 'new').length,
+        duplicate: trades.filter(t => t.status === 'duplicate').length,
+        invalid: trades.filter(t => t.status === 'invalid').length,
+      },
+    }
+  }
+
+  /**
+   * Split CSV text into rows of trimmed cells, honouring quoted fields
+   */
+  static parseCsv(csv: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let cell = ''
+    let inQuotes = false
+    const text = csv.replace(/^\uFEFF/, '') // Excel adds a byte-order mark
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else if (char === '"') {
+          inQuotes = false
+        } else {
+          cell += char
+        }
+        continue
+      }
+
+      if (char === '"') {
+        inQuotes = true
+      } else if (char === ',') {
+        row.push(cell.trim())
+        cell = ''
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++
+        row.push(cell.trim())
+        rows.push(row)
+        row = []
+        cell = ''
+      } else {
+        cell += char
+      }
+    }
+
+    if (cell || row.length > 0) {
+      row.push(cell.trim())
+      rows.push(row)
+    }
+
+    // Drop trailing empty lines
+    while (rows.length > 0 && rows[rows.length - 1].every(c => c === '')) {
+      rows.pop()
+    }
+
+    return rows
+  }
+
+  /**
+   * Locate the header row and map each field to a column index
+   */
+  private static resolveColumns(
+    rows: string[][],
+    broker: BrokerFormat,
+    mapping?: ColumnMapping
+  ) {
+    const preset = BROKER_PRESETS[broker]
+    const candidates: Record<keyof ColumnMapping, string[]> = mapping
+      ? {
+        date: [mapping.date],
+        symbol: [mapping.symbol],
+        action: mapping.action ? [mapping.action] : [],
+        quantity: [mapping.quantity],
+        price: [mapping.price],
+        fees: mapping.fees ? mapping.fees.split(' + ') : [],
+        amount: mapping.amount ? [mapping.amount] : [],
+      }
+      : preset.columns
+
+    const find = (headers: string[], names: string[]) => {
+      for (const name of names) {
+        const index = headers.indexOf(name.toLowerCase().trim())
+        if (index !== -1) return index
+      }
+      return undefined
+    }
+
+    for (let i = 0; i < Math.min(rows.length, HEADER_SEARCH_ROWS); i++) {
+      const headers = rows[i].map(h => h.toLowerCase().trim())
+      const date = find(headers, candidates.date)
+      const symbol = find(headers, candidates.symbol)
+      const quantity = find(headers, candidates.quantity)
+      const price = find(headers, candidates.price)
+
+      if (date === undefined || symbol === undefined || quantity === undefined || price === undefined) {
+        continue
+      }
+
+      return {
+        headerIndex: i,
+        columns: {
+          date,
+          symbol,
+          quantity,
+          price,
+          action: find(headers, candidates.action),
+          amount: find(headers, candidates.amount),
+          fees: candidates.fees
+            .map(name => headers.indexOf(name.toLowerCase().trim()))
+            .filter(index => index !== -1),
+        },
+      }
+    }
+
+    throw new Error('Could not find required columns in CSV')
+  }
+
+  /**
+   * Turn one CSV row into a trade, a skip reason, or null for blank lines
+   */
+  private static parseRow(
+    row: string[],
+    columns: ReturnType<typeof PortfolioImportService.resolveColumns>['columns'],
+    rowNumber: number
+  ): ImportedTrade | { reason: string } | null {
+
+    const cell = (index?: number) => (index !== undefined ? row[index] || '' : '')
+    const rawDate = cell(columns.date)
+    const symbol = cell(columns.symbol).toUpperCase().replace(/\s+/g, '')
+
+    if (!rawDate && !symbol) return null
+
+    const executedAt = this.parseDate(rawDate)
+    if (!executedAt) {
+      // Disclaimers and totals at the end of broker exports
+      return symbol ? { reason: `Unrecognized date "${rawDate}"` } : null
+    }
+
+    const signedQuantity = this.parseNumber(cell(columns.quantity)) ?? 0
+    const description = cell(columns.action)
+    const type = this.classifyAction(description, signedQuantity)
+
+    if (!type) {
+      return { reason: description ? `Not a trade: ${description}` : 'Missing action' }
+    }
+
+    if (!symbol) {
+      return { reason: `No symbol for ${description || type}` }
+    }
+
+    const trade: ImportedTrade = {
+      row: rowNumber,
+      symbol,
+      type,
+      quantity: Math.abs(signedQuantity),
+      price: Math.abs(this.parseNumber(cell(columns.price)) ?? 0),
+      fees: columns.fees.reduce((sum, index) => sum + Math.abs(this.parseNumber(cell(index)) ?? 0), 0),
+      executedAt: executedAt.toISOString(),
+      description: description || type,
+      status: 'new',
+    }
+
+    const amount = this.parseNumber(cell(columns.amount))
+
+    switch (type) {
+      case 'buy':
+      case 'sell':
+        if (!trade.price && amount && trade.quantity) {
+          trade.price = Math.abs(amount) / trade.quantity
+        }
+        if (!trade.quantity || !trade.price) {
+          trade.status = 'invalid'
+          trade.error = 'Quantity and price are required'
+        }
+        break
+      case 'dividend':
+      case 'fee':
+        trade.amount = Math.abs(amount ?? trade.quantity * trade.price)
+        if (!trade.amount) {
+          trade.status = 'invalid'
+          trade.error = 'Amount is required'
+        }
+        break
+      case 'split':
+        trade.status = 'invalid'
+        trade.error = 'Splits need a ratio; record them manually'
+        break
+    }
+
+    return trade
+  }
+
+  /**
+   * Map a broker's action text to a transaction type
+   */
+  private static classifyAction(action: string, signedQuantity: number): TransactionType | null {
+    const text = action.toLowerCase().trim()
+
+    if (!text) {
+      // Formats without an action column use the quantity sign
+      if (signedQuantity > 0) return 'buy'
+      if (signedQuantity < 0) return 'sell'
+      return null
+    }
+
+    if (/\bsplit\b|^spl$|^spr$/.test(text)) return 'split'
+    if (/reinvest(ment| shares)/.test(text) && !/dividend/.test(text)) return 'buy'
+    if (/dividend|^cdiv$|^div$/.test(text)) return 'dividend'
+    if (/\bbought\b|\bbuy\b/.test(text)) return 'buy'
+    if (/\bsold\b|\bsell\b/.test(text)) return 'sell'
+    if (/\bfee\b|\bfees\b/.test(text)) return 'fee'
+
+    return null
+  }
+
+  /**
+   * Parse "$1,234.50", "(12.00)" and "-3" style numbers
+   */
+  private static parseNumber(value: string): number | null {
+    const trimmed = value.trim()
+    if (!trimmed) return null
+
+    const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-')
+    const parsed = parseFloat(trimmed.replace(/[()$,\s+-]/g, ''))
+
+    if (isNaN(parsed)) return null
+    return negative ? -parsed : parsed
+  }
+
+  /**
+   * Parse the first date in a cell (YYYY-MM-DD, YYYYMMDD or MM/DD/YYYY).
+   * Schwab writes "01/15/2024 as of 01/12/2024"; the first date is the trade date.
+   */
+  private static parseDate(value: string): Date | null {
+    let year: number
+    let month: number
+    let day: number
+
+    const iso = value.match(/(\d{4})-(\d{2})-(\d{2})/)
+    const compact = value.match(/^(\d{4})(\d{2})(\d{2})/)
+    const us = value.match(/(\d{1,2})\/(\d{1,2})\/(\d{2,4})/)
+
+    if (iso) {
+      [year, month, day] = [parseInt(iso[1]), parseInt(iso[2]), parseInt(iso[3])]
+    } else if (compact) {
+      [year, month, day] = [parseInt(compact[1]), parseInt(compact[2]), parseInt(compact[3])]
+    } else if (us) {
+      [month, day, year] = [parseInt(us[1]), parseInt(us[2]), parseInt(us[3])]
+      if (year < 100) year += 2000
+    } else {
+      return null
+    }
+
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null
+
+    // Midday UTC keeps the calendar date stable across time zones
+    return new Date(Date.UTC(year, month - 1, day, 12))
+  }
+
+  /**
+   * Space trades on the same day a second apart in the order they happened,
+   * so a same-day buy replays before its sell. Broker exports list trades
+   * oldest or newest first; newest-first files are walked in reverse.
+   */
+  private static sequenceTrades(trades: ImportedTrade[]): void {
+    if (trades.length < 2) return
+
+    const first = new Date(trades[0].executedAt).getTime()
+    const last = new Date(trades[trades.length - 1].executedAt).getTime()
+    const ordered = first > last ? [...trades].reverse() : trades
+    const perDay = new Map<string, number>() // date -> trades seen on it
+
+    for (const trade of ordered) {
+      const position = perDay.get(trade.executedAt) || 0
+      perDay.set(trade.executedAt, position + 1)
+      trade.executedAt = new Date(new Date(trade.executedAt).getTime() + position * 1000).toISOString()
+    }
+  }
+
+  /**
+   * Mark trades that already exist in the ledger (same symbol, type, day,
+   * quantity and price). Counts are tracked so repeated identical fills in
+   * the file are only matched once each.
+   */
+  private static flagDuplicates(trades: ImportedTrade[], existing: PortfolioTransaction[]): void {
+    const counts = new Map<string, number>()
+
+    for (const tx of existing) {
+      const key = this.tradeKey(
+        tx.symbol,
+        tx.transaction_type,
+        tx.executed_at,
+        Number(tx.quantity),
+        Number(tx.price),
+        Number(tx.amount)
+      )
+      counts.set(key, (counts.get(key) || 0) + 1)
+    }
+
+    for (const trade of trades) {
+      if (trade.status !== 'new') continue
+
+      const key = this.tradeKey(
+        trade.symbol,
+        trade.type,
+        trade.executedAt,
+        trade.quantity,
+        trade.price,
+        trade.amount ?? trade.quantity * trade.price
+      )
+      const remaining = counts.get(key) || 0
+
+      if (remaining > 0) {
+        trade.status = 'duplicate'
+        counts.set(key, remaining - 1)
+      }
+    }
+  }
+
+  /**
+   * Replay the ledger and new trades in date order and reject any sell that
+   * would take a position below zero
+   */
+  private static validateSells(trades: ImportedTrade[], existing: PortfolioTransaction[]): void {
+    const events = [
+      ...existing.map(tx => ({
+        symbol: tx.symbol,
+        type: tx.transaction_type,
+        quantity: Number(tx.quantity),
+        splitRatio: tx.split_ratio ? Number(tx.split_ratio) : null,
+        at: new Date(tx.executed_at).getTime(),
+        trade: null as ImportedTrade | null,
+      })),
+      ...trades
+        .filter(trade => trade.status === 'new')
+        .map(trade => ({
+          symbol: trade.symbol,
+          type: trade.type,
+          quantity: trade.quantity,
+          splitRatio: null,
+          at: new Date(trade.executedAt).getTime(),
+          trade,
+        })),
+    ].sort((a, b) => a.at - b.at)
+
+    const held = new Map<string, number>()
+
+    for (const event of events) {
+      const quantity = held.get(event.symbol) || 0
+
+      if (event.type === 'buy') {
+        held.set(event.symbol, quantity + event.quantity)
+      } else if (event.type === 'sell') {
+        if (event.trade && event.quantity > quantity + 1e-6) {
+          event.trade.status = 'invalid'
+          event.trade.error = 'Sells more shares than held on this date'
+          continue
+        }
+        held.set(event.symbol, Math.max(0, quantity - event.quantity))
+      } else if (event.type === 'split' && event.splitRatio) {
+        held.set(event.symbol, quantity * event.splitRatio)
+      }
+    }
+  }
+
+  private static tradeKey(
+    symbol: string,
+    type: TransactionType,
+    executedAt: string,
+    quantity: number,
+    price: number,
+    amount: number
+  ): string {
+    const day = new Date(executedAt).toISOString().split('T')[0]
+    const size = type === 'dividend' || type === 'fee'
+      ? amount.toFixed(2)
+      : `${quantity.toFixed(4)}@${price.toFixed(2)}`
+    return `${symbol}|${type}|${day}|${size}`
+  }
+}
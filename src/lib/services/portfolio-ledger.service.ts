@@ -0,0 +1,482 @@
+import { Database, Json } from '@/types/database'
+import { SupabaseClient } from '@supabase/supabase-js'
+
+type TransactionRow = Database['public']['Tables']['portfolio_transactions']['Row']
+type TransactionInsert = Database['public']['Tables']['portfolio_transactions']['Insert']
+
+export type PortfolioTransaction = TransactionRow
+export type TransactionType = TransactionRow['transaction_type']
+
+export type LotMethod = 'fifo' | 'lifo' | 'highest_cost' | 'specific'
+export type HoldingTerm = 'short_term' | 'long_term'
+
+export const TRANSACTION_TYPES: TransactionType[] = ['buy', 'sell', 'dividend', 'split', 'fee']
+export const LOT_METHODS: LotMethod[] = ['fifo', 'lifo', 'highest_cost', 'specific']
+
+export interface LotSelection {
+  lotId: string // Id of the buy transaction that opened the lot
+  quantity: number
+}
+
+export interface RecordTransactionInput {
+  symbol: string
+  type: TransactionType
+  quantity?: number
+  price?: number
+  amount?: number // Cash amount for dividends and standalone fees
+  fees?: number // Commission charged on a buy or sell
+  splitRatio?: number // New shares per old share
+  lotMethod?: LotMethod // Sells only; defaults to FIFO
+  lotSelections?: LotSelection[] // Sells using the specific-lot method
+  notes?: string
+  executedAt?: Date
+}
+
+export interface TaxLot {
+  id: string // Id of the buy transaction that opened the lot
+  symbol: string
+  acquiredAt: string
+  quantity: number // Remaining shares, split-adjusted
+  costBasis: number // Remaining cost including buy fees
+  costPerShare: number
+}
+
+export interface RealizedLot {
+  lotId: string
+  sellTransactionId: string
+  symbol: string
+  acquiredAt: string
+  soldAt: string
+  quantity: number
+  proceeds: number // Net of the sell fee share allocated to this lot
+  costBasis: number
+  gain: number
+  term: HoldingTerm
+}
+
+export interface DerivedPosition {
+  symbol: string
+  quantity: number
+  averageCost: number
+  costBasis: number
+  realizedGain: number // Net of trade fees and standalone fee charges
+  dividendIncome: number
+  totalFees: number
+  openedAt: string | null // Start of the current holding period
+  lastTransactionAt: string | null
+  transactionCount: number
+  lots: TaxLot[] // Open lots, oldest first
+  realizedLots: RealizedLot[]
+}
+
+export interface LedgerSummary {
+  positions: DerivedPosition[] // Includes closed positions (quantity 0)
+  realizedGain: number
+  realizedShortTerm: number
+  realizedLongTerm: number
+  dividendIncome: number
+  totalFees: number
+}
+
+export interface TermTotals {
+  proceeds: number
+  costBasis: number
+  gain: number
+}
+
+export interface RealizedGainsReport {
+  year: number | null // null covers every year
+  shortTerm: TermTotals
+  longTerm: TermTotals
+  lots: RealizedLot[]
+}
+
+// Quantities below this are treated as a fully closed position
+const QUANTITY_EPSILON = 1e-6
+
+export class PortfolioLedgerService {
+  /**
+   * Get a user's transactions in execution order
+   */
+  static async getTransactions(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    symbol?: string
+  ): Promise<PortfolioTransaction[]> {
+
+    let query = supabase
+      .from('portfolio_transactions')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (symbol) {
+      query = query.eq('symbol', symbol)
+    }
+
+    const { data, error } = await query
+      .order('executed_at', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching portfolio transactions:', error)
+      throw error
+    }
+
+    return data || []
+  }
+
+  /**
+   * Append a transaction to the ledger
+   */
+  static async recordTransaction(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    input: RecordTransactionInput
+  ): Promise<PortfolioTransaction> {
+
+    const transactionData = this.buildTransactionInsert(userId, input)
+
+    const { data, error } = await (supabase
+      .from('portfolio_transactions') as any)
+      .insert(transactionData)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error recording transaction:', error)
+      throw error
+    }
+
+    return data
+  }
+
+  /**
+   * Append many transactions to the ledger in one insert
+   */
+  static async recordTransactions(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    inputs: RecordTransactionInput[]
+  ): Promise<PortfolioTransaction[]> {
+
+    if (inputs.length === 0) return []
+
+    const transactionData = inputs.map(input => this.buildTransactionInsert(userId, input))
+
+    const { data, error } = await (supabase
+      .from('portfolio_transactions') as any)
+      .insert(transactionData)
+      .select()
+
+    if (error) {
+      console.error('Error recording transactions:', error)
+      throw error
+    }
+
+    return data || []
+  }
+
+  /**
+   * Replay transactions into per-symbol positions, matching sells to tax lots
+   */
+  static derivePositions(transactions: PortfolioTransaction[]): DerivedPosition[] {
+    const positions = new Map<string, DerivedPosition>()
+
+    for (const tx of this.sortTransactions(transactions)) {
+      let position = positions.get(tx.symbol)
+      if (!position) {
+        position = {
+          symbol: tx.symbol,
+          quantity: 0,
+          averageCost: 0,
+          costBasis: 0,
+          realizedGain: 0,
+          dividendIncome: 0,
+          totalFees: 0,
+          openedAt: null,
+          lastTransactionAt: null,
+          transactionCount: 0,
+          lots: [],
+          realizedLots: [],
+        }
+        positions.set(tx.symbol, position)
+      }
+
+      const quantity = Number(tx.quantity) || 0
+      const price = Number(tx.price) || 0
+      const fees = Number(tx.fees) || 0
+      const amount = Number(tx.amount) || 0
+
+      switch (tx.transaction_type) {
+        case 'buy':
+          if (quantity > 0) {
+            const costBasis = quantity * price + fees
+            position.lots.push({
+              id: tx.id,
+              symbol: tx.symbol,
+              acquiredAt: tx.executed_at,
+              quantity,
+              costBasis,
+              costPerShare: costBasis / quantity,
+            })
+          }
+          break
+
+        case 'sell': {
+          const matched = this.matchLots(position.lots, quantity, tx.lot_method || 'fifo', tx.lot_selections)
+          const sold = matched.reduce((sum, m) => sum + m.quantity, 0)
+          // A sell with nothing to match still costs its fee
+          let sellGain = sold > 0 ? 0 : -fees
+
+          for (const { lot, quantity: lotQuantity } of matched) {
+            const costBasis = lot.costPerShare * lotQuantity
+            const proceeds = lotQuantity * price - (sold > 0 ? fees * (lotQuantity / sold) : 0)
+
+            position.realizedLots.push({
+              lotId: lot.id,
+              sellTransactionId: tx.id,
+              symbol: tx.symbol,
+              acquiredAt: lot.acquiredAt,
+              soldAt: tx.executed_at,
+              quantity: lotQuantity,
+              proceeds,
+              costBasis,
+              gain: proceeds - costBasis,
+              term: this.getHoldingTerm(lot.acquiredAt, tx.executed_at),
+            })
+
+            sellGain += proceeds - costBasis
+            lot.quantity -= lotQuantity
+            lot.costBasis -= costBasis
+          }
+
+          position.lots = position.lots.filter(lot => lot.quantity > QUANTITY_EPSILON)
+          position.realizedGain += sellGain
+          break
+        }
+
+        case 'split': {
+          // Cost basis and acquisition dates are unchanged; only share counts move
+          const ratio = Number(tx.split_ratio) || 1
+          for (const lot of position.lots) {
+            lot.quantity *= ratio
+            lot.costPerShare = lot.costBasis / lot.quantity
+          }
+          break
+        }
+
+        case 'dividend':
+          position.dividendIncome += amount
+          break
+
+        case 'fee':
+          position.realizedGain -= amount
+          position.totalFees += amount
+          break
+      }
+
+      position.totalFees += fees
+      position.quantity = position.lots.reduce((sum, lot) => sum + lot.quantity, 0)
+      position.costBasis = position.lots.reduce((sum, lot) => sum + lot.costBasis, 0)
+      position.averageCost = position.quantity > 0 ? position.costBasis / position.quantity : 0
+      // Lots are opened in replay order, so the first open lot is the oldest
+      position.openedAt = position.lots[0]?.acquiredAt || null
+      position.lastTransactionAt = tx.executed_at
+      position.transactionCount++
+    }
+
+    return Array.from(positions.values())
+  }
+
+  /**
+   * Summarize realized results across all positions
+   */
+  static summarize(transactions: PortfolioTransaction[]): LedgerSummary {
+    const positions = this.derivePositions(transactions)
+    const realizedLots = positions.flatMap(p => p.realizedLots)
+
+    return {
+      positions,
+      realizedGain: positions.reduce((sum, p) => sum + p.realizedGain, 0),
+      realizedShortTerm: realizedLots
+        .filter(r => r.term === 'short_term')
+        .reduce((sum, r) => sum + r.gain, 0),
+      realizedLongTerm: realizedLots
+        .filter(r => r.term === 'long_term')
+        .reduce((sum, r) => sum + r.gain, 0),
+      dividendIncome: positions.reduce((sum, p) => sum + p.dividendIncome, 0),
+      totalFees: positions.reduce((sum, p) => sum + p.totalFees, 0),
+    }
+  }
+
+  /**
+   * Build a realized gains report split by holding period
+   */
+  static getRealizedGainsReport(
+    positions: DerivedPosition[],
+    year?: number
+  ): RealizedGainsReport {
+    const lots = positions
+      .flatMap(p => p.realizedLots)
+      .filter(r => !year || new Date(r.soldAt).getUTCFullYear() === year)
+      .sort((a, b) => new Date(a.soldAt).getTime() - new Date(b.soldAt).getTime())
+
+    const totals = (term: HoldingTerm): TermTotals => {
+      const termLots = lots.filter(r => r.term === term)
+      return {
+        proceeds: termLots.reduce((sum, r) => sum + r.proceeds, 0),
+        costBasis: termLots.reduce((sum, r) => sum + r.costBasis, 0),
+        gain: termLots.reduce((sum, r) => sum + r.gain, 0),
+      }
+    }
+
+    return {
+      year: year || null,
+      shortTerm: totals('short_term'),
+      longTerm: totals('long_term'),
+      lots,
+    }
+  }
+
+  /**
+   * Short-term if held one year or less (US rules), long-term otherwise. The
+   * holding period starts the day after acquisition, so a sale on the
+   * anniversary is still short-term. Calendar dates are compared in UTC.
+   */
+  static getHoldingTerm(acquiredAt: string | Date, disposedAt: string | Date = new Date()): HoldingTerm {
+    const acquired = new Date(acquiredAt)
+    const disposed = new Date(disposedAt)
+    const year = acquired.getUTCFullYear() + 1
+    const month = acquired.getUTCMonth()
+    // A Feb 29 purchase has its anniversary on Feb 28
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+    const anniversary = Date.UTC(year, month, Math.min(acquired.getUTCDate(), lastDay))
+    const disposedOn = Date.UTC(disposed.getUTCFullYear(), disposed.getUTCMonth(), disposed.getUTCDate())
+    return disposedOn > anniversary ? 'long_term' : 'short_term'
+  }
+
+  /**
+   * Order open lots for a sell and take shares from them
+   */
+  private static matchLots(
+    lots: TaxLot[],
+    quantity: number,
+    method: LotMethod,
+    selections: Json | null
+  ): { lot: TaxLot; quantity: number }[] {
+    const matched: { lot: TaxLot; quantity: number }[] = []
+    let remaining = quantity
+
+    const take = (lot: TaxLot, requested: number) => {
+      const alreadyTaken = matched
+        .filter(m => m.lot === lot)
+        .reduce((sum, m) => sum + m.quantity, 0)
+      const available = lot.quantity - alreadyTaken
+      const amount = Math.min(requested, available, remaining)
+      if (amount > QUANTITY_EPSILON) {
+        matched.push({ lot, quantity: amount })
+        remaining -= amount
+      }
+    }
+
+    if (method === 'specific' && Array.isArray(selections)) {
+      for (const selection of selections as unknown as LotSelection[]) {
+        const lot = lots.find(l => l.id === selection.lotId)
+        if (lot) take(lot, Number(selection.quantity) || 0)
+      }
+    }
+
+    // Anything not covered by specific selections falls back to FIFO
+    for (const lot of this.orderLots(lots, method)) {
+      if (remaining <= QUANTITY_EPSILON) break
+      take(lot, remaining)
+    }
+
+    return matched
+  }
+
+  /**
+   * Order lots by the matching method's priority
+   */
+  private static orderLots(lots: TaxLot[], method: LotMethod): TaxLot[] {
+    const byDate = [...lots].sort((a, b) =>
+      new Date(a.acquiredAt).getTime() - new Date(b.acquiredAt).getTime()
+    )
+
+    switch (method) {
+      case 'lifo':
+        return byDate.reverse()
+      case 'highest_cost':
+        return byDate.sort((a, b) => b.costPerShare - a.costPerShare)
+      default:
+        return byDate
+    }
+  }
+
+  /**
+   * Get the ledger summary for a user
+   */
+  static async getLedgerSummary(
+    supabase: SupabaseClient<Database>,
+    userId: string
+  ): Promise<LedgerSummary> {
+    const transactions = await this.getTransactions(supabase, userId)
+    return this.summarize(transactions)
+  }
+
+  /**
+   * Build the ledger row for a transaction input
+   */
+  private static buildTransactionInsert(userId: string, input: RecordTransactionInput): TransactionInsert {
+    const quantity = input.quantity || 0
+    const price = input.price || 0
+    const fees = input.fees || 0
+
+    return {
+      user_id: userId,
+      symbol: input.symbol,
+      transaction_type: input.type,
+      quantity,
+      price,
+      amount: this.getTransactionAmount(input.type, quantity, price, input.amount),
+      fees,
+      split_ratio: input.type === 'split' ? input.splitRatio ?? null : null,
+      lot_method: input.type === 'sell' ? input.lotMethod || 'fifo' : null,
+      lot_selections: input.type === 'sell' && input.lotSelections
+        ? (input.lotSelections as unknown as Json)
+        : null,
+      notes: input.notes ?? null,
+      executed_at: input.executedAt?.toISOString() || new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Derive the cash amount stored with a transaction
+   */
+  private static getTransactionAmount(
+    type: TransactionType,
+    quantity: number,
+    price: number,
+    amount?: number
+  ): number {
+    if (type === 'buy' || type === 'sell') {
+      return quantity * price
+    }
+    if (type === 'dividend' && amount === undefined) {
+      // Per-share dividend recorded as quantity x price
+      return quantity * price
+    }
+    return amount || 0
+  }
+
+  /**
+   * Sort by execution time, keeping insertion order for ties
+   */
+  private static sortTransactions(transactions: PortfolioTransaction[]): PortfolioTransaction[] {
+    return [...transactions].sort((a, b) => {
+      const diff = new Date(a.executed_at).getTime() - new Date(b.executed_at).getTime()
+      if (diff !== 0) return diff
+      return new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    })
+  }
+}
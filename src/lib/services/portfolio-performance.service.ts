@@ -0,0 +1,472 @@
+import { Database } from '@/types/database'
+import { SupabaseClient, createClient } from '@supabase/supabase-js'
+import { PortfolioLedgerService, PortfolioTransaction } from './portfolio-ledger.service'
+import { PortfolioOptimizerService } from './portfolio-optimizer.service'
+
+type SnapshotRow = Database['public']['Tables']['portfolio_snapshots']['Row']
+type SnapshotInsert = Database['public']['Tables']['portfolio_snapshots']['Insert']
+
+export type PortfolioSnapshot = SnapshotRow
+export type PerformanceWindow = '1M' | '3M' | 'YTD' | '1Y' | 'ALL'
+
+export const PERFORMANCE_WINDOWS: PerformanceWindow[] = ['1M', '3M', 'YTD', '1Y', 'ALL']
+
+export interface PortfolioValuation {
+  date: string // YYYY-MM-DD (UTC)
+  totalValue: number
+  totalCost: number
+  positionsCount: number
+}
+
+export interface PerformancePoint {
+  date: string
+  value: number
+  cost: number
+  netCashFlow: number // External cash added (+) or withdrawn (-) since the previous point
+  cumulativeReturn: number // Time-weighted return since the window start, as a percentage
+  drawdown: number // Percentage below the running peak of the time-weighted index
+}
+
+export interface PerformanceMetrics {
+  window: PerformanceWindow
+  startDate: string | null
+  endDate: string | null
+  startValue: number
+  endValue: number
+  netCashFlow: number
+  timeWeightedReturn: number // Cumulative percentage over the window
+  moneyWeightedReturn: number | null // Cumulative IRR over the window; null when it cannot be solved
+  annualized: {
+    timeWeighted: number
+    moneyWeighted: number | null
+  } | null // Only reported for windows spanning at least a year
+  maxDrawdown: number // Worst peak-to-trough decline, as a negative percentage
+}
+
+export interface PerformanceHistory {
+  window: PerformanceWindow
+  series: PerformancePoint[]
+  metrics: Record<PerformanceWindow, PerformanceMetrics>
+}
+
+export interface SnapshotJobResult {
+  processed: number
+  failed: number
+  errors: string[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PAGE_SIZE = 1000
+
+export class PortfolioPerformanceService {
+  /**
+   * Get a user's stored snapshots in date order
+   */
+  static async getSnapshots(
+    supabase: SupabaseClient<Database>,
+    userId: string
+  ): Promise<PortfolioSnapshot[]> {
+
+    const { data, error } = await supabase
+      .from('portfolio_snapshots')
+      .select('*')
+      .eq('user_id', userId)
+      .order('snapshot_date', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching portfolio snapshots:', error)
+      throw error
+    }
+
+    return data || []
+  }
+
+  /**
+   * Value the open positions in a ledger at current market prices
+   */
+  static async valuePortfolio(
+    transactions: PortfolioTransaction[],
+    date: Date = new Date()
+  ): Promise<PortfolioValuation> {
+
+    const openPositions = PortfolioLedgerService.derivePositions(transactions)
+      .filter(p => p.quantity > 0)
+
+    const stockDataResults = openPositions.length > 0
+      ? await PortfolioOptimizerService.batchFetchStockData(openPositions.map(p => p.symbol))
+      : []
+    const priceMap = new Map(
+      stockDataResults.map(result => [result.originalSymbol, result.data?.quote?.price as number | undefined])
+    )
+
+    const totalValue = openPositions.reduce(
+      (sum, p) => sum + p.quantity * (priceMap.get(p.symbol) || p.averageCost),
+      0
+    )
+    const totalCost = openPositions.reduce((sum, p) => sum + p.costBasis, 0)
+
+    return {
+      date: this.toDateKey(date),
+      totalValue,
+      totalCost,
+      positionsCount: openPositions.length,
+    }
+  }
+
+  /**
+   * Value a user's portfolio and store it as the snapshot for the day
+   */
+  static async captureSnapshot(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    date: Date = new Date()
+  ): Promise<PortfolioSnapshot> {
+
+    const transactions = await PortfolioLedgerService.getTransactions(supabase, userId)
+    const valuation = await this.valuePortfolio(transactions, date)
+
+    const snapshotData: SnapshotInsert = {
+      user_id: userId,
+      snapshot_date: valuation.date,
+      total_value: valuation.totalValue,
+      total_cost: valuation.totalCost,
+      positions_count: valuation.positionsCount,
+    }
+
+    const { data, error } = await (supabase
+      .from('portfolio_snapshots') as any)
+      .upsert(snapshotData, { onConflict: 'user_id,snapshot_date' })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving portfolio snapshot:', error)
+      throw error
+    }
+
+    return data
+  }
+
+  /**
+   * Snapshot every user with ledger activity. Runs as the nightly cron job,
+   * so it uses the service role to read across users.
+   */
+  static async captureAllSnapshots(date: Date = new Date()): Promise<SnapshotJobResult> {
+    const supabase = createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+
+    // Paged past the Supabase row limit, since every transaction is read
+    const users = new Set<string>()
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('portfolio_transactions')
+        .select('user_id')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching portfolio users:', error)
+        throw error
+      }
+
+      const rows = (data || []) as { user_id: string }[]
+      rows.forEach(row => users.add(row.user_id))
+      if (rows.length < PAGE_SIZE) break
+    }
+
+    const userIds = Array.from(users)
+    const result: SnapshotJobResult = { processed: 0, failed: 0, errors: [] }
+
+    // Sequential so quote fetches stay within provider rate limits
+    for (const userId of userIds) {
+      try {
+        await this.captureSnapshot(supabase, userId, date)
+        result.processed++
+      } catch (error) {
+        result.failed++
+        result.errors.push(`${userId}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Build the value series and return metrics for a user's portfolio.
+   * Today's point uses live prices so the series is current between snapshots.
+   */
+  static async getPerformanceHistory(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    window: PerformanceWindow = '1Y'
+  ): Promise<PerformanceHistory> {
+
+    const [snapshots, transactions] = await Promise.all([
+      this.getSnapshots(supabase, userId),
+      PortfolioLedgerService.getTransactions(supabase, userId),
+    ])
+
+    const live = await this.valuePortfolio(transactions)
+    const valuations: PortfolioValuation[] = snapshots
+      .filter(s => s.snapshot_date !== live.date)
+      .map(s => ({
+        date: s.snapshot_date,
+        totalValue: Number(s.total_value),
+        totalCost: Number(s.total_cost),
+        positionsCount: s.positions_count,
+      }))
+
+    if (transactions.length > 0) {
+      valuations.push(live)
+    }
+
+    const metrics = {} as Record<PerformanceWindow, PerformanceMetrics>
+    let series: PerformancePoint[] = []
+
+    for (const w of PERFORMANCE_WINDOWS) {
+      const result = this.calculatePerformance(valuations, transactions, w)
+      metrics[w] = result.metrics
+      if (w === window) {
+        series = result.series
+      }
+    }
+
+    return { window, series, metrics }
+  }
+
+  /**
+   * Calculate the series and return metrics for one window.
+   * Cash flows come from the ledger: buys and standalone fees are money put in,
+   * sell proceeds and dividends are money taken out.
+   */
+  static calculatePerformance(
+    valuations: PortfolioValuation[],
+    transactions: PortfolioTransaction[],
+    window: PerformanceWindow,
+    now: Date = new Date()
+  ): { series: PerformancePoint[], metrics: PerformanceMetrics } {
+
+    const windowStart = this.getWindowStart(window, now)
+    const points = valuations
+      .filter(v => !windowStart || v.date >= windowStart)
+      .sort((a, b) => a.date.localeCompare(b.date))
+
+    const emptyMetrics: PerformanceMetrics = {
+      window,
+      startDate: points[0]?.date || null,
+      endDate: points[points.length - 1]?.date || null,
+      startValue: points[0]?.totalValue || 0,
+      endValue: points[points.length - 1]?.totalValue || 0,
+      netCashFlow: 0,
+      timeWeightedReturn: 0,
+      moneyWeightedReturn: null,
+      annualized: null,
+      maxDrawdown: 0,
+    }
+
+    if (points.length === 0) {
+      return { series: [], metrics: emptyMetrics }
+    }
+
+    const flowsByDate = this.getCashFlowsByDate(transactions)
+    const series: PerformancePoint[] = []
+    let index = 1
+    let peak = 1
+    let maxDrawdown = 0
+    let totalFlow = 0
+
+    for (let i = 0; i < points.length; i++) {
+      const point = points[i]
+      let netCashFlow = 0
+
+      if (i > 0) {
+        const previous = points[i - 1]
+        netCashFlow = this.sumFlowsBetween(flowsByDate, previous.date, point.date)
+
+        // Flows are assumed to land at the start of the period, so a buy is
+        // in the base it earns on rather than counted as a gain
+        const base = previous.totalValue + netCashFlow
+        const periodReturn = base > 0 ? point.totalValue / base - 1 : 0
+        index *= 1 + periodReturn
+      }
+
+      totalFlow += netCashFlow
+      peak = Math.max(peak, index)
+      const drawdown = (index / peak - 1) * 100
+      maxDrawdown = Math.min(maxDrawdown, drawdown)
+
+      series.push({
+        date: point.date,
+        value: point.totalValue,
+        cost: point.totalCost,
+        netCashFlow,
+        cumulativeReturn: (index - 1) * 100,
+        drawdown,
+      })
+    }
+
+    const first = points[0]
+    const last = points[points.length - 1]
+    const spanDays = (this.parseDateKey(last.date) - this.parseDateKey(first.date)) / DAY_MS
+
+    // Investor-perspective flows: the starting value and deposits go in, the
+    // ending value comes out
+    const irrFlows = [
+      { days: 0, amount: -first.totalValue },
+      ...series.slice(1)
+        .filter(p => p.netCashFlow !== 0)
+        .map(p => ({
+          days: (this.parseDateKey(p.date) - this.parseDateKey(first.date)) / DAY_MS,
+          amount: -p.netCashFlow,
+        })),
+      { days: spanDays, amount: last.totalValue },
+    ]
+    const annualIrr = spanDays > 0 ? this.solveIrr(irrFlows) : null
+
+    const timeWeightedReturn = (index - 1) * 100
+    const moneyWeightedReturn = annualIrr !== null
+      ? (Math.pow(1 + annualIrr, spanDays / 365) - 1) * 100
+      : null
+
+    return {
+      series,
+      metrics: {
+        ...emptyMetrics,
+        netCashFlow: totalFlow,
+        timeWeightedReturn,
+        moneyWeightedReturn,
+        annualized: spanDays >= 365
+          ? {
+            timeWeighted: (Math.pow(index, 365 / spanDays) - 1) * 100,
+            moneyWeighted: annualIrr !== null ? annualIrr * 100 : null,
+          }
+          : null,
+        maxDrawdown,
+      },
+    }
+  }
+
+  /**
+   * First date (YYYY-MM-DD) included in a window, or null for all history
+   */
+  static getWindowStart(window: PerformanceWindow, now: Date = new Date()): string | null {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+
+    switch (window) {
+      case '1M':
+        start.setUTCMonth(start.getUTCMonth() - 1)
+        break
+      case '3M':
+        start.setUTCMonth(start.getUTCMonth() - 3)
+        break
+      case 'YTD':
+        start.setUTCMonth(0, 1)
+        break
+      case '1Y':
+        start.setUTCFullYear(start.getUTCFullYear() - 1)
+        break
+      case 'ALL':
+        return null
+    }
+
+    return this.toDateKey(start)
+  }
+
+  /**
+   * Net external cash flow per day from the ledger
+   */
+  private static getCashFlowsByDate(transactions: PortfolioTransaction[]): Map<string, number> {
+    const flows = new Map<string, number>()
+
+    for (const tx of transactions) {
+      const amount = Number(tx.amount)
+      const fees = Number(tx.fees)
+      let flow = 0
+
+      switch (tx.transaction_type) {
+        case 'buy':
+          flow = amount + fees
+          break
+        case 'sell':
+          flow = -(amount - fees)
+          break
+        case 'dividend':
+          flow = -amount
+          break
+        case 'fee':
+          flow = amount
+          break
+        case 'split':
+          break
+      }
+
+      if (flow !== 0) {
+        const date = this.toDateKey(new Date(tx.executed_at))
+        flows.set(date, (flows.get(date) || 0) + flow)
+      }
+    }
+
+    return flows
+  }
+
+  /**
+   * Sum flows dated after `from` and up to and including `to`
+   */
+  private static sumFlowsBetween(flows: Map<string, number>, from: string, to: string): number {
+    let total = 0
+    flows.forEach((amount, date) => {
+      if (date > from && date <= to) {
+        total += amount
+      }
+    })
+    return total
+  }
+
+  /**
+   * Solve for the annual rate that zeroes the NPV of dated cash flows (XIRR).
+   * Uses bisection, which is slower than Newton's method but cannot diverge.
+   */
+  private static solveIrr(flows: { days: number, amount: number }[]): number | null {
+    const npv = (rate: number) => flows.reduce(
+      (sum, flow) => sum + flow.amount / Math.pow(1 + rate, flow.days / 365),
+      0
+    )
+
+    let low = -0.9999
+    let high = 100
+    let npvLow = npv(low)
+    const npvHigh = npv(high)
+
+    if (!isFinite(npvLow) || !isFinite(npvHigh) || npvLow * npvHigh > 0) {
+      return null
+    }
+
+    for (let i = 0; i < 200; i++) {
+      const mid = (low + high) / 2
+      const npvMid = npv(mid)
+
+      if (Math.abs(npvMid) < 1e-7 || high - low < 1e-10) {
+        return mid
+      }
+
+      if (npvLow * npvMid < 0) {
+        high = mid
+      } else {
+        low = mid
+        npvLow = npvMid
+      }
+    }
+
+    return (low + high) / 2
+  }
+
+  private static toDateKey(date: Date): string {
+    return date.toISOString().split('T')[0]
+  }
+
+  private static parseDateKey(date: string): number {
+    return new Date(`${date}T00:00:00Z`).getTime()
+  }
+}
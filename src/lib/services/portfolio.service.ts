@@ -1,5 +1,16 @@
-import { Database } from '@/types/database'
+import { Database, Json } from '@/types/database'
 import { SupabaseClient } from '@supabase/supabase-js'
+import {
+  PortfolioLedgerService,
+  PortfolioTransaction,
+  RecordTransactionInput,
+  DerivedPosition,
+  LedgerSummary,
+  LotMethod,
+  LotSelection,
+} from './portfolio-ledger.service'
+import { PortfolioOptimizerService } from './portfolio-optimizer.service'
+import { PositionHealthService, ScoreBreakdown } from './position-health.service'
 
 type PortfolioRow = Database['public']['Tables']['portfolios']['Row']
 type PortfolioInsert = Database['public']['Tables']['portfolios']['Insert']
@@ -14,6 +25,21 @@ export interface PortfolioPosition extends PortfolioRow {
   currentScore?: number
   dayChange?: number
   dayChangePercent?: number
+  realizedGain?: number
+  dividendIncome?: number
+  totalFees?: number
+  transactionCount?: number
+}
+
+export interface EnrichedPortfolioPosition extends PortfolioPosition {
+  name: string
+  currentPrice: number
+  currentScore: number
+  dayChange: number
+  dayChangePercent: number
+  totalValue: number
+  gainLoss: number
+  gainLossPercent: number
 }
 
 export interface PortfolioStats {
@@ -26,6 +52,21 @@ export interface PortfolioStats {
   positions: number
   winners: number
   losers: number
+  realizedGain: number
+  realizedShortTerm: number
+  realizedLongTerm: number
+  dividendIncome: number
+  totalFees: number
+}
+
+export interface PortfolioWithLedger {
+  positions: PortfolioPosition[]
+  ledger: LedgerSummary
+}
+
+export interface RecordedTransaction {
+  transaction: PortfolioTransaction
+  position: PortfolioPosition | null
 }
 
 export class PortfolioService {
@@ -33,31 +74,132 @@ export class PortfolioService {
    * Get user's portfolio positions
    */
   static async getUserPortfolio(supabase: SupabaseClient<Database>, userId: string): Promise<PortfolioPosition[]> {
-    
-    const { data, error } = await supabase
-      .from('portfolios')
-      .select(`
-        *,
-        stocks (
-          symbol,
-          company_name,
-          sector
-        )
-      `)
-      .eq('user_id', userId)
-      .order('total_value', { ascending: false })
+    const { positions } = await this.getPortfolioWithLedger(supabase, userId)
+    return positions
+  }
 
-    if (error) {
-      console.error('Error fetching portfolio:', error)
-      throw error
+  /**
+   * Get user's open positions together with the ledger they are derived from
+   */
+  static async getPortfolioWithLedger(
+    supabase: SupabaseClient<Database>,
+    userId: string
+  ): Promise<PortfolioWithLedger> {
+
+    const [rowsResult, transactions] = await Promise.all([
+      supabase
+        .from('portfolios')
+        .select(`
+          *,
+          stocks (
+            symbol,
+            company_name,
+            sector
+          )
+        `)
+        .eq('user_id', userId)
+        .order('total_value', { ascending: false }),
+      PortfolioLedgerService.getTransactions(supabase, userId),
+    ])
+
+    if (rowsResult.error) {
+      console.error('Error fetching portfolio:', rowsResult.error)
+      throw rowsResult.error
     }
 
+    const ledger = PortfolioLedgerService.summarize(transactions)
+    const derivedBySymbol = new Map(ledger.positions.map(p => [p.symbol, p]))
+
     // @ts-ignore - Supabase types don't handle joins well
-    return data || []
+    const rows: PortfolioPosition[] = rowsResult.data || []
+    const positions: PortfolioPosition[] = []
+
+    for (const row of rows) {
+      const derived = derivedBySymbol.get(row.symbol)
+      if (!derived) {
+        // Position predates the ledger and has not been backfilled
+        positions.push(row)
+        continue
+      }
+      if (derived.quantity > 0) {
+        positions.push(this.applyDerivedPosition(row, derived))
+      }
+    }
+
+    // Materialize any open ledger positions that are missing a row
+    const rowSymbols = new Set(rows.map(r => r.symbol))
+    for (const derived of ledger.positions) {
+      if (derived.quantity > 0 && !rowSymbols.has(derived.symbol)) {
+        const synced = await this.syncPosition(supabase, userId, derived.symbol)
+        if (synced) {
+          positions.push(this.applyDerivedPosition(synced, derived))
+        }
+      }
+    }
+
+    return { positions, ledger }
   }
 
   /**
-   * Add position to portfolio
+   * Attach current quotes, scores and gain/loss to positions
+   */
+  static async enrichPositions(positions: PortfolioPosition[]): Promise<EnrichedPortfolioPosition[]> {
+    // Batch fetch all stock data at once
+    const symbols = positions.map(p => p.symbol)
+    const stockDataResults = await PortfolioOptimizerService.batchFetchStockData(symbols)
+    
+    // Create a map for quick lookup
+    const stockDataMap = new Map(
+      stockDataResults.map(result => [result.originalSymbol, result.data])
+    )
+
+    return positions.map(position => {
+      const stockData = stockDataMap.get(position.symbol)
+      
+      if (stockData?.quote) {
+        const currentPrice = stockData.quote.price || position.current_price || position.average_price
+        const totalValue = position.quantity * currentPrice
+        const totalCost = position.quantity * position.average_price
+        const gainLoss = totalValue - totalCost
+        const gainLossPercent = totalCost > 0 ? (gainLoss / totalCost) * 100 : 0
+
+        return {
+          ...position,
+          name: stockData.quote.name || position.stock?.company_name || position.symbol,
+          currentPrice,
+          currentScore: stockData.score?.score || 0,
+          dayChange: stockData.quote.change || 0,
+          dayChangePercent: stockData.quote.changePercent || 0,
+          totalValue,
+          gainLoss,
+          gainLossPercent,
+        }
+      } else {
+        // Fallback for failed fetches
+        console.warn(`Using fallback data for ${position.symbol}`)
+        const currentPrice = position.current_price || position.average_price
+        const totalValue = position.quantity * currentPrice
+        const totalCost = position.quantity * position.average_price
+        const gainLoss = totalValue - totalCost
+        const gainLossPercent = totalCost > 0 ? (gainLoss / totalCost) * 100 : 0
+        
+        return {
+          ...position,
+          name: position.stock?.company_name || position.symbol,
+          currentPrice,
+          currentScore: 0,
+          dayChange: 0,
+          dayChangePercent: 0,
+          totalValue,
+          gainLoss,
+          gainLossPercent,
+        }
+      }
+    })
+  }
+
+  /**
+   * Add position to portfolio (records a buy)
    */
   static async addPosition(
     supabase: SupabaseClient<Database>,
@@ -68,10 +210,99 @@ export class PortfolioService {
     purchasedAt?: Date
   ): Promise<PortfolioPosition> {
 
+    const { position } = await this.recordTransaction(supabase, userId, {
+      symbol,
+      type: 'buy',
+      quantity,
+      price,
+      executedAt: purchasedAt,
+    })
+
+    if (!position) {
+      throw new Error('Position not found')
+    }
+
+    return position
+  }
+
+  /**
+   * Record a ledger transaction and rebuild the affected position
+   */
+  static async recordTransaction(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    input: RecordTransactionInput
+  ): Promise<RecordedTransaction> {
+
     // Ensure stock exists
-    await this.ensureStockExists(supabase, symbol)
+    await this.ensureStockExists(supabase, input.symbol)
+
+    if (input.type === 'sell') {
+      const transactions = await PortfolioLedgerService.getTransactions(supabase, userId, input.symbol)
+      const [held] = PortfolioLedgerService.derivePositions(transactions)
+      const heldQuantity = held?.quantity || 0
+
+      if ((input.quantity || 0) > heldQuantity + 1e-6) {
+        throw new Error('Insufficient shares to sell')
+      }
+
+      if (input.lotMethod === 'specific') {
+        const selections = input.lotSelections || []
+        const selectedQuantity = selections.reduce((sum, s) => sum + s.quantity, 0)
+        const validSelections = selections.every(selection => {
+          const lot = held?.lots.find(l => l.id === selection.lotId)
+          return !!lot && selection.quantity > 0 && selection.quantity <= lot.quantity + 1e-6
+        })
+
+        if (!validSelections || selectedQuantity > (input.quantity || 0) + 1e-6) {
+          throw new Error('Invalid lot selection')
+        }
+      }
+    }
+
+    const transaction = await PortfolioLedgerService.recordTransaction(supabase, userId, input)
+    const position = await this.syncPosition(supabase, userId, input.symbol)
+
+    return { transaction, position }
+  }
+
+  /**
+   * Record a batch of already-validated transactions (e.g. a broker import)
+   * and rebuild each affected position once
+   */
+  static async recordTransactions(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    inputs: RecordTransactionInput[]
+  ): Promise<PortfolioTransaction[]> {
+
+    const symbols = [...new Set(inputs.map(input => input.symbol))]
+
+    for (const symbol of symbols) {
+      await this.ensureStockExists(supabase, symbol)
+    }
+
+    const transactions = await PortfolioLedgerService.recordTransactions(supabase, userId, inputs)
+
+    for (const symbol of symbols) {
+      await this.syncPosition(supabase, userId, symbol)
+    }
+
+    return transactions
+  }
+
+  /**
+   * Rebuild the stored position for a symbol from the ledger
+   */
+  static async syncPosition(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    symbol: string
+  ): Promise<PortfolioPosition | null> {
+
+    const transactions = await PortfolioLedgerService.getTransactions(supabase, userId, symbol)
+    const [derived] = PortfolioLedgerService.derivePositions(transactions)
 
-    // Check if position already exists
     const existingResult = await supabase
       .from('portfolios')
       .select('*')
@@ -79,25 +310,40 @@ export class PortfolioService {
       .eq('symbol', symbol)
       .maybeSingle()
 
-    if (existingResult.data) {
-      const existing: PortfolioRow = existingResult.data
-      // Update existing position (average cost calculation)
-      const totalCost = (existing.quantity * existing.average_price) + (quantity * price)
-      const newQuantity = existing.quantity + quantity
-      const newAvgPrice = totalCost / newQuantity
+    const existing = existingResult.data as PortfolioRow | null
 
+    if (!derived || derived.quantity <= 0) {
+      // Position fully closed - the ledger keeps its history
+      if (existing) {
+        const { error } = await supabase
+          .from('portfolios')
+          .delete()
+          .eq('id', existing.id)
+          .eq('user_id', userId)
+
+        if (error) {
+          console.error('Error removing closed position:', error)
+          throw error
+        }
+      }
+      return null
+    }
+
+    if (existing) {
       return this.updatePosition(supabase, userId, existing.id, {
-        quantity: newQuantity,
-        average_price: newAvgPrice,
+        quantity: derived.quantity,
+        average_price: derived.averageCost,
+        purchased_at: derived.openedAt || existing.purchased_at,
       })
     }
 
-    // Get current stock score
+    // Get current stock score as the baseline for score drift tracking
     let purchaseScore = 0
+    let purchaseScoreBreakdown: ScoreBreakdown | null = null
     try {
       const scoreResult: any = await supabase
         .from('stock_scores')
-        .select('score')
+        .select('*')
         .eq('symbol', symbol)
         .order('created_at', { ascending: false })
         .limit(1)
@@ -105,6 +351,7 @@ export class PortfolioService {
       
       if (scoreResult?.data) {
         purchaseScore = scoreResult.data.score || 0
+        purchaseScoreBreakdown = PositionHealthService.toBreakdown(scoreResult.data)
       }
     } catch (error) {
       console.log('Could not fetch stock score:', error)
@@ -114,14 +361,15 @@ export class PortfolioService {
     const portfolioData: PortfolioInsert = {
       user_id: userId,
       symbol,
-      quantity,
-      average_price: price,
-      current_price: price,
-      total_value: quantity * price,
+      quantity: derived.quantity,
+      average_price: derived.averageCost,
+      current_price: derived.averageCost,
+      total_value: derived.costBasis,
       gain_loss: 0,
       gain_loss_percent: 0,
-      purchased_at: purchasedAt?.toISOString() || new Date().toISOString(),
-      // purchase_score: purchaseScore, // TODO: Add after migration
+      purchased_at: derived.openedAt || new Date().toISOString(),
+      purchase_score: purchaseScore,
+      purchase_score_breakdown: purchaseScoreBreakdown as unknown as Json,
     }
 
     const { data, error: insertError } = await (supabase
@@ -194,19 +442,18 @@ export class PortfolioService {
   static async removePosition(
     supabase: SupabaseClient<Database>,
     userId: string,
-    positionId: string
+    positionId: string,
+    sellPrice?: number
   ): Promise<void> {
 
-    const { error } = await supabase
-      .from('portfolios')
-      .delete()
-      .eq('id', positionId)
-      .eq('user_id', userId)
+    const position = await this.getPositionRow(supabase, userId, positionId)
 
-    if (error) {
-      console.error('Error removing position:', error)
-      throw error
-    }
+    await this.recordTransaction(supabase, userId, {
+      symbol: position.symbol,
+      type: 'sell',
+      quantity: position.quantity,
+      price: sellPrice || position.current_price || position.average_price,
+    })
   }
 
   /**
@@ -217,34 +464,23 @@ export class PortfolioService {
     userId: string,
     positionId: string,
     quantityToSell: number,
-    sellPrice: number
+    sellPrice: number,
+    lotMethod?: LotMethod,
+    lotSelections?: LotSelection[]
   ): Promise<PortfolioPosition | null> {
 
-    // Get current position
-    const positionResult = await supabase
-      .from('portfolios')
-      .select('*')
-      .eq('id', positionId)
-      .eq('user_id', userId)
-      .maybeSingle()
-
-    if (!positionResult.data) {
-      throw new Error('Position not found')
-    }
-
-    const position: PortfolioRow = positionResult.data
-    if (quantityToSell >= position.quantity) {
-      // Selling all, remove position
-      await this.removePosition(supabase, userId, positionId)
-      return null
-    }
+    const position = await this.getPositionRow(supabase, userId, positionId)
 
-    // Update remaining position
-    const newQuantity = position.quantity - quantityToSell
-    return this.updatePosition(supabase, userId, positionId, {
-      quantity: newQuantity,
-      current_price: sellPrice,
+    const { position: remaining } = await this.recordTransaction(supabase, userId, {
+      symbol: position.symbol,
+      type: 'sell',
+      quantity: Math.min(quantityToSell, position.quantity),
+      price: sellPrice,
+      lotMethod,
+      lotSelections,
     })
+
+    return remaining
   }
 
   /**
@@ -299,6 +535,7 @@ export class PortfolioService {
       .eq('user_id', userId)
 
     const positions: PortfolioRow[] = positionsResult.data || []
+    const ledger = await PortfolioLedgerService.getLedgerSummary(supabase, userId)
     
     if (positions.length === 0) {
       return {
@@ -311,6 +548,11 @@ export class PortfolioService {
         positions: 0,
         winners: 0,
         losers: 0,
+        realizedGain: ledger.realizedGain,
+        realizedShortTerm: ledger.realizedShortTerm,
+        realizedLongTerm: ledger.realizedLongTerm,
+        dividendIncome: ledger.dividendIncome,
+        totalFees: ledger.totalFees,
       }
     }
 
@@ -337,7 +579,54 @@ export class PortfolioService {
       positions: positions.length,
       winners,
       losers,
+      realizedGain: ledger.realizedGain,
+      realizedShortTerm: ledger.realizedShortTerm,
+      realizedLongTerm: ledger.realizedLongTerm,
+      dividendIncome: ledger.dividendIncome,
+      totalFees: ledger.totalFees,
+    }
+  }
+
+  /**
+   * Overlay ledger-derived quantity and cost on a stored position
+   */
+  private static applyDerivedPosition(
+    position: PortfolioPosition,
+    derived: DerivedPosition
+  ): PortfolioPosition {
+    return {
+      ...position,
+      quantity: derived.quantity,
+      average_price: derived.averageCost,
+      purchased_at: derived.openedAt || position.purchased_at,
+      realizedGain: derived.realizedGain,
+      dividendIncome: derived.dividendIncome,
+      totalFees: derived.totalFees,
+      transactionCount: derived.transactionCount,
+    }
+  }
+
+  /**
+   * Get a stored position owned by the user
+   */
+  private static async getPositionRow(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    positionId: string
+  ): Promise<PortfolioRow> {
+
+    const positionResult = await supabase
+      .from('portfolios')
+      .select('*')
+      .eq('id', positionId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!positionResult.data) {
+      throw new Error('Position not found')
     }
+
+    return positionResult.data
   }
 
   /**
@@ -0,0 +1,432 @@
+import { Database, Json } from '@/types/database'
+import { SupabaseClient, createClient } from '@supabase/supabase-js'
+import { StockScore } from '@/types/stock'
+import { NotificationService } from './notification.service'
+
+type PortfolioRow = Database['public']['Tables']['portfolios']['Row']
+type StockScoreRow = Database['public']['Tables']['stock_scores']['Row']
+
+export type ExitSignalLevel = 'none' | 'warning' | 'consider' | 'urgent'
+
+export const EXIT_SIGNAL_LEVELS: ExitSignalLevel[] = ['none', 'warning', 'consider', 'urgent']
+
+// Timing sub-scores are left out on purpose: they move with price and say
+// nothing about whether the original investment thesis still holds
+export type ScoreBreakdown = Pick<
+  StockScore,
+  'score' | 'businessQualityScore' | 'financialHealthScore' | 'moatScore' | 'growthScore'
+>
+
+export interface LevelThresholds {
+  warning: number
+  consider: number
+  urgent: number
+}
+
+export interface PositionHealthThresholds {
+  scoreDecline: LevelThresholds // Points lost on the 0-100 StockBeacon score
+  businessQualityDecline: LevelThresholds // Points lost on the 0-60 business quality score
+  componentDeclinePercent: number // Share of a sub-score's maximum that counts as a collapse
+}
+
+export interface ScoreDrift {
+  component: 'financialHealthScore' | 'moatScore' | 'growthScore'
+  label: string
+  max: number
+  purchase: number
+  current: number
+  change: number
+}
+
+export interface PositionHealth {
+  positionId: string
+  symbol: string
+  level: ExitSignalLevel
+  reasons: string[]
+  purchaseScore: number
+  currentScore: number
+  scoreChange: number
+  businessQualityChange: number | null // Null when the position predates sub-score tracking
+  components: ScoreDrift[]
+}
+
+export interface HealthCheckResult {
+  processed: number
+  flagged: number
+  notified: number
+  failed: number
+  errors: string[]
+}
+
+export const DEFAULT_HEALTH_THRESHOLDS: PositionHealthThresholds = {
+  scoreDecline: { warning: 10, consider: 20, urgent: 30 },
+  businessQualityDecline: { warning: 8, consider: 15, urgent: 22 },
+  componentDeclinePercent: 40,
+}
+
+const PAGE_SIZE = 1000
+
+const COMPONENTS: { component: ScoreDrift['component'], label: string, max: number }[] = [
+  { component: 'financialHealthScore', label: 'Financial health', max: 25 },
+  { component: 'moatScore', label: 'Competitive moat', max: 20 },
+  { component: 'growthScore', label: 'Growth', max: 15 },
+]
+
+export class PositionHealthService {
+  /**
+   * Map a stored stock score to the sub-scores tracked for drift
+   */
+  static toBreakdown(row: StockScoreRow): ScoreBreakdown {
+    return {
+      score: row.score,
+      businessQualityScore: row.business_quality_score,
+      financialHealthScore: row.financial_health_score,
+      moatScore: row.ai_moat_score || 0,
+      growthScore: row.growth_score,
+    }
+  }
+
+  /**
+   * Compare a position's purchase-time score with the latest score.
+   * Returns null when the position has no baseline to compare against.
+   */
+  static evaluate(
+    position: PortfolioRow,
+    current: ScoreBreakdown,
+    thresholds: PositionHealthThresholds = DEFAULT_HEALTH_THRESHOLDS
+  ): PositionHealth | null {
+
+    const purchase = position.purchase_score_breakdown as unknown as ScoreBreakdown | null
+    const purchaseScore = purchase?.score ?? position.purchase_score ?? 0
+
+    // A zero purchase score means the position was opened before scores were recorded
+    if (!purchaseScore) {
+      return null
+    }
+
+    const reasons: string[] = []
+    let level: ExitSignalLevel = 'none'
+    const raise = (next: ExitSignalLevel, reason: string) => {
+      reasons.push(reason)
+      if (EXIT_SIGNAL_LEVELS.indexOf(next) > EXIT_SIGNAL_LEVELS.indexOf(level)) {
+        level = next
+      }
+    }
+
+    const scoreChange = current.score - purchaseScore
+    const scoreLevel = this.levelFor(-scoreChange, thresholds.scoreDecline)
+    if (scoreLevel !== 'none') {
+      raise(scoreLevel, `StockBeacon score fell ${-scoreChange} points since purchase (${purchaseScore} → ${current.score})`)
+    }
+
+    let businessQualityChange: number | null = null
+    const components: ScoreDrift[] = []
+
+    if (purchase) {
+      businessQualityChange = current.businessQualityScore - purchase.businessQualityScore
+      const qualityLevel = this.levelFor(-businessQualityChange, thresholds.businessQualityDecline)
+      if (qualityLevel !== 'none') {
+        raise(qualityLevel, `Business quality fell ${-businessQualityChange} of 60 points`)
+      }
+
+      for (const { component, label, max } of COMPONENTS) {
+        const drift: ScoreDrift = {
+          component,
+          label,
+          max,
+          purchase: purchase[component],
+          current: current[component],
+          change: current[component] - purchase[component],
+        }
+        components.push(drift)
+
+        if (-drift.change >= max * thresholds.componentDeclinePercent / 100) {
+          raise('warning', `${label} dropped from ${drift.purchase} to ${drift.current} of ${max}`)
+        }
+      }
+    }
+
+    return {
+      positionId: position.id,
+      symbol: position.symbol,
+      level,
+      reasons,
+      purchaseScore,
+      currentScore: current.score,
+      scoreChange,
+      businessQualityChange,
+      components,
+    }
+  }
+
+  /**
+   * Get a user's thresholds, falling back to the defaults for anything not set
+   */
+  static async getThresholds(
+    supabase: SupabaseClient<Database>,
+    userId: string
+  ): Promise<PositionHealthThresholds> {
+
+    const { data } = await supabase
+      .from('users')
+      .select('preferences')
+      .eq('id', userId)
+      .maybeSingle()
+
+    const preferences = (data as { preferences: Json } | null)?.preferences as any
+    return this.mergeThresholds(preferences?.positionHealth)
+  }
+
+  /**
+   * Save a user's thresholds into their preferences
+   */
+  static async saveThresholds(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    thresholds: PositionHealthThresholds
+  ): Promise<PositionHealthThresholds> {
+
+    const { data } = await supabase
+      .from('users')
+      .select('preferences')
+      .eq('id', userId)
+      .maybeSingle()
+
+    const preferences = ((data as { preferences: Json } | null)?.preferences || {}) as Record<string, Json>
+
+    const { error } = await (supabase
+      .from('users') as any)
+      .update({
+        preferences: { ...preferences, positionHealth: thresholds },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId)
+
+    if (error) {
+      console.error('Error saving position health thresholds:', error)
+      throw error
+    }
+
+    return thresholds
+  }
+
+  /**
+   * Validate thresholds submitted by a user
+   */
+  static validateThresholds(input: any): PositionHealthThresholds {
+    const thresholds = this.mergeThresholds(input)
+
+    for (const key of ['scoreDecline', 'businessQualityDecline'] as const) {
+      const { warning, consider, urgent } = thresholds[key]
+      if (![warning, consider, urgent].every(v => typeof v === 'number' && v > 0)) {
+        throw new Error('Thresholds must be positive numbers')
+      }
+      if (!(warning < consider && consider < urgent)) {
+        throw new Error('Thresholds must increase from warning to consider to urgent')
+      }
+    }
+
+    const percent = thresholds.componentDeclinePercent
+    if (typeof percent !== 'number' || percent <= 0 || percent > 100) {
+      throw new Error('Component decline percent must be between 0 and 100')
+    }
+
+    return thresholds
+  }
+
+  /**
+   * Evaluate every open position for a user against the latest scores
+   */
+  static async getPortfolioHealth(
+    supabase: SupabaseClient<Database>,
+    userId: string
+  ): Promise<PositionHealth[]> {
+
+    const { data, error } = await supabase
+      .from('portfolios')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Error fetching positions for health check:', error)
+      throw error
+    }
+
+    const positions = (data || []) as PortfolioRow[]
+    const scores = await this.getLatestScores(supabase, positions.map(p => p.symbol))
+    const thresholds = await this.getThresholds(supabase, userId)
+
+    return positions
+      .map(position => {
+        const current = scores.get(position.symbol)
+        return current ? this.evaluate(position, current, thresholds) : null
+      })
+      .filter((health): health is PositionHealth => health !== null)
+  }
+
+  /**
+   * Nightly job: evaluate all positions, store the signal and notify users
+   * when a position's signal gets worse
+   */
+  static async checkAllPositions(): Promise<HealthCheckResult> {
+    const supabase = createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+
+    // Paged past the Supabase row limit, since every user's positions are read
+    const positions: PortfolioRow[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('portfolios')
+        .select('*')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching positions for health check:', error)
+        throw error
+      }
+
+      positions.push(...((data || []) as PortfolioRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const scores = await this.getLatestScores(supabase, [...new Set(positions.map(p => p.symbol))])
+    const thresholdsByUser = new Map<string, PositionHealthThresholds>()
+    const result: HealthCheckResult = { processed: 0, flagged: 0, notified: 0, failed: 0, errors: [] }
+
+    for (const position of positions) {
+      try {
+        const current = scores.get(position.symbol)
+        if (!current) continue
+
+        if (!thresholdsByUser.has(position.user_id)) {
+          thresholdsByUser.set(position.user_id, await this.getThresholds(supabase, position.user_id))
+        }
+
+        const health = this.evaluate(position, current, thresholdsByUser.get(position.user_id))
+        if (!health) continue
+
+        result.processed++
+        if (health.level !== 'none') {
+          result.flagged++
+        }
+
+        const previous = position.exit_signal || 'none'
+        if (health.level !== previous) {
+          await this.storeSignal(supabase, position, health)
+        }
+
+        // Only notify on escalation so a steady signal doesn't repeat every night
+        if (EXIT_SIGNAL_LEVELS.indexOf(health.level) > EXIT_SIGNAL_LEVELS.indexOf(previous)) {
+          const sent = await this.notifyExitSignal(supabase, position.user_id, health)
+          if (sent) {
+            result.notified++
+          }
+        }
+      } catch (error) {
+        result.failed++
+        result.errors.push(`${position.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    return result
+  }
+
+  private static async getLatestScores(
+    supabase: SupabaseClient<Database>,
+    symbols: string[]
+  ): Promise<Map<string, ScoreBreakdown>> {
+
+    const scores = new Map<string, ScoreBreakdown>()
+    if (symbols.length === 0) {
+      return scores
+    }
+
+    const { data, error } = await supabase
+      .from('stock_scores')
+      .select('*')
+      .in('symbol', symbols)
+
+    if (error) {
+      console.error('Error fetching scores for health check:', error)
+      throw error
+    }
+
+    for (const row of (data || []) as StockScoreRow[]) {
+      scores.set(row.symbol, this.toBreakdown(row))
+    }
+
+    return scores
+  }
+
+  private static async storeSignal(
+    supabase: SupabaseClient<Database>,
+    position: PortfolioRow,
+    health: PositionHealth
+  ): Promise<void> {
+
+    const { error } = await (supabase
+      .from('portfolios') as any)
+      .update({
+        exit_signal: health.level,
+        exit_signal_reasons: health.reasons,
+        exit_signal_at: new Date().toISOString(),
+      })
+      .eq('id', position.id)
+
+    if (error) {
+      console.error('Error storing exit signal:', error)
+      throw error
+    }
+  }
+
+  private static async notifyExitSignal(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    health: PositionHealth
+  ): Promise<boolean> {
+    return NotificationService.sendNotification({
+      userId,
+      type: 'exit_signal',
+      priority: health.level === 'urgent' ? 'high' : health.level === 'consider' ? 'medium' : 'low',
+      channel: health.level === 'urgent' ? 'all' : 'in_app',
+      data: {
+        symbol: health.symbol,
+        level: health.level,
+        message: health.level === 'urgent'
+          ? `The investment thesis for ${health.symbol} may be broken`
+          : `${health.symbol} has weakened since you bought it`,
+        reasons: health.reasons,
+        purchaseScore: health.purchaseScore,
+        currentScore: health.currentScore,
+        scoreChange: health.scoreChange,
+      },
+    }, supabase)
+  }
+
+  private static levelFor(decline: number, thresholds: LevelThresholds): ExitSignalLevel {
+    if (decline >= thresholds.urgent) return 'urgent'
+    if (decline >= thresholds.consider) return 'consider'
+    if (decline >= thresholds.warning) return 'warning'
+    return 'none'
+  }
+
+  private static mergeThresholds(overrides: any): PositionHealthThresholds {
+    const levels = (values: any, defaults: LevelThresholds): LevelThresholds => ({
+      warning: values?.warning ?? defaults.warning,
+      consider: values?.consider ?? defaults.consider,
+      urgent: values?.urgent ?? defaults.urgent,
+    })
+
+    return {
+      scoreDecline: levels(overrides?.scoreDecline, DEFAULT_HEALTH_THRESHOLDS.scoreDecline),
+      businessQualityDecline: levels(
+        overrides?.businessQualityDecline,
+        DEFAULT_HEALTH_THRESHOLDS.businessQualityDecline
+      ),
+      componentDeclinePercent: overrides?.componentDeclinePercent ?? DEFAULT_HEALTH_THRESHOLDS.componentDeclinePercent,
+    }
+  }
+}
@@ -0,0 +1,356 @@
+import { Database, Json } from '@/types/database'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { NotificationService } from './notification.service'
+import { ScoringProfileService } from './scoring-profile.service'
+import { ScreenMatchAlertData, ScreenMatchStock } from './email.service'
+import {
+  StockScreener,
+  ScreenerFilter,
+  ScreenerSort,
+  ScreenerStock,
+  SCREENER_FIELD_MAP,
+  formatScreen,
+  parseScreen,
+  validateFilters,
+} from './screener'
+
+type SavedScreenRow = Database['public']['Tables']['saved_screens']['Row']
+
+export interface SavedScreen {
+  id: string
+  name: string
+  description: string | null
+  filters: ScreenerFilter[]
+  sort: ScreenerSort | null
+  notify: boolean // Notify on new matches after each score recalculation
+  lastMatchCount: number | null
+  lastRunAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type SavedScreenInput = Pick<SavedScreen, 'name' | 'description' | 'filters' | 'sort' | 'notify'>
+
+export interface ScreenCheckResult {
+  processed: number
+  notified: number
+  failed: number
+  errors: string[]
+}
+
+export const MAX_SAVED_SCREENS = 50
+
+// Keep notifications readable when a screen's matches churn
+const MAX_LISTED_CHANGES = 20
+const PAGE_SIZE = 1000
+
+export class SavedScreenService {
+  /**
+   * The user's saved screens, by name
+   */
+  static async getScreens(
+    supabase: SupabaseClient<Database>,
+    userId: string
+  ): Promise<SavedScreen[]> {
+
+    const { data, error } = await supabase
+      .from('saved_screens')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching saved screens:', error)
+      throw error
+    }
+
+    return ((data || []) as SavedScreenRow[]).map(row => this.mapRow(row))
+  }
+
+  /**
+   * Save a new screen
+   */
+  static async createScreen(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    input: SavedScreenInput
+  ): Promise<SavedScreen> {
+
+    const { count } = await supabase
+      .from('saved_screens')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+
+    if ((count || 0) >= MAX_SAVED_SCREENS) {
+      throw new Error(`You can save at most ${MAX_SAVED_SCREENS} screens`)
+    }
+
+    const { data, error } = await (supabase
+      .from('saved_screens') as any)
+      .insert({
+        user_id: userId,
+        name: input.name,
+        description: input.description,
+        filters: input.filters as unknown as Json,
+        sort_field: input.sort?.field || null,
+        sort_direction: input.sort?.direction || 'desc',
+        notify_enabled: input.notify,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A screen with this name already exists')
+      }
+      console.error('Error creating saved screen:', error)
+      throw error
+    }
+
+    return this.mapRow(data)
+  }
+
+  /**
+   * Replace a saved screen's name, filters and sort. The last matches are
+   * cleared so the next nightly run starts a new baseline.
+   */
+  static async updateScreen(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    screenId: string,
+    input: SavedScreenInput
+  ): Promise<SavedScreen | null> {
+
+    const { data, error } = await (supabase
+      .from('saved_screens') as any)
+      .update({
+        name: input.name,
+        description: input.description,
+        filters: input.filters as unknown as Json,
+        sort_field: input.sort?.field || null,
+        sort_direction: input.sort?.direction || 'desc',
+        notify_enabled: input.notify,
+        last_matches: null,
+        last_run_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', screenId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A screen with this name already exists')
+      }
+      console.error('Error updating saved screen:', error)
+      throw error
+    }
+
+    return data ? this.mapRow(data) : null
+  }
+
+  /**
+   * Delete a saved screen
+   */
+  static async deleteScreen(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    screenId: string
+  ): Promise<boolean> {
+
+    const { data, error } = await supabase
+      .from('saved_screens')
+      .delete()
+      .eq('id', screenId)
+      .eq('user_id', userId)
+      .select('id')
+
+    if (error) {
+      console.error('Error deleting saved screen:', error)
+      throw error
+    }
+
+    return (data || []).length > 0
+  }
+
+  /**
+   * Validate a screen submitted by a user. Filters may be given as screen
+   * text in `query` or as a `filters` array.
+   */
+  static validateScreen(input: any): SavedScreenInput {
+    const name = typeof input?.name === 'string' ? input.name.trim() : ''
+    if (!name || name.length > 60) {
+      throw new Error('Name is required and must be at most 60 characters')
+    }
+
+    const filters = typeof input?.query === 'string'
+      ? parseScreen(input.query)
+      : validateFilters(input?.filters)
+    if (filters.length === 0) {
+      throw new Error('A screen needs at least one condition')
+    }
+
+    let sort: ScreenerSort | null = null
+    if (input?.sort?.field) {
+      const field = SCREENER_FIELD_MAP.get(input.sort.field)
+      if (!field || field.type === 'list') {
+        throw new Error(`Cannot sort by "${input.sort.field}"`)
+      }
+      sort = { field: field.id, direction: input.sort.direction === 'asc' ? 'asc' : 'desc' }
+    }
+
+    const description = typeof input?.description === 'string' && input.description.trim()
+      ? input.description.trim().slice(0, 280)
+      : null
+
+    return { name, description, filters, sort, notify: input?.notify === true }
+  }
+
+  /**
+   * Run every screen with notifications on and tell its owner which stocks
+   * entered or left it. Called after the nightly score recalculation. A
+   * screen's first run only records a baseline, and the baseline only moves
+   * once a change has been reported, so a failed send is retried next run.
+   */
+  static async checkAllScreens(): Promise<ScreenCheckResult> {
+    const supabase = createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+
+    // Paged past the Supabase row limit, since every user's screens are read
+    const rows: SavedScreenRow[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('saved_screens')
+        .select('*')
+        .eq('notify_enabled', true)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching screens to check:', error)
+        throw error
+      }
+
+      rows.push(...((data || []) as SavedScreenRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const result: ScreenCheckResult = { processed: 0, notified: 0, failed: 0, errors: [] }
+
+    // Scores have just changed, so don't reuse an older universe
+    StockScreener.clearCache()
+
+    for (const row of rows) {
+      try {
+        const screen = this.mapRow(row)
+        const profile = await ScoringProfileService.getActiveProfile(supabase, row.user_id)
+        const matches = await StockScreener.matchAll(screen.filters, profile)
+        const symbols = matches.map(stock => stock.symbol).sort()
+
+        const previous = Array.isArray(row.last_matches) ? (row.last_matches as string[]) : null
+        let reported = true
+
+        if (previous) {
+          const previousSet = new Set(previous)
+          const currentSet = new Set(symbols)
+          const entered = matches.filter(stock => !previousSet.has(stock.symbol))
+          const exited = previous.filter(symbol => !currentSet.has(symbol))
+
+          if (entered.length > 0 || exited.length > 0) {
+            reported = await this.notifyMatches(supabase, row.user_id, screen, entered, exited, symbols.length)
+            if (reported) {
+              result.notified++
+            }
+          }
+        }
+
+        // Keep the old matches until the change has been sent
+        const { error: updateError } = await (supabase
+          .from('saved_screens') as any)
+          .update({
+            ...(reported ? { last_matches: symbols } : {}),
+            last_run_at: new Date().toISOString(),
+          })
+          .eq('id', row.id)
+
+        if (updateError) {
+          throw new Error(updateError.message)
+        }
+
+        result.processed++
+      } catch (error) {
+        result.failed++
+        result.errors.push(`${row.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    return result
+  }
+
+  private static async notifyMatches(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    screen: SavedScreen,
+    entered: ScreenerStock[],
+    exited: string[],
+    matchCount: number
+  ): Promise<boolean> {
+
+    const universe = new Map((await StockScreener.loadUniverse()).map(stock => [stock.symbol, stock]))
+    const describe = (symbol: string): ScreenMatchStock => {
+      const stock = universe.get(symbol)
+      return {
+        symbol,
+        name: stock?.companyName || symbol,
+        score: typeof stock?.values.score === 'number' ? stock.values.score : null,
+        price: typeof stock?.values.price === 'number' ? stock.values.price : null,
+      }
+    }
+
+    const data: ScreenMatchAlertData = {
+      screenId: screen.id,
+      screenName: screen.name,
+      screenQuery: formatScreen(screen.filters),
+      entered: entered.slice(0, MAX_LISTED_CHANGES).map(stock => describe(stock.symbol)),
+      exited: exited.slice(0, MAX_LISTED_CHANGES).map(describe),
+      matchCount,
+    }
+
+    let message: string
+    if (entered.length === 1) {
+      message = `${entered[0].symbol} now matches your screen "${screen.name}"`
+    } else if (entered.length > 1) {
+      message = `${entered.length} stocks now match your screen "${screen.name}"`
+    } else if (exited.length === 1) {
+      message = `${exited[0]} no longer matches your screen "${screen.name}"`
+    } else {
+      message = `${exited.length} stocks no longer match your screen "${screen.name}"`
+    }
+
+    return NotificationService.sendNotification({
+      userId,
+      type: 'screen_match',
+      priority: 'medium',
+      channel: 'all',
+      data: { ...data, message },
+    }, supabase)
+  }
+
+  private static mapRow(row: SavedScreenRow): SavedScreen {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      filters: (row.filters || []) as unknown as ScreenerFilter[],
+      sort: row.sort_field ? { field: row.sort_field, direction: row.sort_direction } : null,
+      notify: row.notify_enabled,
+      lastMatchCount: Array.isArray(row.last_matches) ? row.last_matches.length : null,
+      lastRunAt: row.last_run_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+}
@@ -1,9 +1,30 @@
 import { createClient } from '@/lib/supabase/server'
 import { StockScore, TechnicalIndicators } from '@/types/stock'
 import { Database } from '@/types/database'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ConstituentHistoryService } from './universes/history'
 
 type StockScoreRow = Database['public']['Tables']['stock_scores']['Row']
 type StockScoreInsert = Database['public']['Tables']['stock_scores']['Insert']
+type ScoreHistoryRow = Database['public']['Tables']['stock_score_history']['Row']
+type ScoreHistoryInsert = Database['public']['Tables']['stock_score_history']['Insert']
+
+export type ScoreHistoryRange = '3M' | '6M' | '1Y' | '2Y' | 'ALL'
+
+export const SCORE_HISTORY_RANGES: ScoreHistoryRange[] = ['3M', '6M', '1Y', '2Y', 'ALL']
+
+export interface ScoreHistoryPoint {
+  date: string // YYYY-MM-DD (UTC)
+  score: number
+  businessQualityScore: number
+  timingScore: number
+  financialHealthScore: number
+  moatScore: number | null
+  growthScore: number
+  valuationScore: number
+  technicalScore: number
+  recommendation: StockScore['recommendation']
+}
 
 export class ScorePersistenceService {
   /**
@@ -41,6 +62,8 @@ export class ScorePersistenceService {
       console.error('Error saving score:', error)
       throw new Error(`Failed to save score for ${score.symbol}: ${error.message}`)
     }
+
+    await this.appendHistory(supabase, [scoreData])
   }
 
   /**
@@ -79,6 +102,8 @@ export class ScorePersistenceService {
       console.error('Error saving scores in bulk:', error)
       throw new Error(`Failed to save scores: ${error.message}`)
     }
+
+    await this.appendHistory(supabase, scoreData)
   }
 
   /**
@@ -197,27 +222,38 @@ export class ScorePersistenceService {
     const cutoffDate = new Date()
     cutoffDate.setHours(cutoffDate.getHours() - maxAgeHours)
     
-    const { data, error } = await supabase
-      .from('stock_scores')
-      .select('symbol, updated_at')
-      .in('symbol', symbols)
-      .lt('updated_at', cutoffDate.toISOString())
-    
-    if (error) {
-      console.error('Error fetching stale scores:', error)
-      throw new Error(`Failed to fetch stale scores: ${error.message}`)
+    // Look up in chunks so long symbol lists stay within URL limits
+    const updatedAt = new Map<string, string>()
+    for (let i = 0; i < symbols.length; i += 500) {
+      const { data, error } = await supabase
+        .from('stock_scores')
+        .select('symbol, updated_at')
+        .in('symbol', symbols.slice(i, i + 500))
+      
+      if (error) {
+        console.error('Error fetching stale scores:', error)
+        throw new Error(`Failed to fetch stale scores: ${error.message}`)
+      }
+      
+      for (const row of data || []) {
+        updatedAt.set(row.symbol, row.updated_at)
+      }
     }
     
+    const staleSymbols = symbols.filter(symbol =>
+      updatedAt.has(symbol) && new Date(updatedAt.get(symbol)!) < cutoffDate
+    )
+    
     // Also include symbols that don't have scores yet
-    const existingSymbols = new Set((data || []).map(row => row.symbol))
-    const missingSymbols = symbols.filter(symbol => !existingSymbols.has(symbol))
-    const staleSymbols = (data || []).map(row => row.symbol)
+    const missingSymbols = symbols.filter(symbol => !updatedAt.has(symbol))
     
     return [...staleSymbols, ...missingSymbols]
   }
 
   /**
-   * Delete scores older than a certain date (for cleanup)
+   * Delete scores older than a certain date (for cleanup). Scores of current
+   * and former index constituents are kept so past index membership can
+   * still be analysed without survivorship bias.
    */
   static async deleteOldScores(olderThanDays: number = 30): Promise<number> {
     const supabase = await createClient()
@@ -225,18 +261,174 @@ export class ScorePersistenceService {
     const cutoffDate = new Date()
     cutoffDate.setDate(cutoffDate.getDate() - olderThanDays)
     
-    const { data, error } = await supabase
+    const { data: oldScores, error: fetchError } = await supabase
       .from('stock_scores')
-      .delete()
-      .lt('updated_at', cutoffDate.toISOString())
       .select('symbol')
+      .lt('updated_at', cutoffDate.toISOString())
     
-    if (error) {
-      console.error('Error deleting old scores:', error)
-      throw new Error(`Failed to delete old scores: ${error.message}`)
+    if (fetchError) {
+      console.error('Error finding old scores:', fetchError)
+      throw new Error(`Failed to delete old scores: ${fetchError.message}`)
+    }
+    
+    const candidates = (oldScores || []).map(row => row.symbol)
+    const listed = await ConstituentHistoryService.getEverListed(candidates)
+    const symbols = candidates.filter(symbol => !listed.has(symbol))
+    
+    let deleted = 0
+    for (let i = 0; i < symbols.length; i += 500) {
+      const { data, error } = await supabase
+        .from('stock_scores')
+        .delete()
+        .in('symbol', symbols.slice(i, i + 500))
+        .lt('updated_at', cutoffDate.toISOString())
+        .select('symbol')
+      
+      if (error) {
+        console.error('Error deleting old scores:', error)
+        throw new Error(`Failed to delete old scores: ${error.message}`)
+      }
+      
+      deleted += data?.length || 0
+    }
+    
+    return deleted
+  }
+
+  /**
+   * Each symbol's latest score recorded on or before a date, looking back a
+   * limited number of days. Symbols without a score in that window are left out.
+   */
+  static async getScoresAsOf(
+    symbols: string[],
+    asOf: string,
+    lookbackDays: number = 7
+  ): Promise<Map<string, ScoreHistoryPoint>> {
+    const supabase = await createClient()
+    
+    const end = new Date(`${asOf}T23:59:59.999Z`)
+    const start = new Date(end)
+    start.setUTCDate(start.getUTCDate() - lookbackDays)
+    
+    const scores = new Map<string, ScoreHistoryPoint>()
+    for (let i = 0; i < symbols.length; i += 100) {
+      for (let from = 0; ; from += 1000) {
+        const { data, error } = await supabase
+          .from('stock_score_history')
+          .select('*')
+          .in('symbol', symbols.slice(i, i + 100))
+          .gte('recorded_at', start.toISOString())
+          .lte('recorded_at', end.toISOString())
+          .order('recorded_at', { ascending: true })
+          .range(from, from + 999)
+        
+        if (error) {
+          console.error('Error fetching historical scores:', error)
+          throw new Error(`Failed to fetch scores as of ${asOf}: ${error.message}`)
+        }
+        
+        // Rows are in order so later ones overwrite earlier ones
+        for (const row of (data || []) as ScoreHistoryRow[]) {
+          scores.set(row.symbol, this.mapHistoryRow(row))
+        }
+        if (!data || data.length < 1000) break
+      }
     }
     
-    return data?.length || 0
+    return scores
+  }
+
+  /**
+   * Get a symbol's score history, keeping the last score of each day
+   */
+  static async getScoreHistory(
+    symbol: string,
+    range: ScoreHistoryRange = '1Y'
+  ): Promise<ScoreHistoryPoint[]> {
+    const supabase = await createClient()
+
+    let since: Date | null = null
+    if (range !== 'ALL') {
+      const months = { '3M': 3, '6M': 6, '1Y': 12, '2Y': 24 }[range]
+      since = new Date()
+      since.setMonth(since.getMonth() - months)
+    }
+
+    // Scores can be recalculated several times a day; rows are in order so
+    // later ones overwrite earlier ones. Paged so long ranges keep their
+    // most recent points.
+    const byDate = new Map<string, ScoreHistoryPoint>()
+    for (let from = 0; ; from += 1000) {
+      let query = supabase
+        .from('stock_score_history')
+        .select('*')
+        .eq('symbol', symbol)
+
+      if (since) query = query.gte('recorded_at', since.toISOString())
+
+      const { data, error } = await query
+        .order('recorded_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + 999)
+
+      if (error) {
+        console.error('Error fetching score history:', error)
+        throw new Error(`Failed to fetch score history for ${symbol}: ${error.message}`)
+      }
+
+      for (const row of (data || []) as ScoreHistoryRow[]) {
+        const point = this.mapHistoryRow(row)
+        byDate.set(point.date, point)
+      }
+      if (!data || data.length < 1000) break
+    }
+
+    return Array.from(byDate.values())
+  }
+
+  /**
+   * Append saved scores to the history table. Failures are logged rather than
+   * thrown so a history problem never blocks the current score from saving.
+   */
+  private static async appendHistory(
+    supabase: SupabaseClient<Database>,
+    scores: StockScoreInsert[]
+  ): Promise<void> {
+    const historyData: ScoreHistoryInsert[] = scores.map(score => ({
+      symbol: score.symbol,
+      score: score.score,
+      business_quality_score: score.business_quality_score,
+      timing_score: score.timing_score,
+      ai_moat_score: score.ai_moat_score,
+      financial_health_score: score.financial_health_score,
+      growth_score: score.growth_score,
+      valuation_score: score.valuation_score,
+      technical_score: score.technical_score,
+      recommendation: score.recommendation,
+    }))
+
+    const { error } = await (supabase
+      .from('stock_score_history') as any)
+      .insert(historyData)
+
+    if (error) {
+      console.error('Error appending score history:', error)
+    }
+  }
+
+  private static mapHistoryRow(row: ScoreHistoryRow): ScoreHistoryPoint {
+    return {
+      date: new Date(row.recorded_at).toISOString().split('T')[0],
+      score: row.score,
+      businessQualityScore: row.business_quality_score,
+      timingScore: row.timing_score,
+      financialHealthScore: row.financial_health_score,
+      moatScore: row.ai_moat_score,
+      growthScore: row.growth_score,
+      valuationScore: row.valuation_score,
+      technicalScore: row.technical_score,
+      recommendation: row.recommendation,
+    }
   }
 
   /**
@@ -0,0 +1,354 @@
+import { Database, Json } from '@/types/database'
+import { SupabaseClient } from '@supabase/supabase-js'
+import {
+  StockBeaconScoreService,
+  ScoreWeights,
+  ScoreComponents,
+  WeightedScore,
+  RecommendationThresholds,
+  DEFAULT_SCORE_WEIGHTS,
+  DEFAULT_RECOMMENDATION_THRESHOLDS,
+} from './stockbeacon-score.service'
+
+type ScoringProfileRow = Database['public']['Tables']['scoring_profiles']['Row']
+
+export interface ScoringProfile {
+  id: string
+  name: string
+  description: string | null
+  weights: ScoreWeights
+  thresholds: RecommendationThresholds
+  builtIn: boolean
+}
+
+export type ScoringProfileInput = Pick<ScoringProfile, 'name' | 'description' | 'weights' | 'thresholds'>
+
+export const DEFAULT_SCORING_PROFILE_ID = 'balanced'
+
+export const BUILT_IN_SCORING_PROFILES: ScoringProfile[] = [
+  {
+    id: DEFAULT_SCORING_PROFILE_ID,
+    name: 'Balanced',
+    description: 'The standard StockBeacon score: 60 points business quality, 40 points timing',
+    weights: DEFAULT_SCORE_WEIGHTS,
+    thresholds: DEFAULT_RECOMMENDATION_THRESHOLDS,
+    builtIn: true,
+  },
+  {
+    id: 'dividend',
+    name: 'Dividend Focus',
+    description: 'Strong balance sheets and durable moats that can keep paying, bought at a fair price',
+    weights: { financialHealth: 35, moat: 25, growth: 5, valuation: 25, technical: 10 },
+    thresholds: DEFAULT_RECOMMENDATION_THRESHOLDS,
+    builtIn: true,
+  },
+  {
+    id: 'deep-value',
+    name: 'Deep Value',
+    description: 'Cheap stocks with enough financial strength to survive until the market notices',
+    weights: { financialHealth: 25, moat: 10, growth: 5, valuation: 45, technical: 15 },
+    thresholds: { ...DEFAULT_RECOMMENDATION_THRESHOLDS, strongBuyQualityPercent: 65, buyQualityPercent: 55 },
+    builtIn: true,
+  },
+  {
+    id: 'garp',
+    name: 'Growth at a Reasonable Price',
+    description: 'Fast growers whose valuation has not run ahead of the business',
+    weights: { financialHealth: 15, moat: 15, growth: 30, valuation: 30, technical: 10 },
+    thresholds: DEFAULT_RECOMMENDATION_THRESHOLDS,
+    builtIn: true,
+  },
+]
+
+const WEIGHT_KEYS: (keyof ScoreWeights)[] = ['financialHealth', 'moat', 'growth', 'valuation', 'technical']
+
+const THRESHOLD_KEYS: (keyof RecommendationThresholds)[] = [
+  'strongBuy', 'buy', 'hold', 'sell', 'strongBuyQualityPercent', 'buyQualityPercent',
+]
+
+export class ScoringProfileService {
+  /**
+   * Built-in presets followed by the user's own profiles
+   */
+  static async getProfiles(
+    supabase: SupabaseClient<Database>,
+    userId: string
+  ): Promise<ScoringProfile[]> {
+
+    const { data, error } = await supabase
+      .from('scoring_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching scoring profiles:', error)
+      throw error
+    }
+
+    return [
+      ...BUILT_IN_SCORING_PROFILES,
+      ...((data || []) as ScoringProfileRow[]).map(row => this.mapRow(row)),
+    ]
+  }
+
+  /**
+   * Find a built-in or custom profile by id
+   */
+  static async getProfile(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    profileId: string
+  ): Promise<ScoringProfile | null> {
+
+    const builtIn = BUILT_IN_SCORING_PROFILES.find(p => p.id === profileId)
+    if (builtIn) {
+      return builtIn
+    }
+
+    const { data } = await supabase
+      .from('scoring_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('id', profileId)
+      .maybeSingle()
+
+    return data ? this.mapRow(data as ScoringProfileRow) : null
+  }
+
+  /**
+   * The profile a user has selected, or Balanced if none is set
+   */
+  static async getActiveProfile(
+    supabase: SupabaseClient<Database>,
+    userId: string
+  ): Promise<ScoringProfile> {
+
+    const preferences = await this.getPreferences(supabase, userId)
+    const profileId = typeof preferences.scoringProfile === 'string'
+      ? preferences.scoringProfile
+      : DEFAULT_SCORING_PROFILE_ID
+
+    return (await this.getProfile(supabase, userId, profileId)) || BUILT_IN_SCORING_PROFILES[0]
+  }
+
+  /**
+   * Select the profile used to rank stocks for a user
+   */
+  static async setActiveProfile(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    profileId: string
+  ): Promise<ScoringProfile> {
+
+    const profile = await this.getProfile(supabase, userId, profileId)
+    if (!profile) {
+      throw new Error('Scoring profile not found')
+    }
+
+    await this.savePreference(supabase, userId, profile.id)
+    return profile
+  }
+
+  /**
+   * Create a custom profile
+   */
+  static async createProfile(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    input: ScoringProfileInput
+  ): Promise<ScoringProfile> {
+
+    const { data, error } = await (supabase
+      .from('scoring_profiles') as any)
+      .insert({
+        user_id: userId,
+        name: input.name,
+        description: input.description,
+        weights: input.weights as unknown as Json,
+        thresholds: input.thresholds as unknown as Json,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A scoring profile with this name already exists')
+      }
+      console.error('Error creating scoring profile:', error)
+      throw error
+    }
+
+    return this.mapRow(data)
+  }
+
+  /**
+   * Update a custom profile. Built-in presets cannot be changed.
+   */
+  static async updateProfile(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    profileId: string,
+    input: ScoringProfileInput
+  ): Promise<ScoringProfile | null> {
+
+    const { data, error } = await (supabase
+      .from('scoring_profiles') as any)
+      .update({
+        name: input.name,
+        description: input.description,
+        weights: input.weights as unknown as Json,
+        thresholds: input.thresholds as unknown as Json,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', profileId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A scoring profile with this name already exists')
+      }
+      console.error('Error updating scoring profile:', error)
+      throw error
+    }
+
+    return data ? this.mapRow(data) : null
+  }
+
+  /**
+   * Delete a custom profile, falling back to Balanced if it was selected
+   */
+  static async deleteProfile(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    profileId: string
+  ): Promise<boolean> {
+
+    const { data, error } = await supabase
+      .from('scoring_profiles')
+      .delete()
+      .eq('id', profileId)
+      .eq('user_id', userId)
+      .select('id')
+
+    if (error) {
+      console.error('Error deleting scoring profile:', error)
+      throw error
+    }
+
+    const preferences = await this.getPreferences(supabase, userId)
+    if (preferences.scoringProfile === profileId) {
+      await this.savePreference(supabase, userId, DEFAULT_SCORING_PROFILE_ID)
+    }
+
+    return (data || []).length > 0
+  }
+
+  /**
+   * Validate a profile submitted by a user
+   */
+  static validateProfile(input: any): ScoringProfileInput {
+    const name = typeof input?.name === 'string' ? input.name.trim() : ''
+    if (!name || name.length > 60) {
+      throw new Error('Name is required and must be at most 60 characters')
+    }
+    if (BUILT_IN_SCORING_PROFILES.some(p => p.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error('Name is already used by a built-in profile')
+    }
+
+    const weights = { ...DEFAULT_SCORE_WEIGHTS }
+    for (const key of WEIGHT_KEYS) {
+      const value = input?.weights?.[key] ?? DEFAULT_SCORE_WEIGHTS[key]
+      if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+        throw new Error('Weights must be non-negative numbers')
+      }
+      weights[key] = value
+    }
+    const total = WEIGHT_KEYS.reduce((sum, key) => sum + weights[key], 0)
+    if (Math.abs(total - 100) > 0.001) {
+      throw new Error(`Weights must add up to 100 (currently ${total})`)
+    }
+
+    const thresholds = { ...DEFAULT_RECOMMENDATION_THRESHOLDS }
+    for (const key of THRESHOLD_KEYS) {
+      const value = input?.thresholds?.[key] ?? DEFAULT_RECOMMENDATION_THRESHOLDS[key]
+      if (typeof value !== 'number' || value < 0 || value > 100) {
+        throw new Error('Thresholds must be numbers between 0 and 100')
+      }
+      thresholds[key] = value
+    }
+    if (!(thresholds.sell < thresholds.hold && thresholds.hold < thresholds.buy && thresholds.buy < thresholds.strongBuy)) {
+      throw new Error('Thresholds must increase from sell to hold to buy to strong buy')
+    }
+
+    const description = typeof input?.description === 'string' && input.description.trim()
+      ? input.description.trim().slice(0, 280)
+      : null
+
+    return { name, description, weights, thresholds }
+  }
+
+  /**
+   * Score a stock's stored sub-scores under a profile
+   */
+  static rescore(components: ScoreComponents, profile: ScoringProfile): WeightedScore {
+    return StockBeaconScoreService.applyWeights(components, profile.weights, profile.thresholds)
+  }
+
+  /**
+   * Maximum business quality points under a profile
+   */
+  static businessQualityMax(profile: ScoringProfile): number {
+    return profile.weights.financialHealth + profile.weights.moat + profile.weights.growth
+  }
+
+  private static async getPreferences(
+    supabase: SupabaseClient<Database>,
+    userId: string
+  ): Promise<Record<string, Json>> {
+
+    const { data } = await supabase
+      .from('users')
+      .select('preferences')
+      .eq('id', userId)
+      .maybeSingle()
+
+    return ((data as { preferences: Json } | null)?.preferences || {}) as Record<string, Json>
+  }
+
+  private static async savePreference(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    profileId: string
+  ): Promise<void> {
+
+    const preferences = await this.getPreferences(supabase, userId)
+
+    const { error } = await (supabase
+      .from('users') as any)
+      .update({
+        preferences: { ...preferences, scoringProfile: profileId },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId)
+
+    if (error) {
+      console.error('Error saving scoring profile preference:', error)
+      throw error
+    }
+  }
+
+  private static mapRow(row: ScoringProfileRow): ScoringProfile {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      // Fill in anything missing so older rows keep working if fields are added
+      weights: { ...DEFAULT_SCORE_WEIGHTS, ...(row.weights as unknown as Partial<ScoreWeights>) },
+      thresholds: { ...DEFAULT_RECOMMENDATION_THRESHOLDS, ...(row.thresholds as unknown as Partial<RecommendationThresholds>) },
+      builtIn: false,
+    }
+  }
+}
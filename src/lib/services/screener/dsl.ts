@@ -0,0 +1,255 @@
+/**
+ * Screener filter language
+ *
+ * A screen is a list of conditions joined with AND, e.g.
+ *   roic > 15% AND red_flags = 0 AND valuation_level IN (undervalued, highly_undervalued) AND rsi < 40
+ *
+ * Numbers accept a trailing % (ignored) or K/M/B/T multiplier, so
+ * "market_cap > 10B" works. List fields such as red_flag use HAS / NOT HAS.
+ */
+
+import { SCREENER_FIELD_MAP } from './fields'
+import {
+  ScreenerFieldValue,
+  ScreenerFilter,
+  ScreenerOperator,
+  ScreenerScalar,
+  ScreenerValue,
+} from './types/screener-types'
+
+export class ScreenerQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScreenerQueryError'
+  }
+}
+
+export const MAX_FILTERS = 25
+
+const COMPARISON_OPERATORS: ScreenerOperator[] = ['>', '>=', '<', '<=', '=', '!=']
+
+const OPERATORS_BY_TYPE: Record<string, ScreenerOperator[]> = {
+  number: [...COMPARISON_OPERATORS, 'in', 'not_in'],
+  string: ['=', '!=', 'in', 'not_in'],
+  enum: ['=', '!=', 'in', 'not_in'],
+  list: ['has', 'not_has'],
+}
+
+const MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9, t: 1e12 }
+
+type Token = { kind: 'word' | 'string' | 'operator' | 'symbol', text: string }
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = []
+  const pattern = /\s*(?:(>=|<=|!=|==|>|<|=)|([(),])|"([^"]*)"|'([^']*)'|([^\s()<>=!,"']+))/gy
+  let match: RegExpExecArray | null
+
+  while (pattern.lastIndex < text.length) {
+    const start = pattern.lastIndex
+    match = pattern.exec(text)
+    if (!match) {
+      const rest = text.slice(start).trimStart()
+      if (rest === '') break
+      const at = text.length - rest.length
+      throw new ScreenerQueryError(`Unexpected character at position ${at + 1}: ${rest[0]}`)
+    }
+    if (match[1]) tokens.push({ kind: 'operator', text: match[1] === '==' ? '=' : match[1] })
+    else if (match[2]) tokens.push({ kind: 'symbol', text: match[2] })
+    else if (match[3] !== undefined) tokens.push({ kind: 'string', text: match[3] })
+    else if (match[4] !== undefined) tokens.push({ kind: 'string', text: match[4] })
+    else if (match[5]) tokens.push({ kind: 'word', text: match[5] })
+  }
+
+  return tokens
+}
+
+const parseScalar = (token: Token): ScreenerScalar => {
+  if (token.kind === 'string') return token.text
+
+  const numeric = token.text.match(/^(-?\d+(?:\.\d+)?)(%|[kmbt])?$/i)
+  if (numeric) {
+    const multiplier = numeric[2] && numeric[2] !== '%' ? MULTIPLIERS[numeric[2].toLowerCase()] : 1
+    return parseFloat(numeric[1]) * multiplier
+  }
+
+  return token.text
+}
+
+const isKeyword = (token: Token | undefined, keyword: string) =>
+  token?.kind === 'word' && token.text.toUpperCase() === keyword
+
+/**
+ * Parse screen text into filters. Throws ScreenerQueryError with a message
+ * suitable for showing to the user.
+ */
+export function parseScreen(text: string): ScreenerFilter[] {
+  const tokens = tokenize(text)
+  const filters: ScreenerFilter[] = []
+  let position = 0
+
+  const next = () => tokens[position++]
+  const expectValue = (field: string): Token => {
+    const token = next()
+    if (!token || (token.kind !== 'word' && token.kind !== 'string')) {
+      throw new ScreenerQueryError(`Expected a value after ${field}`)
+    }
+    return token
+  }
+
+  while (position < tokens.length) {
+    const fieldToken = next()
+    if (fieldToken.kind !== 'word') {
+      throw new ScreenerQueryError(`Expected a field name but found "${fieldToken.text}"`)
+    }
+    const field = fieldToken.text.toLowerCase()
+
+    let negated = false
+    if (isKeyword(tokens[position], 'NOT')) {
+      negated = true
+      position++
+    }
+
+    const operatorToken = next()
+    if (!operatorToken) {
+      throw new ScreenerQueryError(`Expected an operator after ${field}`)
+    }
+
+    if (isKeyword(operatorToken, 'IN')) {
+      if (next()?.text !== '(') throw new ScreenerQueryError(`Expected ( after ${field} IN`)
+      const values: ScreenerScalar[] = []
+      while (true) {
+        values.push(parseScalar(expectValue(field)))
+        const separator = next()
+        if (separator?.text === ')') break
+        if (separator?.text !== ',') throw new ScreenerQueryError(`Expected , or ) in the ${field} list`)
+      }
+      filters.push({ field, operator: negated ? 'not_in' : 'in', value: values })
+    } else if (isKeyword(operatorToken, 'HAS')) {
+      filters.push({ field, operator: negated ? 'not_has' : 'has', value: parseScalar(expectValue(field)) })
+    } else if (operatorToken.kind === 'operator' && !negated) {
+      filters.push({
+        field,
+        operator: operatorToken.text as ScreenerOperator,
+        value: parseScalar(expectValue(field)),
+      })
+    } else {
+      throw new ScreenerQueryError(`Unknown operator "${operatorToken.text}" after ${field}`)
+    }
+
+    if (position < tokens.length && !isKeyword(next(), 'AND')) {
+      throw new ScreenerQueryError(`Conditions must be joined with AND (near "${tokens[position - 1].text}")`)
+    }
+  }
+
+  return validateFilters(filters)
+}
+
+/**
+ * Check filters against the field catalogue, e.g. when they arrive as JSON
+ */
+export function validateFilters(input: any): ScreenerFilter[] {
+  if (!Array.isArray(input)) {
+    throw new ScreenerQueryError('Filters must be a list')
+  }
+  if (input.length > MAX_FILTERS) {
+    throw new ScreenerQueryError(`A screen can have at most ${MAX_FILTERS} conditions`)
+  }
+
+  return input.map((filter: any): ScreenerFilter => {
+    const field = SCREENER_FIELD_MAP.get(filter?.field)
+    if (!field) {
+      throw new ScreenerQueryError(`Unknown field "${filter?.field}"`)
+    }
+
+    const operator = filter.operator as ScreenerOperator
+    if (!OPERATORS_BY_TYPE[field.type].includes(operator)) {
+      throw new ScreenerQueryError(
+        `${field.id} supports ${OPERATORS_BY_TYPE[field.type].map(formatOperator).join(', ')}`
+      )
+    }
+
+    const isList = operator === 'in' || operator === 'not_in'
+    const values: ScreenerScalar[] = isList ? filter.value : [filter.value]
+    if (!Array.isArray(values) || values.length === 0) {
+      throw new ScreenerQueryError(`${field.id} ${formatOperator(operator)} needs at least one value`)
+    }
+
+    for (const value of values) {
+      if (field.type === 'number' && (typeof value !== 'number' || !isFinite(value))) {
+        throw new ScreenerQueryError(`${field.id} must be compared with a number`)
+      }
+      if (field.type !== 'number' && typeof value !== 'string') {
+        throw new ScreenerQueryError(`${field.id} must be compared with text`)
+      }
+      if (field.options && !field.options.includes(String(value).toLowerCase())) {
+        throw new ScreenerQueryError(`${value} is not a valid ${field.id}. Use one of: ${field.options.join(', ')}`)
+      }
+    }
+
+    const normalise = (value: ScreenerScalar) =>
+      field.options ? String(value).toLowerCase() : value
+
+    return {
+      field: field.id,
+      operator,
+      value: isList ? values.map(normalise) : normalise(values[0]),
+    }
+  })
+}
+
+/**
+ * Render filters back into screen text
+ */
+export function formatScreen(filters: ScreenerFilter[]): string {
+  const formatScalar = (value: ScreenerScalar) =>
+    typeof value === 'number' || /^[\w.-]+$/.test(value) ? String(value) : `"${value}"`
+
+  return filters
+    .map(({ field, operator, value }) => {
+      const rendered = Array.isArray(value)
+        ? `(${value.map(formatScalar).join(', ')})`
+        : formatScalar(value)
+      return `${field} ${formatOperator(operator)} ${rendered}`
+    })
+    .join(' AND ')
+}
+
+function formatOperator(operator: ScreenerOperator): string {
+  switch (operator) {
+    case 'in': return 'IN'
+    case 'not_in': return 'NOT IN'
+    case 'has': return 'HAS'
+    case 'not_has': return 'NOT HAS'
+    default: return operator
+  }
+}
+
+/**
+ * Whether a stock's value satisfies a filter. Missing values never match.
+ */
+export function matchesFilter(actual: ScreenerFieldValue | undefined, filter: ScreenerFilter): boolean {
+  if (actual === null || actual === undefined) return false
+
+  if (Array.isArray(actual)) {
+    const has = actual.includes(String(filter.value))
+    return filter.operator === 'has' ? has : !has
+  }
+
+  const equals = (expected: ScreenerScalar) =>
+    typeof actual === 'string'
+      ? actual.toLowerCase() === String(expected).toLowerCase()
+      : actual === expected
+
+  const expected = filter.value as ScreenerValue
+  switch (filter.operator) {
+    case '=': return equals(expected as ScreenerScalar)
+    case '!=': return !equals(expected as ScreenerScalar)
+    case 'in': return (expected as ScreenerScalar[]).some(equals)
+    case 'not_in': return !(expected as ScreenerScalar[]).some(equals)
+    case '>': return typeof actual === 'number' && actual > (expected as number)
+    case '>=': return typeof actual === 'number' && actual >= (expected as number)
+    case '<': return typeof actual === 'number' && actual < (expected as number)
+    case '<=': return typeof actual === 'number' && actual <= (expected as number)
+    default: return false
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Screener field catalogue - every value a screen can filter or sort on
+ */
+
+import { ScreenerField } from './types/screener-types'
+import { BUILT_IN_UNIVERSES } from '../universes/definitions'
+
+export const RED_FLAG_IDS = [
+  'cash_burn_leveraged', 'dilution_treadmill', 'gross_margin_compression', 'high_accruals',
+  'insolvency_risk', 'inventory_buildup', 'liquidity_crisis', 'liquidity_warning',
+  'margin_compression_trend', 'negative_gross_margin', 'poor_earnings_quality',
+  'receivables_quality_issue', 'rising_capital_intensity', 'unsustainable_debt_service',
+  'unsustainable_dividend', 'weak_interest_coverage',
+]
+
+export const GREEN_FLAG_IDS = [
+  'aggressive_buybacks', 'capital_light_growth', 'compound_growth_machine', 'conservative_accounting',
+  'conservative_leverage', 'dividend_growth', 'exceptional_roe', 'expanding_margins',
+  'fortress_balance_sheet', 'high_fcf_margin', 'high_roa', 'operating_leverage',
+  'significant_buybacks', 'strong_pricing_power', 'superior_cash_generation', 'superior_roic',
+  'sustainable_dividends',
+]
+
+export const VALUATION_LEVELS = ['highly_undervalued', 'undervalued', 'fairly_valued', 'overvalued', 'highly_overvalued']
+
+export const UNIVERSE_IDS = BUILT_IN_UNIVERSES.map(universe => universe.id)
+
+export const RECOMMENDATIONS = ['strong_buy', 'buy', 'hold', 'sell', 'strong_sell']
+
+export const SCREENER_FIELDS: ScreenerField[] = [
+  // Quote
+  { id: 'sector', label: 'Sector', group: 'quote', type: 'string' },
+  { id: 'industry', label: 'Industry', group: 'quote', type: 'string' },
+  { id: 'price', label: 'Price', group: 'quote', type: 'number', unit: 'currency' },
+  { id: 'change_percent', label: 'Change %', group: 'quote', type: 'number', unit: 'percent' },
+  { id: 'market_cap', label: 'Market Cap', group: 'quote', type: 'number', unit: 'currency' },
+  { id: 'pe_ratio', label: 'P/E', group: 'quote', type: 'number', unit: 'multiple' },
+  { id: 'eps', label: 'EPS', group: 'quote', type: 'number', unit: 'currency' },
+  { id: 'dividend_yield', label: 'Dividend Yield', group: 'quote', type: 'number', unit: 'percent' },
+  { id: 'volume', label: 'Volume', group: 'quote', type: 'number', unit: 'shares' },
+  { id: 'avg_volume', label: 'Avg Volume (3M)', group: 'quote', type: 'number', unit: 'shares' },
+  { id: 'week52_high', label: '52W High', group: 'quote', type: 'number', unit: 'currency' },
+  { id: 'week52_low', label: '52W Low', group: 'quote', type: 'number', unit: 'currency' },
+  { id: 'pct_from_52w_high', label: '% From 52W High', group: 'quote', type: 'number', unit: 'percent', description: 'Negative when below the high' },
+  { id: 'eps_growth', label: 'EPS Growth (3-5Y)', group: 'quote', type: 'number', unit: 'percent' },
+  { id: 'universe', label: 'Index', group: 'quote', type: 'list', options: UNIVERSE_IDS, description: 'Use has / not has with an index id' },
+
+  // StockBeacon score
+  { id: 'score', label: 'StockBeacon Score', group: 'score', type: 'number', unit: 'points' },
+  { id: 'business_quality', label: 'Business Quality', group: 'score', type: 'number', unit: 'points' },
+  { id: 'timing', label: 'Time to Buy', group: 'score', type: 'number', unit: 'points' },
+  { id: 'financial_health', label: 'Financial Health', group: 'score', type: 'number', unit: 'points' },
+  { id: 'moat', label: 'Moat', group: 'score', type: 'number', unit: 'points' },
+  { id: 'growth', label: 'Growth', group: 'score', type: 'number', unit: 'points' },
+  { id: 'valuation_score', label: 'Valuation Score', group: 'score', type: 'number', unit: 'points' },
+  { id: 'technical_score', label: 'Technical Score', group: 'score', type: 'number', unit: 'points' },
+  { id: 'recommendation', label: 'Recommendation', group: 'score', type: 'enum', options: RECOMMENDATIONS },
+
+  // Financial ratios, as calculated by the financial interpreter
+  { id: 'current_ratio', label: 'Current Ratio', group: 'ratio', type: 'number', unit: 'ratio' },
+  { id: 'quick_ratio', label: 'Quick Ratio', group: 'ratio', type: 'number', unit: 'ratio' },
+  { id: 'cash_ratio', label: 'Cash Ratio', group: 'ratio', type: 'number', unit: 'ratio' },
+  { id: 'gross_margin', label: 'Gross Margin', group: 'ratio', type: 'number', unit: 'percent' },
+  { id: 'operating_margin', label: 'Operating Margin', group: 'ratio', type: 'number', unit: 'percent' },
+  { id: 'net_margin', label: 'Net Margin', group: 'ratio', type: 'number', unit: 'percent' },
+  { id: 'roe', label: 'ROE', group: 'ratio', type: 'number', unit: 'percent' },
+  { id: 'roa', label: 'ROA', group: 'ratio', type: 'number', unit: 'percent' },
+  { id: 'roic', label: 'ROIC', group: 'ratio', type: 'number', unit: 'percent' },
+  { id: 'fcf_margin', label: 'FCF Margin', group: 'ratio', type: 'number', unit: 'percent' },
+  { id: 'asset_turnover', label: 'Asset Turnover', group: 'ratio', type: 'number', unit: 'ratio' },
+  { id: 'inventory_turnover', label: 'Inventory Turnover', group: 'ratio', type: 'number', unit: 'ratio' },
+  { id: 'receivables_turnover', label: 'Receivables Turnover', group: 'ratio', type: 'number', unit: 'ratio' },
+  { id: 'debt_to_equity', label: 'Debt/Equity', group: 'ratio', type: 'number', unit: 'ratio' },
+  { id: 'debt_to_assets', label: 'Debt/Assets', group: 'ratio', type: 'number', unit: 'ratio' },
+  { id: 'interest_coverage', label: 'Interest Coverage', group: 'ratio', type: 'number', unit: 'multiple' },
+  { id: 'operating_cash_flow_ratio', label: 'OCF Ratio', group: 'ratio', type: 'number', unit: 'ratio' },
+  { id: 'cash_flow_to_net_income', label: 'OCF/Net Income', group: 'ratio', type: 'number', unit: 'ratio' },
+  { id: 'price_to_sales', label: 'P/S', group: 'ratio', type: 'number', unit: 'multiple' },
+  { id: 'price_to_book', label: 'P/B', group: 'ratio', type: 'number', unit: 'multiple' },
+  { id: 'ev_to_ebitda', label: 'EV/EBITDA', group: 'ratio', type: 'number', unit: 'multiple' },
+  { id: 'price_to_fcf', label: 'P/FCF', group: 'ratio', type: 'number', unit: 'multiple' },
+
+  // Red and green flags
+  { id: 'red_flags', label: 'Red Flags', group: 'flag', type: 'number', unit: 'count' },
+  { id: 'severe_red_flags', label: 'Critical/High Red Flags', group: 'flag', type: 'number', unit: 'count' },
+  { id: 'green_flags', label: 'Green Flags', group: 'flag', type: 'number', unit: 'count' },
+  { id: 'red_flag', label: 'Red Flag', group: 'flag', type: 'list', options: RED_FLAG_IDS, description: 'Use has / not has with a flag id' },
+  { id: 'green_flag', label: 'Green Flag', group: 'flag', type: 'list', options: GREEN_FLAG_IDS, description: 'Use has / not has with a flag id' },
+
+  // Intrinsic value
+  { id: 'valuation_level', label: 'Valuation', group: 'valuation', type: 'enum', options: VALUATION_LEVELS },
+  { id: 'valuation_upside', label: 'Upside to Intrinsic Value', group: 'valuation', type: 'number', unit: 'percent' },
+  { id: 'intrinsic_value', label: 'Intrinsic Value', group: 'valuation', type: 'number', unit: 'currency' },
+
+  // Technical indicators
+  { id: 'rsi', label: 'RSI (14)', group: 'technical', type: 'number', unit: 'points' },
+  { id: 'sma50', label: 'SMA 50', group: 'technical', type: 'number', unit: 'currency' },
+  { id: 'sma200', label: 'SMA 200', group: 'technical', type: 'number', unit: 'currency' },
+  { id: 'price_vs_sma50', label: 'Price vs SMA 50', group: 'technical', type: 'number', unit: 'percent' },
+  { id: 'price_vs_sma200', label: 'Price vs SMA 200', group: 'technical', type: 'number', unit: 'percent' },
+  { id: 'macd_histogram', label: 'MACD Histogram', group: 'technical', type: 'number' },
+  { id: 'volatility', label: 'Volatility', group: 'technical', type: 'number', unit: 'percent' },
+  { id: 'trend', label: 'Trend', group: 'technical', type: 'enum', options: ['bullish', 'bearish', 'neutral'] },
+]
+
+export const SCREENER_FIELD_MAP = new Map(SCREENER_FIELDS.map(field => [field.id, field]))
+
+// Shown for every result alongside any fields a screen filters or sorts on
+export const DEFAULT_COLUMNS = ['price', 'market_cap', 'score', 'pe_ratio', 'sector']
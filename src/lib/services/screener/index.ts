@@ -0,0 +1,311 @@
+/**
+ * Stock Screener
+ * Filters and sorts every scored symbol on quote, score, ratio, flag,
+ * valuation, technical and index membership fields. The universe is built
+ * from stock_scores, the screener snapshots captured by the score job and
+ * any cached quotes.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { Database } from '@/types/database'
+import { StockQuote } from '@/types/stock'
+import { RedisCacheService } from '../redis-cache.service'
+import { SP500GitHubService } from '../sp500-github.service'
+import { UniverseService } from '../universes'
+import { DEFAULT_SCORING_PROFILE_ID, ScoringProfile, ScoringProfileService } from '../scoring-profile.service'
+import { ScreenerSnapshotService } from './snapshots'
+import { DEFAULT_COLUMNS, SCREENER_FIELD_MAP } from './fields'
+import { matchesFilter, ScreenerQueryError } from './dsl'
+import {
+  ScreenerFieldValue,
+  ScreenerFilter,
+  ScreenerQuery,
+  ScreenerResult,
+  ScreenerSnapshot,
+  ScreenerSort,
+  ScreenerStock,
+} from './types/screener-types'
+
+export * from './types/screener-types'
+export * from './fields'
+export { ScreenerQueryError, MAX_FILTERS, parseScreen, formatScreen, validateFilters, matchesFilter } from './dsl'
+export { ScreenerSnapshotService } from './snapshots'
+
+type StockScoreRow = Database['public']['Tables']['stock_scores']['Row']
+
+export const DEFAULT_PAGE_SIZE = 25
+export const MAX_PAGE_SIZE = 100
+
+const DEFAULT_SORT: ScreenerSort = { field: 'score', direction: 'desc' }
+const UNIVERSE_TTL = 5 * 60 * 1000 // 5 minutes
+const SCORE_PAGE_SIZE = 1000
+
+const SEVERE_LEVELS = ['critical', 'high']
+
+const percentFrom = (value: number | null | undefined, base: number | null | undefined) =>
+  value && base ? Math.round(((value - base) / base) * 10000) / 100 : null
+
+const numberOrNull = (value: unknown): number | null =>
+  typeof value === 'number' && isFinite(value) ? value : null
+
+export class StockScreener {
+  private static universe: { stocks: ScreenerStock[], loadedAt: number } | null = null
+
+  /**
+   * Run a screen over the universe, scored under the given profile when one is passed
+   */
+  static async run(query: ScreenerQuery, profile?: ScoringProfile): Promise<ScreenerResult> {
+    const sort = query.sort || DEFAULT_SORT
+    const sortField = SCREENER_FIELD_MAP.get(sort.field)
+    if (!sortField || sortField.type === 'list') {
+      throw new ScreenerQueryError(`Cannot sort by "${sort.field}"`)
+    }
+
+    const pageSize = Math.min(Math.max(query.pageSize || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+    const universe = await this.loadUniverse()
+    const matched = await this.matchAll(query.filters, profile)
+
+    // Missing values always sort last
+    const direction = sort.direction === 'asc' ? 1 : -1
+    matched.sort((a, b) => {
+      const left = a.values[sort.field]
+      const right = b.values[sort.field]
+      if (left === null || left === undefined) return right === null || right === undefined ? 0 : 1
+      if (right === null || right === undefined) return -1
+      if (typeof left === 'number' && typeof right === 'number') return (left - right) * direction
+      return String(left).localeCompare(String(right)) * direction
+    })
+
+    const totalPages = Math.max(Math.ceil(matched.length / pageSize), 1)
+    const page = Math.min(Math.max(query.page || 1, 1), totalPages)
+    const columns = Array.from(new Set([
+      ...DEFAULT_COLUMNS,
+      ...query.filters.map(f => f.field),
+      sort.field,
+    ]))
+
+    return {
+      rows: matched.slice((page - 1) * pageSize, page * pageSize).map(stock => ({
+        ...stock,
+        values: Object.fromEntries(columns.map(column => [column, stock.values[column] ?? null])),
+      })),
+      columns,
+      total: matched.length,
+      page,
+      pageSize,
+      totalPages,
+      universeSize: universe.length,
+      filters: query.filters,
+      sort,
+    }
+  }
+
+  /**
+   * Every stock matching the filters, unsorted and unpaged
+   */
+  static async matchAll(filters: ScreenerFilter[], profile?: ScoringProfile): Promise<ScreenerStock[]> {
+    const universe = await this.loadUniverse()
+    const stocks = profile && profile.id !== DEFAULT_SCORING_PROFILE_ID
+      ? universe.map(stock => this.applyProfile(stock, profile))
+      : universe
+    return stocks.filter(stock => filters.every(filter => matchesFilter(stock.values[filter.field], filter)))
+  }
+
+  /**
+   * Drop the in-memory universe, e.g. once scores have been recalculated
+   */
+  static clearCache(): void {
+    this.universe = null
+  }
+
+  /**
+   * Every screenable symbol with its field values, cached in memory for a few minutes
+   */
+  static async loadUniverse(): Promise<ScreenerStock[]> {
+    if (this.universe && Date.now() - this.universe.loadedAt < UNIVERSE_TTL) {
+      return this.universe.stocks
+    }
+
+    const [scores, snapshots, constituents, membership] = await Promise.all([
+      this.getScores(),
+      ScreenerSnapshotService.getSnapshots().catch(error => {
+        console.error('[Screener] Failed to load snapshots:', error)
+        return [] as ScreenerSnapshot[]
+      }),
+      SP500GitHubService.getConstituents().catch(error => {
+        console.error('[Screener] Failed to load S&P 500 constituents:', error)
+        return []
+      }),
+      UniverseService.getMembership().catch(error => {
+        console.error('[Screener] Failed to load index membership:', error)
+        return new Map<string, string[]>()
+      }),
+    ])
+
+    const scoresBySymbol = new Map(scores.map(s => [s.symbol, s]))
+    const snapshotsBySymbol = new Map(snapshots.map(s => [s.symbol, s]))
+    const constituentsBySymbol = new Map(constituents.map(c => [c.symbol, c]))
+    const symbols = Array.from(new Set([...scoresBySymbol.keys(), ...snapshotsBySymbol.keys()])).sort()
+
+    const quotes = symbols.length > 0 ? await RedisCacheService.getQuotes(symbols) : new Map<string, StockQuote>()
+
+    const stocks = symbols.map(symbol => this.buildStock(
+      symbol,
+      scoresBySymbol.get(symbol),
+      snapshotsBySymbol.get(symbol),
+      quotes.get(symbol),
+      constituentsBySymbol.get(symbol),
+      membership.get(symbol) || []
+    ))
+
+    this.universe = { stocks, loadedAt: Date.now() }
+    return stocks
+  }
+
+  /**
+   * Re-weight a stock's score fields under a profile. Stored scores use the
+   * default weights.
+   */
+  private static applyProfile(stock: ScreenerStock, profile: ScoringProfile): ScreenerStock {
+    const values = stock.values
+    if (values.score === null) return stock
+
+    const weighted = ScoringProfileService.rescore({
+      financialHealthScore: numberOrNull(values.financial_health) ?? 0,
+      moatScore: numberOrNull(values.moat) ?? 0,
+      growthScore: numberOrNull(values.growth) ?? 0,
+      valuationScore: numberOrNull(values.valuation_score) ?? 0,
+      technicalScore: numberOrNull(values.technical_score) ?? 0,
+    }, profile)
+
+    return {
+      ...stock,
+      values: {
+        ...values,
+        score: weighted.score,
+        business_quality: weighted.businessQualityScore,
+        timing: weighted.timingScore,
+        financial_health: weighted.financialHealthScore,
+        moat: weighted.moatScore,
+        growth: weighted.growthScore,
+        valuation_score: weighted.valuationScore,
+        technical_score: weighted.technicalScore,
+        recommendation: weighted.recommendation,
+      },
+    }
+  }
+
+  private static async getScores(): Promise<StockScoreRow[]> {
+    const supabase = await createClient()
+    const rows: StockScoreRow[] = []
+
+    for (let from = 0; ; from += SCORE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('stock_scores')
+        .select('*')
+        .order('symbol')
+        .range(from, from + SCORE_PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to load stock scores: ${error.message}`)
+      }
+
+      rows.push(...((data || []) as StockScoreRow[]))
+      if (!data || data.length < SCORE_PAGE_SIZE) break
+    }
+
+    return rows
+  }
+
+  /**
+   * Resolve every field for a symbol. A cached live quote wins over the
+   * snapshot's quote, which may be up to a day old.
+   */
+  private static buildStock(
+    symbol: string,
+    score: StockScoreRow | undefined,
+    snapshot: ScreenerSnapshot | undefined,
+    quote: StockQuote | undefined,
+    constituent: { companyName: string, sector: string, industry?: string } | undefined,
+    universes: string[]
+  ): ScreenerStock {
+    const saved = snapshot?.quote || {}
+    const technicals = snapshot?.technicals || {}
+    const ratios = snapshot?.ratios || {}
+
+    const price = quote?.price ?? saved.price ?? null
+    const sma50 = numberOrNull(technicals.sma50)
+    const sma200 = numberOrNull(technicals.sma200)
+    const week52High = quote?.week52High ?? saved.week52_high ?? null
+    const sector = constituent?.sector || snapshot?.sector || quote?.sector || null
+    const industry = constituent?.industry || snapshot?.industry || quote?.industry || null
+
+    const values: Record<string, ScreenerFieldValue> = {
+      sector,
+      industry,
+      price,
+      change_percent: quote?.changePercent ?? saved.change_percent ?? null,
+      market_cap: quote?.marketCap || saved.market_cap || null,
+      pe_ratio: quote?.peRatio ?? saved.pe_ratio ?? numberOrNull(ratios.pe_ratio),
+      eps: quote?.eps ?? saved.eps ?? null,
+      dividend_yield: quote?.dividendYield ?? saved.dividend_yield ?? null,
+      volume: quote?.volume || saved.volume || null,
+      avg_volume: quote?.averageDailyVolume3Month ?? saved.avg_volume ?? null,
+      week52_high: week52High,
+      week52_low: quote?.week52Low ?? saved.week52_low ?? null,
+      pct_from_52w_high: percentFrom(price, week52High),
+      eps_growth: quote?.epsGrowth3to5Year ?? saved.eps_growth ?? null,
+      universe: universes,
+
+      score: score?.score ?? null,
+      business_quality: score?.business_quality_score ?? null,
+      timing: score?.timing_score ?? null,
+      financial_health: score?.financial_health_score ?? null,
+      moat: score?.ai_moat_score ?? null,
+      growth: score?.growth_score ?? null,
+      valuation_score: score?.valuation_score ?? null,
+      technical_score: score?.technical_score ?? null,
+      recommendation: score?.recommendation ?? null,
+
+      valuation_level: snapshot?.valuationLevel ?? null,
+      valuation_upside: snapshot?.valuationUpside ?? null,
+      intrinsic_value: snapshot?.intrinsicValue ?? null,
+
+      rsi: numberOrNull(technicals.rsi),
+      sma50,
+      sma200,
+      price_vs_sma50: percentFrom(price, sma50),
+      price_vs_sma200: percentFrom(price, sma200),
+      macd_histogram: numberOrNull(technicals.macd_histogram),
+      volatility: numberOrNull(technicals.volatility),
+      trend: typeof technicals.trend === 'string' ? technicals.trend : null,
+    }
+
+    for (const [field, definition] of SCREENER_FIELD_MAP) {
+      if (definition.group === 'ratio') {
+        values[field] = numberOrNull(ratios[field])
+      }
+    }
+
+    // Flags are only known once statements have been analyzed
+    if (snapshot && Object.keys(ratios).length > 0) {
+      values.red_flags = snapshot.redFlags.length
+      values.severe_red_flags = snapshot.redFlags.filter(f => SEVERE_LEVELS.includes(f.level)).length
+      values.green_flags = snapshot.greenFlags.length
+      values.red_flag = snapshot.redFlags.map(f => f.id)
+      values.green_flag = snapshot.greenFlags.map(f => f.id)
+    } else {
+      values.red_flags = values.severe_red_flags = values.green_flags = null
+      values.red_flag = values.green_flag = null
+    }
+
+    return {
+      symbol,
+      companyName: constituent?.companyName || snapshot?.companyName || quote?.name || symbol,
+      sector,
+      industry,
+      values,
+      snapshotAt: snapshot?.updatedAt ?? null,
+    }
+  }
+}
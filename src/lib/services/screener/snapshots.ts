@@ -0,0 +1,170 @@
+/**
+ * Screener snapshots - fundamentals captured per symbol so the screener can
+ * filter the whole universe without calling market data providers
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { createClient as createAdminClient, SupabaseClient } from '@supabase/supabase-js'
+import { Database } from '@/types/database'
+import { StockFinancials, StockQuote, StockScore } from '@/types/stock'
+import { MarketDataService } from '../market-data'
+import { FinancialInterpreter } from '../financial-interpreter'
+import { ValuationService } from '../valuation.service'
+import { PeerComparisonService } from '../peer-comparison.service'
+import { ScreenerSnapshot } from './types/screener-types'
+
+type SnapshotRow = Database['public']['Tables']['screener_snapshots']['Row']
+type SnapshotInsert = Database['public']['Tables']['screener_snapshots']['Insert']
+
+const PAGE_SIZE = 1000
+
+const round = (value: number | null | undefined) =>
+  value === null || value === undefined || !isFinite(value) ? null : Math.round(value * 100) / 100
+
+export class ScreenerSnapshotService {
+  /**
+   * Capture a symbol's ratios, flags, valuation and technicals. Each part is
+   * best effort so a missing statement still leaves the quote and technicals.
+   * Snapshots are shared, so only the service role writes them.
+   */
+  static async capture(
+    symbol: string,
+    quote: StockQuote,
+    financials: StockFinancials,
+    score: StockScore
+  ): Promise<void> {
+    const snapshot: SnapshotInsert = {
+      symbol,
+      company_name: quote.name || null,
+      sector: quote.sector,
+      industry: quote.industry,
+      quote: {
+        price: round(quote.price),
+        change_percent: round(quote.changePercent),
+        market_cap: quote.marketCap || null,
+        pe_ratio: round(quote.peRatio),
+        eps: round(quote.eps),
+        dividend_yield: round(quote.dividendYield),
+        volume: quote.volume || null,
+        avg_volume: quote.averageDailyVolume3Month,
+        week52_high: round(quote.week52High),
+        week52_low: round(quote.week52Low),
+        eps_growth: round(quote.epsGrowth3to5Year),
+      },
+      technicals: score.technicalIndicators
+        ? {
+            rsi: round(score.technicalIndicators.rsi),
+            sma50: round(score.technicalIndicators.sma50),
+            sma200: round(score.technicalIndicators.sma200),
+            macd_histogram: round(score.technicalIndicators.macd.histogram),
+            volatility: round(score.technicalIndicators.volatility * 100),
+            trend: score.technicalIndicators.trend,
+          }
+        : {},
+      updated_at: new Date().toISOString(),
+    }
+
+    try {
+      const statements = await MarketDataService.getFinancialStatements(symbol)
+      if (statements) {
+        const analysis = await new FinancialInterpreter().analyze(statements)
+        const ratios: Record<string, number | null> = {}
+        for (const ratio of analysis.ratios) {
+          ratios[ratio.id] = round(ratio.value)
+        }
+        snapshot.ratios = { ...ratios, ...PeerComparisonService.calculateMultiples(statements, quote) }
+        snapshot.red_flags = analysis.redFlags.map(f => ({ id: f.flag.id, level: f.flag.severity }))
+        snapshot.green_flags = analysis.greenFlags.map(f => ({ id: f.flag.id, level: f.flag.strength }))
+      }
+    } catch (error) {
+      console.warn(`[ScreenerSnapshot] Failed to analyze statements for ${symbol}:`, error)
+    }
+
+    try {
+      const valuation = await ValuationService.calculateValuation(symbol, quote, financials)
+      if (valuation.averageIntrinsicValue > 0) {
+        const category = ValuationService.getValuationCategory(quote.price, valuation.averageIntrinsicValue, 'medium')
+        snapshot.valuation_level = category.level
+        snapshot.valuation_upside = round(valuation.upside)
+        snapshot.intrinsic_value = round(valuation.averageIntrinsicValue)
+      }
+    } catch (error) {
+      console.warn(`[ScreenerSnapshot] Failed to value ${symbol}:`, error)
+    }
+
+    const { error } = await (this.adminClient().from('screener_snapshots') as any)
+      .upsert(snapshot, { onConflict: 'symbol' })
+
+    if (error) {
+      throw new Error(`Failed to save screener snapshot for ${symbol}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Every captured snapshot, paged past the Supabase row limit
+   */
+  static async getSnapshots(): Promise<ScreenerSnapshot[]> {
+    const supabase = await createClient()
+    const rows: SnapshotRow[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('screener_snapshots')
+        .select('*')
+        .order('symbol')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to load screener snapshots: ${error.message}`)
+      }
+
+      rows.push(...((data || []) as SnapshotRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return rows.map(row => this.mapRow(row))
+  }
+
+  /**
+   * One symbol's snapshot, or null if it has never been captured
+   */
+  static async getSnapshot(symbol: string): Promise<ScreenerSnapshot | null> {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from('screener_snapshots')
+      .select('*')
+      .eq('symbol', symbol)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load screener snapshot for ${symbol}: ${error.message}`)
+    }
+
+    return data ? this.mapRow(data as SnapshotRow) : null
+  }
+
+  private static mapRow(row: SnapshotRow): ScreenerSnapshot {
+    return {
+      symbol: row.symbol,
+      companyName: row.company_name,
+      sector: row.sector,
+      industry: row.industry,
+      quote: (row.quote || {}) as ScreenerSnapshot['quote'],
+      ratios: (row.ratios || {}) as ScreenerSnapshot['ratios'],
+      redFlags: (row.red_flags || []) as unknown as ScreenerSnapshot['redFlags'],
+      greenFlags: (row.green_flags || []) as unknown as ScreenerSnapshot['greenFlags'],
+      valuationLevel: row.valuation_level,
+      valuationUpside: row.valuation_upside,
+      intrinsicValue: row.intrinsic_value,
+      technicals: (row.technicals || {}) as ScreenerSnapshot['technicals'],
+      updatedAt: row.updated_at,
+    }
+  }
+
+  private static adminClient(): SupabaseClient<Database> {
+    return createAdminClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Stock Screener Types
+ * Filters, fields and results for screening the persisted stock universe
+ */
+
+export type ScreenerFieldGroup = 'quote' | 'score' | 'ratio' | 'flag' | 'valuation' | 'technical'
+
+// 'list' fields hold ids (e.g. red flags) and are matched with has / not_has
+export type ScreenerFieldType = 'number' | 'string' | 'enum' | 'list'
+
+export type ScreenerFieldUnit = 'currency' | 'percent' | 'multiple' | 'ratio' | 'points' | 'count' | 'shares'
+
+export interface ScreenerField {
+  id: string
+  label: string
+  group: ScreenerFieldGroup
+  type: ScreenerFieldType
+  unit?: ScreenerFieldUnit
+  options?: string[] // Allowed values for enum fields
+  description?: string
+}
+
+export type ScreenerOperator = '>' | '>=' | '<' | '<=' | '=' | '!=' | 'in' | 'not_in' | 'has' | 'not_has'
+
+export type ScreenerScalar = number | string
+
+export type ScreenerValue = ScreenerScalar | ScreenerScalar[]
+
+export interface ScreenerFilter {
+  field: string
+  operator: ScreenerOperator
+  value: ScreenerValue
+}
+
+export interface ScreenerSort {
+  field: string
+  direction: 'asc' | 'desc'
+}
+
+export interface ScreenerQuery {
+  filters: ScreenerFilter[]
+  sort?: ScreenerSort
+  page?: number // 1-based
+  pageSize?: number
+}
+
+export type ScreenerFieldValue = number | string | string[] | null
+
+// One symbol in the universe with every field resolved
+export interface ScreenerStock {
+  symbol: string
+  companyName: string
+  sector: string | null
+  industry: string | null
+  values: Record<string, ScreenerFieldValue>
+  snapshotAt: string | null // When fundamentals were captured, null if never
+}
+
+export interface ScreenerResult {
+  rows: ScreenerStock[] // Values limited to the result columns
+  columns: string[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+  universeSize: number
+  filters: ScreenerFilter[]
+  sort: ScreenerSort
+}
+
+export interface ScreenerFlag {
+  id: string
+  level: string // Severity for red flags, strength for green flags
+}
+
+// Fundamentals captured for a symbol by the nightly score job
+export interface ScreenerSnapshot {
+  symbol: string
+  companyName: string | null
+  sector: string | null
+  industry: string | null
+  quote: Record<string, number | null>
+  ratios: Record<string, number | null>
+  redFlags: ScreenerFlag[]
+  greenFlags: ScreenerFlag[]
+  valuationLevel: string | null
+  valuationUpside: number | null
+  intrinsicValue: number | null
+  technicals: Record<string, number | string | null>
+  updatedAt: string
+}
@@ -1,11 +1,15 @@
 import { RedisCacheService } from './redis-cache.service'
 import { createClient } from '@/lib/supabase/server'
+import { BUILT_IN_UNIVERSE_MAP, SP500_UNIVERSE_ID } from './universes/definitions'
+import { ConstituentHistoryService } from './universes/history'
 
 export interface SP500Stock {
   symbol: string
   companyName: string
   sector: string
+  industry?: string // GICS sub-industry
   marketCapTier?: 'mega' | 'large' | 'mid'
+  dateAdded?: string // YYYY-MM-DD
 }
 
 export class SP500GitHubService {
@@ -109,6 +113,8 @@ export class SP500GitHubService {
     const symbolIndex = headers.findIndex(h => h.includes('symbol'))
     const nameIndex = headers.findIndex(h => h.includes('security') || h.includes('name') || h.includes('company'))
     const sectorIndex = headers.findIndex(h => h.includes('sector'))
+    const industryIndex = headers.findIndex(h => h.includes('industry'))
+    const dateAddedIndex = headers.findIndex(h => h.includes('date added'))
     
     if (symbolIndex === -1) {
       throw new Error('Could not find symbol column in CSV')
@@ -126,7 +132,9 @@ export class SP500GitHubService {
           symbol: this.cleanCSVValue(parts[symbolIndex] || ''),
           companyName: this.cleanCSVValue(parts[nameIndex] || ''),
           sector: this.cleanCSVValue(parts[sectorIndex] || ''),
-          marketCapTier: this.inferMarketCapTier(parts[symbolIndex] || '')
+          industry: industryIndex === -1 ? undefined : this.cleanCSVValue(parts[industryIndex] || '') || undefined,
+          marketCapTier: this.inferMarketCapTier(parts[symbolIndex] || ''),
+          dateAdded: dateAddedIndex === -1 ? undefined : this.cleanCSVValue(parts[dateAddedIndex] || '') || undefined
         }
       })
       .filter(stock => stock.symbol) // Remove invalid entries
@@ -173,13 +181,13 @@ export class SP500GitHubService {
    */
   private static validateData(stocks: SP500Stock[]): boolean {
     // Should have approximately 500 stocks (some variance for dual-class shares)
-    if (stocks.length < 495 || stocks.length > 510) {
+    const { expectedCount, requiredSymbols: requiredStocks } = BUILT_IN_UNIVERSE_MAP.get(SP500_UNIVERSE_ID)!
+    if (stocks.length < expectedCount.min || stocks.length > expectedCount.max) {
       console.error(`Invalid stock count: ${stocks.length}`)
       return false
     }
-    
+
     // Must include major companies
-    const requiredStocks = ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'NVDA']
     const symbols = stocks.map(s => s.symbol)
     const hasRequired = requiredStocks.every(req => symbols.includes(req))
     
@@ -224,7 +232,10 @@ export class SP500GitHubService {
         symbol: stock.symbol,
         company_name: stock.companyName,
         sector: stock.sector,
+        industry: stock.industry || null,
         market_cap_tier: stock.marketCapTier,
+        date_added: stock.dateAdded || null,
+        date_removed: null,
         is_active: true,
         updated_at: new Date().toISOString()
       }))
@@ -245,6 +256,35 @@ export class SP500GitHubService {
       console.error('Error persisting to database:', error)
       // Don't throw - this is just a backup
     }
+    
+    await this.recordChanges(stocks)
+  }
+  
+  /**
+   * Record additions and removals since the last list, and date removals
+   */
+  private static async recordChanges(stocks: SP500Stock[]): Promise<void> {
+    try {
+      const changes = await ConstituentHistoryService.recordChanges(SP500_UNIVERSE_ID, stocks.map(stock => ({
+        symbol: stock.symbol,
+        companyName: stock.companyName || null,
+        sector: stock.sector || null,
+        industry: stock.industry || null,
+        dateAdded: stock.dateAdded || null
+      })))
+      
+      const removed = changes.filter(change => change.changeType === 'removed')
+      if (removed.length > 0) {
+        const supabase = await createClient()
+        await supabase
+          .from('sp500_constituents')
+          .update({ date_removed: removed[0].effectiveDate })
+          .in('symbol', removed.map(change => change.symbol))
+      }
+    } catch (error) {
+      console.error('Failed to record S&P 500 constituent changes:', error)
+      // Don't throw - the next refresh picks up missed changes
+    }
   }
   
   /**
@@ -256,7 +296,7 @@ export class SP500GitHubService {
       
       const { data, error } = await supabase
         .from('sp500_constituents')
-        .select('symbol, company_name, sector, market_cap_tier')
+        .select('symbol, company_name, sector, industry, market_cap_tier, date_added')
         .eq('is_active', true)
       
       if (error) {
@@ -268,7 +308,9 @@ export class SP500GitHubService {
         symbol: row.symbol,
         companyName: row.company_name,
         sector: row.sector || '',
-        marketCapTier: row.market_cap_tier as SP500Stock['marketCapTier']
+        industry: row.industry || undefined,
+        marketCapTier: row.market_cap_tier as SP500Stock['marketCapTier'],
+        dateAdded: row.date_added || undefined
       }))
     } catch (error) {
       console.error('Error fetching from database:', error)
@@ -0,0 +1,324 @@
+import { MarketDataService, HistoricalPeriod } from './market-data'
+import { RedisCacheService } from './redis-cache.service'
+import { StockDataService } from './stock-data.service'
+import { ValuationService, ComprehensiveValuation } from './valuation.service'
+import { FinancialInterpreter } from './financial-interpreter'
+import { HealthScoreCategory } from './financial-interpreter/types/interpreter-types'
+import { FinancialStatements, StockHistorical, StockScore } from '@/types/stock'
+
+export const MIN_COMPARE_SYMBOLS = 2
+export const MAX_COMPARE_SYMBOLS = 6
+
+export const COMPARE_PERIODS: HistoricalPeriod[] = ['3mo', '6mo', '1y', '2y', '5y']
+
+export type ComparedScore = Pick<StockScore,
+  'score' | 'businessQualityScore' | 'timingScore' | 'financialHealthScore' | 'moatScore' |
+  'growthScore' | 'valuationScore' | 'technicalScore' | 'recommendation'
+>
+
+export interface ComparedHealth {
+  overall: number
+  grade: string
+  categories: { name: HealthScoreCategory['name'], score: number }[]
+}
+
+export interface ComparedFlag {
+  level: string // Severity for red flags, strength for green flags
+  title: string
+  explanation: string
+}
+
+export interface ComparedValuation {
+  currentPrice: number
+  averageIntrinsicValue: number
+  upside: number
+  recommendation: ComprehensiveValuation['recommendation']
+  methods: { method: string, value: number, confidence: 'high' | 'medium' | 'low' }[]
+}
+
+export interface StatementTrendPoint {
+  fiscalYear: number
+  revenue: number | null
+  netIncome: number | null
+  freeCashFlow: number | null
+  operatingMargin: number | null // Percentage
+}
+
+export interface ComparedStock {
+  symbol: string
+  name: string
+  price: number | null
+  changePercent: number | null
+  marketCap: number | null
+  sector: string | null
+  score: ComparedScore | null
+  health: ComparedHealth | null
+  redFlags: ComparedFlag[]
+  greenFlags: ComparedFlag[]
+  valuation: ComparedValuation | null
+  statementTrends: StatementTrendPoint[] // Oldest first
+  unavailable: string[] // Sections that could not be loaded
+}
+
+export interface PerformancePoint {
+  date: string
+  returns: Record<string, number | null> // Return since the common start date, as a percentage
+}
+
+export interface StockComparison {
+  symbols: string[]
+  stocks: ComparedStock[]
+  performance: PerformancePoint[]
+  period: HistoricalPeriod
+  generatedAt: string
+}
+
+const STOCK_CACHE_TTL = 60 * 60 // 1 hour
+const TREND_YEARS = 5
+
+const toDateKey = (date: Date | string) => new Date(date).toISOString().split('T')[0]
+
+export class StockComparisonService {
+  /**
+   * Validate and normalise a comma-separated symbol list
+   */
+  static parseSymbols(value: string | null): string[] {
+    const symbols = Array.from(new Set(
+      (value || '')
+        .split(',')
+        .map(symbol => symbol.trim().toUpperCase())
+        .filter(Boolean)
+    ))
+
+    if (symbols.length < MIN_COMPARE_SYMBOLS || symbols.length > MAX_COMPARE_SYMBOLS) {
+      throw new Error(`Compare between ${MIN_COMPARE_SYMBOLS} and ${MAX_COMPARE_SYMBOLS} symbols`)
+    }
+    if (symbols.some(symbol => !/^[A-Z0-9.\-^]{1,10}$/.test(symbol))) {
+      throw new Error('Symbols may only contain letters, numbers, dots and dashes')
+    }
+
+    return symbols
+  }
+
+  /**
+   * Scores, health, flags, valuation, statement trends and price performance
+   * for several stocks, aligned for side-by-side display
+   */
+  static async compare(symbols: string[], period: HistoricalPeriod = '1y'): Promise<StockComparison> {
+    const [stocks, performance] = await Promise.all([
+      Promise.all(symbols.map(symbol => this.getComparedStock(symbol))),
+      this.getPerformance(symbols, period),
+    ])
+
+    return {
+      symbols,
+      stocks,
+      performance,
+      period,
+      generatedAt: new Date().toISOString(),
+    }
+  }
+
+  private static async getComparedStock(symbol: string): Promise<ComparedStock> {
+    const cacheKey = `comparison:${symbol}`
+    const cached = await RedisCacheService.get(cacheKey)
+    if (cached) {
+      try {
+        return JSON.parse(cached)
+      } catch (e) {
+        console.error(`Failed to parse cached comparison for ${symbol}:`, e)
+      }
+    }
+
+    const unavailable: string[] = []
+    const stock: ComparedStock = {
+      symbol,
+      name: symbol,
+      price: null,
+      changePercent: null,
+      marketCap: null,
+      sector: null,
+      score: null,
+      health: null,
+      redFlags: [],
+      greenFlags: [],
+      valuation: null,
+      statementTrends: [],
+      unavailable,
+    }
+
+    const [stockData, statements] = await Promise.all([
+      StockDataService.getStockData(symbol).catch(error => {
+        console.error(`[StockComparison] Failed to load stock data for ${symbol}:`, error)
+        return null
+      }),
+      MarketDataService.getFinancialStatements(symbol).catch(error => {
+        console.error(`[StockComparison] Failed to load statements for ${symbol}:`, error)
+        return null
+      }),
+    ])
+
+    if (stockData?.quote) {
+      const { quote } = stockData
+      stock.name = quote.name || symbol
+      stock.price = quote.price
+      stock.changePercent = quote.changePercent
+      stock.marketCap = quote.marketCap || null
+      stock.sector = quote.sector
+
+      try {
+        const valuation = await ValuationService.calculateValuation(symbol, quote, stockData.financials)
+        stock.valuation = {
+          currentPrice: valuation.currentPrice,
+          averageIntrinsicValue: valuation.averageIntrinsicValue,
+          upside: valuation.upside,
+          recommendation: valuation.recommendation,
+          methods: valuation.valuations.map(v => ({ method: v.method, value: v.value, confidence: v.confidence })),
+        }
+      } catch (error) {
+        console.error(`[StockComparison] Failed to value ${symbol}:`, error)
+        unavailable.push('valuation')
+      }
+    } else {
+      unavailable.push('quote', 'valuation')
+    }
+
+    if (stockData?.score) {
+      const { score } = stockData
+      stock.score = {
+        score: score.score,
+        businessQualityScore: score.businessQualityScore,
+        timingScore: score.timingScore,
+        financialHealthScore: score.financialHealthScore,
+        moatScore: score.moatScore,
+        growthScore: score.growthScore,
+        valuationScore: score.valuationScore,
+        technicalScore: score.technicalScore,
+        recommendation: score.recommendation,
+      }
+    } else {
+      unavailable.push('score')
+    }
+
+    if (statements) {
+      stock.statementTrends = this.getStatementTrends(statements)
+
+      try {
+        const analysis = await new FinancialInterpreter().analyze(statements)
+        stock.health = {
+          overall: analysis.healthScore.overall,
+          grade: analysis.healthScore.grade,
+          categories: analysis.healthScore.categories.map(c => ({ name: c.name, score: c.score })),
+        }
+        stock.redFlags = analysis.redFlags.map(f => ({
+          level: f.flag.severity,
+          title: f.flag.title,
+          explanation: f.flag.beginnerExplanation,
+        }))
+        stock.greenFlags = analysis.greenFlags.map(f => ({
+          level: f.flag.strength,
+          title: f.flag.title,
+          explanation: f.flag.beginnerExplanation,
+        }))
+      } catch (error) {
+        console.error(`[StockComparison] Failed to analyze statements for ${symbol}:`, error)
+        unavailable.push('health')
+      }
+    } else {
+      unavailable.push('statements', 'health')
+    }
+
+    // Partial results are not cached so a transient failure is retried
+    if (unavailable.length === 0) {
+      await RedisCacheService.set(cacheKey, JSON.stringify(stock), STOCK_CACHE_TTL)
+    }
+
+    return stock
+  }
+
+  /**
+   * Annual revenue, earnings, free cash flow and margin, oldest first
+   */
+  private static getStatementTrends(statements: FinancialStatements): StatementTrendPoint[] {
+    const cashFlows = statements.cashFlowStatements.annual
+
+    return statements.incomeStatements.annual
+      .slice(0, TREND_YEARS)
+      .map((income, index) => {
+        const fiscalYear = income.fiscalYear || new Date(income.endDate).getFullYear()
+        const cashFlow = cashFlows.find(cf =>
+          (cf.fiscalYear || new Date(cf.endDate).getFullYear()) === fiscalYear
+        ) || cashFlows[index]
+
+        const freeCashFlow = cashFlow
+          ? cashFlow.freeCashFlow ??
+            (cashFlow.operatingCashFlow !== null
+              ? cashFlow.operatingCashFlow - Math.abs(cashFlow.capitalExpenditures || 0)
+              : null)
+          : null
+
+        return {
+          fiscalYear,
+          revenue: income.revenue,
+          netIncome: income.netIncome,
+          freeCashFlow,
+          operatingMargin: income.revenue && income.operatingIncome !== null
+            ? Math.round((income.operatingIncome / income.revenue) * 1000) / 10
+            : null,
+        }
+      })
+      .reverse()
+  }
+
+  /**
+   * Price returns rebased to the first date every symbol has a close for
+   */
+  private static async getPerformance(symbols: string[], period: HistoricalPeriod): Promise<PerformancePoint[]> {
+    const histories = await Promise.all(symbols.map(symbol =>
+      MarketDataService.getHistorical(symbol, { period }).catch(error => {
+        console.error(`[StockComparison] Failed to load price history for ${symbol}:`, error)
+        return null
+      })
+    ))
+
+    // Synthetic prices would make the comparison meaningless
+    const series = new Map<string, Map<string, number>>()
+    histories.forEach((result, index) => {
+      if (!result || result.provenance.synthetic || result.data.length === 0) return
+      series.set(
+        symbols[index],
+        new Map(result.data.map((bar: StockHistorical) => [toDateKey(bar.date), bar.adjustedClose ?? bar.close]))
+      )
+    })
+
+    if (series.size === 0) return []
+
+    const dates = Array.from(new Set(
+      Array.from(series.values()).flatMap(closes => Array.from(closes.keys()))
+    )).sort()
+
+    const commonStart = dates.find(date =>
+      Array.from(series.values()).every(closes => closes.has(date))
+    )
+    if (!commonStart) return []
+
+    const bases = new Map(Array.from(series).map(([symbol, closes]) => [symbol, closes.get(commonStart)!]))
+    const last = new Map<string, number>()
+
+    return dates
+      .filter(date => date >= commonStart)
+      .map(date => {
+        const returns: Record<string, number | null> = {}
+        for (const symbol of symbols) {
+          const closes = series.get(symbol)
+          const close = closes?.get(date) ?? last.get(symbol)
+          if (closes?.has(date)) last.set(symbol, closes.get(date)!)
+
+          returns[symbol] = close !== undefined && bases.get(symbol)
+            ? Math.round(((close / bases.get(symbol)!) - 1) * 10000) / 100
+            : null
+        }
+        return { date, returns }
+      })
+  }
+}
@@ -1,4 +1,5 @@
 import { YahooFinanceService } from './yahoo-finance.service'
+import { MarketDataService, MarketDataFixtures } from './market-data'
 import { StockBeaconScoreService } from './stockbeacon-score.service'
 import { RedisCacheService } from './redis-cache.service'
 import { RedisBatchService } from './redis-batch.service'
@@ -28,9 +29,9 @@ export class StockDataService {
     // Fetch fresh data
     
     const [quote, financials, historical] = await Promise.all([
-      cachedData.quote || YahooFinanceService.getQuote(symbol),
-      cachedData.financials || YahooFinanceService.getFinancials(symbol),
-      cachedData.historical || YahooFinanceService.getHistoricalData(symbol, '3mo'),
+      cachedData.quote || MarketDataService.getQuote(symbol),
+      cachedData.financials || MarketDataService.getFinancials(symbol),
+      cachedData.historical || MarketDataService.getHistoricalData(symbol, '3mo'),
     ])
     
     if (!quote || !financials) {
@@ -131,7 +132,7 @@ export class StockDataService {
     
     if (symbolsToFetch.length > 0) {
       // Fetch fresh quotes
-      const freshQuotes = await YahooFinanceService.getQuotes(symbolsToFetch)
+      const freshQuotes = await MarketDataService.getQuotes(symbolsToFetch)
       
       // Cache fresh quotes
       for (const [symbol, quote] of Array.from(freshQuotes)) {
@@ -192,7 +193,7 @@ export class StockDataService {
     
     if (!trending) {
       // Fetch fresh trending stocks
-      trending = await YahooFinanceService.getTrendingStocks()
+      trending = await MarketDataFixtures.through('trending', 'US', () => YahooFinanceService.getTrendingStocks())
       
       // Cache them
       await RedisCacheService.setTrendingStocks(trending)
@@ -205,67 +206,7 @@ export class StockDataService {
    * Search for stocks
    */
   static async searchStocks(query: string) {
-    return YahooFinanceService.searchStocks(query)
-  }
-
-  /**
-   * Get stocks by criteria (for screener)
-   */
-  static async getScreenerStocks(criteria: {
-    minScore?: number
-    maxScore?: number
-    sector?: string
-    minMarketCap?: number
-    maxPE?: number
-    riskLevel?: 'conservative' | 'balanced' | 'growth'
-  }) {
-    // For now, start with trending stocks
-    const trendingSymbols = await this.getTrendingStocks()
-    
-    // Filter out crypto symbols to avoid errors
-    const cryptoPatterns = ['-USD', 'USD-', 'IBIT', 'GBTC', 'ETHE', 'BITO']
-    const symbols = trendingSymbols.filter(symbol => 
-      !cryptoPatterns.some(pattern => symbol.includes(pattern))
-    )
-    
-    const results = []
-    
-    for (const symbol of symbols) {
-      try {
-        const data = await this.getStockData(symbol)
-        
-        if (!data.quote || !data.score) continue
-        
-        // Apply filters
-        if (criteria.minScore && data.score.score < criteria.minScore) continue
-        if (criteria.maxScore && data.score.score > criteria.maxScore) continue
-        if (criteria.sector && data.quote.sector !== criteria.sector) continue
-        if (criteria.minMarketCap && data.quote.marketCap < criteria.minMarketCap) continue
-        if (criteria.maxPE && data.quote.peRatio && data.quote.peRatio > criteria.maxPE) continue
-        
-        // Risk level filtering
-        if (criteria.riskLevel) {
-          const score = data.score.score
-          if (criteria.riskLevel === 'conservative' && score < 70) continue
-          if (criteria.riskLevel === 'balanced' && (score < 50 || score > 80)) continue
-          if (criteria.riskLevel === 'growth' && score > 60) continue
-        }
-        
-        results.push({
-          symbol,
-          quote: data.quote,
-          score: data.score,
-          financials: data.financials,
-        })
-      } catch (error) {
-        console.error(`Failed to process ${symbol}:`, error)
-      }
-    }
-    
-    // Sort by score
-    results.sort((a, b) => b.score.score - a.score.score)
-    
-    return results
+    return MarketDataFixtures.through('search', query, () => YahooFinanceService.searchStocks(query))
   }
 
   /**
@@ -278,9 +219,9 @@ export class StockDataService {
       
       // Fetch fresh data
       const [quote, financials, historical] = await Promise.all([
-        YahooFinanceService.getQuote(symbol),
-        YahooFinanceService.getFinancials(symbol),
-        YahooFinanceService.getHistoricalData(symbol, '3mo'),
+        MarketDataService.getQuote(symbol),
+        MarketDataService.getFinancials(symbol),
+        MarketDataService.getHistoricalData(symbol, '3mo'),
       ])
       
       if (!quote || !financials || !historical) {
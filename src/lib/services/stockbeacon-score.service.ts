@@ -2,6 +2,53 @@ import { StockQuote, StockFinancials, StockHistorical, StockScore, TechnicalIndi
 import { MoatAnalysis } from './ai-moat.service'
 import { calculateSupportResistance as calculateSR } from '@/lib/utils/support-resistance'
 
+// Maximum points for each sub-score. Weights always add up to 100.
+export interface ScoreWeights {
+  financialHealth: number
+  moat: number
+  growth: number
+  valuation: number
+  technical: number
+}
+
+// Total score cut-offs for each recommendation. The quality cut-offs are a
+// percentage of the business quality maximum, so they hold under any weights.
+export interface RecommendationThresholds {
+  strongBuy: number
+  buy: number
+  hold: number
+  sell: number
+  strongBuyQualityPercent: number
+  buyQualityPercent: number
+}
+
+export type ScoreComponents = Pick<
+  StockScore,
+  'financialHealthScore' | 'moatScore' | 'growthScore' | 'valuationScore' | 'technicalScore'
+>
+
+export type WeightedScore = ScoreComponents & Pick<
+  StockScore,
+  'score' | 'businessQualityScore' | 'timingScore' | 'recommendation'
+>
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  financialHealth: 25,
+  moat: 20,
+  growth: 15,
+  valuation: 20,
+  technical: 20,
+}
+
+export const DEFAULT_RECOMMENDATION_THRESHOLDS: RecommendationThresholds = {
+  strongBuy: 80,
+  buy: 70,
+  hold: 50,
+  sell: 30,
+  strongBuyQualityPercent: 75, // 45 of 60
+  buyQualityPercent: 67, // 40 of 60
+}
+
 export class StockBeaconScoreService {
   /**
    * Calculate the complete StockBeacon Score (0-100)
@@ -68,6 +115,47 @@ export class StockBeaconScoreService {
     }
   }
 
+  /**
+   * Re-weight standard sub-scores. Stored scores always use the default
+   * weights; this gives the same stock's score under a custom profile.
+   */
+  static applyWeights(
+    components: ScoreComponents,
+    weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS,
+    thresholds: RecommendationThresholds = DEFAULT_RECOMMENDATION_THRESHOLDS
+  ): WeightedScore {
+    const scale = (value: number, key: keyof ScoreWeights) =>
+      (value || 0) / DEFAULT_SCORE_WEIGHTS[key] * weights[key]
+
+    const financialHealth = scale(components.financialHealthScore, 'financialHealth')
+    const moat = scale(components.moatScore, 'moat')
+    const growth = scale(components.growthScore, 'growth')
+    const valuation = scale(components.valuationScore, 'valuation')
+    const technical = scale(components.technicalScore, 'technical')
+
+    const businessQualityScore = Math.round(financialHealth + moat + growth)
+    const timingScore = Math.round(valuation + technical)
+    const score = businessQualityScore + timingScore
+
+    return {
+      score,
+      businessQualityScore,
+      timingScore,
+      financialHealthScore: Math.round(financialHealth),
+      moatScore: Math.round(moat),
+      growthScore: Math.round(growth),
+      valuationScore: Math.round(valuation),
+      technicalScore: Math.round(technical),
+      recommendation: this.getRecommendation(
+        score,
+        businessQualityScore,
+        timingScore,
+        thresholds,
+        weights.financialHealth + weights.moat + weights.growth
+      ),
+    }
+  }
+
   /**
    * Calculate Financial Health Score (0-25 points)
    */
@@ -351,12 +439,17 @@ export class StockBeaconScoreService {
   private static getRecommendation(
     totalScore: number,
     businessQuality: number,
-    timing: number
+    timing: number,
+    thresholds: RecommendationThresholds = DEFAULT_RECOMMENDATION_THRESHOLDS,
+    businessQualityMax: number = 60
   ): 'strong_buy' | 'buy' | 'hold' | 'sell' | 'strong_sell' {
-    if (totalScore >= 80 && businessQuality >= 45) return 'strong_buy'
-    if (totalScore >= 70 && businessQuality >= 40) return 'buy'
-    if (totalScore >= 50) return 'hold'
-    if (totalScore >= 30) return 'sell'
+    const strongBuyQuality = Math.round(businessQualityMax * thresholds.strongBuyQualityPercent / 100)
+    const buyQuality = Math.round(businessQualityMax * thresholds.buyQualityPercent / 100)
+
+    if (totalScore >= thresholds.strongBuy && businessQuality >= strongBuyQuality) return 'strong_buy'
+    if (totalScore >= thresholds.buy && businessQuality >= buyQuality) return 'buy'
+    if (totalScore >= thresholds.hold) return 'hold'
+    if (totalScore >= thresholds.sell) return 'sell'
     return 'strong_sell'
   }
 
@@ -0,0 +1,85 @@
+/**
+ * Built-in index universes. Holdings files of the iShares ETF tracking each
+ * index stand in for the index itself; set the *_URL variable to use another
+ * published list with a Ticker/Symbol column.
+ */
+
+import { UniverseDefinition } from './types/universe-types'
+
+export const SP500_UNIVERSE_ID = 'sp500'
+
+const ishares = (productPath: string, ticker: string) =>
+  `https://www.ishares.com/us/products/${productPath}/1467271812596.ajax?fileType=csv&fileName=${ticker}_holdings&dataType=fund`
+
+export const BUILT_IN_UNIVERSES: UniverseDefinition[] = [
+  {
+    id: SP500_UNIVERSE_ID,
+    name: 'S&P 500',
+    description: 'US large caps',
+    source: null, // Maintained by SP500GitHubService
+    expectedCount: { min: 495, max: 510 },
+    requiredSymbols: ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'NVDA'],
+    refreshIntervalHours: 48,
+    scoreIntervalHours: 24,
+  },
+  {
+    id: 'sp400',
+    name: 'S&P MidCap 400',
+    description: 'US mid caps',
+    source: {
+      format: 'csv',
+      url: ishares('239763/ishares-core-sp-midcap-etf', 'IJH'),
+      urlEnv: 'UNIVERSE_SP400_URL',
+    },
+    expectedCount: { min: 390, max: 410 },
+    requiredSymbols: [],
+    refreshIntervalHours: 7 * 24,
+    scoreIntervalHours: 24,
+  },
+  {
+    id: 'sp600',
+    name: 'S&P SmallCap 600',
+    description: 'US small caps',
+    source: {
+      format: 'csv',
+      url: ishares('239774/ishares-core-sp-smallcap-etf', 'IJR'),
+      urlEnv: 'UNIVERSE_SP600_URL',
+    },
+    expectedCount: { min: 590, max: 610 },
+    requiredSymbols: [],
+    refreshIntervalHours: 7 * 24,
+    scoreIntervalHours: 48,
+  },
+  {
+    id: 'nasdaq100',
+    name: 'Nasdaq-100',
+    description: 'Largest non-financial Nasdaq listings',
+    source: {
+      format: 'nasdaq-json',
+      url: 'https://api.nasdaq.com/api/quote/list-type/nasdaq100',
+      urlEnv: 'UNIVERSE_NASDAQ100_URL',
+    },
+    expectedCount: { min: 98, max: 105 },
+    requiredSymbols: ['AAPL', 'MSFT', 'NVDA'],
+    refreshIntervalHours: 7 * 24,
+    scoreIntervalHours: 24,
+  },
+  {
+    id: 'russell1000',
+    name: 'Russell 1000',
+    description: 'US large and mid caps, broader than the S&P 500',
+    source: {
+      format: 'csv',
+      url: ishares('239707/ishares-russell-1000-etf', 'IWB'),
+      urlEnv: 'UNIVERSE_RUSSELL1000_URL',
+    },
+    expectedCount: { min: 950, max: 1050 },
+    requiredSymbols: ['AAPL', 'MSFT'],
+    refreshIntervalHours: 7 * 24,
+    scoreIntervalHours: 72,
+  },
+]
+
+export const BUILT_IN_UNIVERSE_MAP = new Map(BUILT_IN_UNIVERSES.map(universe => [universe.id, universe]))
+
+export const MAX_CUSTOM_UNIVERSE_SYMBOLS = 500
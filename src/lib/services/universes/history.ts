@@ -0,0 +1,282 @@
+/**
+ * Constituent history - additions and removals for each index universe, and
+ * membership rebuilt as of any past date
+ */
+
+import { Database } from '@/types/database'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import {
+  ConstituentChange,
+  ConstituentChangeType,
+  PointInTimeMember,
+  PointInTimeMembership,
+  UniverseConstituent,
+} from './types/universe-types'
+
+type ChangeRow = Database['public']['Tables']['universe_constituent_changes']['Row']
+type ChangeInsert = Database['public']['Tables']['universe_constituent_changes']['Insert']
+
+const PAGE_SIZE = 1000
+const PUBLISHED_DATE_WINDOW_DAYS = 90 // A published date added older than this is stale for a new addition
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const toDate = (value: Date) => value.toISOString().split('T')[0]
+
+export class ConstituentHistoryService {
+  /**
+   * Record how a universe's freshly downloaded list differs from its history.
+   * The first list recorded for a universe becomes its baseline.
+   */
+  static async recordChanges(universeId: string, current: UniverseConstituent[]): Promise<ConstituentChange[]> {
+    const history = await this.getChangeRows(universeId)
+    const today = toDate(new Date())
+
+    let changes: ChangeInsert[]
+    if (history.length === 0) {
+      changes = current.map(c => ({
+        universe_id: universeId,
+        symbol: c.symbol,
+        company_name: c.companyName,
+        change_type: 'added',
+        effective_date: c.dateAdded && DATE_PATTERN.test(c.dateAdded) && c.dateAdded <= today ? c.dateAdded : today,
+        source: 'baseline',
+      }))
+    } else {
+      const previous = this.replay(history)
+      const currentSymbols = new Set(current.map(c => c.symbol))
+
+      changes = [
+        ...current.filter(c => !previous.has(c.symbol)).map((c): ChangeInsert => ({
+          universe_id: universeId,
+          symbol: c.symbol,
+          company_name: c.companyName,
+          change_type: 'added',
+          effective_date: this.additionDate(c.dateAdded, today),
+          source: 'refresh',
+        })),
+        ...Array.from(previous.values()).filter(m => !currentSymbols.has(m.symbol)).map((m): ChangeInsert => ({
+          universe_id: universeId,
+          symbol: m.symbol,
+          company_name: m.companyName,
+          change_type: 'removed',
+          effective_date: today,
+          source: 'refresh',
+        })),
+      ]
+    }
+
+    const recorded = await this.insertChanges(changes)
+    if (history.length > 0 && recorded.length > 0) {
+      console.log(`Recorded ${recorded.length} constituent changes for ${universeId}`)
+    }
+    return recorded
+  }
+
+  /**
+   * Record a change by hand, e.g. to backfill index changes from before
+   * tracking began
+   */
+  static async recordManualChange(
+    universeId: string,
+    change: { symbol: string, companyName: string | null, changeType: ConstituentChangeType, effectiveDate: string }
+  ): Promise<ConstituentChange | null> {
+
+    if (!DATE_PATTERN.test(change.effectiveDate) || isNaN(Date.parse(change.effectiveDate))) {
+      throw new Error('effectiveDate must be a YYYY-MM-DD date')
+    }
+
+    const [recorded] = await this.insertChanges([{
+      universe_id: universeId,
+      symbol: change.symbol,
+      company_name: change.companyName,
+      change_type: change.changeType,
+      effective_date: change.effectiveDate,
+      source: 'manual',
+    }])
+    return recorded || null
+  }
+
+  /**
+   * A universe's members as of the end of a date. Before tracking began only
+   * current members' additions are known, so the result is marked incomplete.
+   */
+  static async getMembersAsOf(universeId: string, asOf: string): Promise<PointInTimeMembership> {
+    const [rows, trackedSince] = await Promise.all([
+      this.getChangeRows(universeId, asOf),
+      this.getTrackedSince(universeId),
+    ])
+
+    const members = Array.from(this.replay(rows).values()).sort((a, b) => a.symbol.localeCompare(b.symbol))
+
+    return {
+      universeId,
+      asOf,
+      members,
+      trackedSince,
+      complete: trackedSince !== null && asOf >= trackedSince,
+    }
+  }
+
+  /**
+   * Detected additions and removals, newest first. Baseline rows are left out.
+   */
+  static async getChanges(options: { universeId?: string, since?: string, limit?: number } = {}): Promise<ConstituentChange[]> {
+    let query = this.adminClient()
+      .from('universe_constituent_changes')
+      .select('*')
+      .neq('source', 'baseline')
+      .order('effective_date', { ascending: false })
+      .order('detected_at', { ascending: false })
+      .limit(Math.min(options.limit || 50, 500))
+
+    if (options.universeId) query = query.eq('universe_id', options.universeId)
+    if (options.since) query = query.gte('effective_date', options.since)
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to load constituent changes: ${error.message}`)
+    }
+
+    return ((data || []) as ChangeRow[]).map(row => this.mapRow(row))
+  }
+
+  /**
+   * Which of these symbols have ever been in an index universe
+   */
+  static async getEverListed(symbols: string[]): Promise<Set<string>> {
+    const supabase = this.adminClient()
+    const listed = new Set<string>()
+
+    for (let i = 0; i < symbols.length; i += 500) {
+      const { data, error } = await supabase
+        .from('universe_constituent_changes')
+        .select('symbol')
+        .in('symbol', symbols.slice(i, i + 500))
+
+      if (error) {
+        throw new Error(`Failed to load constituent history: ${error.message}`)
+      }
+
+      for (const row of (data || []) as Array<{ symbol: string }>) {
+        listed.add(row.symbol)
+      }
+    }
+
+    return listed
+  }
+
+  /**
+   * A published date added is used when it is recent; otherwise the addition
+   * is dated the day it was detected
+   */
+  private static additionDate(dateAdded: string | null | undefined, today: string): string {
+    if (!dateAdded || !DATE_PATTERN.test(dateAdded) || dateAdded > today) return today
+
+    const earliest = new Date()
+    earliest.setDate(earliest.getDate() - PUBLISHED_DATE_WINDOW_DAYS)
+    return dateAdded >= toDate(earliest) ? dateAdded : today
+  }
+
+  /**
+   * Apply changes in effective date order to get the resulting members
+   */
+  private static replay(rows: ChangeRow[]): Map<string, PointInTimeMember> {
+    const members = new Map<string, PointInTimeMember>()
+    for (const row of rows) {
+      if (row.change_type === 'added') {
+        members.set(row.symbol, { symbol: row.symbol, companyName: row.company_name, addedOn: row.effective_date })
+      } else {
+        members.delete(row.symbol)
+      }
+    }
+    return members
+  }
+
+  private static async insertChanges(changes: ChangeInsert[]): Promise<ConstituentChange[]> {
+    const supabase = this.adminClient()
+    const recorded: ConstituentChange[] = []
+
+    for (let i = 0; i < changes.length; i += PAGE_SIZE) {
+      const { data, error } = await (supabase
+        .from('universe_constituent_changes') as any)
+        .upsert(changes.slice(i, i + PAGE_SIZE), {
+          onConflict: 'universe_id,symbol,change_type,effective_date',
+          ignoreDuplicates: true,
+        })
+        .select()
+
+      if (error) {
+        throw new Error(`Failed to record constituent changes: ${error.message}`)
+      }
+
+      recorded.push(...((data || []) as ChangeRow[]).map(row => this.mapRow(row)))
+    }
+
+    return recorded
+  }
+
+  private static async getChangeRows(universeId: string, asOf?: string): Promise<ChangeRow[]> {
+    const supabase = this.adminClient()
+    const rows: ChangeRow[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('universe_constituent_changes')
+        .select('*')
+        .eq('universe_id', universeId)
+
+      if (asOf) query = query.lte('effective_date', asOf)
+
+      const { data, error } = await query
+        .order('effective_date', { ascending: true })
+        .order('detected_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to load constituent history: ${error.message}`)
+      }
+
+      rows.push(...((data || []) as ChangeRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return rows
+  }
+
+  private static async getTrackedSince(universeId: string): Promise<string | null> {
+    const { data, error } = await this.adminClient()
+      .from('universe_constituent_changes')
+      .select('detected_at')
+      .eq('universe_id', universeId)
+      .order('detected_at', { ascending: true })
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to load constituent history: ${error.message}`)
+    }
+
+    const first = (data || [])[0] as { detected_at: string } | undefined
+    return first ? toDate(new Date(first.detected_at)) : null
+  }
+
+  private static adminClient(): SupabaseClient<Database> {
+    return createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+  }
+
+  private static mapRow(row: ChangeRow): ConstituentChange {
+    return {
+      id: row.id,
+      universeId: row.universe_id,
+      symbol: row.symbol,
+      companyName: row.company_name,
+      changeType: row.change_type,
+      effectiveDate: row.effective_date,
+      source: row.source,
+      detectedAt: row.detected_at,
+    }
+  }
+}
@@ -0,0 +1,742 @@
+/**
+ * Stock Universes
+ * The symbol lists the nightly score job covers: the S&P 500, further index
+ * universes refreshed from their published constituent lists, and custom
+ * lists defined by users. Each universe has its own refresh and score
+ * schedule and reports how well its members are covered.
+ */
+
+import { Database } from '@/types/database'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { RedisCacheService } from '../redis-cache.service'
+import { SP500GitHubService } from '../sp500-github.service'
+import { BUILT_IN_UNIVERSE_MAP, MAX_CUSTOM_UNIVERSE_SYMBOLS, SP500_UNIVERSE_ID } from './definitions'
+import { isValidSymbol, normalizeSymbol, parseConstituents } from './parsers'
+import { ConstituentHistoryService } from './history'
+import {
+  CustomUniverseInput,
+  Universe,
+  UniverseConstituent,
+  UniverseDefinition,
+  UniverseQuality,
+} from './types/universe-types'
+
+export * from './types/universe-types'
+export * from './definitions'
+export { normalizeSymbol, isValidSymbol, parseConstituents } from './parsers'
+export { ConstituentHistoryService } from './history'
+
+type UniverseRow = Database['public']['Tables']['universes']['Row']
+type ConstituentRow = Database['public']['Tables']['universe_constituents']['Row']
+
+export const MAX_CUSTOM_UNIVERSES = 20
+
+const CACHE_TTL = 24 * 60 * 60 // 1 day in seconds
+const PAGE_SIZE = 1000
+const MISSING_SAMPLE_SIZE = 20
+
+const cacheKey = (universeId: string) => `universe:${universeId}:constituents`
+
+const percent = (count: number, total: number) =>
+  total > 0 ? Math.round((count / total) * 1000) / 10 : 0
+
+export interface ScoringPlan {
+  universes: Universe[]
+  maxAgeBySymbol: Map<string, number> // Strictest score interval of the symbol's universes
+}
+
+export class UniverseService {
+  /**
+   * Universes visible to the client: every index plus the user's own custom lists
+   */
+  static async getUniverses(supabase: SupabaseClient<Database>): Promise<Universe[]> {
+    const { data, error } = await supabase
+      .from('universes')
+      .select('*')
+      .order('kind', { ascending: false })
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching universes:', error)
+      throw error
+    }
+
+    const rows = (data || []) as UniverseRow[]
+    const counts = await Promise.all(rows.map(row => this.countConstituents(row.id)))
+    return rows.map((row, i) => this.mapRow(row, counts[i]))
+  }
+
+  /**
+   * A universe's current members. The S&P 500 comes from SP500GitHubService;
+   * other universes from cache, then the database, then a fresh download.
+   */
+  static async getConstituents(universeId: string): Promise<UniverseConstituent[]> {
+    if (universeId === SP500_UNIVERSE_ID) {
+      const stocks = await SP500GitHubService.getConstituents()
+      return stocks.map(stock => ({
+        symbol: stock.symbol,
+        companyName: stock.companyName || null,
+        sector: stock.sector || null,
+        industry: stock.industry || null,
+        dateAdded: stock.dateAdded || null,
+      }))
+    }
+
+    const cached = await RedisCacheService.get(cacheKey(universeId))
+    if (cached) {
+      try {
+        return JSON.parse(cached)
+      } catch (e) {
+        console.error(`Failed to parse cached constituents for ${universeId}:`, e)
+      }
+    }
+
+    const constituents = await this.getStoredConstituents(universeId)
+    if (constituents.length === 0 && BUILT_IN_UNIVERSE_MAP.get(universeId)?.source) {
+      return this.refreshUniverse(universeId)
+    }
+
+    await RedisCacheService.set(cacheKey(universeId), JSON.stringify(constituents), CACHE_TTL)
+    return constituents
+  }
+
+  /**
+   * Download an index universe's constituent list, check it and store it.
+   * A failed refresh is recorded on the universe and the old list is kept.
+   */
+  static async refreshUniverse(universeId: string): Promise<UniverseConstituent[]> {
+    const definition = BUILT_IN_UNIVERSE_MAP.get(universeId)
+    if (!definition) {
+      throw new Error(`Unknown index universe "${universeId}"`)
+    }
+
+    if (!definition.source) {
+      const stocks = await SP500GitHubService.forceRefresh()
+      await this.recordRefresh(universeId, null)
+      return stocks.map(stock => ({
+        symbol: stock.symbol,
+        companyName: stock.companyName || null,
+        sector: stock.sector || null,
+        industry: stock.industry || null,
+        dateAdded: stock.dateAdded || null,
+      }))
+    }
+
+    try {
+      const url = process.env[definition.source.urlEnv] || definition.source.url
+      const response = await fetch(url, {
+        headers: { 'User-Agent': 'Mozilla/5.0 (compatible; StockBeacon/1.0)' },
+      })
+
+      if (!response.ok) {
+        throw new Error(`Constituent download failed: ${response.status} ${response.statusText}`)
+      }
+
+      const constituents = parseConstituents(definition.source.format, await response.text())
+      this.validateConstituents(definition, constituents)
+
+      await this.storeConstituents(universeId, constituents)
+      await RedisCacheService.set(cacheKey(universeId), JSON.stringify(constituents), CACHE_TTL)
+      await this.recordRefresh(universeId, null)
+
+      // History is best effort; a missed change is picked up by the next refresh
+      try {
+        await ConstituentHistoryService.recordChanges(universeId, constituents)
+      } catch (historyError) {
+        console.error(`Failed to record ${definition.name} constituent changes:`, historyError)
+      }
+
+      console.log(`Refreshed ${definition.name}: ${constituents.length} constituents`)
+      return constituents
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`Failed to refresh ${definition.name}:`, message)
+      await this.recordRefresh(universeId, message)
+      throw error
+    }
+  }
+
+  /**
+   * Refresh every enabled index universe whose list is older than its refresh
+   * interval. Failures are recorded per universe and don't stop the others.
+   */
+  static async refreshDueUniverses(): Promise<{ refreshed: string[], failed: string[] }> {
+    const supabase = this.adminClient()
+    const { data, error } = await supabase
+      .from('universes')
+      .select('*')
+      .eq('kind', 'index')
+      .eq('enabled', true)
+
+    if (error) {
+      throw new Error(`Failed to load universes: ${error.message}`)
+    }
+
+    const result = { refreshed: [] as string[], failed: [] as string[] }
+    const now = Date.now()
+
+    for (const row of (data || []) as UniverseRow[]) {
+      const definition = BUILT_IN_UNIVERSE_MAP.get(row.id)
+      if (!definition?.source) continue
+
+      const refreshedAt = row.last_refreshed_at ? new Date(row.last_refreshed_at).getTime() : 0
+      if (!row.last_refresh_error && now - refreshedAt < row.refresh_interval_hours * 60 * 60 * 1000) continue
+
+      try {
+        await this.refreshUniverse(row.id)
+        result.refreshed.push(row.id)
+      } catch {
+        result.failed.push(row.id)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Turn an index universe on or off, or change its schedule (admin function)
+   */
+  static async updateIndexUniverse(
+    universeId: string,
+    changes: Partial<Pick<Universe, 'enabled' | 'refreshIntervalHours' | 'scoreIntervalHours'>>
+  ): Promise<Universe | null> {
+    const update: Record<string, boolean | number | string> = { updated_at: new Date().toISOString() }
+    if (typeof changes.enabled === 'boolean') update.enabled = changes.enabled
+    for (const [key, column] of [
+      ['refreshIntervalHours', 'refresh_interval_hours'],
+      ['scoreIntervalHours', 'score_interval_hours'],
+    ] as const) {
+      const hours = changes[key]
+      if (hours === undefined) continue
+      if (!Number.isInteger(hours) || hours < 1 || hours > 24 * 90) {
+        throw new Error(`${key} must be a whole number of hours between 1 and ${24 * 90}`)
+      }
+      update[column] = hours
+    }
+
+    const { data, error } = await (this.adminClient()
+      .from('universes') as any)
+      .update(update)
+      .eq('id', universeId)
+      .eq('kind', 'index')
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to update universe: ${error.message}`)
+    }
+
+    return data ? this.mapRow(data, await this.countConstituents(universeId)) : null
+  }
+
+  /**
+   * Every symbol the score job should cover, with the maximum score age
+   * allowed by the strictest universe containing it
+   */
+  static async getScoringPlan(): Promise<ScoringPlan> {
+    const supabase = this.adminClient()
+    const { data, error } = await supabase
+      .from('universes')
+      .select('*')
+      .eq('enabled', true)
+
+    if (error) {
+      throw new Error(`Failed to load universes: ${error.message}`)
+    }
+
+    const universes: Universe[] = []
+    const maxAgeBySymbol = new Map<string, number>()
+
+    for (const row of (data || []) as UniverseRow[]) {
+      let constituents: UniverseConstituent[]
+      try {
+        constituents = await this.getConstituents(row.id)
+      } catch (error) {
+        console.error(`Skipping universe ${row.name}:`, error)
+        continue
+      }
+
+      universes.push(this.mapRow(row, constituents.length))
+      for (const { symbol } of constituents) {
+        const current = maxAgeBySymbol.get(symbol)
+        maxAgeBySymbol.set(symbol, current === undefined
+          ? row.score_interval_hours
+          : Math.min(current, row.score_interval_hours))
+      }
+    }
+
+    return { universes, maxAgeBySymbol }
+  }
+
+  /**
+   * Record that the score job has covered these universes
+   */
+  static async markScored(universeIds: string[]): Promise<void> {
+    if (universeIds.length === 0) return
+
+    const { error } = await (this.adminClient()
+      .from('universes') as any)
+      .update({ last_scored_at: new Date().toISOString() })
+      .in('id', universeIds)
+
+    if (error) {
+      console.error('Failed to mark universes as scored:', error)
+    }
+  }
+
+  /**
+   * The index universes each symbol belongs to. Custom universes are private
+   * and left out.
+   */
+  static async getMembership(): Promise<Map<string, string[]>> {
+    const membership = new Map<string, string[]>()
+
+    for (const definition of BUILT_IN_UNIVERSE_MAP.values()) {
+      let constituents: UniverseConstituent[]
+      try {
+        constituents = definition.source
+          ? await this.getStoredConstituents(definition.id)
+          : await this.getConstituents(definition.id)
+      } catch (error) {
+        console.error(`Failed to load ${definition.name} members:`, error)
+        continue
+      }
+
+      for (const { symbol } of constituents) {
+        membership.set(symbol, [...(membership.get(symbol) || []), definition.id])
+      }
+    }
+
+    return membership
+  }
+
+  /**
+   * Coverage and freshness of every universe visible to the client
+   */
+  static async getQualityReport(supabase: SupabaseClient<Database>): Promise<UniverseQuality[]> {
+    const universes = await this.getUniverses(supabase)
+    const [scoredAt, snapshots] = await Promise.all([this.getScoreTimes(), this.getSnapshotSymbols()])
+
+    const report: UniverseQuality[] = []
+    for (const universe of universes) {
+      let members: string[] = []
+      try {
+        members = (await this.getConstituents(universe.id)).map(c => c.symbol)
+      } catch (error) {
+        console.error(`Failed to load ${universe.name} members:`, error)
+      }
+      report.push(this.measureQuality(universe, members, scoredAt, snapshots))
+    }
+
+    return report
+  }
+
+  /**
+   * Create a custom universe owned by the user
+   */
+  static async createCustomUniverse(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    input: CustomUniverseInput
+  ): Promise<Universe> {
+
+    const { count } = await supabase
+      .from('universes')
+      .select('id', { count: 'exact', head: true })
+      .eq('owner_id', userId)
+
+    if ((count || 0) >= MAX_CUSTOM_UNIVERSES) {
+      throw new Error(`You can create at most ${MAX_CUSTOM_UNIVERSES} universes`)
+    }
+
+    const { data, error } = await (supabase
+      .from('universes') as any)
+      .insert({
+        name: input.name,
+        description: input.description,
+        kind: 'custom',
+        owner_id: userId,
+        enabled: input.enabled,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A universe with this name already exists')
+      }
+      console.error('Error creating universe:', error)
+      throw error
+    }
+
+    await this.replaceMembers(supabase, data.id, input.symbols)
+    return this.mapRow(data, input.symbols.length)
+  }
+
+  /**
+   * Replace a custom universe's name, members and schedule
+   */
+  static async updateCustomUniverse(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    universeId: string,
+    input: CustomUniverseInput
+  ): Promise<Universe | null> {
+
+    const { data, error } = await (supabase
+      .from('universes') as any)
+      .update({
+        name: input.name,
+        description: input.description,
+        enabled: input.enabled,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', universeId)
+      .eq('owner_id', userId)
+      .eq('kind', 'custom')
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A universe with this name already exists')
+      }
+      console.error('Error updating universe:', error)
+      throw error
+    }
+
+    if (!data) return null
+
+    await this.replaceMembers(supabase, universeId, input.symbols)
+    return this.mapRow(data, input.symbols.length)
+  }
+
+  /**
+   * Delete a custom universe and its members
+   */
+  static async deleteCustomUniverse(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    universeId: string
+  ): Promise<boolean> {
+
+    const { data, error } = await supabase
+      .from('universes')
+      .delete()
+      .eq('id', universeId)
+      .eq('owner_id', userId)
+      .eq('kind', 'custom')
+      .select('id')
+
+    if (error) {
+      console.error('Error deleting universe:', error)
+      throw error
+    }
+
+    await RedisCacheService.delete(cacheKey(universeId))
+    return (data || []).length > 0
+  }
+
+  /**
+   * Validate a custom universe submitted by a user. Symbols may be an array
+   * or a comma, space or newline separated string.
+   */
+  static validateCustomUniverse(input: any): CustomUniverseInput {
+    const name = typeof input?.name === 'string' ? input.name.trim() : ''
+    if (!name || name.length > 60) {
+      throw new Error('Name is required and must be at most 60 characters')
+    }
+
+    const raw: unknown[] = Array.isArray(input?.symbols)
+      ? input.symbols
+      : typeof input?.symbols === 'string' ? input.symbols.split(/[\s,;]+/) : []
+
+    const symbols = Array.from(new Set(
+      raw.filter((s): s is string => typeof s === 'string' && s.trim() !== '').map(normalizeSymbol)
+    ))
+
+    if (symbols.length === 0) {
+      throw new Error('A universe needs at least one symbol')
+    }
+    if (symbols.length > MAX_CUSTOM_UNIVERSE_SYMBOLS) {
+      throw new Error(`A universe can have at most ${MAX_CUSTOM_UNIVERSE_SYMBOLS} symbols`)
+    }
+
+    const invalid = symbols.filter(symbol => !isValidSymbol(symbol))
+    if (invalid.length > 0) {
+      throw new Error(`Invalid symbols: ${invalid.slice(0, 10).join(', ')}`)
+    }
+
+    const description = typeof input?.description === 'string' && input.description.trim()
+      ? input.description.trim().slice(0, 280)
+      : null
+
+    return { name, description, symbols, enabled: input?.enabled !== false }
+  }
+
+  private static validateConstituents(definition: UniverseDefinition, constituents: UniverseConstituent[]): void {
+    const { min, max } = definition.expectedCount
+    if (constituents.length < min || constituents.length > max) {
+      throw new Error(`Expected ${min}-${max} constituents but found ${constituents.length}`)
+    }
+
+    const symbols = new Set(constituents.map(c => c.symbol))
+    const missing = definition.requiredSymbols.filter(symbol => !symbols.has(symbol))
+    if (missing.length > 0) {
+      throw new Error(`Constituent list is missing ${missing.join(', ')}`)
+    }
+  }
+
+  /**
+   * Mark members missing from the new list inactive and upsert the rest
+   */
+  private static async storeConstituents(universeId: string, constituents: UniverseConstituent[]): Promise<void> {
+    const supabase = this.adminClient()
+    const now = new Date().toISOString()
+
+    const { error: deactivateError } = await (supabase
+      .from('universe_constituents') as any)
+      .update({ is_active: false, updated_at: now })
+      .eq('universe_id', universeId)
+      .eq('is_active', true)
+
+    if (deactivateError) {
+      throw new Error(`Failed to update constituents: ${deactivateError.message}`)
+    }
+
+    for (let i = 0; i < constituents.length; i += PAGE_SIZE) {
+      const { error } = await (supabase
+        .from('universe_constituents') as any)
+        .upsert(constituents.slice(i, i + PAGE_SIZE).map(c => ({
+          universe_id: universeId,
+          symbol: c.symbol,
+          company_name: c.companyName,
+          sector: c.sector,
+          industry: c.industry,
+          is_active: true,
+          updated_at: now,
+        })), { onConflict: 'universe_id,symbol' })
+
+      if (error) {
+        throw new Error(`Failed to store constituents: ${error.message}`)
+      }
+    }
+  }
+
+  private static async replaceMembers(
+    supabase: SupabaseClient<Database>,
+    universeId: string,
+    symbols: string[]
+  ): Promise<void> {
+
+    const { error: deleteError } = await supabase
+      .from('universe_constituents')
+      .delete()
+      .eq('universe_id', universeId)
+
+    if (deleteError) {
+      throw new Error(`Failed to update universe members: ${deleteError.message}`)
+    }
+
+    const { error } = await (supabase
+      .from('universe_constituents') as any)
+      .insert(symbols.map(symbol => ({ universe_id: universeId, symbol })))
+
+    if (error) {
+      throw new Error(`Failed to update universe members: ${error.message}`)
+    }
+
+    await RedisCacheService.delete(cacheKey(universeId))
+  }
+
+  private static async getStoredConstituents(universeId: string): Promise<UniverseConstituent[]> {
+    const supabase = this.adminClient()
+    const rows: ConstituentRow[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('universe_constituents')
+        .select('*')
+        .eq('universe_id', universeId)
+        .eq('is_active', true)
+        .order('symbol')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to load constituents: ${error.message}`)
+      }
+
+      rows.push(...((data || []) as ConstituentRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return rows.map(row => ({
+      symbol: row.symbol,
+      companyName: row.company_name,
+      sector: row.sector,
+      industry: row.industry,
+    }))
+  }
+
+  private static async countConstituents(universeId: string): Promise<number> {
+    if (universeId === SP500_UNIVERSE_ID) {
+      const stocks = await SP500GitHubService.getConstituents().catch(() => [])
+      return stocks.length
+    }
+
+    const { count } = await this.adminClient()
+      .from('universe_constituents')
+      .select('symbol', { count: 'exact', head: true })
+      .eq('universe_id', universeId)
+      .eq('is_active', true)
+
+    return count || 0
+  }
+
+  private static async recordRefresh(universeId: string, refreshError: string | null): Promise<void> {
+    const update: Record<string, string | null> = { last_refresh_error: refreshError }
+    if (!refreshError) {
+      update.last_refreshed_at = new Date().toISOString()
+    }
+
+    const { error } = await (this.adminClient()
+      .from('universes') as any)
+      .update(update)
+      .eq('id', universeId)
+
+    if (error) {
+      console.error(`Failed to record refresh of ${universeId}:`, error)
+    }
+  }
+
+  private static async getScoreTimes(): Promise<Map<string, string>> {
+    const supabase = this.adminClient()
+    const times = new Map<string, string>()
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('stock_scores')
+        .select('symbol, updated_at')
+        .order('symbol')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to load score times: ${error.message}`)
+      }
+
+      for (const row of (data || []) as Array<{ symbol: string, updated_at: string }>) {
+        times.set(row.symbol, row.updated_at)
+      }
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return times
+  }
+
+  private static async getSnapshotSymbols(): Promise<Set<string>> {
+    const supabase = this.adminClient()
+    const symbols = new Set<string>()
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('screener_snapshots')
+        .select('symbol')
+        .order('symbol')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to load screener snapshots: ${error.message}`)
+      }
+
+      for (const row of (data || []) as Array<{ symbol: string }>) {
+        symbols.add(row.symbol)
+      }
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return symbols
+  }
+
+  private static measureQuality(
+    universe: Universe,
+    members: string[],
+    scoredAt: Map<string, string>,
+    snapshots: Set<string>
+  ): UniverseQuality {
+
+    const cutoff = Date.now() - universe.scoreIntervalHours * 60 * 60 * 1000
+    let scoredCount = 0
+    let freshCount = 0
+    let snapshotCount = 0
+    let oldestScoreAt: string | null = null
+    const missingSymbols: string[] = []
+
+    for (const symbol of members) {
+      const updatedAt = scoredAt.get(symbol)
+      if (updatedAt) {
+        scoredCount++
+        if (new Date(updatedAt).getTime() >= cutoff) freshCount++
+        if (!oldestScoreAt || updatedAt < oldestScoreAt) oldestScoreAt = updatedAt
+      } else if (missingSymbols.length < MISSING_SAMPLE_SIZE) {
+        missingSymbols.push(symbol)
+      }
+      if (snapshots.has(symbol)) snapshotCount++
+    }
+
+    const scoreCoverage = percent(scoredCount, members.length)
+    const freshness = percent(freshCount, members.length)
+
+    let status: UniverseQuality['status'] = 'healthy'
+    if (members.length === 0) {
+      status = 'empty'
+    } else if (freshness < 50) {
+      status = 'stale'
+    } else if (freshness < 90 || scoreCoverage < 90 || universe.lastRefreshError) {
+      status = 'degraded'
+    }
+
+    return {
+      universeId: universe.id,
+      name: universe.name,
+      kind: universe.kind,
+      enabled: universe.enabled,
+      constituentCount: members.length,
+      scoredCount,
+      freshCount,
+      snapshotCount,
+      missingSymbols,
+      scoreCoverage,
+      freshness,
+      snapshotCoverage: percent(snapshotCount, members.length),
+      oldestScoreAt,
+      lastRefreshedAt: universe.lastRefreshedAt,
+      lastRefreshError: universe.lastRefreshError,
+      lastScoredAt: universe.lastScoredAt,
+      status,
+    }
+  }
+
+  private static adminClient(): SupabaseClient<Database> {
+    return createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    )
+  }
+
+  private static mapRow(row: UniverseRow, constituentCount: number): Universe {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      kind: row.kind,
+      ownerId: row.owner_id,
+      enabled: row.enabled,
+      refreshIntervalHours: row.refresh_interval_hours,
+      scoreIntervalHours: row.score_interval_hours,
+      lastRefreshedAt: row.last_refreshed_at,
+      lastRefreshError: row.last_refresh_error,
+      lastScoredAt: row.last_scored_at,
+      constituentCount,
+    }
+  }
+}
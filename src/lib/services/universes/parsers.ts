@@ -0,0 +1,121 @@
+/**
+ * Constituent list parsers for the published index sources
+ */
+
+import { UniverseConstituent, UniverseSourceFormat } from './types/universe-types'
+
+const SYMBOL_PATTERN = /^[A-Z][A-Z0-9.-]{0,9}$/
+
+/**
+ * Upper-case a ticker and use the dot form for share classes (BRK/B, BRK B -> BRK.B)
+ */
+export function normalizeSymbol(value: string): string {
+  return value.trim().toUpperCase().replace(/[/\s]+/g, '.')
+}
+
+export function isValidSymbol(symbol: string): boolean {
+  return SYMBOL_PATTERN.test(symbol)
+}
+
+export function parseConstituents(format: UniverseSourceFormat, body: string): UniverseConstituent[] {
+  const constituents = format === 'nasdaq-json' ? parseNasdaqJSON(body) : parseConstituentCSV(body)
+
+  // Holdings files can list a company once per share lot
+  const bySymbol = new Map<string, UniverseConstituent>()
+  for (const constituent of constituents) {
+    if (isValidSymbol(constituent.symbol) && !bySymbol.has(constituent.symbol)) {
+      bySymbol.set(constituent.symbol, constituent)
+    }
+  }
+  return Array.from(bySymbol.values())
+}
+
+/**
+ * CSV with a Ticker or Symbol column. Any preamble before the header row
+ * (fund name, as-of date) is skipped, as are non-equity rows such as cash.
+ */
+function parseConstituentCSV(text: string): UniverseConstituent[] {
+  const lines = text.split(/\r?\n/)
+  const headerIndex = lines.findIndex(line => {
+    const cells = parseCSVLine(line).map(cell => cell.toLowerCase())
+    return cells.includes('ticker') || cells.includes('symbol')
+  })
+
+  if (headerIndex === -1) {
+    throw new Error('Could not find a Ticker or Symbol column')
+  }
+
+  const headers = parseCSVLine(lines[headerIndex]).map(cell => cell.toLowerCase())
+  const column = (...names: string[]) => headers.findIndex(h => names.some(name => h.includes(name)))
+
+  const symbolIndex = headers.findIndex(h => h === 'ticker' || h === 'symbol')
+  const nameIndex = column('name', 'security', 'company')
+  const sectorIndex = column('sector')
+  const industryIndex = column('industry')
+  const assetClassIndex = column('asset class')
+
+  const constituents: UniverseConstituent[] = []
+  for (const line of lines.slice(headerIndex + 1)) {
+    if (!line.trim()) continue
+
+    const cells = parseCSVLine(line)
+    if (cells.length < headers.length / 2) continue // Footer text
+    if (assetClassIndex !== -1 && cells[assetClassIndex]?.toLowerCase() !== 'equity') continue
+
+    const cell = (index: number) => (index === -1 ? '' : cells[index] || '').trim()
+    constituents.push({
+      symbol: normalizeSymbol(cell(symbolIndex)),
+      companyName: cell(nameIndex) || null,
+      sector: cell(sectorIndex) || null,
+      industry: cell(industryIndex) || null,
+    })
+  }
+
+  return constituents
+}
+
+/**
+ * Nasdaq list-type API: { data: { data: { rows: [{ symbol, companyName }] } } }
+ */
+function parseNasdaqJSON(body: string): UniverseConstituent[] {
+  const json = JSON.parse(body)
+  const rows = json?.data?.data?.rows || json?.data?.rows
+
+  if (!Array.isArray(rows)) {
+    throw new Error('Unexpected Nasdaq list format')
+  }
+
+  return rows.map((row: any) => ({
+    symbol: normalizeSymbol(String(row.symbol || '')),
+    companyName: row.companyName || null,
+    sector: row.sector || null,
+    industry: row.industry || null,
+  }))
+}
+
+function parseCSVLine(line: string): string[] {
+  const result: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        inQuotes = !inQuotes
+      }
+    } else if (char === ',' && !inQuotes) {
+      result.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  result.push(current)
+  return result.map(value => value.trim())
+}
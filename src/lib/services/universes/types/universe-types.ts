@@ -0,0 +1,109 @@
+/**
+ * Stock Universe Types
+ * Index and custom symbol lists that the nightly score job covers
+ */
+
+export type UniverseKind = 'index' | 'custom'
+
+// How an index's constituent list is published
+export type UniverseSourceFormat = 'csv' | 'nasdaq-json'
+
+export interface UniverseSource {
+  format: UniverseSourceFormat
+  url: string
+  urlEnv: string // Environment variable that overrides the URL
+}
+
+// A built-in index universe, defined in code
+export interface UniverseDefinition {
+  id: string
+  name: string
+  description: string
+  source: UniverseSource | null // null when another service owns the list (S&P 500)
+  expectedCount: { min: number, max: number }
+  requiredSymbols: string[] // Sanity check that the download is the right list
+  refreshIntervalHours: number // How often to re-download constituents
+  scoreIntervalHours: number // Default maximum score age for members
+}
+
+export interface UniverseConstituent {
+  symbol: string
+  companyName: string | null
+  sector: string | null
+  industry: string | null
+  dateAdded?: string | null // YYYY-MM-DD, when the source publishes it
+}
+
+// A universe as stored, with its schedule and refresh state
+export interface Universe {
+  id: string
+  name: string
+  description: string | null
+  kind: UniverseKind
+  ownerId: string | null // Set for custom universes
+  enabled: boolean // Whether the score job covers it
+  refreshIntervalHours: number
+  scoreIntervalHours: number
+  lastRefreshedAt: string | null
+  lastRefreshError: string | null
+  lastScoredAt: string | null
+  constituentCount: number
+}
+
+export interface UniverseQuality {
+  universeId: string
+  name: string
+  kind: UniverseKind
+  enabled: boolean
+  constituentCount: number
+  scoredCount: number // Members with any score
+  freshCount: number // Members scored within the score interval
+  snapshotCount: number // Members with screener fundamentals
+  missingSymbols: string[] // Members never scored, up to a sample
+  scoreCoverage: number // 0-100
+  freshness: number // 0-100
+  snapshotCoverage: number // 0-100
+  oldestScoreAt: string | null
+  lastRefreshedAt: string | null
+  lastRefreshError: string | null
+  lastScoredAt: string | null
+  status: 'healthy' | 'degraded' | 'stale' | 'empty'
+}
+
+export interface CustomUniverseInput {
+  name: string
+  description: string | null
+  symbols: string[]
+  enabled: boolean
+}
+
+export type ConstituentChangeType = 'added' | 'removed'
+
+// baseline: members when tracking began; refresh: detected by a list refresh; manual: entered by an admin
+export type ConstituentChangeSource = 'baseline' | 'refresh' | 'manual'
+
+export interface ConstituentChange {
+  id: string
+  universeId: string
+  symbol: string
+  companyName: string | null
+  changeType: ConstituentChangeType
+  effectiveDate: string // YYYY-MM-DD
+  source: ConstituentChangeSource
+  detectedAt: string
+}
+
+export interface PointInTimeMember {
+  symbol: string
+  companyName: string | null
+  addedOn: string // Effective date of the latest addition
+}
+
+// A universe's members as of a past date, rebuilt from its change history
+export interface PointInTimeMembership {
+  universeId: string
+  asOf: string // YYYY-MM-DD
+  members: PointInTimeMember[]
+  trackedSince: string | null // First date changes were recorded
+  complete: boolean // False before trackedSince, when removals are unknown
+}
@@ -8,6 +8,8 @@ if (typeof globalThis.URLSearchParams === 'undefined') {
 
 import { StockQuote, StockFinancials, StockHistorical } from '@/types/stock'
 import yahooFinance from 'yahoo-finance2'
+import { MarketDataFixtures } from './market-data/fixtures'
+import { PeerComparisonService } from './peer-comparison.service'
 
 export interface ValuationResult {
   method: string
@@ -1024,9 +1026,11 @@ export class ValuationService {
    */
   private static async getDetailedFinancials(symbol: string): Promise<any> {
     try {
-      const result = await yahooFinance.quoteSummary(symbol, {
-        modules: ['financialData', 'cashflowStatementHistory']
-      }).catch(() => null)
+      const result = await MarketDataFixtures.through('quote-summary', symbol, () =>
+        yahooFinance.quoteSummary(symbol, {
+          modules: ['financialData', 'cashflowStatementHistory']
+        }).catch(() => null)
+      )
 
       if (!result) {
         console.warn(`Could not fetch detailed financials for ${symbol}`)
@@ -1138,8 +1142,14 @@ export class ValuationService {
     if (!currentPE || !sector) return null
     
     try {
-      // In a real implementation, this would fetch sector data
-      // For now, use hardcoded sector medians based on typical values
+      // Prefer the median P/E of the company's actual peers
+      const comparison = await PeerComparisonService.getComparison(symbol).catch(error => {
+        console.warn(`Peer comparison unavailable for ${symbol}:`, error instanceof Error ? error.message : error)
+        return null
+      })
+      const peerMedianPE = comparison?.metrics.find(metric => metric.id === 'pe_ratio')?.median
+
+      // Otherwise fall back to typical sector medians
       const sectorMedianPEs: Record<string, number> = {
         'Technology': 25,
         'Financials': 12,
@@ -1154,7 +1164,7 @@ export class ValuationService {
         'Communication Services': 20
       }
       
-      const sectorMedianPE = sectorMedianPEs[sector] || 18 // Default market P/E
+      const sectorMedianPE = peerMedianPE || sectorMedianPEs[sector] || 18 // Default market P/E
       const relativeValue = (currentPE / sectorMedianPE) * 100 // 100 = fairly valued relative to sector
       
       return {
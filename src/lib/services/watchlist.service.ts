@@ -1,5 +1,7 @@
 import { Database } from '@/types/database'
 import { SupabaseClient } from '@supabase/supabase-js'
+import { StockDataService } from './stock-data.service'
+import { ScoringProfile, ScoringProfileService } from './scoring-profile.service'
 
 type WatchlistRow = Database['public']['Tables']['watchlists']['Row']
 type WatchlistInsert = Database['public']['Tables']['watchlists']['Insert']
@@ -17,6 +19,16 @@ export interface WatchlistItem extends WatchlistRow {
   score?: number
 }
 
+export interface EnrichedWatchlistItem extends WatchlistItem {
+  currentPrice: number
+  change: number
+  changePercent: number
+  score: number
+  timingScore: number
+  recommendation: string | null
+  name: string
+}
+
 export class WatchlistService {
   /**
    * Get user's watchlist with stock details
@@ -44,6 +56,50 @@ export class WatchlistService {
     return data || []
   }
 
+  /**
+   * Attach current quotes and scores to watchlist items, scored under the
+   * given profile when one is passed
+   */
+  static async enrichWatchlist(
+    watchlist: WatchlistItem[],
+    profile?: ScoringProfile
+  ): Promise<EnrichedWatchlistItem[]> {
+    return Promise.all(
+      watchlist.map(async (item) => {
+        try {
+          // Get current stock data
+          const stockData = await StockDataService.getStockData(item.symbol)
+          const score = stockData.score && profile
+            ? ScoringProfileService.rescore(stockData.score, profile)
+            : stockData.score
+        
+          return {
+            ...item,
+            currentPrice: stockData.quote?.price || 0,
+            change: stockData.quote?.change || 0,
+            changePercent: stockData.quote?.changePercent || 0,
+            score: score?.score || 0,
+            timingScore: score?.timingScore || 0,
+            recommendation: score?.recommendation || null,
+            name: stockData.quote?.name || item.stock?.company_name || item.symbol,
+          }
+        } catch (error) {
+          console.error(`Error enriching watchlist item ${item.symbol}:`, error)
+          return {
+            ...item,
+            currentPrice: 0,
+            change: 0,
+            changePercent: 0,
+            score: 0,
+            timingScore: 0,
+            recommendation: null,
+            name: item.stock?.company_name || item.symbol,
+          }
+        }
+      })
+    )
+  }
+
   /**
    * Add a stock to watchlist
    */
@@ -188,7 +244,7 @@ export class WatchlistService {
   /**
    * Ensure stock exists in stocks table
    */
-  private static async ensureStockExists(supabase: SupabaseClient<Database>, symbol: string): Promise<void> {
+  static async ensureStockExists(supabase: SupabaseClient<Database>, symbol: string): Promise<void> {
 
     // Check if stock exists
     const { data: existingStock } = await supabase
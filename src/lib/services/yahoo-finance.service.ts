@@ -620,10 +620,9 @@ export class YahooFinanceService {
       // Handle different response structures from chart vs historical methods
       const historical = Array.isArray(result) ? result : (result.quotes || [])
       
-      // If no data returned, throw error to trigger mock data
       if (!historical || historical.length === 0) {
-        console.log(`No historical data from Yahoo for ${symbol}, using mock data`)
-        throw new Error('No historical data available from API')
+        console.log(`No historical data from Yahoo for ${symbol}`)
+        return []
       }
       
       console.log(`Yahoo Finance returned ${historical.length} data points for ${symbol}`)
@@ -673,128 +672,8 @@ export class YahooFinanceService {
       
     } catch (error) {
       console.error(`Error fetching historical data for ${symbol}:`, error)
-      
-      return this.generateMockData(symbol, period)
-    }
-  }
-
-  /**
-   * Generate mock historical data for testing
-   */
-  private static generateMockData(
-    symbol: string,
-    period: '1d' | '5d' | '1mo' | '3mo' | '6mo' | '1y' | '2y' | '5y'
-  ): StockHistorical[] {
-    const mockData: StockHistorical[] = []
-    const now = new Date()
-    
-    // Stock-specific base prices
-    const basePrices: { [key: string]: number } = {
-      'AAPL': 175,
-      'GOOGL': 140,
-      'MSFT': 380,
-      'AMZN': 180,
-      'TSLA': 250,
-      'META': 500,
-      'NVDA': 900,
-      'BRK.B': 420,
-      'JPM': 190,
-      'V': 270,
-    }
-    
-    const basePrice = basePrices[symbol] || 100
-    
-    // Generate mock data based on period
-    let dataPoints = 65 // Default for 3mo
-    let interval = 'daily'
-    
-    switch (period) {
-      case '1d': 
-        dataPoints = 78 // Every 5 min for 6.5 hours
-        interval = '5min'
-        break
-      case '5d': 
-        dataPoints = 390 // Every 5 min for 5 days
-        interval = '5min'
-        break
-      case '1mo': dataPoints = 22; break // Daily for month
-      case '3mo': dataPoints = 65; break // Daily for 3 months
-      case '6mo': dataPoints = 130; break // Daily for 6 months
-      case '1y': dataPoints = 252; break // Daily for year
-      case '2y': dataPoints = 504; break // Daily for 2 years
-      case '5y': dataPoints = 1260; break // Daily for 5 years
-    }
-    
-    // Generate dates working backwards from today
-    const dates: Date[] = []
-    const today = new Date()
-    today.setHours(16, 0, 0, 0) // Market close time
-    
-    // IMPORTANT: Ensure we're using 2024, not 2025
-    if (today.getFullYear() > 2024) {
-      today.setFullYear(2024)
-      today.setMonth(11) // December
-      today.setDate(6) // Dec 6, 2024 (a Friday)
-    }
-    
-    if (interval === '5min') {
-      // For intraday data
-      for (let i = dataPoints - 1; i >= 0; i--) {
-        const date = new Date(today)
-        date.setMinutes(date.getMinutes() - (i * 5))
-        dates.push(date)
-      }
-    } else {
-      // For daily data - skip weekends
-      let currentDate = new Date(today)
-      let tradingDaysFound = 0
-      
-      while (tradingDaysFound < dataPoints) {
-        // Skip weekends (0 = Sunday, 6 = Saturday)
-        if (currentDate.getDay() !== 0 && currentDate.getDay() !== 6) {
-          dates.unshift(new Date(currentDate))
-          tradingDaysFound++
-        }
-        currentDate.setDate(currentDate.getDate() - 1)
-      }
-    }
-    
-    // Generate realistic price movements
-    let currentPrice = basePrice
-    const volatility = 0.02 // 2% daily volatility
-    const trend = 0.0005 // Slight upward trend
-    
-    for (let i = 0; i < dates.length; i++) {
-      // Random walk with trend
-      const randomChange = (Math.random() - 0.5) * 2 * volatility
-      const trendChange = trend
-      currentPrice = currentPrice * (1 + randomChange + trendChange)
-      
-      // Ensure price doesn't go negative
-      currentPrice = Math.max(currentPrice, basePrice * 0.5)
-      
-      // Generate OHLC data
-      const dayVolatility = Math.random() * volatility
-      const open = currentPrice * (1 + (Math.random() - 0.5) * dayVolatility)
-      const close = currentPrice
-      const high = Math.max(open, close) * (1 + Math.random() * dayVolatility)
-      const low = Math.min(open, close) * (1 - Math.random() * dayVolatility)
-      
-      mockData.push({
-        date: dates[i],
-        open: Number(open.toFixed(2)),
-        high: Number(high.toFixed(2)),
-        low: Number(low.toFixed(2)),
-        close: Number(close.toFixed(2)),
-        volume: Math.floor(10000000 + Math.random() * 20000000),
-        adjustedClose: Number(close.toFixed(2)),
-      })
+      return []
     }
-    
-    console.log(`Generated ${mockData.length} mock data points for ${symbol}`)
-    console.log(`Date range: ${dates[0].toISOString()} to ${dates[dates.length - 1].toISOString()}`)
-    
-    return mockData
   }
 
   /**
@@ -0,0 +1,221 @@
+/**
+ * Utility functions for serializing tabular exports as CSV and XLSX
+ */
+
+import { deflateRawSync } from 'zlib'
+
+export type ExportValue = string | number | boolean | null | undefined
+
+export interface ExportColumn {
+  key: string
+  header: string
+}
+
+export type ExportRow = Record<string, ExportValue>
+
+/**
+ * Serialize rows as RFC 4180 CSV. Text that a spreadsheet would read as a
+ * formula is prefixed with an apostrophe; numbers are written as they are.
+ */
+export function toCsv(columns: ExportColumn[], rows: ExportRow[]): string {
+  const escape = (value: ExportValue) => {
+    if (value === null || value === undefined) return ''
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  const lines = [
+    columns.map(c => escape(c.header)).join(','),
+    ...rows.map(row => columns.map(c => escape(row[c.key])).join(',')),
+  ]
+
+  return lines.join('\r\n') + '\r\n'
+}
+
+/**
+ * Build a single-sheet XLSX workbook. Strings are written inline so no
+ * shared string table is needed.
+ */
+export function toXlsx(sheetName: string, columns: ExportColumn[], rows: ExportRow[]): Buffer {
+  const sheetRows = [
+    `<row r="1">${columns.map((c, i) => xlsxCell(i, 1, c.header, 1)).join('')}</row>`,
+    ...rows.map((row, r) =>
+      `<row r="${r + 2}">${columns.map((c, i) => xlsxCell(i, r + 2, row[c.key])).join('')}</row>`
+    ),
+  ]
+
+  const files: { name: string, content: string }[] = [
+    {
+      name: '[Content_Types].xml',
+      content: xml('<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + '</Types>'),
+    },
+    {
+      name: '_rels/.rels',
+      content: xml('<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>'),
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: xml('<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>'),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: xml('<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+        + '</Relationships>'),
+    },
+    {
+      name: 'xl/styles.xml',
+      // Style 0 is the default, style 1 is bold for the header row
+      content: xml('<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+        + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+        + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+        + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+        + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+        + '</styleSheet>'),
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: xml('<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+        + `<sheetData>${sheetRows.join('')}</sheetData>`
+        + '</worksheet>'),
+    },
+  ]
+
+  return zip(files.map(f => ({ name: f.name, data: Buffer.from(f.content, 'utf8') })))
+}
+
+function xml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+function columnName(index: number): string {
+  let name = ''
+  let n = index + 1
+  while (n > 0) {
+    const remainder = (n - 1) % 26
+    name = String.fromCharCode(65 + remainder) + name
+    n = Math.floor((n - 1) / 26)
+  }
+  return name
+}
+
+function xlsxCell(column: number, row: number, value: ExportValue, style = 0): string {
+  const ref = `${columnName(column)}${row}`
+  const s = style ? ` s="${style}"` : ''
+
+  if (value === null || value === undefined || value === '') return ''
+  if (typeof value === 'number') {
+    return isFinite(value) ? `<c r="${ref}"${s}><v>${value}</v></c>` : ''
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`
+  }
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let i = 0; i < 256; i++) {
+    let c = i
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[i] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Minimal ZIP writer (deflate, no encryption or ZIP64) for XLSX packaging
+ */
+function zip(files: { name: string, data: Buffer }[]): Buffer {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8')
+    const compressed = deflateRawSync(file.data)
+    const crc = crc32(file.data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0) // Local file header signature
+    local.writeUInt16LE(20, 4) // Version needed
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(8, 8) // Deflate
+    local.writeUInt16LE(0, 10) // Mod time
+    local.writeUInt16LE(0x21, 12) // Mod date (1980-01-01)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(file.data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28) // Extra field length
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0) // Central directory signature
+    central.writeUInt16LE(20, 4) // Version made by
+    central.writeUInt16LE(20, 6) // Version needed
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(0, 12)
+    central.writeUInt16LE(0x21, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(file.data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt16LE(0, 30) // Extra field length
+    central.writeUInt16LE(0, 32) // Comment length
+    central.writeUInt16LE(0, 34) // Disk number
+    central.writeUInt16LE(0, 36) // Internal attributes
+    central.writeUInt32LE(0, 38) // External attributes
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, compressed)
+    centralParts.push(central, name)
+    offset += local.length + name.length + compressed.length
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0) // End of central directory signature
+  end.writeUInt16LE(0, 4)
+  end.writeUInt16LE(0, 6)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(centralSize, 12)
+  end.writeUInt32LE(offset, 16)
+  end.writeUInt16LE(0, 20)
+
+  return Buffer.concat([...localParts, ...centralParts, end])
+}
@@ -0,0 +1,221 @@
+/**
+ * Quote Streamer
+ * Polls quotes for the union of symbols clients are subscribed to and fans
+ * them out through the WebSocketService. Updates are coalesced per symbol and
+ * throttled, so a subscriber gets at most one update per symbol per interval,
+ * always the latest. Score recalculations are published the same way.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { MarketDataService } from '@/lib/services/market-data';
+import { StockDataService } from '@/lib/services/stock-data.service';
+import { Database } from '@/types/database';
+import { RealtimeStockUpdate, WebSocketService } from './websocket.service';
+
+export interface QuoteStreamerOptions {
+  openPollMs: number; // Quote polling while the market is open
+  closedPollMs: number; // Quote polling while it is closed, for new subscribers
+  minEmitMs: number; // Minimum time between updates for one symbol
+  scorePollMs: number;
+  batchSize: number; // Symbols per quote request
+}
+
+const DEFAULT_OPTIONS: QuoteStreamerOptions = {
+  openPollMs: 5 * 1000,
+  closedPollMs: 60 * 1000,
+  minEmitMs: 2 * 1000,
+  scorePollMs: 60 * 1000,
+  batchSize: 100,
+};
+
+const FLUSH_MS = 500;
+const MARKET_STATUS_MS = 60 * 1000;
+
+export class QuoteStreamer {
+  private options: QuoteStreamerOptions;
+  private lastEmitted: Map<string, RealtimeStockUpdate> = new Map(); // symbol -> update
+  private lastEmitAt: Map<string, number> = new Map(); // symbol -> time
+  private pending: Map<string, RealtimeStockUpdate> = new Map(); // symbol -> latest unsent update
+  private scoreVersions: Map<string, string> = new Map(); // symbol -> updated_at of the last score sent
+  private polledSymbols: Set<string> = new Set();
+  private timers: NodeJS.Timeout[] = [];
+  private lastPollAt = 0;
+  private marketOpen = false;
+  private marketCheckedAt = 0;
+  private lastScorePollAt = 0;
+  private polling = false;
+  private pollingScores = false;
+
+  constructor(
+    private websocket: WebSocketService,
+    options: Partial<QuoteStreamerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  start(): void {
+    if (this.timers.length > 0) return;
+
+    // One short tick sends due updates, polls symbols subscribed since the
+    // last poll and starts the scheduled polls when they are due
+    this.timers.push(setInterval(() => {
+      this.flush();
+      this.tick().catch(error => console.error('Quote streamer error:', error));
+    }, FLUSH_MS));
+
+    console.log('Quote streamer started');
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    this.pending.clear();
+    console.log('Quote streamer stopped');
+  }
+
+  /**
+   * Queue a quote for its subscribers. Unchanged quotes are dropped and a
+   * newer quote replaces one still waiting to be sent.
+   */
+  publish(update: RealtimeStockUpdate): void {
+    const last = this.lastEmitted.get(update.symbol);
+    if (last && last.price === update.price && last.volume === update.volume) return;
+
+    this.pending.set(update.symbol, update);
+  }
+
+  /**
+   * Send every queued update whose symbol is out of its throttle window
+   */
+  flush(): void {
+    const now = Date.now();
+
+    for (const [symbol, update] of Array.from(this.pending.entries())) {
+      if (now - (this.lastEmitAt.get(symbol) || 0) < this.options.minEmitMs) continue;
+
+      this.pending.delete(symbol);
+      this.lastEmitted.set(symbol, update);
+      this.lastEmitAt.set(symbol, now);
+      this.websocket.broadcastStockUpdate(update);
+    }
+  }
+
+  private async tick(): Promise<void> {
+    const now = Date.now();
+    const symbols = this.websocket.getSubscribedStocks();
+    this.forget(symbols);
+
+    if (!this.polling) {
+      this.polling = true;
+      try {
+        const interval = (await this.isMarketOpen()) ? this.options.openPollMs : this.options.closedPollMs;
+        const due = now - this.lastPollAt >= interval;
+        const fresh = symbols.filter(symbol => !this.polledSymbols.has(symbol));
+
+        if (due || fresh.length > 0) {
+          await this.pollQuotes(due ? symbols : fresh);
+          if (due) this.lastPollAt = now;
+        }
+      } finally {
+        this.polling = false;
+      }
+    }
+
+    if (!this.pollingScores && now - this.lastScorePollAt >= this.options.scorePollMs) {
+      this.pollingScores = true;
+      try {
+        await this.pollScores(this.websocket.getSubscribedScores());
+        this.lastScorePollAt = now;
+      } finally {
+        this.pollingScores = false;
+      }
+    }
+  }
+
+  private async pollQuotes(symbols: string[]): Promise<void> {
+    for (let i = 0; i < symbols.length; i += this.options.batchSize) {
+      const batch = symbols.slice(i, i + this.options.batchSize);
+      batch.forEach(symbol => this.polledSymbols.add(symbol));
+
+      try {
+        const quotes = await MarketDataService.getQuotes(batch);
+        for (const quote of Array.from(quotes.values())) {
+          this.publish({
+            symbol: quote.symbol.toUpperCase(),
+            price: quote.price,
+            change: quote.change,
+            changePercent: quote.changePercent,
+            volume: quote.volume,
+            timestamp: new Date(),
+          });
+        }
+      } catch (error) {
+        console.error(`Quote poll failed for ${batch.length} symbols:`, error);
+      }
+    }
+  }
+
+  /**
+   * Publish scores recalculated since they were last sent. The first poll
+   * for a symbol sends its current score.
+   */
+  private async pollScores(symbols: string[]): Promise<void> {
+    if (symbols.length === 0) return;
+
+    const { data, error } = await this.adminClient()
+      .from('stock_scores')
+      .select('symbol, score, recommendation, updated_at')
+      .in('symbol', symbols);
+
+    if (error) {
+      console.error('Score poll failed:', error);
+      return;
+    }
+
+    for (const row of (data || []) as Pick<Database['public']['Tables']['stock_scores']['Row'], 'symbol' | 'score' | 'recommendation' | 'updated_at'>[]) {
+      if (this.scoreVersions.get(row.symbol) === row.updated_at) continue;
+
+      this.scoreVersions.set(row.symbol, row.updated_at);
+      this.websocket.broadcastScoreUpdate({
+        symbol: row.symbol,
+        score: row.score,
+        recommendation: row.recommendation,
+        timestamp: new Date(row.updated_at),
+      });
+    }
+  }
+
+  private async isMarketOpen(): Promise<boolean> {
+    if (Date.now() - this.marketCheckedAt > MARKET_STATUS_MS) {
+      this.marketOpen = await StockDataService.isMarketOpen();
+      this.marketCheckedAt = Date.now();
+    }
+    return this.marketOpen;
+  }
+
+  /**
+   * Drop state for symbols nobody is subscribed to any more
+   */
+  private forget(subscribed: string[]): void {
+    const active = new Set(subscribed);
+    for (const symbol of Array.from(this.polledSymbols)) {
+      if (active.has(symbol)) continue;
+      this.polledSymbols.delete(symbol);
+      this.pending.delete(symbol);
+      this.lastEmitted.delete(symbol);
+      this.lastEmitAt.delete(symbol);
+    }
+
+    const scored = new Set(this.websocket.getSubscribedScores());
+    for (const symbol of Array.from(this.scoreVersions.keys())) {
+      if (!scored.has(symbol)) this.scoreVersions.delete(symbol);
+    }
+  }
+
+  private adminClient(): SupabaseClient<Database> {
+    return createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+  }
+}
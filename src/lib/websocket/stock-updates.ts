@@ -31,8 +31,7 @@ class StockWebSocketService {
   }
 
   private connect() {
-    // In production, this would connect to a real WebSocket server
-    // For now, we'll simulate with polling Yahoo Finance
+    // The stream server (src/lib/websocket/stream-server.ts) serves NEXT_PUBLIC_WS_URL
     this.socket = io(process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:3001', {
       transports: ['websocket'],
       reconnection: true,
@@ -50,12 +49,13 @@ class StockWebSocketService {
       console.log('WebSocket disconnected')
     })
 
+    // Timestamps arrive as ISO strings
     this.socket.on('stock:update', (data: StockUpdate) => {
-      this.notifySubscribers(data.symbol, data)
+      this.notifySubscribers(data.symbol, { ...data, timestamp: new Date(data.timestamp) })
     })
 
     this.socket.on('score:update', (data: ScoreUpdate) => {
-      this.notifyScoreSubscribers(data.symbol, data)
+      this.notifyScoreSubscribers(data.symbol, { ...data, timestamp: new Date(data.timestamp) })
     })
 
     this.socket.on('error', (error: Error) => {
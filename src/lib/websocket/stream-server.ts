@@ -0,0 +1,60 @@
+/**
+ * Stream Server
+ * Standalone process behind NEXT_PUBLIC_WS_URL: a Socket.IO server that
+ * streams quotes and score recalculations to subscribed clients and checks
+ * price alerts intraday.
+ *
+ * Run with: npm run start:stream
+ * WS_PORT (default 3001) sets the port; INTRADAY_ALERTS=false turns off alert checks.
+ */
+
+import { createServer } from 'http';
+import { websocketService } from './websocket.service';
+import { QuoteStreamer } from './quote-streamer';
+import { intradayAlertService } from '@/lib/services/intraday-alert.service';
+
+const port = parseInt(process.env.WS_PORT || '3001');
+const intradayAlerts = process.env.INTRADAY_ALERTS !== 'false';
+
+const server = createServer((request, response) => {
+  if (request.url === '/health') {
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({
+      status: 'ok',
+      onlineUsers: websocketService.getOnlineUsersCount(),
+      subscribedStocks: websocketService.getSubscribedStocks().length,
+      subscribedScores: websocketService.getSubscribedScores().length,
+    }));
+    return;
+  }
+
+  response.writeHead(404);
+  response.end();
+});
+
+websocketService.initialize(server);
+
+const streamer = new QuoteStreamer(websocketService);
+streamer.start();
+
+if (intradayAlerts) {
+  // Polling covers every symbol with an alert; the stream adds subscribed
+  // symbols between polls
+  intradayAlertService.start();
+  intradayAlertService.attach(websocketService);
+}
+
+server.listen(port, () => {
+  console.log(`Stream server listening on port ${port}`);
+});
+
+const shutdown = () => {
+  streamer.stop();
+  intradayAlertService.stop();
+  websocketService.shutdown();
+  server.close(() => process.exit(0));
+  setTimeout(() => process.exit(0), 5000).unref();
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -1,12 +1,16 @@
 /**
  * WebSocket Service for Real-time Updates
- * Handles live stock prices, notifications, and user presence
+ * Handles live stock prices, notifications, and user presence.
+ * Sockets are bound to a user only after their Supabase JWT is verified,
+ * and user events go to private rooms that clients cannot join themselves.
  */
 
 import { Server as HTTPServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Redis } from '@upstash/redis';
+import { createClient } from '@supabase/supabase-js';
 import { EmailService } from '@/lib/services/email.service';
+import { isValidSymbol, normalizeSymbol } from '@/lib/services/universes/parsers';
 
 const redis = new Redis({
   url: process.env.UPSTASH_REDIS_REST_URL!,
@@ -22,6 +26,32 @@ export interface RealtimeStockUpdate {
   timestamp: Date;
 }
 
+export interface RealtimeScoreUpdate {
+  symbol: string;
+  score: number;
+  recommendation: string;
+  timestamp: Date;
+}
+
+export interface RealtimePortfolioUpdate {
+  type: 'transaction' | 'valuation' | 'health';
+  data?: any;
+  timestamp: Date;
+}
+
+// A user verified from their access token
+interface VerifiedUser {
+  userId: string;
+  expiresAt: number; // Token expiry, ms since epoch
+}
+
+export const MAX_SUBSCRIPTIONS_PER_SOCKET = 50; // Each for stocks and scores
+
+const TOKEN_CHECK_MS = 60 * 1000;
+
+// Stock events carry a symbol, or { symbol } from the stock-updates client
+type SymbolPayload = string | { symbol?: string };
+
 export interface RealtimeNotification {
   id: string;
   type: 'info' | 'success' | 'warning' | 'error' | 'perfect_storm';
@@ -44,6 +74,10 @@ export class WebSocketService {
   private userSockets: Map<string, Set<string>> = new Map(); // userId -> Set of socketIds
   private socketUsers: Map<string, string> = new Map(); // socketId -> userId
   private stockSubscriptions: Map<string, Set<string>> = new Map(); // symbol -> Set of socketIds
+  private scoreSubscriptions: Map<string, Set<string>> = new Map(); // symbol -> Set of socketIds
+  private tokenExpiry: Map<string, number> = new Map(); // socketId -> token expiry
+  private stockUpdateListeners: Set<(update: RealtimeStockUpdate) => void> = new Set();
+  private latestStockUpdates: Map<string, RealtimeStockUpdate> = new Map(); // symbol -> last update broadcast
   
   /**
    * Initialize WebSocket server
@@ -57,21 +91,52 @@ export class WebSocketService {
       transports: ['websocket', 'polling'],
     });
 
-    this.io.on('connection', (socket: Socket) => {
+    // A token in the handshake must be valid. Sockets without one only get
+    // public stock and score updates until they authenticate.
+    this.io.use(async (socket, next) => {
+      const token = this.tokenOf(socket);
+      if (!token) return next();
+      
+      const verified = await this.verifyToken(token);
+      if (!verified) return next(new Error('Invalid or expired token'));
+      
+      socket.data.user = verified;
+      next();
+    });
+
+    this.io.on('connection', async (socket: Socket) => {
       console.log(`Client connected: ${socket.id}`);
       
-      // Handle authentication
-      socket.on('authenticate', async (data: { userId: string; token: string }) => {
+      // Handle authentication after connecting, e.g. with a refreshed token
+      socket.on('authenticate', async (data: { token?: string }) => {
         await this.handleAuthentication(socket, data);
       });
       
       // Handle stock subscriptions
-      socket.on('subscribe:stock', (symbol: string) => {
-        this.subscribeToStock(socket, symbol);
+      socket.on('subscribe:stock', (payload: SymbolPayload) => {
+        this.subscribeToStock(socket, this.symbolOf(payload));
+      });
+      
+      socket.on('unsubscribe:stock', (payload: SymbolPayload) => {
+        this.unsubscribeFromStock(socket, this.symbolOf(payload));
+      });
+      
+      // The stock-updates client names its events subscribe / unsubscribe
+      socket.on('subscribe', (payload: SymbolPayload) => {
+        this.subscribeToStock(socket, this.symbolOf(payload));
+      });
+      
+      socket.on('unsubscribe', (payload: SymbolPayload) => {
+        this.unsubscribeFromStock(socket, this.symbolOf(payload));
       });
       
-      socket.on('unsubscribe:stock', (symbol: string) => {
-        this.unsubscribeFromStock(socket, symbol);
+      // Handle score subscriptions
+      socket.on('subscribe:score', (payload: SymbolPayload) => {
+        this.subscribeToScore(socket, this.symbolOf(payload));
+      });
+      
+      socket.on('unsubscribe:score', (payload: SymbolPayload) => {
+        this.unsubscribeFromScore(socket, this.symbolOf(payload));
       });
       
       // Handle page navigation (for presence tracking)
@@ -88,6 +153,10 @@ export class WebSocketService {
       socket.on('disconnect', () => {
         this.handleDisconnect(socket);
       });
+      
+      if (socket.data.user) {
+        await this.bindUser(socket, socket.data.user as VerifiedUser);
+      }
     });
 
     // Start periodic tasks
@@ -95,56 +164,158 @@ export class WebSocketService {
   }
 
   /**
-   * Handle user authentication
+   * Handle user authentication. Only the verified token decides the user;
+   * a userId sent by the client is ignored.
    */
   private async handleAuthentication(
     socket: Socket,
-    data: { userId: string; token: string }
+    data: { token?: string }
   ): Promise<void> {
     try {
-      // Verify token (simplified - in production, verify JWT)
-      if (!data.userId || !data.token) {
+      const verified = data?.token ? await this.verifyToken(data.token) : null;
+      
+      if (!verified) {
         socket.emit('auth:error', 'Invalid credentials');
         socket.disconnect();
         return;
       }
       
-      // Track user socket
-      const userId = data.userId;
-      this.socketUsers.set(socket.id, userId);
+      await this.bindUser(socket, verified);
+    } catch (error) {
+      console.error('Authentication error:', error);
+      socket.emit('auth:error', 'Authentication failed');
+      socket.disconnect();
+    }
+  }
+
+  /**
+   * Bind a socket to a verified user and join their private rooms
+   */
+  private async bindUser(socket: Socket, verified: VerifiedUser): Promise<void> {
+    const { userId } = verified;
+    const currentUserId = this.socketUsers.get(socket.id);
+    
+    if (currentUserId && currentUserId !== userId) {
+      this.unbindUser(socket);
+    }
+    
+    this.tokenExpiry.set(socket.id, verified.expiresAt);
+    
+    // Re-authenticating with a refreshed token only extends the expiry
+    if (currentUserId === userId) {
+      socket.emit('auth:success', { userId });
+      return;
+    }
+    
+    // Track user socket
+    this.socketUsers.set(socket.id, userId);
+    
+    if (!this.userSockets.has(userId)) {
+      this.userSockets.set(userId, new Set());
+    }
+    this.userSockets.get(userId)!.add(socket.id);
+    
+    // Join the user's private rooms for targeted messages
+    socket.join(this.notificationRoom(userId));
+    socket.join(this.portfolioRoom(userId));
+    
+    // Update user presence
+    await this.updateUserPresence(userId, socket.id, true);
+    
+    // Send success response
+    socket.emit('auth:success', { userId });
+    
+    // Send any pending notifications
+    await this.sendPendingNotifications(socket, userId);
+    
+    console.log(`User ${userId} authenticated with socket ${socket.id}`);
+  }
+
+  /**
+   * Remove a socket's user binding and leave their private rooms
+   */
+  private unbindUser(socket: Socket): void {
+    const userId = this.socketUsers.get(socket.id);
+    this.tokenExpiry.delete(socket.id);
+    if (!userId) return;
+    
+    socket.leave(this.notificationRoom(userId));
+    socket.leave(this.portfolioRoom(userId));
+    
+    // Remove socket from user's socket set
+    const userSocketSet = this.userSockets.get(userId);
+    if (userSocketSet) {
+      userSocketSet.delete(socket.id);
       
-      if (!this.userSockets.has(userId)) {
-        this.userSockets.set(userId, new Set());
+      // If user has no more sockets, they're offline
+      if (userSocketSet.size === 0) {
+        this.userSockets.delete(userId);
+        this.updateUserPresence(userId, socket.id, false);
       }
-      this.userSockets.get(userId)!.add(socket.id);
-      
-      // Update user presence
-      await this.updateUserPresence(userId, socket.id, true);
-      
-      // Send success response
-      socket.emit('auth:success', { userId });
+    }
+    
+    this.socketUsers.delete(socket.id);
+  }
+
+  /**
+   * Verify a Supabase access token with the auth server
+   */
+  private async verifyToken(token: string): Promise<VerifiedUser | null> {
+    try {
+      const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        { auth: { persistSession: false, autoRefreshToken: false } }
+      );
       
-      // Join user-specific room for targeted messages
-      socket.join(`user:${userId}`);
+      const { data: { user }, error } = await supabase.auth.getUser(token);
+      if (error || !user) return null;
       
-      // Send any pending notifications
-      await this.sendPendingNotifications(socket, userId);
+      // The token is verified, so its payload can be trusted for the expiry
+      const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+      const expiresAt = typeof payload.exp === 'number' ? payload.exp * 1000 : Date.now() + TOKEN_CHECK_MS;
+      if (expiresAt <= Date.now()) return null;
       
-      console.log(`User ${userId} authenticated with socket ${socket.id}`);
+      return { userId: user.id, expiresAt };
     } catch (error) {
-      console.error('Authentication error:', error);
-      socket.emit('auth:error', 'Authentication failed');
-      socket.disconnect();
+      console.error('Token verification error:', error);
+      return null;
     }
   }
 
+  /**
+   * Access token from the handshake auth payload or Authorization header
+   */
+  private tokenOf(socket: Socket): string | null {
+    const token = socket.handshake.auth?.token;
+    if (typeof token === 'string' && token) return token;
+    
+    const header = socket.handshake.headers.authorization;
+    return header?.startsWith('Bearer ') ? header.slice(7) : null;
+  }
+
+  private notificationRoom(userId: string): string {
+    return `user:${userId}:notifications`;
+  }
+
+  private portfolioRoom(userId: string): string {
+    return `user:${userId}:portfolio`;
+  }
+
   /**
    * Subscribe to real-time stock updates
    */
   private subscribeToStock(socket: Socket, symbol: string): void {
-    if (!symbol) return;
+    const upperSymbol = normalizeSymbol(symbol);
+    if (!isValidSymbol(upperSymbol) || socket.rooms.has(`stock:${upperSymbol}`)) return;
     
-    const upperSymbol = symbol.toUpperCase();
+    if (this.countRooms(socket, 'stock:') >= MAX_SUBSCRIPTIONS_PER_SOCKET) {
+      socket.emit('subscribe:error', {
+        symbol: upperSymbol,
+        error: `At most ${MAX_SUBSCRIPTIONS_PER_SOCKET} stock subscriptions per connection`,
+      });
+      return;
+    }
     
     // Add socket to stock subscription
     if (!this.stockSubscriptions.has(upperSymbol)) {
@@ -167,7 +338,7 @@ export class WebSocketService {
   private unsubscribeFromStock(socket: Socket, symbol: string): void {
     if (!symbol) return;
     
-    const upperSymbol = symbol.toUpperCase();
+    const upperSymbol = normalizeSymbol(symbol);
     
     // Remove socket from stock subscription
     if (this.stockSubscriptions.has(upperSymbol)) {
@@ -176,6 +347,7 @@ export class WebSocketService {
       // Clean up empty sets
       if (this.stockSubscriptions.get(upperSymbol)!.size === 0) {
         this.stockSubscriptions.delete(upperSymbol);
+        this.latestStockUpdates.delete(upperSymbol);
       }
     }
     
@@ -185,34 +357,77 @@ export class WebSocketService {
     console.log(`Socket ${socket.id} unsubscribed from ${upperSymbol}`);
   }
 
+  /**
+   * Subscribe to score recalculations
+   */
+  private subscribeToScore(socket: Socket, symbol: string): void {
+    const upperSymbol = normalizeSymbol(symbol);
+    if (!isValidSymbol(upperSymbol) || socket.rooms.has(`score:${upperSymbol}`)) return;
+    
+    if (this.countRooms(socket, 'score:') >= MAX_SUBSCRIPTIONS_PER_SOCKET) {
+      socket.emit('subscribe:error', {
+        symbol: upperSymbol,
+        error: `At most ${MAX_SUBSCRIPTIONS_PER_SOCKET} score subscriptions per connection`,
+      });
+      return;
+    }
+    
+    if (!this.scoreSubscriptions.has(upperSymbol)) {
+      this.scoreSubscriptions.set(upperSymbol, new Set());
+    }
+    this.scoreSubscriptions.get(upperSymbol)!.add(socket.id);
+    
+    socket.join(`score:${upperSymbol}`);
+    
+    // Send the last published score immediately
+    this.sendCurrentScore(socket, upperSymbol);
+  }
+
+  /**
+   * Unsubscribe from score recalculations
+   */
+  private unsubscribeFromScore(socket: Socket, symbol: string): void {
+    if (!symbol) return;
+    
+    const upperSymbol = normalizeSymbol(symbol);
+    
+    if (this.scoreSubscriptions.has(upperSymbol)) {
+      this.scoreSubscriptions.get(upperSymbol)!.delete(socket.id);
+      
+      if (this.scoreSubscriptions.get(upperSymbol)!.size === 0) {
+        this.scoreSubscriptions.delete(upperSymbol);
+      }
+    }
+    
+    socket.leave(`score:${upperSymbol}`);
+  }
+
+  private countRooms(socket: Socket, prefix: string): number {
+    return Array.from(socket.rooms).filter(room => room.startsWith(prefix)).length;
+  }
+
+  private symbolOf(payload: SymbolPayload): string {
+    const symbol = typeof payload === 'string' ? payload : payload?.symbol;
+    return typeof symbol === 'string' ? symbol.trim() : '';
+  }
+
   /**
    * Handle socket disconnection
    */
   private handleDisconnect(socket: Socket): void {
-    const userId = this.socketUsers.get(socket.id);
+    this.unbindUser(socket);
     
-    if (userId) {
-      // Remove socket from user's socket set
-      const userSocketSet = this.userSockets.get(userId);
-      if (userSocketSet) {
-        userSocketSet.delete(socket.id);
-        
-        // If user has no more sockets, they're offline
-        if (userSocketSet.size === 0) {
-          this.userSockets.delete(userId);
-          this.updateUserPresence(userId, socket.id, false);
+    // Remove from all stock and score subscriptions
+    for (const subscriptions of [this.stockSubscriptions, this.scoreSubscriptions]) {
+      for (const [symbol, sockets] of subscriptions.entries()) {
+        sockets.delete(socket.id);
+        if (sockets.size === 0) {
+          subscriptions.delete(symbol);
         }
       }
-      
-      this.socketUsers.delete(socket.id);
     }
-    
-    // Remove from all stock subscriptions
-    for (const [symbol, sockets] of this.stockSubscriptions.entries()) {
-      sockets.delete(socket.id);
-      if (sockets.size === 0) {
-        this.stockSubscriptions.delete(symbol);
-      }
+    for (const symbol of Array.from(this.latestStockUpdates.keys())) {
+      if (!this.stockSubscriptions.has(symbol)) this.latestStockUpdates.delete(symbol);
     }
     
     console.log(`Client disconnected: ${socket.id}`);
@@ -284,10 +499,18 @@ export class WebSocketService {
   }
 
   /**
-   * Send current stock data to a socket
+   * Send current stock data to a socket. The last update broadcast here is
+   * kept for as long as the symbol has subscribers, since unchanged quotes
+   * aren't broadcast again and the Redis copy expires, e.g. after the close.
    */
   private async sendCurrentStockData(socket: Socket, symbol: string): Promise<void> {
     try {
+      const latest = this.latestStockUpdates.get(symbol);
+      if (latest) {
+        socket.emit('stock:update', latest);
+        return;
+      }
+      
       // Get cached stock data from Redis
       const stockKey = `stock:${symbol}`;
       const stockData = await redis.get(stockKey);
@@ -300,6 +523,21 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Send the last published score to a socket
+   */
+  private async sendCurrentScore(socket: Socket, symbol: string): Promise<void> {
+    try {
+      const scoreData = await redis.get(`score:${symbol}`);
+      
+      if (scoreData) {
+        socket.emit('score:update', scoreData);
+      }
+    } catch (error) {
+      console.error('Send score data error:', error);
+    }
+  }
+
   /**
    * Send pending notifications to a user
    */
@@ -326,8 +564,14 @@ export class WebSocketService {
    * Broadcast stock update to all subscribers
    */
   broadcastStockUpdate(update: RealtimeStockUpdate): void {
+    this.stockUpdateListeners.forEach(listener => listener(update));
+    
     if (!this.io) return;
     
+    if (this.stockSubscriptions.has(update.symbol)) {
+      this.latestStockUpdates.set(update.symbol, update);
+    }
+    
     // Emit to stock-specific room
     this.io.to(`stock:${update.symbol}`).emit('stock:update', update);
     
@@ -335,6 +579,31 @@ export class WebSocketService {
     this.cacheStockUpdate(update);
   }
 
+  /**
+   * Broadcast a score recalculation to its subscribers
+   */
+  broadcastScoreUpdate(update: RealtimeScoreUpdate): void {
+    if (!this.io) return;
+    
+    this.io.to(`score:${update.symbol}`).emit('score:update', update);
+    
+    // Cache for sockets that subscribe later
+    redis.setex(`score:${update.symbol}`, 24 * 60 * 60, JSON.stringify(update)).catch(error => {
+      console.error('Cache score update error:', error);
+    });
+  }
+
+  /**
+   * Listen to every stock update broadcast, e.g. to evaluate alerts.
+   * Returns a function that removes the listener.
+   */
+  onStockUpdate(listener: (update: RealtimeStockUpdate) => void): () => void {
+    this.stockUpdateListeners.add(listener);
+    return () => {
+      this.stockUpdateListeners.delete(listener);
+    };
+  }
+
   /**
    * Send notification to specific user
    */
@@ -344,13 +613,22 @@ export class WebSocketService {
     // Check if user is online
     if (this.userSockets.has(userId)) {
       // User is online, send directly
-      this.io.to(`user:${userId}`).emit('notification', notification);
+      this.io.to(this.notificationRoom(userId)).emit('notification', notification);
     } else {
       // User is offline, queue the notification
       this.queueNotification(userId, notification);
     }
   }
 
+  /**
+   * Send a portfolio update to a user's connected sockets
+   */
+  sendPortfolioUpdateToUser(userId: string, update: RealtimePortfolioUpdate): void {
+    if (!this.io) return;
+    
+    this.io.to(this.portfolioRoom(userId)).emit('portfolio:update', update);
+  }
+
   /**
    * Broadcast notification to all users
    */
@@ -410,6 +688,32 @@ export class WebSocketService {
     setInterval(async () => {
       await this.cleanupStalePresence();
     }, 60000); // Every minute
+    
+    // Unbind sockets whose token has expired
+    setInterval(() => {
+      this.expireTokens();
+    }, TOKEN_CHECK_MS);
+  }
+
+  /**
+   * Sockets with an expired token lose their user binding but stay connected
+   * for public updates, and can authenticate again with a refreshed token
+   */
+  private expireTokens(): void {
+    if (!this.io) return;
+    
+    const now = Date.now();
+    for (const [socketId, expiresAt] of Array.from(this.tokenExpiry.entries())) {
+      if (expiresAt > now) continue;
+      
+      const socket = this.io.sockets.sockets.get(socketId);
+      if (socket) {
+        this.unbindUser(socket);
+        socket.emit('auth:expired');
+      } else {
+        this.tokenExpiry.delete(socketId);
+      }
+    }
   }
 
   /**
@@ -439,6 +743,13 @@ export class WebSocketService {
     return Array.from(this.stockSubscriptions.keys());
   }
 
+  /**
+   * Get stocks with score subscribers
+   */
+  getSubscribedScores(): string[] {
+    return Array.from(this.scoreSubscriptions.keys());
+  }
+
   /**
    * Check if user is online
    */
@@ -464,6 +775,10 @@ export class WebSocketService {
       this.userSockets.clear();
       this.socketUsers.clear();
       this.stockSubscriptions.clear();
+      this.scoreSubscriptions.clear();
+      this.tokenExpiry.clear();
+      this.stockUpdateListeners.clear();
+      this.latestStockUpdates.clear();
       
       console.log('WebSocket server shut down');
     }
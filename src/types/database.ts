@@ -117,6 +117,50 @@ export interface Database {
           updated_at?: string
         }
       }
+      stock_score_history: {
+        Row: {
+          id: string
+          symbol: string
+          score: number
+          business_quality_score: number
+          timing_score: number
+          ai_moat_score: number | null
+          financial_health_score: number
+          growth_score: number
+          valuation_score: number
+          technical_score: number
+          recommendation: 'strong_buy' | 'buy' | 'hold' | 'sell' | 'strong_sell'
+          recorded_at: string
+        }
+        Insert: {
+          id?: string
+          symbol: string
+          score: number
+          business_quality_score: number
+          timing_score: number
+          ai_moat_score?: number | null
+          financial_health_score: number
+          growth_score: number
+          valuation_score: number
+          technical_score: number
+          recommendation: 'strong_buy' | 'buy' | 'hold' | 'sell' | 'strong_sell'
+          recorded_at?: string
+        }
+        Update: {
+          id?: string
+          symbol?: string
+          score?: number
+          business_quality_score?: number
+          timing_score?: number
+          ai_moat_score?: number | null
+          financial_health_score?: number
+          growth_score?: number
+          valuation_score?: number
+          technical_score?: number
+          recommendation?: 'strong_buy' | 'buy' | 'hold' | 'sell' | 'strong_sell'
+          recorded_at?: string
+        }
+      }
       stock_data: {
         Row: {
           id: string
@@ -173,6 +217,9 @@ export interface Database {
           alert_enabled: boolean
           notes: string | null
           buy_triggers: Json | null
+          trigger_state: Json | null
+          last_alert_sent: string | null
+          alert_cooldown_hours: number | null
           created_at: string
           updated_at: string
         }
@@ -184,6 +231,9 @@ export interface Database {
           alert_enabled?: boolean
           notes?: string | null
           buy_triggers?: Json | null
+          trigger_state?: Json | null
+          last_alert_sent?: string | null
+          alert_cooldown_hours?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -195,6 +245,9 @@ export interface Database {
           alert_enabled?: boolean
           notes?: string | null
           buy_triggers?: Json | null
+          trigger_state?: Json | null
+          last_alert_sent?: string | null
+          alert_cooldown_hours?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -210,6 +263,11 @@ export interface Database {
           total_value: number | null
           gain_loss: number | null
           gain_loss_percent: number | null
+          purchase_score: number | null
+          purchase_score_breakdown: Json | null
+          exit_signal: 'none' | 'warning' | 'consider' | 'urgent'
+          exit_signal_reasons: Json | null
+          exit_signal_at: string | null
           purchased_at: string
           created_at: string
           updated_at: string
@@ -224,6 +282,11 @@ export interface Database {
           total_value?: number | null
           gain_loss?: number | null
           gain_loss_percent?: number | null
+          purchase_score?: number | null
+          purchase_score_breakdown?: Json | null
+          exit_signal?: 'none' | 'warning' | 'consider' | 'urgent'
+          exit_signal_reasons?: Json | null
+          exit_signal_at?: string | null
           purchased_at?: string
           created_at?: string
           updated_at?: string
@@ -238,21 +301,353 @@ export interface Database {
           total_value?: number | null
           gain_loss?: number | null
           gain_loss_percent?: number | null
+          purchase_score?: number | null
+          purchase_score_breakdown?: Json | null
+          exit_signal?: 'none' | 'warning' | 'consider' | 'urgent'
+          exit_signal_reasons?: Json | null
+          exit_signal_at?: string | null
           purchased_at?: string
           created_at?: string
           updated_at?: string
         }
       }
+      portfolio_transactions: {
+        Row: {
+          id: string
+          user_id: string
+          symbol: string
+          transaction_type: 'buy' | 'sell' | 'dividend' | 'split' | 'fee'
+          quantity: number
+          price: number
+          amount: number
+          fees: number
+          split_ratio: number | null
+          lot_method: 'fifo' | 'lifo' | 'highest_cost' | 'specific' | null
+          lot_selections: Json | null
+          notes: string | null
+          executed_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          symbol: string
+          transaction_type: 'buy' | 'sell' | 'dividend' | 'split' | 'fee'
+          quantity?: number
+          price?: number
+          amount?: number
+          fees?: number
+          split_ratio?: number | null
+          lot_method?: 'fifo' | 'lifo' | 'highest_cost' | 'specific' | null
+          lot_selections?: Json | null
+          notes?: string | null
+          executed_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          symbol?: string
+          transaction_type?: 'buy' | 'sell' | 'dividend' | 'split' | 'fee'
+          quantity?: number
+          price?: number
+          amount?: number
+          fees?: number
+          split_ratio?: number | null
+          lot_method?: 'fifo' | 'lifo' | 'highest_cost' | 'specific' | null
+          lot_selections?: Json | null
+          notes?: string | null
+          executed_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      portfolio_snapshots: {
+        Row: {
+          id: string
+          user_id: string
+          snapshot_date: string
+          total_value: number
+          total_cost: number
+          positions_count: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          snapshot_date: string
+          total_value?: number
+          total_cost?: number
+          positions_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          snapshot_date?: string
+          total_value?: number
+          total_cost?: number
+          positions_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      scoring_profiles: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string | null
+          weights: Json
+          thresholds: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string | null
+          weights: Json
+          thresholds: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string | null
+          weights?: Json
+          thresholds?: Json
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      screener_snapshots: {
+        Row: {
+          symbol: string
+          company_name: string | null
+          sector: string | null
+          industry: string | null
+          quote: Json
+          ratios: Json
+          red_flags: Json
+          green_flags: Json
+          valuation_level: 'highly_undervalued' | 'undervalued' | 'fairly_valued' | 'overvalued' | 'highly_overvalued' | null
+          valuation_upside: number | null
+          intrinsic_value: number | null
+          technicals: Json
+          updated_at: string
+        }
+        Insert: {
+          symbol: string
+          company_name?: string | null
+          sector?: string | null
+          industry?: string | null
+          quote?: Json
+          ratios?: Json
+          red_flags?: Json
+          green_flags?: Json
+          valuation_level?: 'highly_undervalued' | 'undervalued' | 'fairly_valued' | 'overvalued' | 'highly_overvalued' | null
+          valuation_upside?: number | null
+          intrinsic_value?: number | null
+          technicals?: Json
+          updated_at?: string
+        }
+        Update: {
+          symbol?: string
+          company_name?: string | null
+          sector?: string | null
+          industry?: string | null
+          quote?: Json
+          ratios?: Json
+          red_flags?: Json
+          green_flags?: Json
+          valuation_level?: 'highly_undervalued' | 'undervalued' | 'fairly_valued' | 'overvalued' | 'highly_overvalued' | null
+          valuation_upside?: number | null
+          intrinsic_value?: number | null
+          technicals?: Json
+          updated_at?: string
+        }
+      }
+      saved_screens: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string | null
+          filters: Json
+          sort_field: string | null
+          sort_direction: 'asc' | 'desc'
+          notify_enabled: boolean
+          last_matches: Json | null
+          last_run_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string | null
+          filters: Json
+          sort_field?: string | null
+          sort_direction?: 'asc' | 'desc'
+          notify_enabled?: boolean
+          last_matches?: Json | null
+          last_run_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string | null
+          filters?: Json
+          sort_field?: string | null
+          sort_direction?: 'asc' | 'desc'
+          notify_enabled?: boolean
+          last_matches?: Json | null
+          last_run_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      universes: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          kind: 'index' | 'custom'
+          owner_id: string | null
+          enabled: boolean
+          refresh_interval_hours: number
+          score_interval_hours: number
+          last_refreshed_at: string | null
+          last_refresh_error: string | null
+          last_scored_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          kind?: 'index' | 'custom'
+          owner_id?: string | null
+          enabled?: boolean
+          refresh_interval_hours?: number
+          score_interval_hours?: number
+          last_refreshed_at?: string | null
+          last_refresh_error?: string | null
+          last_scored_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          kind?: 'index' | 'custom'
+          owner_id?: string | null
+          enabled?: boolean
+          refresh_interval_hours?: number
+          score_interval_hours?: number
+          last_refreshed_at?: string | null
+          last_refresh_error?: string | null
+          last_scored_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      universe_constituents: {
+        Row: {
+          universe_id: string
+          symbol: string
+          company_name: string | null
+          sector: string | null
+          industry: string | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          universe_id: string
+          symbol: string
+          company_name?: string | null
+          sector?: string | null
+          industry?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          universe_id?: string
+          symbol?: string
+          company_name?: string | null
+          sector?: string | null
+          industry?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      universe_constituent_changes: {
+        Row: {
+          id: string
+          universe_id: string
+          symbol: string
+          company_name: string | null
+          change_type: 'added' | 'removed'
+          effective_date: string
+          source: 'baseline' | 'refresh' | 'manual'
+          detected_at: string
+        }
+        Insert: {
+          id?: string
+          universe_id: string
+          symbol: string
+          company_name?: string | null
+          change_type: 'added' | 'removed'
+          effective_date: string
+          source?: 'baseline' | 'refresh' | 'manual'
+          detected_at?: string
+        }
+        Update: {
+          id?: string
+          universe_id?: string
+          symbol?: string
+          company_name?: string | null
+          change_type?: 'added' | 'removed'
+          effective_date?: string
+          source?: 'baseline' | 'refresh' | 'manual'
+          detected_at?: string
+        }
+      }
       alerts: {
         Row: {
           id: string
           user_id: string
           symbol: string
-          alert_type: 'price_target' | 'score_change' | 'perfect_storm' | 'news' | 'earnings'
+          alert_type: 'price_target' | 'score_change' | 'perfect_storm' | 'news' | 'earnings' | 'technical' | 'rules'
           condition: Json
           triggered: boolean
           triggered_at: string | null
           message: string | null
+          name: string | null
+          enabled: boolean
+          recurring: boolean
+          cooldown_hours: number
+          snoozed_until: string | null
+          trigger_count: number
+          trigger_state: Json | null
+          last_evaluated_at: string | null
           created_at: string
           updated_at: string
         }
@@ -260,11 +655,19 @@ export interface Database {
           id?: string
           user_id: string
           symbol: string
-          alert_type: 'price_target' | 'score_change' | 'perfect_storm' | 'news' | 'earnings'
+          alert_type: 'price_target' | 'score_change' | 'perfect_storm' | 'news' | 'earnings' | 'technical' | 'rules'
           condition: Json
           triggered?: boolean
           triggered_at?: string | null
           message?: string | null
+          name?: string | null
+          enabled?: boolean
+          recurring?: boolean
+          cooldown_hours?: number
+          snoozed_until?: string | null
+          trigger_count?: number
+          trigger_state?: Json | null
+          last_evaluated_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -272,15 +675,55 @@ export interface Database {
           id?: string
           user_id?: string
           symbol?: string
-          alert_type?: 'price_target' | 'score_change' | 'perfect_storm' | 'news' | 'earnings'
+          alert_type?: 'price_target' | 'score_change' | 'perfect_storm' | 'news' | 'earnings' | 'technical' | 'rules'
           condition?: Json
           triggered?: boolean
           triggered_at?: string | null
           message?: string | null
+          name?: string | null
+          enabled?: boolean
+          recurring?: boolean
+          cooldown_hours?: number
+          snoozed_until?: string | null
+          trigger_count?: number
+          trigger_state?: Json | null
+          last_evaluated_at?: string | null
           created_at?: string
           updated_at?: string
         }
       }
+      alert_evaluations: {
+        Row: {
+          id: string
+          alert_id: string
+          user_id: string
+          symbol: string
+          outcome: 'not_met' | 'triggered' | 'snoozed' | 'cooldown'
+          price: number | null
+          result: Json
+          evaluated_at: string
+        }
+        Insert: {
+          id?: string
+          alert_id: string
+          user_id: string
+          symbol: string
+          outcome: 'not_met' | 'triggered' | 'snoozed' | 'cooldown'
+          price?: number | null
+          result: Json
+          evaluated_at?: string
+        }
+        Update: {
+          id?: string
+          alert_id?: string
+          user_id?: string
+          symbol?: string
+          outcome?: 'not_met' | 'triggered' | 'snoozed' | 'cooldown'
+          price?: number | null
+          result?: Json
+          evaluated_at?: string
+        }
+      }
       ai_moat_analysis: {
         Row: {
           id: string
@@ -293,8 +736,13 @@ export interface Database {
           analysis_text: string
           strengths: Json
           weaknesses: Json
+          version: number
+          provider: string | null
+          model: string | null
+          prompt_template: string | null
+          explanations: Json | null
           created_at: string
-          expires_at: string
+          expires_at: string | null
         }
         Insert: {
           id?: string
@@ -307,8 +755,13 @@ export interface Database {
           analysis_text: string
           strengths?: Json
           weaknesses?: Json
+          version?: number
+          provider?: string | null
+          model?: string | null
+          prompt_template?: string | null
+          explanations?: Json | null
           created_at?: string
-          expires_at?: string
+          expires_at?: string | null
         }
         Update: {
           id?: string
@@ -321,8 +774,51 @@ export interface Database {
           analysis_text?: string
           strengths?: Json
           weaknesses?: Json
+          version?: number
+          provider?: string | null
+          model?: string | null
+          prompt_template?: string | null
+          explanations?: Json | null
           created_at?: string
-          expires_at?: string
+          expires_at?: string | null
+        }
+      }
+      moat_overrides: {
+        Row: {
+          id: string
+          symbol: string
+          dimension: 'brandLoyalty' | 'switchingCosts' | 'networkEffects' | 'scaleAdvantages'
+          kind: 'pin' | 'override'
+          score: number
+          justification: string
+          source_version: number | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          symbol: string
+          dimension: 'brandLoyalty' | 'switchingCosts' | 'networkEffects' | 'scaleAdvantages'
+          kind: 'pin' | 'override'
+          score: number
+          justification: string
+          source_version?: number | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          symbol?: string
+          dimension?: 'brandLoyalty' | 'switchingCosts' | 'networkEffects' | 'scaleAdvantages'
+          kind?: 'pin' | 'override'
+          score?: number
+          justification?: string
+          source_version?: number | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
         }
       }
     }
@@ -31,6 +31,16 @@ export interface StockQuote {
   isEarningsDateEstimate: boolean | null
   epsGrowth3to5Year: number | null
   updatedAt: Date
+  provenance?: DataProvenance
+}
+
+// Where a piece of market data came from
+export interface DataProvenance {
+  provider: string
+  synthetic: boolean // Generated locally rather than fetched from a vendor
+  fallback: boolean // Served by a lower-priority provider after others failed
+  attempted: string[] // Higher-priority providers that failed or were skipped
+  fetchedAt: Date | string
 }
 
 export interface StockFinancials {
@@ -0,0 +1,63 @@
+-- Create portfolio transaction ledger
+-- Every buy, sell, dividend, split and fee is recorded here. Rows in
+-- public.portfolios are derived from this ledger and rebuilt after each write.
+
+CREATE TABLE IF NOT EXISTS public.portfolio_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    symbol TEXT NOT NULL REFERENCES public.stocks(symbol) ON DELETE CASCADE,
+    transaction_type TEXT NOT NULL CHECK (transaction_type IN ('buy', 'sell', 'dividend', 'split', 'fee')),
+    quantity DECIMAL(15, 4) NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+    price DECIMAL(12, 4) NOT NULL DEFAULT 0 CHECK (price >= 0),
+    amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    fees DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (fees >= 0),
+    split_ratio DECIMAL(10, 4) CHECK (split_ratio IS NULL OR split_ratio > 0),
+    notes TEXT,
+    executed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for replaying a user's ledger in order (most common query)
+CREATE INDEX IF NOT EXISTS idx_portfolio_transactions_user_executed
+ON public.portfolio_transactions(user_id, executed_at);
+
+-- Index for replaying a single position
+CREATE INDEX IF NOT EXISTS idx_portfolio_transactions_user_symbol
+ON public.portfolio_transactions(user_id, symbol, executed_at);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_portfolio_transactions_updated_at
+    BEFORE UPDATE ON public.portfolio_transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.portfolio_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and manage their own transactions
+CREATE POLICY portfolio_transactions_select_own ON public.portfolio_transactions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY portfolio_transactions_insert_own ON public.portfolio_transactions
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY portfolio_transactions_update_own ON public.portfolio_transactions
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY portfolio_transactions_delete_own ON public.portfolio_transactions
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Backfill: seed the ledger with one buy per existing averaged position
+INSERT INTO public.portfolio_transactions (user_id, symbol, transaction_type, quantity, price, amount, executed_at, notes)
+SELECT p.user_id, p.symbol, 'buy', p.quantity, p.average_price, p.quantity * p.average_price, p.purchased_at, 'Opening balance migrated from averaged position'
+FROM public.portfolios p
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.portfolio_transactions t
+    WHERE t.user_id = p.user_id AND t.symbol = p.symbol
+);
+
+-- Add comments
+COMMENT ON TABLE public.portfolio_transactions IS 'Append-only ledger of portfolio activity; portfolios rows are derived from it';
+COMMENT ON COLUMN public.portfolio_transactions.amount IS 'Cash amount: gross trade value for buys/sells, payout for dividends, charge for fees';
+COMMENT ON COLUMN public.portfolio_transactions.split_ratio IS 'New shares per old share for splits (e.g. 2 for a 2-for-1 split, 0.1 for a 1-for-10 reverse split)';
@@ -0,0 +1,11 @@
+-- Add tax-lot matching fields to portfolio transactions
+-- Each buy opens a tax lot (identified by the buy transaction id). Sells record
+-- how they were matched against open lots so the ledger replays deterministically.
+
+ALTER TABLE public.portfolio_transactions
+ADD COLUMN IF NOT EXISTS lot_method TEXT CHECK (lot_method IN ('fifo', 'lifo', 'highest_cost', 'specific')),
+ADD COLUMN IF NOT EXISTS lot_selections JSONB;
+
+-- Add comments
+COMMENT ON COLUMN public.portfolio_transactions.lot_method IS 'Lot matching method used by a sell (defaults to fifo when null)';
+COMMENT ON COLUMN public.portfolio_transactions.lot_selections IS 'Specific-lot sells: array of { lotId, quantity } where lotId is the opening buy transaction id';
@@ -0,0 +1,45 @@
+-- Create daily portfolio valuation snapshots
+-- One row per user per day, written by the nightly snapshot job. Cash flows
+-- are not stored here; performance calculations read them from the ledger.
+
+CREATE TABLE IF NOT EXISTS public.portfolio_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    snapshot_date DATE NOT NULL,
+    total_value DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (total_value >= 0),
+    total_cost DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    positions_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, snapshot_date)
+);
+
+-- Index for reading a user's history in date order
+CREATE INDEX IF NOT EXISTS idx_portfolio_snapshots_user_date
+ON public.portfolio_snapshots(user_id, snapshot_date);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_portfolio_snapshots_updated_at
+    BEFORE UPDATE ON public.portfolio_snapshots
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.portfolio_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and manage their own snapshots
+CREATE POLICY portfolio_snapshots_select_own ON public.portfolio_snapshots
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY portfolio_snapshots_insert_own ON public.portfolio_snapshots
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY portfolio_snapshots_update_own ON public.portfolio_snapshots
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY portfolio_snapshots_delete_own ON public.portfolio_snapshots
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Add comments
+COMMENT ON TABLE public.portfolio_snapshots IS 'End-of-day market value of each user portfolio, used for performance history';
+COMMENT ON COLUMN public.portfolio_snapshots.total_cost IS 'Cost basis of open positions at snapshot time';
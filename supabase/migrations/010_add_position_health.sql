@@ -0,0 +1,21 @@
+-- Track score drift on open positions
+-- The sub-scores at purchase give the health monitor a baseline to compare the
+-- latest stock score against. The current exit signal is stored so the nightly
+-- job only notifies when a position gets worse, not every time it runs.
+
+ALTER TABLE public.portfolios
+ADD COLUMN IF NOT EXISTS purchase_score_breakdown JSONB,
+ADD COLUMN IF NOT EXISTS exit_signal TEXT DEFAULT 'none' CHECK (exit_signal IN ('none', 'warning', 'consider', 'urgent')),
+ADD COLUMN IF NOT EXISTS exit_signal_reasons JSONB,
+ADD COLUMN IF NOT EXISTS exit_signal_at TIMESTAMPTZ;
+
+-- Index for listing flagged positions
+CREATE INDEX IF NOT EXISTS idx_portfolios_exit_signal
+ON public.portfolios(user_id, exit_signal)
+WHERE exit_signal <> 'none';
+
+-- Add comments
+COMMENT ON COLUMN public.portfolios.purchase_score_breakdown IS 'StockBeacon sub-scores at the time of purchase: { score, businessQualityScore, financialHealthScore, moatScore, growthScore }';
+COMMENT ON COLUMN public.portfolios.exit_signal IS 'Latest position health level from the score drift monitor';
+COMMENT ON COLUMN public.portfolios.exit_signal_reasons IS 'Reasons behind the current exit signal';
+COMMENT ON COLUMN public.portfolios.exit_signal_at IS 'When the exit signal last changed';
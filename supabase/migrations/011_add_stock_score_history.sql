@@ -0,0 +1,46 @@
+-- Create append-only StockBeacon score history
+-- stock_scores keeps only the latest score per symbol, so every saved score is
+-- also appended here to chart how a company's score has moved over time.
+
+CREATE TABLE IF NOT EXISTS public.stock_score_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    symbol TEXT NOT NULL REFERENCES public.stocks(symbol) ON DELETE CASCADE,
+    score INTEGER NOT NULL CHECK (score >= 0 AND score <= 100),
+    business_quality_score INTEGER NOT NULL CHECK (business_quality_score >= 0 AND business_quality_score <= 60),
+    timing_score INTEGER NOT NULL CHECK (timing_score >= 0 AND timing_score <= 40),
+    ai_moat_score INTEGER CHECK (ai_moat_score >= 0 AND ai_moat_score <= 20),
+    financial_health_score INTEGER NOT NULL CHECK (financial_health_score >= 0 AND financial_health_score <= 25),
+    growth_score INTEGER NOT NULL CHECK (growth_score >= 0 AND growth_score <= 15),
+    valuation_score INTEGER NOT NULL CHECK (valuation_score >= 0 AND valuation_score <= 20),
+    technical_score INTEGER NOT NULL CHECK (technical_score >= 0 AND technical_score <= 20),
+    recommendation TEXT NOT NULL CHECK (recommendation IN ('strong_buy', 'buy', 'hold', 'sell', 'strong_sell')),
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Index for reading a symbol's history in date order
+CREATE INDEX IF NOT EXISTS idx_stock_score_history_symbol_recorded
+ON public.stock_score_history(symbol, recorded_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.stock_score_history ENABLE ROW LEVEL SECURITY;
+
+-- Public read access, like stock_scores. No update or delete policies so
+-- history rows cannot be rewritten.
+CREATE POLICY stock_score_history_select_all ON public.stock_score_history
+    FOR SELECT USING (true);
+
+-- Seed the history with the scores we already have
+INSERT INTO public.stock_score_history (
+    symbol, score, business_quality_score, timing_score, ai_moat_score,
+    financial_health_score, growth_score, valuation_score, technical_score,
+    recommendation, recorded_at
+)
+SELECT
+    symbol, score, business_quality_score, timing_score, ai_moat_score,
+    financial_health_score, growth_score, valuation_score, technical_score,
+    recommendation, COALESCE(updated_at, created_at, NOW())
+FROM public.stock_scores;
+
+-- Add comments
+COMMENT ON TABLE public.stock_score_history IS 'Every StockBeacon score ever saved, one row per calculation';
+COMMENT ON COLUMN public.stock_score_history.recorded_at IS 'When the score was calculated';
@@ -0,0 +1,48 @@
+-- Create user-defined scoring profiles
+-- A profile re-weights the StockBeacon sub-scores and sets its own
+-- recommendation thresholds. Stored scores stay on the standard scale; profiles
+-- are applied when stocks are ranked. The selected profile is kept in
+-- users.preferences.scoringProfile alongside the built-in presets.
+
+CREATE TABLE IF NOT EXISTS public.scoring_profiles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    weights JSONB NOT NULL,
+    thresholds JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, name)
+);
+
+-- Index for listing a user's profiles
+CREATE INDEX IF NOT EXISTS idx_scoring_profiles_user_id
+ON public.scoring_profiles(user_id);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_scoring_profiles_updated_at
+    BEFORE UPDATE ON public.scoring_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.scoring_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and manage their own profiles
+CREATE POLICY scoring_profiles_select_own ON public.scoring_profiles
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY scoring_profiles_insert_own ON public.scoring_profiles
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY scoring_profiles_update_own ON public.scoring_profiles
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY scoring_profiles_delete_own ON public.scoring_profiles
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Add comments
+COMMENT ON TABLE public.scoring_profiles IS 'Custom StockBeacon score weightings defined by each user';
+COMMENT ON COLUMN public.scoring_profiles.weights IS 'Maximum points per sub-score: financialHealth, moat, growth, valuation, technical (sums to 100)';
+COMMENT ON COLUMN public.scoring_profiles.thresholds IS 'Score and business quality cut-offs for each recommendation';
@@ -0,0 +1,74 @@
+-- Version moat analyses and allow human overrides
+-- Every generated moat analysis is kept as a numbered version with the
+-- provider, model and prompt template that produced it, so score swings can be
+-- traced. moat_overrides pins or replaces individual dimension scores; the
+-- effective analysis used for scoring is the latest version with overrides
+-- applied.
+
+ALTER TABLE public.ai_moat_analysis
+    ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS provider TEXT,
+    ADD COLUMN IF NOT EXISTS model TEXT,
+    ADD COLUMN IF NOT EXISTS prompt_template TEXT,
+    ADD COLUMN IF NOT EXISTS explanations JSONB;
+
+-- Number any existing analyses per symbol in the order they were created
+UPDATE public.ai_moat_analysis AS a
+SET version = numbered.version
+FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY symbol ORDER BY created_at) AS version
+    FROM public.ai_moat_analysis
+) AS numbered
+WHERE a.id = numbered.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_moat_analysis_symbol_version
+ON public.ai_moat_analysis(symbol, version DESC);
+
+-- Versions are kept for good, so they no longer expire
+ALTER TABLE public.ai_moat_analysis ALTER COLUMN expires_at DROP NOT NULL;
+ALTER TABLE public.ai_moat_analysis ALTER COLUMN expires_at DROP DEFAULT;
+
+CREATE TABLE IF NOT EXISTS public.moat_overrides (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    symbol TEXT NOT NULL REFERENCES public.stocks(symbol) ON DELETE CASCADE,
+    dimension TEXT NOT NULL CHECK (dimension IN ('brandLoyalty', 'switchingCosts', 'networkEffects', 'scaleAdvantages')),
+    kind TEXT NOT NULL CHECK (kind IN ('pin', 'override')),
+    score INTEGER NOT NULL CHECK (score >= 0 AND score <= 25),
+    justification TEXT NOT NULL CHECK (LENGTH(TRIM(justification)) > 0),
+    source_version INTEGER,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(symbol, dimension)
+);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_moat_overrides_updated_at
+    BEFORE UPDATE ON public.moat_overrides
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.moat_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Overrides change the shared moat score, so everyone can see them and any
+-- signed-in user can set or clear them
+CREATE POLICY moat_overrides_select_all ON public.moat_overrides
+    FOR SELECT USING (true);
+
+CREATE POLICY moat_overrides_insert_authenticated ON public.moat_overrides
+    FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY moat_overrides_update_authenticated ON public.moat_overrides
+    FOR UPDATE USING (auth.uid() IS NOT NULL) WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY moat_overrides_delete_authenticated ON public.moat_overrides
+    FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- Add comments
+COMMENT ON COLUMN public.ai_moat_analysis.version IS 'Sequential version number per symbol, starting at 1';
+COMMENT ON COLUMN public.ai_moat_analysis.provider IS 'Moat analysis provider that produced this version (xai, openai, anthropic, local, rule-based)';
+COMMENT ON COLUMN public.ai_moat_analysis.prompt_template IS 'Prompt template used, null for the rule-based analyzer';
+COMMENT ON COLUMN public.ai_moat_analysis.explanations IS 'Explanation per dimension: brandLoyalty, switchingCosts, networkEffects, scaleAdvantages';
+COMMENT ON TABLE public.moat_overrides IS 'Human pins and overrides of moat dimension scores, applied on top of the latest analysis';
+COMMENT ON COLUMN public.moat_overrides.kind IS 'pin keeps the score from source_version across refreshes; override sets a manual score';
@@ -0,0 +1,12 @@
+-- Add GICS sub-industry to S&P 500 constituents
+-- Peer groups are drawn from the same sub-industry before widening to the
+-- whole sector.
+
+ALTER TABLE public.sp500_constituents
+    ADD COLUMN IF NOT EXISTS industry TEXT;
+
+-- Index for finding a company's industry peers
+CREATE INDEX IF NOT EXISTS idx_sp500_industry
+ON public.sp500_constituents(industry);
+
+COMMENT ON COLUMN public.sp500_constituents.industry IS 'GICS sub-industry, used to build peer groups';
@@ -0,0 +1,89 @@
+-- Add the stock screener
+-- screener_snapshots holds the fundamentals the screener filters on, captured
+-- for every scored symbol by the nightly score job. Sub-scores are read from
+-- stock_scores. saved_screens keeps each user's filter sets.
+
+CREATE TABLE IF NOT EXISTS public.screener_snapshots (
+    symbol TEXT PRIMARY KEY,
+    company_name TEXT,
+    sector TEXT,
+    industry TEXT,
+    quote JSONB NOT NULL DEFAULT '{}',
+    ratios JSONB NOT NULL DEFAULT '{}',
+    red_flags JSONB NOT NULL DEFAULT '[]',
+    green_flags JSONB NOT NULL DEFAULT '[]',
+    valuation_level TEXT CHECK (valuation_level IN ('highly_undervalued', 'undervalued', 'fairly_valued', 'overvalued', 'highly_overvalued')),
+    valuation_upside DECIMAL(10, 2),
+    intrinsic_value DECIMAL(15, 2),
+    technicals JSONB NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for sector filters
+CREATE INDEX IF NOT EXISTS idx_screener_snapshots_sector
+ON public.screener_snapshots(sector);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_screener_snapshots_updated_at
+    BEFORE UPDATE ON public.screener_snapshots
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.screener_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read (public data)
+CREATE POLICY screener_snapshots_read_all ON public.screener_snapshots
+    FOR SELECT USING (true);
+
+-- Written by the score job
+CREATE POLICY screener_snapshots_write_auth ON public.screener_snapshots
+    FOR ALL USING (auth.role() = 'authenticated');
+
+CREATE TABLE IF NOT EXISTS public.saved_screens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    filters JSONB NOT NULL,
+    sort_field TEXT,
+    sort_direction TEXT NOT NULL DEFAULT 'desc' CHECK (sort_direction IN ('asc', 'desc')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, name)
+);
+
+-- Index for listing a user's screens
+CREATE INDEX IF NOT EXISTS idx_saved_screens_user_id
+ON public.saved_screens(user_id);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_saved_screens_updated_at
+    BEFORE UPDATE ON public.saved_screens
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.saved_screens ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and manage their own screens
+CREATE POLICY saved_screens_select_own ON public.saved_screens
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY saved_screens_insert_own ON public.saved_screens
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY saved_screens_update_own ON public.saved_screens
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY saved_screens_delete_own ON public.saved_screens
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Add comments
+COMMENT ON TABLE public.screener_snapshots IS 'Fundamentals, flags, valuation and technicals per symbol for the stock screener';
+COMMENT ON COLUMN public.screener_snapshots.quote IS 'Quote fields at capture time, e.g. price, marketCap, peRatio';
+COMMENT ON COLUMN public.screener_snapshots.ratios IS 'Financial ratios and valuation multiples keyed by ratio id';
+COMMENT ON COLUMN public.screener_snapshots.red_flags IS 'Red flags as {id, severity}';
+COMMENT ON COLUMN public.screener_snapshots.green_flags IS 'Green flags as {id, strength}';
+COMMENT ON TABLE public.saved_screens IS 'Screener filter sets saved by each user';
+COMMENT ON COLUMN public.saved_screens.filters IS 'Screener filters as {field, operator, value}';
@@ -0,0 +1,18 @@
+-- Notify users when stocks enter or leave their saved screens
+-- The symbols that matched on the last run are stored so the nightly job can
+-- send only the difference after each score recalculation.
+
+ALTER TABLE public.saved_screens
+ADD COLUMN IF NOT EXISTS notify_enabled BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS last_matches JSONB,
+ADD COLUMN IF NOT EXISTS last_run_at TIMESTAMPTZ;
+
+-- Index for the nightly run over screens with notifications on
+CREATE INDEX IF NOT EXISTS idx_saved_screens_notify
+ON public.saved_screens(notify_enabled)
+WHERE notify_enabled = true;
+
+-- Add comments
+COMMENT ON COLUMN public.saved_screens.notify_enabled IS 'Run the screen after each score recalculation and notify on new matches';
+COMMENT ON COLUMN public.saved_screens.last_matches IS 'Symbols that matched on the last nightly run';
+COMMENT ON COLUMN public.saved_screens.last_run_at IS 'When the nightly run last evaluated the screen';
@@ -0,0 +1,106 @@
+-- Add stock universes beyond the S&P 500
+-- Each universe is a list of symbols the nightly score job covers: built-in
+-- indexes refreshed from published constituent lists, and custom lists users
+-- create. The S&P 500 keeps its own sp500_constituents table.
+
+CREATE TABLE IF NOT EXISTS public.universes (
+    id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+    name TEXT NOT NULL,
+    description TEXT,
+    kind TEXT NOT NULL DEFAULT 'custom' CHECK (kind IN ('index', 'custom')),
+    owner_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    refresh_interval_hours INTEGER NOT NULL DEFAULT 168 CHECK (refresh_interval_hours > 0),
+    score_interval_hours INTEGER NOT NULL DEFAULT 24 CHECK (score_interval_hours > 0),
+    last_refreshed_at TIMESTAMPTZ,
+    last_refresh_error TEXT,
+    last_scored_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK ((kind = 'custom') = (owner_id IS NOT NULL)),
+    UNIQUE(owner_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.universe_constituents (
+    universe_id TEXT NOT NULL REFERENCES public.universes(id) ON DELETE CASCADE,
+    symbol TEXT NOT NULL,
+    company_name TEXT,
+    sector TEXT,
+    industry TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (universe_id, symbol)
+);
+
+-- Index for a universe's current members
+CREATE INDEX IF NOT EXISTS idx_universe_constituents_active
+ON public.universe_constituents(universe_id)
+WHERE is_active = true;
+
+-- Index for finding the universes a symbol belongs to
+CREATE INDEX IF NOT EXISTS idx_universe_constituents_symbol
+ON public.universe_constituents(symbol);
+
+-- Index for listing a user's custom universes
+CREATE INDEX IF NOT EXISTS idx_universes_owner_id
+ON public.universes(owner_id);
+
+-- Add updated_at triggers
+CREATE TRIGGER update_universes_updated_at
+    BEFORE UPDATE ON public.universes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_universe_constituents_updated_at
+    BEFORE UPDATE ON public.universe_constituents
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.universes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.universe_constituents ENABLE ROW LEVEL SECURITY;
+
+-- Index universes are public; custom universes belong to their owner.
+-- The score job writes with the service role.
+CREATE POLICY universes_select ON public.universes
+    FOR SELECT USING (kind = 'index' OR auth.uid() = owner_id);
+
+CREATE POLICY universes_insert_own ON public.universes
+    FOR INSERT WITH CHECK (kind = 'custom' AND auth.uid() = owner_id);
+
+CREATE POLICY universes_update_own ON public.universes
+    FOR UPDATE USING (kind = 'custom' AND auth.uid() = owner_id);
+
+CREATE POLICY universes_delete_own ON public.universes
+    FOR DELETE USING (kind = 'custom' AND auth.uid() = owner_id);
+
+CREATE POLICY universe_constituents_select ON public.universe_constituents
+    FOR SELECT USING (EXISTS (
+        SELECT 1 FROM public.universes u
+        WHERE u.id = universe_id AND (u.kind = 'index' OR u.owner_id = auth.uid())
+    ));
+
+CREATE POLICY universe_constituents_write_own ON public.universe_constituents
+    FOR ALL USING (EXISTS (
+        SELECT 1 FROM public.universes u
+        WHERE u.id = universe_id AND u.kind = 'custom' AND u.owner_id = auth.uid()
+    ));
+
+-- Built-in index universes. Constituent sources live in code.
+INSERT INTO public.universes (id, name, description, kind, enabled, refresh_interval_hours, score_interval_hours) VALUES
+    ('sp500', 'S&P 500', 'US large caps', 'index', true, 48, 24),
+    ('sp400', 'S&P MidCap 400', 'US mid caps', 'index', true, 168, 24),
+    ('sp600', 'S&P SmallCap 600', 'US small caps', 'index', true, 168, 48),
+    ('nasdaq100', 'Nasdaq-100', 'Largest non-financial Nasdaq listings', 'index', true, 168, 24),
+    ('russell1000', 'Russell 1000', 'US large and mid caps, broader than the S&P 500', 'index', false, 168, 72)
+ON CONFLICT (id) DO NOTHING;
+
+-- Add comments
+COMMENT ON TABLE public.universes IS 'Symbol lists covered by the nightly score job: built-in indexes and user-defined lists';
+COMMENT ON COLUMN public.universes.enabled IS 'Whether the score job scores this universe';
+COMMENT ON COLUMN public.universes.refresh_interval_hours IS 'How often index constituents are re-downloaded';
+COMMENT ON COLUMN public.universes.score_interval_hours IS 'Maximum score age before a member is rescored';
+COMMENT ON COLUMN public.universes.last_refresh_error IS 'Why the last constituent refresh failed, cleared on success';
+COMMENT ON TABLE public.universe_constituents IS 'Members of each universe other than the S&P 500';
+COMMENT ON COLUMN public.universe_constituents.is_active IS 'Whether the symbol is in the latest constituent list';
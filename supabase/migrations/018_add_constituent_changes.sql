@@ -0,0 +1,45 @@
+-- Add index constituent change history
+-- Constituent tables only hold the latest list. Every addition and removal is
+-- recorded here with the date it took effect so past index membership can be
+-- rebuilt, e.g. to analyse scores without survivorship bias.
+
+CREATE TABLE IF NOT EXISTS public.universe_constituent_changes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    universe_id TEXT NOT NULL REFERENCES public.universes(id) ON DELETE CASCADE,
+    symbol TEXT NOT NULL,
+    company_name TEXT,
+    change_type TEXT NOT NULL CHECK (change_type IN ('added', 'removed')),
+    effective_date DATE NOT NULL,
+    source TEXT NOT NULL DEFAULT 'refresh' CHECK (source IN ('baseline', 'refresh', 'manual')),
+    detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(universe_id, symbol, change_type, effective_date)
+);
+
+-- Index for replaying a universe's history up to a date
+CREATE INDEX IF NOT EXISTS idx_constituent_changes_universe_date
+ON public.universe_constituent_changes(universe_id, effective_date DESC);
+
+-- Index for a symbol's membership history
+CREATE INDEX IF NOT EXISTS idx_constituent_changes_symbol
+ON public.universe_constituent_changes(symbol);
+
+-- Enable Row Level Security
+ALTER TABLE public.universe_constituent_changes ENABLE ROW LEVEL SECURITY;
+
+-- Public read access for index universes. Changes are written by the
+-- constituent refresh with the service role and never updated.
+CREATE POLICY universe_constituent_changes_select ON public.universe_constituent_changes
+    FOR SELECT USING (EXISTS (
+        SELECT 1 FROM public.universes u
+        WHERE u.id = universe_id AND u.kind = 'index'
+    ));
+
+-- S&P 500 removals, alongside the existing date_added
+ALTER TABLE public.sp500_constituents
+ADD COLUMN IF NOT EXISTS date_removed DATE;
+
+-- Add comments
+COMMENT ON TABLE public.universe_constituent_changes IS 'Additions to and removals from index universes, with the date each took effect';
+COMMENT ON COLUMN public.universe_constituent_changes.effective_date IS 'Date the change took effect: the published date added when known, otherwise the date it was detected';
+COMMENT ON COLUMN public.universe_constituent_changes.source IS 'baseline: members when history tracking began; refresh: detected by a constituent refresh; manual: entered by an admin';
+COMMENT ON COLUMN public.sp500_constituents.date_removed IS 'Date when the stock was removed from the index';
@@ -0,0 +1,12 @@
+-- Rule-based watchlist buy triggers
+-- buy_triggers now holds { version: 2, enabled, rules } where rules is a
+-- nested AND / OR group of conditions. Crossing and change conditions
+-- (price crosses, SMA crosses, valuation changes, new red flags) compare
+-- against the data seen on the previous check, kept in trigger_state.
+
+ALTER TABLE public.watchlists
+ADD COLUMN IF NOT EXISTS trigger_state JSONB;
+
+-- Add comments
+COMMENT ON COLUMN public.watchlists.buy_triggers IS 'Alert rules: { version: 2, enabled, rules }. Older rows hold { minScore, minTimingScore }';
+COMMENT ON COLUMN public.watchlists.trigger_state IS 'Price, SMAs, valuation level and red flags from the last alert check, and its result';
@@ -0,0 +1,61 @@
+-- Standalone stock alerts
+-- The alerts table from the initial schema becomes the home for alerts that
+-- aren't tied to a watchlist item: any number per symbol, each with its own
+-- rules (same format as watchlist buy triggers), one-shot or recurring
+-- behaviour, a cooldown and snoozing. Every evaluation is recorded in
+-- alert_evaluations as an audit trail and trigger history.
+
+-- Rule alerts are categorised by the conditions they use
+ALTER TABLE public.alerts DROP CONSTRAINT IF EXISTS alerts_alert_type_check;
+ALTER TABLE public.alerts ADD CONSTRAINT alerts_alert_type_check
+CHECK (alert_type IN ('price_target', 'score_change', 'perfect_storm', 'news', 'earnings', 'technical', 'rules'));
+
+ALTER TABLE public.alerts
+ADD COLUMN IF NOT EXISTS name TEXT,
+ADD COLUMN IF NOT EXISTS enabled BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS recurring BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS cooldown_hours INTEGER NOT NULL DEFAULT 24 CHECK (cooldown_hours >= 0),
+ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS trigger_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS trigger_state JSONB,
+ADD COLUMN IF NOT EXISTS last_evaluated_at TIMESTAMPTZ;
+
+-- Index for the alert check over enabled alerts
+CREATE INDEX IF NOT EXISTS idx_alerts_enabled
+ON public.alerts(symbol)
+WHERE enabled = true;
+
+CREATE TABLE IF NOT EXISTS public.alert_evaluations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    alert_id UUID NOT NULL REFERENCES public.alerts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    symbol TEXT NOT NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('not_met', 'triggered', 'snoozed', 'cooldown')),
+    price DECIMAL(12, 4),
+    result JSONB NOT NULL,
+    evaluated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for an alert's history, newest first
+CREATE INDEX IF NOT EXISTS idx_alert_evaluations_alert
+ON public.alert_evaluations(alert_id, evaluated_at DESC);
+
+-- Index for pruning old evaluations that didn't trigger
+CREATE INDEX IF NOT EXISTS idx_alert_evaluations_pruning
+ON public.alert_evaluations(evaluated_at)
+WHERE outcome = 'not_met';
+
+-- Enable Row Level Security
+ALTER TABLE public.alert_evaluations ENABLE ROW LEVEL SECURITY;
+
+-- Users can see the evaluations of their own alerts. The alert check writes
+-- with the service role.
+CREATE POLICY alert_evaluations_select_own ON public.alert_evaluations
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Add comments
+COMMENT ON COLUMN public.alerts.condition IS 'Alert rules: a nested AND / OR group of conditions';
+COMMENT ON COLUMN public.alerts.recurring IS 'Keep checking after triggering; one-shot alerts stop once triggered';
+COMMENT ON COLUMN public.alerts.snoozed_until IS 'Evaluate but do not notify until this time';
+COMMENT ON COLUMN public.alerts.trigger_state IS 'Price, SMAs, valuation level and red flags from the last check';
+COMMENT ON TABLE public.alert_evaluations IS 'Every check of a standalone alert and its outcome';
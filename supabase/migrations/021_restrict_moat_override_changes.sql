@@ -0,0 +1,19 @@
+-- Restrict who can change a moat override
+-- Any signed-in user could update or clear another user's override. Only the
+-- user who set it, or an admin (app_metadata.role = 'admin', which only the
+-- service role can assign), may now change or remove it.
+
+DROP POLICY IF EXISTS moat_overrides_update_authenticated ON public.moat_overrides;
+DROP POLICY IF EXISTS moat_overrides_delete_authenticated ON public.moat_overrides;
+
+CREATE POLICY moat_overrides_update_owner ON public.moat_overrides
+    FOR UPDATE USING (
+        auth.uid() = created_by
+        OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'admin'
+    ) WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY moat_overrides_delete_owner ON public.moat_overrides
+    FOR DELETE USING (
+        auth.uid() = created_by
+        OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'admin'
+    );
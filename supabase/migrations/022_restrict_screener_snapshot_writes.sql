@@ -0,0 +1,6 @@
+-- Only the score job writes screener snapshots
+-- screener_snapshots_write_auth let any signed-in user insert, change or
+-- delete snapshots every user's screener reads. The score job writes with the
+-- service role, which bypasses row level security, so no write policy is needed.
+
+DROP POLICY IF EXISTS screener_snapshots_write_auth ON public.screener_snapshots;
@@ -0,0 +1,11 @@
+/**
+ * Placeholder credentials so service modules that create clients when they
+ * load can be imported. Tests never reach these services.
+ */
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ??= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ??= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'test-service-role-key'
+process.env.UPSTASH_REDIS_REST_URL ??= 'http://localhost:8079'
+process.env.UPSTASH_REDIS_REST_TOKEN ??= 'test-redis-token'
+process.env.RESEND_API_KEY ??= 're_test'
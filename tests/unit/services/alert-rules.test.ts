@@ -0,0 +1,205 @@
+import {
+  AlertContext,
+  AlertRuleEngine,
+  AlertRuleError,
+  AlertRuleGroup,
+  AlertRuleState,
+  describeCondition,
+} from '@/lib/services/alert-rules'
+
+const context = (overrides: Partial<AlertContext> = {}): AlertContext => ({
+  price: 100,
+  changePercent: 0,
+  rsi: 50,
+  sma: { 20: null, 50: null, 150: null, 200: null },
+  valuationLevel: null,
+  redFlags: null,
+  earningsDate: null,
+  score: null,
+  timingScore: null,
+  ...overrides,
+})
+
+const state = (overrides: Partial<AlertRuleState> = {}): AlertRuleState => ({
+  price: 100,
+  sma: { 20: null, 50: null, 150: null, 200: null },
+  valuationLevel: null,
+  redFlags: null,
+  evaluatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+})
+
+const group = (operator: 'AND' | 'OR', ...conditions: AlertRuleGroup['conditions']): AlertRuleGroup =>
+  ({ kind: 'group', operator, conditions })
+
+describe('AlertRuleEngine.evaluate', () => {
+  it('requires every condition of an AND group', () => {
+    const rules = group('AND',
+      { kind: 'condition', type: 'price_below', value: 110 },
+      { kind: 'condition', type: 'rsi_below', value: 30 }
+    )
+
+    expect(AlertRuleEngine.evaluate(rules, context({ rsi: 25 }), null).met).toBe(true)
+    expect(AlertRuleEngine.evaluate(rules, context({ rsi: 45 }), null).met).toBe(false)
+  })
+
+  it('needs one condition of an OR group', () => {
+    const rules = group('OR',
+      { kind: 'condition', type: 'price_below', value: 90 },
+      { kind: 'condition', type: 'move_down_percent', value: 5 }
+    )
+
+    expect(AlertRuleEngine.evaluate(rules, context({ changePercent: -6 }), null).met).toBe(true)
+    expect(AlertRuleEngine.evaluate(rules, context({ changePercent: -4 }), null).met).toBe(false)
+  })
+
+  it('nests groups and reports each condition at its depth', () => {
+    const rules = group('AND',
+      { kind: 'condition', type: 'price_below', value: 120 },
+      group('OR',
+        { kind: 'condition', type: 'rsi_below', value: 30 },
+        { kind: 'condition', type: 'score_at_least', value: 70 }
+      )
+    )
+
+    const evaluation = AlertRuleEngine.evaluate(rules, context({ score: 75 }), null)
+
+    expect(evaluation.met).toBe(true)
+    expect(evaluation.conditions).toEqual([
+      { description: 'Price is below $120.00', depth: 0, met: true, current: '$100.00' },
+      { description: 'Any of', depth: 0, met: true, current: null },
+      { description: 'RSI is below 30', depth: 1, met: false, current: '50.0' },
+      { description: 'Business quality is at least 70', depth: 1, met: true, current: '75' },
+    ])
+  })
+
+  it('never meets an empty group', () => {
+    expect(AlertRuleEngine.evaluate(group('AND'), context(), null).met).toBe(false)
+  })
+
+  it('fires a price crossing only when the price moves through the level', () => {
+    const rules = group('AND', { kind: 'condition', type: 'price_crosses_above', value: 105 })
+
+    expect(AlertRuleEngine.evaluate(rules, context({ price: 106 }), null).met).toBe(false)
+    expect(AlertRuleEngine.evaluate(rules, context({ price: 106 }), state({ price: 104 })).met).toBe(true)
+    expect(AlertRuleEngine.evaluate(rules, context({ price: 107 }), state({ price: 106 })).met).toBe(false)
+  })
+
+  it('detects a golden cross against the previous moving averages', () => {
+    const rules = group('AND', { kind: 'condition', type: 'golden_cross' })
+    const before = state({ sma: { 20: null, 50: 99, 150: null, 200: 100 } })
+
+    expect(AlertRuleEngine.evaluate(rules, context({ sma: { 20: null, 50: 101, 150: null, 200: 100 } }), before).met).toBe(true)
+    expect(AlertRuleEngine.evaluate(rules, context({ sma: { 20: null, 50: 98, 150: null, 200: 100 } }), before).met).toBe(false)
+  })
+
+  it('fires valuation changes only on entering the chosen levels', () => {
+    const rules = group('AND', { kind: 'condition', type: 'valuation_enters', levels: ['undervalued'] })
+
+    expect(AlertRuleEngine.evaluate(rules, context({ valuationLevel: 'undervalued' }), state({ valuationLevel: 'fairly_valued' })).met).toBe(true)
+    expect(AlertRuleEngine.evaluate(rules, context({ valuationLevel: 'undervalued' }), state({ valuationLevel: 'undervalued' })).met).toBe(false)
+    expect(AlertRuleEngine.evaluate(rules, context({ valuationLevel: 'undervalued' }), null).met).toBe(false)
+  })
+
+  it('reports red flags that were not there on the last check', () => {
+    const rules = group('AND', { kind: 'condition', type: 'new_red_flag' })
+    const evaluation = AlertRuleEngine.evaluate(
+      rules,
+      context({ redFlags: ['high_accruals', 'insolvency_risk'] }),
+      state({ redFlags: ['high_accruals'] })
+    )
+
+    expect(evaluation.met).toBe(true)
+    expect(evaluation.conditions[0].current).toBe('insolvency_risk')
+  })
+
+  it('does not meet conditions whose data is missing', () => {
+    const rules = group('OR',
+      { kind: 'condition', type: 'rsi_above', value: 70 },
+      { kind: 'condition', type: 'timing_at_least', value: 50 },
+      { kind: 'condition', type: 'earnings_within_days', value: 7 }
+    )
+
+    expect(AlertRuleEngine.evaluate(rules, context({ rsi: null }), null).met).toBe(false)
+  })
+})
+
+describe('AlertRuleEngine.validate', () => {
+  it('normalises valid rules', () => {
+    const rules = AlertRuleEngine.validate({
+      kind: 'group',
+      operator: 'OR',
+      conditions: [
+        { kind: 'condition', type: 'price_below', value: 150, extra: true },
+        { kind: 'condition', type: 'valuation_enters', levels: ['undervalued', 'undervalued'] },
+      ],
+    })
+
+    expect(rules).toEqual(group('OR',
+      { kind: 'condition', type: 'price_below', value: 150 },
+      { kind: 'condition', type: 'valuation_enters', levels: ['undervalued'] }
+    ))
+  })
+
+  it.each([
+    ['a bare condition', { kind: 'condition', type: 'price_below', value: 1 }, 'Rules must be a group of conditions'],
+    ['an unknown condition', group('AND', { kind: 'condition', type: 'moon' } as any), 'Unknown alert condition "moon"'],
+    ['an empty group', group('AND'), 'Each group needs at least one condition'],
+    ['a bad operator', { kind: 'group', operator: 'XOR', conditions: [] }, 'AND or OR'],
+    ['a missing value', group('AND', { kind: 'condition', type: 'price_below' }), 'Price is below needs a number'],
+    ['a value out of range', group('AND', { kind: 'condition', type: 'rsi_below', value: 101 }), 'RSI is below must be between 0 and 100'],
+    ['an unknown SMA period', group('AND', { kind: 'condition', type: 'price_crosses_above_sma', period: 10 } as any), 'SMA period must be one of'],
+    ['groups nested too deep', group('AND', group('AND', group('AND', group('AND', { kind: 'condition', type: 'golden_cross' })))), 'nested at most 3 deep'],
+  ])('rejects %s', (_, input, message) => {
+    expect(() => AlertRuleEngine.validate(input)).toThrow(AlertRuleError)
+    expect(() => AlertRuleEngine.validate(input)).toThrow(message)
+  })
+
+  it('limits the number of conditions', () => {
+    const conditions = Array.from({ length: 21 }, () => ({ kind: 'condition', type: 'price_below', value: 1 }))
+    expect(() => AlertRuleEngine.validate({ kind: 'group', operator: 'AND', conditions })).toThrow('at most 20 conditions')
+  })
+})
+
+describe('AlertRuleEngine.fromBuyTriggers', () => {
+  it('turns the original score triggers and target price into an AND group', () => {
+    expect(AlertRuleEngine.fromBuyTriggers({ minScore: 70, minTimingScore: 60 }, 150)).toEqual({
+      version: 2,
+      enabled: true,
+      rules: group('AND',
+        { kind: 'condition', type: 'price_below', value: 150 },
+        { kind: 'condition', type: 'score_at_least', value: 70 },
+        { kind: 'condition', type: 'timing_at_least', value: 60 }
+      ),
+    })
+  })
+
+  it('returns rule-based triggers as they are', () => {
+    const triggers = { version: 2, enabled: false, rules: group('OR', { kind: 'condition', type: 'golden_cross' }) }
+    expect(AlertRuleEngine.fromBuyTriggers(triggers, 150)).toBe(triggers)
+  })
+})
+
+describe('AlertRuleEngine.isPriceOnly', () => {
+  it('is true only when every condition can be decided from a price', () => {
+    expect(AlertRuleEngine.isPriceOnly(group('OR',
+      { kind: 'condition', type: 'price_below', value: 90 },
+      group('AND', { kind: 'condition', type: 'move_up_percent', value: 3 })
+    ))).toBe(true)
+    expect(AlertRuleEngine.isPriceOnly(group('AND',
+      { kind: 'condition', type: 'price_below', value: 90 },
+      { kind: 'condition', type: 'rsi_below', value: 30 }
+    ))).toBe(false)
+    expect(AlertRuleEngine.isPriceOnly(group('AND'))).toBe(false)
+  })
+})
+
+describe('describeCondition', () => {
+  it('describes each kind of input', () => {
+    expect(describeCondition({ kind: 'condition', type: 'price_crosses_below', value: 150 })).toBe('Price crosses below $150.00')
+    expect(describeCondition({ kind: 'condition', type: 'price_crosses_above_sma', period: 200 })).toBe('Price crosses above SMA 200')
+    expect(describeCondition({ kind: 'condition', type: 'valuation_enters', levels: ['undervalued', 'highly_undervalued'] }))
+      .toBe('Valuation changes to undervalued or highly undervalued')
+    expect(describeCondition({ kind: 'condition', type: 'earnings_within_days', value: 7 })).toBe('Earnings are within 7 days')
+  })
+})
@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { MarketDataFixtures } from '@/lib/services/market-data/fixtures'
+import { ReplayProvider } from '@/lib/services/market-data/providers/replay-provider'
+
+let directory: string
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'market-data-fixtures-'))
+  process.env.MARKET_DATA_FIXTURES_DIR = directory
+})
+
+afterEach(async () => {
+  delete process.env.MARKET_DATA_FIXTURES_DIR
+  delete process.env.MARKET_DATA_MODE
+  await fs.rm(directory, { recursive: true, force: true })
+})
+
+const quote = {
+  symbol: 'AAPL',
+  price: 190.5,
+  timestamp: new Date('2024-01-02T21:00:00.000Z'),
+  fiscalDate: '2023-09-30',
+}
+
+describe('MarketDataFixtures.getMode', () => {
+  it.each([
+    [undefined, 'live'],
+    ['record', 'record'],
+    ['replay', 'replay'],
+    ['REPLAY', 'live'],
+  ])('reads %s as %s', (value, expected) => {
+    if (value) process.env.MARKET_DATA_MODE = value
+    expect(MarketDataFixtures.getMode()).toBe(expected)
+  })
+})
+
+describe('MarketDataFixtures.through', () => {
+  it('records responses and replays them without calling the vendor', async () => {
+    process.env.MARKET_DATA_MODE = 'record'
+    await expect(MarketDataFixtures.through('quote', 'AAPL', async () => quote)).resolves.toBe(quote)
+
+    process.env.MARKET_DATA_MODE = 'replay'
+    const fetch = jest.fn()
+    const replayed = await MarketDataFixtures.through('quote', 'AAPL', fetch)
+
+    expect(fetch).not.toHaveBeenCalled()
+    expect(replayed).toEqual(quote)
+  })
+
+  it('turns timestamps back into dates and leaves plain dates as text', async () => {
+    await MarketDataFixtures.write('quote', 'AAPL', quote)
+    const replayed = await MarketDataFixtures.read<typeof quote>('quote', 'AAPL')
+
+    expect(replayed!.timestamp).toBeInstanceOf(Date)
+    expect(replayed!.fiscalDate).toBe('2023-09-30')
+  })
+
+  it.each([
+    ['null', null],
+    ['an empty list', []],
+  ])('does not record %s', async (_, data) => {
+    process.env.MARKET_DATA_MODE = 'record'
+    await MarketDataFixtures.through('news', 'AAPL', async () => data)
+
+    await expect(fs.readdir(directory)).resolves.toEqual([])
+  })
+
+  it('does not record in live mode', async () => {
+    await MarketDataFixtures.through('quote', 'AAPL', async () => quote)
+
+    await expect(fs.readdir(directory)).resolves.toEqual([])
+  })
+
+  it('fails a replay of a key that was never recorded', async () => {
+    process.env.MARKET_DATA_MODE = 'replay'
+
+    await expect(MarketDataFixtures.through('quote', 'MSFT', jest.fn()))
+      .rejects.toThrow('No recorded quote fixture for MSFT')
+  })
+
+  it('stores keys under a file-safe, case-insensitive name', async () => {
+    await MarketDataFixtures.write('quote', 'brk/b', quote)
+
+    await expect(fs.readdir(path.join(directory, 'quote'))).resolves.toEqual(['BRK_B.json'])
+    await expect(MarketDataFixtures.read('quote', 'BRK/B')).resolves.toEqual(quote)
+  })
+})
+
+describe('MarketDataFixtures.historicalKey', () => {
+  it('keys period requests by period so they replay on any day', () => {
+    expect(MarketDataFixtures.historicalKey('AAPL', { period: '1y' })).toBe('AAPL.1y.1d')
+  })
+
+  it('keys date ranges by their UTC dates', () => {
+    expect(MarketDataFixtures.historicalKey('AAPL', {
+      startDate: new Date('2024-01-02T00:00:00.000Z'),
+      endDate: new Date('2024-03-01T23:00:00.000Z'),
+      interval: '1h',
+    })).toBe('AAPL.2024-01-02.2024-03-01.1h')
+  })
+})
+
+describe('ReplayProvider', () => {
+  it('serves recorded quotes and history and skips symbols without fixtures', async () => {
+    const bars = [{ date: new Date('2024-01-02T00:00:00.000Z'), close: 185 }]
+    await MarketDataFixtures.write('quote', 'AAPL', quote)
+    await MarketDataFixtures.write('historical', MarketDataFixtures.historicalKey('AAPL', { period: '1mo' }), bars)
+    const provider = new ReplayProvider()
+
+    const quotes = await provider.getQuotes(['AAPL', 'MSFT'])
+    expect(Array.from(quotes.keys())).toEqual(['AAPL'])
+    await expect(provider.getHistorical('AAPL', { period: '1mo' })).resolves.toEqual(bars)
+    await expect(provider.getHistorical('MSFT', { period: '1mo' })).resolves.toEqual([])
+    await expect(provider.getFinancials('AAPL')).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,190 @@
+import { PortfolioImportService } from '@/lib/services/portfolio-import.service'
+import { PortfolioTransaction } from '@/lib/services/portfolio-ledger.service'
+
+const existingBuy = (overrides: Partial<PortfolioTransaction> = {}): PortfolioTransaction => ({
+  id: 'tx-1',
+  user_id: 'user-1',
+  symbol: 'AAPL',
+  transaction_type: 'buy',
+  quantity: 10,
+  price: 150,
+  amount: 1500,
+  fees: 0,
+  split_ratio: null,
+  lot_method: null,
+  lot_selections: null,
+  notes: null,
+  executed_at: '2024-01-10T12:00:00.000Z',
+  created_at: '2024-01-10T12:00:00.000Z',
+  updated_at: '2024-01-10T12:00:00.000Z',
+  ...overrides,
+})
+
+describe('PortfolioImportService.parseCsv', () => {
+  it('splits rows and trims cells', () => {
+    expect(PortfolioImportService.parseCsv('a, b ,c\r\n1,2,3\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ])
+  })
+
+  it('keeps commas, line breaks and escaped quotes inside quoted fields', () => {
+    expect(PortfolioImportService.parseCsv('"Smith, J","say ""hi""","two\nlines"')).toEqual([
+      ['Smith, J', 'say "hi"', 'two\nlines'],
+    ])
+  })
+
+  it('drops a byte-order mark and trailing blank lines', () => {
+    expect(PortfolioImportService.parseCsv('\uFEFFdate,symbol\n2024-01-02,AAPL\n\n,\n')).toEqual([
+      ['date', 'symbol'],
+      ['2024-01-02', 'AAPL'],
+    ])
+  })
+})
+
+describe('PortfolioImportService.buildPreview', () => {
+  it('reads a generic file with the side in the quantity sign', () => {
+    const preview = PortfolioImportService.buildPreview(
+      'Date,Ticker,Qty,Price,Commission\n2024-01-02,aapl,10,150,1\n2024-01-05,AAPL,-4,160,1\n',
+      'generic',
+      []
+    )
+
+    expect(preview.mapping).toEqual({
+      date: 'Date',
+      symbol: 'Ticker',
+      action: undefined,
+      quantity: 'Qty',
+      price: 'Price',
+      fees: 'Commission',
+      amount: undefined,
+    })
+    expect(preview.trades.map(t => [t.symbol, t.type, t.quantity, t.price, t.fees])).toEqual([
+      ['AAPL', 'buy', 10, 150, 1],
+      ['AAPL', 'sell', 4, 160, 1],
+    ])
+    expect(preview.summary).toEqual({ total: 2, new: 2, duplicate: 0, invalid: 0 })
+  })
+
+  it('finds the Fidelity header below its preamble and sums fee columns', () => {
+    const csv = [
+      'Brokerage',
+      '',
+      'Run Date,Action,Symbol,Quantity,Price ($),Commission ($),Fees ($),Amount ($)',
+      '01/16/2024,"YOU BOUGHT APPLE INC (AAPL) (Cash)",AAPL,10,"$1,185.50",4.95,0.05,"-11,860.50"',
+      '01/20/2024,DIVIDEND RECEIVED APPLE INC,AAPL,,,,,24.00',
+      '01/21/2024,ELECTRONIC FUNDS TRANSFER RECEIVED,,,,,,500.00',
+      '"The data and information in this spreadsheet is provided to you solely for your use"',
+    ].join('\n')
+
+    const preview = PortfolioImportService.buildPreview(csv, 'fidelity', [])
+
+    expect(preview.mapping.fees).toBe('Commission ($) + Fees ($)')
+    expect(preview.trades[0]).toMatchObject({ row: 4, type: 'buy', quantity: 10, price: 1185.5, fees: 5 })
+    expect(preview.trades[1]).toMatchObject({ row: 5, type: 'dividend', amount: 24 })
+    expect(preview.skipped).toEqual([{ row: 6, reason: 'Not a trade: ELECTRONIC FUNDS TRANSFER RECEIVED' }])
+  })
+
+  it('reads Schwab "as of" dates and skips charges without a symbol', () => {
+    const preview = PortfolioImportService.buildPreview(
+      'Date,Action,Symbol,Description,Quantity,Price,Fees & Comm,Amount\n' +
+      '01/15/2024 as of 01/12/2024,Sell,MSFT,MICROSOFT,5,$400.00,$0.65,"$1,999.35"\n' +
+      '01/16/2024,Service Fee,,,,,,($25.00)\n',
+      'schwab',
+      [existingBuy({ symbol: 'MSFT' })]
+    )
+
+    expect(preview.trades[0]).toMatchObject({ type: 'sell', executedAt: '2024-01-15T12:00:00.000Z', fees: 0.65 })
+    expect(preview.skipped).toEqual([{ row: 3, reason: 'No symbol for Service Fee' }])
+  })
+
+  it('classifies Robinhood transaction codes and derives a missing price', () => {
+    const preview = PortfolioImportService.buildPreview(
+      'Activity Date,Process Date,Instrument,Trans Code,Quantity,Price,Amount\n' +
+      '1/5/2024,1/8/2024,TSLA,Buy,2,,($480.00)\n' +
+      '1/9/2024,1/9/2024,TSLA,CDIV,,,$1.10\n' +
+      '1/10/2024,1/10/2024,TSLA,SPL,2,,\n',
+      'robinhood',
+      []
+    )
+
+    expect(preview.trades.map(t => [t.type, t.price, t.amount, t.status])).toEqual([
+      ['buy', 240, undefined, 'new'],
+      ['dividend', 0, 1.1, 'new'],
+      ['split', 0, undefined, 'invalid'],
+    ])
+  })
+
+  it('reads compact Interactive Brokers dates', () => {
+    const preview = PortfolioImportService.buildPreview(
+      'TradeDate,Symbol,Buy/Sell,Quantity,TradePrice,IBCommission\n20240103,NVDA,BUY,3,480.25,-1.00\n',
+      'ibkr',
+      []
+    )
+
+    expect(preview.trades[0]).toMatchObject({ executedAt: '2024-01-03T12:00:00.000Z', price: 480.25, fees: 1 })
+  })
+
+  it('uses a custom column mapping', () => {
+    const preview = PortfolioImportService.buildPreview(
+      'When,Stock,Side,Shares,Cost\n2024-02-01,AMZN,bought,1,170\n',
+      'generic',
+      [],
+      { date: 'When', symbol: 'Stock', action: 'Side', quantity: 'Shares', price: 'Cost' }
+    )
+
+    expect(preview.trades[0]).toMatchObject({ symbol: 'AMZN', type: 'buy', quantity: 1, price: 170 })
+  })
+
+  it('flags trades already in the ledger once per existing fill', () => {
+    const preview = PortfolioImportService.buildPreview(
+      'Date,Symbol,Action,Quantity,Price\n2024-01-10,AAPL,Buy,10,150\n2024-01-10,AAPL,Buy,10,150\n',
+      'generic',
+      [existingBuy()]
+    )
+
+    expect(preview.trades.map(t => t.status)).toEqual(['duplicate', 'new'])
+  })
+
+  it('rejects sells of shares not held at the time', () => {
+    const preview = PortfolioImportService.buildPreview(
+      'Date,Symbol,Action,Quantity,Price\n2024-01-05,AAPL,Sell,5,140\n2024-01-12,AAPL,Sell,5,160\n2024-01-15,AAPL,Sell,6,165\n',
+      'generic',
+      [existingBuy()]
+    )
+
+    expect(preview.trades.map(t => t.status)).toEqual(['invalid', 'new', 'invalid'])
+    expect(preview.trades[0].error).toBe('Sells more shares than held on this date')
+  })
+
+  it.each([
+    ['oldest first', 'Date,Symbol,Action,Quantity,Price\n2024-01-02,AAPL,Buy,10,150\n2024-01-02,AAPL,Sell,10,155\n'],
+    ['newest first', 'Date,Symbol,Action,Quantity,Price\n2024-01-03,AAPL,Buy,1,150\n2024-01-02,AAPL,Sell,10,155\n2024-01-02,AAPL,Buy,10,150\n'],
+  ])('replays a same-day buy before its sell in %s files', (_, csv) => {
+    const preview = PortfolioImportService.buildPreview(csv, 'generic', [])
+    const buy = preview.trades.find(t => t.type === 'buy' && t.quantity === 10)!
+    const sell = preview.trades.find(t => t.type === 'sell')!
+
+    expect(new Date(buy.executedAt).getTime()).toBeLessThan(new Date(sell.executedAt).getTime())
+    expect(sell.status).toBe('new')
+  })
+
+  it('leaves out excluded rows', () => {
+    const preview = PortfolioImportService.buildPreview(
+      'Date,Symbol,Action,Quantity,Price\n2024-01-02,AAPL,Buy,10,150\n2024-01-03,MSFT,Buy,1,400\n',
+      'generic',
+      [],
+      undefined,
+      [2]
+    )
+
+    expect(preview.trades.map(t => t.symbol)).toEqual(['MSFT'])
+  })
+
+  it.each([
+    ['an empty file', '', 'CSV file is empty'],
+    ['a file without the required columns', 'Name,Value\nfoo,1\n', 'Could not find required columns in CSV'],
+  ])('rejects %s', (_, csv, message) => {
+    expect(() => PortfolioImportService.buildPreview(csv, 'generic', [])).toThrow(message)
+  })
+})
@@ -0,0 +1,172 @@
+import { PortfolioLedgerService, PortfolioTransaction } from '@/lib/services/portfolio-ledger.service'
+
+let sequence = 0
+
+const tx = (overrides: Partial<PortfolioTransaction>): PortfolioTransaction => {
+  sequence++
+  return {
+    id: `tx-${sequence}`,
+    user_id: 'user-1',
+    symbol: 'AAPL',
+    transaction_type: 'buy',
+    quantity: 0,
+    price: 0,
+    amount: 0,
+    fees: 0,
+    split_ratio: null,
+    lot_method: null,
+    lot_selections: null,
+    notes: null,
+    executed_at: '2024-01-01T00:00:00.000Z',
+    created_at: new Date(Date.UTC(2024, 0, 1, 0, 0, sequence)).toISOString(),
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const buy = (id: string, quantity: number, price: number, executedAt: string, fees = 0) =>
+  tx({ id, transaction_type: 'buy', quantity, price, fees, executed_at: executedAt })
+
+const sell = (quantity: number, price: number, executedAt: string, overrides: Partial<PortfolioTransaction> = {}) =>
+  tx({ transaction_type: 'sell', quantity, price, executed_at: executedAt, ...overrides })
+
+// Three lots at rising then falling cost
+const lots = () => [
+  buy('lot-a', 10, 100, '2022-01-10T15:00:00.000Z'),
+  buy('lot-b', 10, 150, '2023-01-10T15:00:00.000Z'),
+  buy('lot-c', 10, 120, '2023-06-10T15:00:00.000Z'),
+]
+
+describe('PortfolioLedgerService.derivePositions', () => {
+  it.each([
+    ['fifo', ['lot-a']],
+    ['lifo', ['lot-c']],
+    ['highest_cost', ['lot-b']],
+  ] as const)('matches a %s sell against the right lot', (method, expected) => {
+    const [result] = PortfolioLedgerService.derivePositions([
+      ...lots(),
+      sell(10, 200, '2023-12-01T15:00:00.000Z', { lot_method: method }),
+    ])
+
+    expect(result.realizedLots.map(r => r.lotId)).toEqual(expected)
+    expect(result.quantity).toBe(20)
+  })
+
+  it('defaults to FIFO and spans lots when one is not enough', () => {
+    const [result] = PortfolioLedgerService.derivePositions([
+      ...lots(),
+      sell(15, 200, '2023-12-01T15:00:00.000Z'),
+    ])
+
+    expect(result.realizedLots.map(r => [r.lotId, r.quantity])).toEqual([['lot-a', 10], ['lot-b', 5]])
+    expect(result.realizedGain).toBeCloseTo(10 * 100 + 5 * 50)
+    expect(result.lots.map(l => [l.id, l.quantity])).toEqual([['lot-b', 5], ['lot-c', 10]])
+    expect(result.costBasis).toBeCloseTo(5 * 150 + 10 * 120)
+  })
+
+  it('takes specific lots first and falls back to FIFO for the rest', () => {
+    const [result] = PortfolioLedgerService.derivePositions([
+      ...lots(),
+      sell(12, 200, '2023-12-01T15:00:00.000Z', {
+        lot_method: 'specific',
+        lot_selections: [{ lotId: 'lot-c', quantity: 8 }],
+      }),
+    ])
+
+    expect(result.realizedLots.map(r => [r.lotId, r.quantity])).toEqual([['lot-c', 8], ['lot-a', 4]])
+  })
+
+  it('includes buy fees in cost and spreads sell fees across matched lots', () => {
+    const [result] = PortfolioLedgerService.derivePositions([
+      buy('lot-a', 10, 100, '2023-01-10T15:00:00.000Z', 10),
+      buy('lot-b', 10, 110, '2023-02-10T15:00:00.000Z', 10),
+      sell(20, 120, '2023-03-10T15:00:00.000Z', { fees: 20 }),
+    ])
+
+    expect(result.realizedLots.map(r => r.proceeds)).toEqual([1190, 1190])
+    expect(result.realizedLots.map(r => r.costBasis)).toEqual([1010, 1110])
+    expect(result.realizedGain).toBeCloseTo(260)
+    expect(result.totalFees).toBe(40)
+    expect(result.quantity).toBe(0)
+    expect(result.openedAt).toBeNull()
+  })
+
+  it('adjusts share counts on a split without changing cost or dates', () => {
+    const [result] = PortfolioLedgerService.derivePositions([
+      buy('lot-a', 10, 100, '2022-01-10T15:00:00.000Z'),
+      tx({ transaction_type: 'split', split_ratio: 4, executed_at: '2022-06-01T15:00:00.000Z' }),
+      sell(20, 30, '2023-06-01T15:00:00.000Z'),
+    ])
+
+    expect(result.realizedLots[0]).toMatchObject({ quantity: 20, costBasis: 500, proceeds: 600, term: 'long_term' })
+    expect(result.lots[0]).toMatchObject({ quantity: 20, costBasis: 500, costPerShare: 25, acquiredAt: '2022-01-10T15:00:00.000Z' })
+  })
+
+  it('replays transactions in execution order whatever order they arrive in', () => {
+    const transactions = [
+      sell(5, 200, '2023-12-01T15:00:00.000Z'),
+      ...lots().reverse(),
+    ]
+
+    expect(PortfolioLedgerService.derivePositions(transactions)[0].realizedLots[0].lotId).toBe('lot-a')
+  })
+
+  it('charges the fee of a sell with nothing to match', () => {
+    const [result] = PortfolioLedgerService.derivePositions([
+      sell(5, 200, '2023-12-01T15:00:00.000Z', { fees: 7 }),
+    ])
+
+    expect(result.realizedLots).toEqual([])
+    expect(result.realizedGain).toBe(-7)
+  })
+
+  it('tracks dividends and standalone fees', () => {
+    const [result] = PortfolioLedgerService.derivePositions([
+      buy('lot-a', 10, 100, '2023-01-10T15:00:00.000Z'),
+      tx({ transaction_type: 'dividend', amount: 12.5, executed_at: '2023-03-01T15:00:00.000Z' }),
+      tx({ transaction_type: 'fee', amount: 3, executed_at: '2023-04-01T15:00:00.000Z' }),
+    ])
+
+    expect(result.dividendIncome).toBe(12.5)
+    expect(result.realizedGain).toBe(-3)
+    expect(result.totalFees).toBe(3)
+    expect(result.transactionCount).toBe(3)
+  })
+})
+
+describe('PortfolioLedgerService.getHoldingTerm', () => {
+  it.each([
+    ['the anniversary', '2023-03-15T14:00:00.000Z', '2024-03-15T20:00:00.000Z', 'short_term'],
+    ['the day after the anniversary', '2023-03-15T14:00:00.000Z', '2024-03-16T00:30:00.000Z', 'long_term'],
+    ['a Feb 29 purchase sold on Feb 28', '2024-02-29T15:00:00.000Z', '2025-02-28T15:00:00.000Z', 'short_term'],
+    ['a Feb 29 purchase sold on Mar 1', '2024-02-29T15:00:00.000Z', '2025-03-01T15:00:00.000Z', 'long_term'],
+    ['a sale within the year', '2023-03-15T14:00:00.000Z', '2023-09-15T14:00:00.000Z', 'short_term'],
+  ])('treats %s correctly', (_, acquiredAt, disposedAt, expected) => {
+    expect(PortfolioLedgerService.getHoldingTerm(acquiredAt, disposedAt)).toBe(expected)
+  })
+})
+
+describe('PortfolioLedgerService.getRealizedGainsReport', () => {
+  const positions = () => PortfolioLedgerService.derivePositions([
+    buy('lot-a', 10, 100, '2021-06-01T15:00:00.000Z'),
+    buy('lot-b', 10, 100, '2023-06-01T15:00:00.000Z'),
+    sell(10, 150, '2023-01-01T02:00:00.000Z'),
+    sell(10, 90, '2024-01-01T00:30:00.000Z'),
+  ])
+
+  it('splits gains by holding period', () => {
+    const report = PortfolioLedgerService.getRealizedGainsReport(positions())
+
+    expect(report.year).toBeNull()
+    expect(report.longTerm).toEqual({ proceeds: 1500, costBasis: 1000, gain: 500 })
+    expect(report.shortTerm).toEqual({ proceeds: 900, costBasis: 1000, gain: -100 })
+  })
+
+  it('filters by the UTC year of the sale', () => {
+    const report = PortfolioLedgerService.getRealizedGainsReport(positions(), 2023)
+
+    expect(report.year).toBe(2023)
+    expect(report.lots.map(r => r.lotId)).toEqual(['lot-a'])
+    expect(PortfolioLedgerService.getRealizedGainsReport(positions(), 2024).lots.map(r => r.lotId)).toEqual(['lot-b'])
+  })
+})
@@ -0,0 +1,162 @@
+import { PortfolioPerformanceService, PortfolioValuation } from '@/lib/services/portfolio-performance.service'
+import { PortfolioTransaction } from '@/lib/services/portfolio-ledger.service'
+
+const now = new Date('2024-05-15T12:00:00.000Z')
+
+const valuation = (date: string, totalValue: number, totalCost = totalValue): PortfolioValuation =>
+  ({ date, totalValue, totalCost, positionsCount: 1 })
+
+const tx = (
+  type: PortfolioTransaction['transaction_type'],
+  amount: number,
+  executedAt: string,
+  fees = 0
+): PortfolioTransaction => ({
+  id: `${type}-${executedAt}`,
+  user_id: 'user-1',
+  symbol: 'AAPL',
+  transaction_type: type,
+  quantity: 0,
+  price: 0,
+  amount,
+  fees,
+  split_ratio: null,
+  lot_method: null,
+  lot_selections: null,
+  notes: null,
+  executed_at: executedAt,
+  created_at: executedAt,
+  updated_at: executedAt,
+})
+
+describe('PortfolioPerformanceService.calculatePerformance', () => {
+  it('compounds returns and tracks the worst drawdown', () => {
+    const { series, metrics } = PortfolioPerformanceService.calculatePerformance(
+      [valuation('2024-05-01', 100), valuation('2024-05-02', 110), valuation('2024-05-03', 99)],
+      [],
+      'ALL',
+      now
+    )
+
+    expect(series.map(p => p.cumulativeReturn)).toEqual([0, expect.closeTo(10), expect.closeTo(-1)])
+    expect(series[2].drawdown).toBeCloseTo(-10)
+    expect(metrics.timeWeightedReturn).toBeCloseTo(-1)
+    expect(metrics.maxDrawdown).toBeCloseTo(-10)
+    expect(metrics.moneyWeightedReturn).toBeCloseTo(-1)
+    expect(metrics.annualized).toBeNull()
+  })
+
+  it('does not count deposits as gains', () => {
+    const { series, metrics } = PortfolioPerformanceService.calculatePerformance(
+      [valuation('2024-05-01', 1000), valuation('2024-05-02', 2000), valuation('2024-05-03', 2200)],
+      [tx('buy', 995, '2024-05-02T14:30:00.000Z', 5)],
+      'ALL',
+      now
+    )
+
+    expect(series[1]).toMatchObject({ netCashFlow: 1000, cumulativeReturn: 0 })
+    expect(metrics.netCashFlow).toBe(1000)
+    expect(metrics.timeWeightedReturn).toBeCloseTo(10)
+  })
+
+  it('treats sell proceeds net of fees and dividends as money taken out', () => {
+    const { series } = PortfolioPerformanceService.calculatePerformance(
+      [valuation('2024-05-01', 1000), valuation('2024-05-02', 600), valuation('2024-05-03', 600)],
+      [
+        tx('sell', 410, '2024-05-02T14:30:00.000Z', 10),
+        tx('dividend', 6, '2024-05-03T14:30:00.000Z'),
+        tx('split', 0, '2024-05-03T15:30:00.000Z'),
+      ],
+      'ALL',
+      now
+    )
+
+    expect(series.map(p => p.netCashFlow)).toEqual([0, -400, -6])
+    expect(series[1].cumulativeReturn).toBeCloseTo(0)
+    // The dividend is taken out at the start of the day it was paid
+    expect(series[2].cumulativeReturn).toBeCloseTo((600 / 594 - 1) * 100)
+  })
+
+  it('ignores flows on or before the first point in the window', () => {
+    const { metrics } = PortfolioPerformanceService.calculatePerformance(
+      [valuation('2024-03-01', 500), valuation('2024-05-01', 1000), valuation('2024-05-10', 1100)],
+      [tx('buy', 500, '2024-04-20T14:30:00.000Z'), tx('buy', 200, '2024-05-01T14:30:00.000Z')],
+      '1M',
+      now
+    )
+
+    expect(metrics.startDate).toBe('2024-05-01')
+    expect(metrics.startValue).toBe(1000)
+    expect(metrics.netCashFlow).toBe(0)
+    expect(metrics.timeWeightedReturn).toBeCloseTo(10)
+  })
+
+  it('separates money-weighted from time-weighted returns when deposits are badly timed', () => {
+    const { metrics } = PortfolioPerformanceService.calculatePerformance(
+      [valuation('2024-01-01', 100), valuation('2024-02-01', 200), valuation('2024-02-02', 400), valuation('2024-03-01', 200)],
+      // A deposit at the peak, followed by a 50% fall
+      [tx('buy', 200, '2024-02-02T14:30:00.000Z')],
+      'ALL',
+      now
+    )
+
+    expect(metrics.timeWeightedReturn).toBeCloseTo(0)
+    expect(metrics.moneyWeightedReturn).not.toBeNull()
+    expect(metrics.moneyWeightedReturn!).toBeLessThan(-30)
+  })
+
+  it('annualizes windows of at least a year and solves XIRR', () => {
+    const { metrics } = PortfolioPerformanceService.calculatePerformance(
+      [valuation('2023-01-01', 1000), valuation('2024-01-01', 1100)],
+      [],
+      'ALL',
+      now
+    )
+
+    expect(metrics.moneyWeightedReturn).toBeCloseTo(10, 4)
+    expect(metrics.annualized).not.toBeNull()
+    expect(metrics.annualized!.timeWeighted).toBeCloseTo(10, 4)
+    expect(metrics.annualized!.moneyWeighted).toBeCloseTo(10, 4)
+  })
+
+  it('solves XIRR with a mid-period deposit', () => {
+    // 1000 in for the year and 1000 more for the last 182 days, both earning 10% a year
+    const midValue = 1000 * Math.pow(1.1, 183 / 365) + 1000
+    const endValue = 1100 + 1000 * Math.pow(1.1, 182 / 365)
+    const { metrics } = PortfolioPerformanceService.calculatePerformance(
+      [valuation('2023-01-01', 1000), valuation('2023-07-03', midValue), valuation('2024-01-01', endValue)],
+      [tx('buy', 1000, '2023-07-03T14:30:00.000Z')],
+      'ALL',
+      now
+    )
+
+    expect(metrics.annualized!.moneyWeighted).toBeCloseTo(10, 4)
+  })
+
+  it('returns an empty series when there are no snapshots in the window', () => {
+    const { series, metrics } = PortfolioPerformanceService.calculatePerformance(
+      [valuation('2023-01-01', 1000)],
+      [],
+      '1M',
+      now
+    )
+
+    expect(series).toEqual([])
+    expect(metrics).toMatchObject({ startDate: null, timeWeightedReturn: 0, moneyWeightedReturn: null })
+  })
+})
+
+describe('PortfolioPerformanceService.getWindowStart', () => {
+  it.each([
+    ['1M', '2024-04-15'],
+    ['3M', '2024-02-15'],
+    ['YTD', '2024-01-01'],
+    ['1Y', '2023-05-15'],
+  ] as const)('starts %s on %s', (window, expected) => {
+    expect(PortfolioPerformanceService.getWindowStart(window, now)).toBe(expected)
+  })
+
+  it('has no start for all history', () => {
+    expect(PortfolioPerformanceService.getWindowStart('ALL', now)).toBeNull()
+  })
+})
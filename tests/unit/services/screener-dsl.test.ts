@@ -0,0 +1,116 @@
+import {
+  formatScreen,
+  matchesFilter,
+  parseScreen,
+  ScreenerQueryError,
+  validateFilters,
+} from '@/lib/services/screener/dsl'
+
+describe('parseScreen', () => {
+  it('parses conditions joined with AND', () => {
+    expect(parseScreen('roic > 15% AND red_flags = 0 AND rsi <= 40')).toEqual([
+      { field: 'roic', operator: '>', value: 15 },
+      { field: 'red_flags', operator: '=', value: 0 },
+      { field: 'rsi', operator: '<=', value: 40 },
+    ])
+  })
+
+  it('applies K/M/B/T multipliers', () => {
+    expect(parseScreen('market_cap > 10B AND volume >= 1.5m')).toEqual([
+      { field: 'market_cap', operator: '>', value: 10e9 },
+      { field: 'volume', operator: '>=', value: 1.5e6 },
+    ])
+  })
+
+  it('parses IN and NOT IN lists and lowercases enum values', () => {
+    expect(parseScreen('valuation_level IN (Undervalued, highly_undervalued)')).toEqual([
+      { field: 'valuation_level', operator: 'in', value: ['undervalued', 'highly_undervalued'] },
+    ])
+    expect(parseScreen('recommendation NOT IN (sell, strong_sell)')).toEqual([
+      { field: 'recommendation', operator: 'not_in', value: ['sell', 'strong_sell'] },
+    ])
+  })
+
+  it('parses HAS and NOT HAS on list fields', () => {
+    expect(parseScreen('red_flag NOT HAS insolvency_risk AND universe HAS sp500')).toEqual([
+      { field: 'red_flag', operator: 'not_has', value: 'insolvency_risk' },
+      { field: 'universe', operator: 'has', value: 'sp500' },
+    ])
+  })
+
+  it('accepts quoted text and == for equality', () => {
+    expect(parseScreen('sector == "Consumer Discretionary"')).toEqual([
+      { field: 'sector', operator: '=', value: 'Consumer Discretionary' },
+    ])
+  })
+
+  it('treats empty text as no filters', () => {
+    expect(parseScreen('   ')).toEqual([])
+  })
+
+  it.each([
+    ['unknown field', 'moonshot > 1', 'Unknown field "moonshot"'],
+    ['missing operator', 'roic', 'Expected an operator after roic'],
+    ['missing value', 'roic >', 'Expected a value after roic'],
+    ['OR instead of AND', 'roic > 1 OR rsi < 30', 'Conditions must be joined with AND'],
+    ['text compared with a number field', 'roic > high', 'roic must be compared with a number'],
+    ['comparison on a list field', 'red_flag = insolvency_risk', 'red_flag supports HAS, NOT HAS'],
+    ['unknown enum option', 'valuation_level = cheap', 'cheap is not a valid valuation_level'],
+    ['unclosed list', 'sector IN (Technology', 'Expected , or ) in the sector list'],
+    ['stray character', 'roic > 1 AND ! rsi', 'Unexpected character at position 14: !'],
+    ['condition starting with a value', '"roic" > 1', 'Expected a field name but found "roic"'],
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parseScreen(text)).toThrow(ScreenerQueryError)
+    expect(() => parseScreen(text)).toThrow(message)
+  })
+})
+
+describe('validateFilters', () => {
+  it('rejects input that is not a list', () => {
+    expect(() => validateFilters({ field: 'roic' })).toThrow('Filters must be a list')
+  })
+
+  it('limits the number of conditions', () => {
+    const filters = Array.from({ length: 26 }, () => ({ field: 'roic', operator: '>', value: 1 }))
+    expect(() => validateFilters(filters)).toThrow('at most 25 conditions')
+  })
+
+  it('requires at least one value for IN', () => {
+    expect(() => validateFilters([{ field: 'sector', operator: 'in', value: [] }])).toThrow('needs at least one value')
+  })
+})
+
+describe('formatScreen', () => {
+  it('renders filters that parse back to the same filters', () => {
+    const text = 'roic > 15 AND sector IN (Technology, "Consumer Discretionary") AND red_flag NOT HAS insolvency_risk'
+    const filters = parseScreen(text)
+
+    expect(formatScreen(filters)).toBe(text)
+    expect(parseScreen(formatScreen(filters))).toEqual(filters)
+  })
+})
+
+describe('matchesFilter', () => {
+  it('compares numbers', () => {
+    expect(matchesFilter(20, { field: 'roic', operator: '>', value: 15 })).toBe(true)
+    expect(matchesFilter(15, { field: 'roic', operator: '>', value: 15 })).toBe(false)
+    expect(matchesFilter(15, { field: 'roic', operator: '>=', value: 15 })).toBe(true)
+  })
+
+  it('never matches a missing value', () => {
+    expect(matchesFilter(null, { field: 'roic', operator: '<', value: 15 })).toBe(false)
+    expect(matchesFilter(undefined, { field: 'roic', operator: '!=', value: 15 })).toBe(false)
+  })
+
+  it('compares text without case', () => {
+    expect(matchesFilter('Technology', { field: 'sector', operator: '=', value: 'technology' })).toBe(true)
+    expect(matchesFilter('Energy', { field: 'sector', operator: 'not_in', value: ['technology', 'utilities'] })).toBe(true)
+  })
+
+  it('checks list membership', () => {
+    const flags = ['insolvency_risk', 'high_accruals']
+    expect(matchesFilter(flags, { field: 'red_flag', operator: 'has', value: 'high_accruals' })).toBe(true)
+    expect(matchesFilter(flags, { field: 'red_flag', operator: 'not_has', value: 'high_accruals' })).toBe(false)
+    expect(matchesFilter([], { field: 'red_flag', operator: 'not_has', value: 'high_accruals' })).toBe(true)
+  })
+})
@@ -0,0 +1,33 @@
+import { ExportColumn, toCsv } from '@/lib/utils/export-formats'
+
+const columns: ExportColumn[] = [
+  { key: 'symbol', header: 'Symbol' },
+  { key: 'notes', header: 'Notes' },
+  { key: 'gain', header: 'Gain' },
+]
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsv(columns, [{ symbol: 'AAPL', notes: 'Bought "dip", held\nlong', gain: 12.5 }]))
+      .toBe('Symbol,Notes,Gain\r\nAAPL,"Bought ""dip"", held\nlong",12.5\r\n')
+  })
+
+  it('writes missing values as empty cells', () => {
+    expect(toCsv(columns, [{ symbol: 'AAPL', notes: null }])).toBe('Symbol,Notes,Gain\r\nAAPL,,\r\n')
+  })
+
+  it.each([
+    ['=HYPERLINK("http://example.com")', `"'=HYPERLINK(""http://example.com"")"`],
+    ['+1+2', "'+1+2"],
+    ['-2+3', "'-2+3"],
+    ['@SUM(A1:A2)', "'@SUM(A1:A2)"],
+    ['\tcmd', "'\tcmd"],
+  ])('neutralises text that starts a formula: %s', (notes, expected) => {
+    expect(toCsv(columns, [{ symbol: 'AAPL', notes, gain: 1 }]))
+      .toBe(`Symbol,Notes,Gain\r\nAAPL,${expected},1\r\n`)
+  })
+
+  it('writes negative numbers as they are', () => {
+    expect(toCsv(columns, [{ symbol: 'AAPL', notes: '', gain: -42.1 }])).toBe('Symbol,Notes,Gain\r\nAAPL,,-42.1\r\n')
+  })
+})